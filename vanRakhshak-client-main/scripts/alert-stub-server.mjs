@@ -0,0 +1,139 @@
+// Local stand-in for the fire-alerts service, for tests and offline development.
+//
+//   npm run stub:server
+//
+// Then point the app at it, e.g. in .env.local:
+//   VITE_API_BASE_URL=http://localhost:8787/api/fire-alerts
+//   VITE_ALERT_STREAM_URL=http://localhost:8787/api/fire-alerts/stream
+//
+// Endpoints
+//   GET  /api/fire-alerts/getAlert     { success, devices }
+//   GET  /api/fire-alerts/getAlert/:id { success, device } or 404
+//   POST /api/fire-alerts/createAlert  upsert a device document
+//   GET  /api/fire-alerts/stream       SSE: a { devices } snapshot on connect and
+//                                      every PUSH_INTERVAL_MS, { device } on changes
+//   POST /control/device               test hook: merge fields into a device, e.g.
+//                                      { "deviceId": "STUB-001", "isfire": true, "temp": 68 }
+import http from 'node:http';
+
+const PORT = Number(process.env.STUB_PORT ?? 8787);
+const PUSH_INTERVAL_MS = Number(process.env.PUSH_INTERVAL_MS ?? 3000);
+const PREFIX = '/api/fire-alerts';
+
+const devices = new Map(
+  [
+    { deviceId: 'STUB-001', latitude: 30.3892, longitude: 78.4651, temp: 27, humidity: 58, smoke: 18 },
+    { deviceId: 'STUB-002', latitude: 30.3851, longitude: 78.4589, temp: 25, humidity: 63, smoke: 12 },
+    { deviceId: 'STUB-003', latitude: 30.3918, longitude: 78.4577, temp: 29, humidity: 49, smoke: 26 },
+  ].map(device => [
+    device.deviceId,
+    { _id: `stub-${device.deviceId}`, isfire: false, lastUpdate: new Date().toISOString(), ...device },
+  ])
+);
+
+const streams = new Set();
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const broadcast = payload => {
+  const frame = `data: ${JSON.stringify(payload)}\n\n`;
+  streams.forEach(res => res.write(frame));
+};
+
+const snapshot = () => ({ devices: Array.from(devices.values()) });
+
+const upsertDevice = fields => {
+  const deviceId = fields.deviceId ?? `STUB-${String(devices.size + 1).padStart(3, '0')}`;
+  const device = {
+    _id: `stub-${deviceId}`,
+    ...devices.get(deviceId),
+    ...fields,
+    deviceId,
+    lastUpdate: new Date().toISOString(),
+  };
+  devices.set(deviceId, device);
+  broadcast({ device });
+  return device;
+};
+
+// Small random drift so the stream carries fresh readings
+setInterval(() => {
+  devices.forEach(device => {
+    device.temp = Number((device.temp + (Math.random() - 0.5)).toFixed(1));
+    device.humidity = Number(Math.min(100, Math.max(5, device.humidity + (Math.random() - 0.5) * 2)).toFixed(1));
+    device.smoke = Math.max(0, Math.round(device.smoke + (Math.random() - 0.5) * 4));
+    device.lastUpdate = new Date().toISOString();
+  });
+  broadcast(snapshot());
+}, PUSH_INTERVAL_MS);
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  try {
+    if (req.method === 'GET' && pathname === `${PREFIX}/getAlert`) {
+      return send(res, 200, { success: true, ...snapshot() });
+    }
+
+    if (req.method === 'GET' && pathname.startsWith(`${PREFIX}/getAlert/`)) {
+      const deviceId = decodeURIComponent(pathname.slice(`${PREFIX}/getAlert/`.length));
+      const device = devices.get(deviceId);
+      return device
+        ? send(res, 200, { success: true, device })
+        : send(res, 404, { success: false, message: `Device ${deviceId} not found` });
+    }
+
+    if (req.method === 'POST' && pathname === `${PREFIX}/createAlert`) {
+      return send(res, 201, { success: true, device: upsertDevice(await readBody(req)) });
+    }
+
+    if (req.method === 'POST' && pathname === '/control/device') {
+      return send(res, 200, { success: true, device: upsertDevice(await readBody(req)) });
+    }
+
+    if (req.method === 'GET' && pathname === `${PREFIX}/stream`) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'Access-Control-Allow-Origin': '*',
+      });
+      res.write(`data: ${JSON.stringify(snapshot())}\n\n`);
+      streams.add(res);
+      req.on('close', () => streams.delete(res));
+      return;
+    }
+
+    send(res, 404, { success: false, message: `No route for ${req.method} ${pathname}` });
+  } catch (error) {
+    send(res, 400, { success: false, message: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Fire-alert stub server listening on http://localhost:${PORT}${PREFIX}`);
+});
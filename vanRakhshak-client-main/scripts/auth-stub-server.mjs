@@ -0,0 +1,107 @@
+// Local stand-in for the identity provider, for tests and offline development.
+//
+//   npm run stub:auth
+//
+// Then point the app at it, e.g. in .env.local:
+//   VITE_AUTH_PROVIDER=http
+//   VITE_AUTH_URL=http://localhost:8788/auth
+//
+// Accounts: viewer, ranger, operator and admin; the password is the username
+// (mirrors STUB_ACCOUNTS in src/api/auth.ts).
+//
+// Endpoints
+//   POST /auth/login   { username, password } -> { token, expiresAt, user } or 401
+//   POST /auth/logout  Authorization: Bearer <token>; revokes the token
+//   GET  /auth/me      Authorization: Bearer <token> -> { user } or 401
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.AUTH_STUB_PORT ?? 8788);
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_MS ?? 8 * 60 * 60 * 1000);
+const PREFIX = '/auth';
+
+const accounts = [
+  { id: 'stub-viewer', username: 'viewer', password: 'viewer', name: 'Guest Viewer', role: 'viewer' },
+  { id: 'stub-ranger', username: 'ranger', password: 'ranger', name: 'Field Ranger', role: 'ranger' },
+  { id: 'stub-operator', username: 'operator', password: 'operator', name: 'Control Room', role: 'operator' },
+  { id: 'stub-admin', username: 'admin', password: 'admin', name: 'Administrator', role: 'admin' },
+];
+
+// token -> { user, expiresAt }
+const sessions = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sessionFor = req => {
+  const token = (req.headers.authorization ?? '').replace(/^Bearer\s+/i, '');
+  const session = sessions.get(token);
+  if (!session) return null;
+  if (Date.parse(session.expiresAt) <= Date.now()) {
+    sessions.delete(token);
+    return null;
+  }
+  return { token, ...session };
+};
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  try {
+    if (req.method === 'POST' && pathname === `${PREFIX}/login`) {
+      const { username = '', password = '' } = await readBody(req);
+      const account = accounts.find(
+        item => item.username === String(username).trim().toLowerCase() && item.password === password
+      );
+      if (!account) return send(res, 401, { message: 'Invalid username or password' });
+
+      const { password: _password, ...user } = account;
+      const token = randomUUID();
+      const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+      sessions.set(token, { user, expiresAt });
+      return send(res, 200, { token, expiresAt, user });
+    }
+
+    if (req.method === 'POST' && pathname === `${PREFIX}/logout`) {
+      const session = sessionFor(req);
+      if (session) sessions.delete(session.token);
+      return send(res, 204);
+    }
+
+    if (req.method === 'GET' && pathname === `${PREFIX}/me`) {
+      const session = sessionFor(req);
+      return session ? send(res, 200, { user: session.user }) : send(res, 401, { message: 'Not signed in' });
+    }
+
+    send(res, 404, { message: `No route for ${req.method} ${pathname}` });
+  } catch (error) {
+    send(res, 400, { message: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Identity stub server listening on http://localhost:${PORT}${PREFIX}`);
+});
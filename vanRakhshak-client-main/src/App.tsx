@@ -3,8 +3,10 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { useEffect } from "react";
+import { BrowserRouter, Routes, Route, Outlet } from "react-router-dom";
 import { AppSidebar } from "@/components/AppSidebar";
+import ProtectedRoute from "@/components/ProtectedRoute";
 import Dashboard from "./pages/Dashboard";
 import SensorStatus from "./pages/SensorStatus";
 import LiveMonitoring from "./pages/LiveMonitoring";
@@ -13,39 +15,105 @@ import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 import AffectedAreas from "./pages/AffectedAreas";
 import FireVerification from "./pages/FireVerification";
+import Login from "./pages/Login";
+import Incidents from "./pages/Incidents";
+import { startAlertStream } from "@/api/alertStream";
+import { useSettings } from "@/hooks/use-settings";
+import { useIncidentTracker } from "@/hooks/use-incidents";
+import { useSessionTracker } from "@/hooks/use-sessions";
+import { useDigestScheduler } from "@/hooks/use-digests";
+import { useAuth } from "@/hooks/use-auth";
+import { useDatabaseStatus } from "@/hooks/use-database";
+import { Database, ShieldOff } from "lucide-react";
 
 const queryClient = new QueryClient();
 
+// Sidebar shell around every signed-in page
+const AppLayout = () => {
+  useIncidentTracker();
+  useSessionTracker();
+  useDigestScheduler();
+  const { openMode } = useAuth();
+  const databaseStatus = useDatabaseStatus();
+
+  return (
+    <SidebarProvider>
+      <div className="min-h-screen flex w-full">
+        <AppSidebar />
+        <main className="flex-1">
+          {openMode && (
+            <div className="flex items-center gap-2 px-4 py-2 text-sm bg-amber-100 text-amber-900 border-b border-amber-200">
+              <ShieldOff className="w-4 h-4 flex-shrink-0" />
+              No identity provider is configured (VITE_AUTH_URL), so the dashboard is read-only: reporting fires,
+              managing incidents and editing settings are disabled.
+            </div>
+          )}
+          {databaseStatus !== "ready" && (
+            <div className="flex items-center gap-2 px-4 py-2 text-sm bg-amber-100 text-amber-900 border-b border-amber-200">
+              <Database className="w-4 h-4 flex-shrink-0" />
+              {databaseStatus === "blocked"
+                ? "Local storage is waiting to upgrade: close the dashboard's other open tabs. History, incidents and reports are not saved until then."
+                : "The dashboard was updated in another tab. Reload this tab to keep saving history, incidents and reports."}
+              {databaseStatus === "outdated" && (
+                <button type="button" className="ml-auto font-medium underline" onClick={() => window.location.reload()}>
+                  Reload
+                </button>
+              )}
+            </div>
+          )}
+          <Outlet />
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
 const App = () => {
+  const { endpoints } = useSettings();
+
+  // Push channel feeding the shared sensor cache; queries fall back to polling while it is down.
+  // Reconnects when the endpoints change in Settings.
+  useEffect(() => startAlertStream(queryClient), [endpoints]);
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <SidebarProvider>
-            <div className="min-h-screen flex w-full">
-              <AppSidebar />
-              <main className="flex-1">
-                <Routes>
-                  <Route path="/" element={<Dashboard />} />
-                  <Route path="/dashboard" element={<Dashboard />} />
-                  <Route path="/sensors" element={<SensorStatus />} />
-                  <Route path="/sensor-status" element={<SensorStatus />} />
-                  <Route path="/monitoring" element={<LiveMonitoring />} />
-                  <Route path="/monitoring/:sensorId" element={<LiveMonitoring />} />
-                  <Route path="/live-monitoring" element={<LiveMonitoring />} />
-                  <Route path="/reports" element={<Reports />} />
-                  <Route path="/settings" element={<Settings />} />
-                  <Route path="/affected-areas" element={<AffectedAreas />} />
-                  <Route path="/fire-verification" element={<FireVerification />} />
-                  <Route path="/fire-verification/:sensorId" element={<FireVerification />} />
-                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-              </main>
-            </div>
-          </SidebarProvider>
+          <Routes>
+            <Route path="/login" element={<Login />} />
+            <Route
+              element={
+                <ProtectedRoute>
+                  <AppLayout />
+                </ProtectedRoute>
+              }
+            >
+              <Route path="/" element={<Dashboard />} />
+              <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/sensors" element={<SensorStatus />} />
+              <Route path="/sensor-status" element={<SensorStatus />} />
+              <Route path="/monitoring" element={<LiveMonitoring />} />
+              <Route path="/monitoring/:sensorId" element={<LiveMonitoring />} />
+              <Route path="/live-monitoring" element={<LiveMonitoring />} />
+              <Route path="/reports" element={<Reports />} />
+              <Route path="/incidents" element={<Incidents />} />
+              <Route
+                path="/settings"
+                element={
+                  <ProtectedRoute permission="settings:edit">
+                    <Settings />
+                  </ProtectedRoute>
+                }
+              />
+              <Route path="/affected-areas" element={<AffectedAreas />} />
+              <Route path="/fire-verification" element={<FireVerification />} />
+              <Route path="/fire-verification/:sensorId" element={<FireVerification />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Route>
+          </Routes>
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
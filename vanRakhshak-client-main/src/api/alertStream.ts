@@ -0,0 +1,173 @@
+// src/api/alertStream.ts
+import type { QueryClient } from '@tanstack/react-query';
+import { getBackend } from './backend';
+import type { AlertData } from './fireAlerts';
+import { parseAlerts, sensorQueryKeys } from './sensorRepository';
+import { recordReadings } from '@/lib/timeSeriesStore';
+import { getSettings } from '@/lib/settings';
+
+export type StreamStatus = 'disabled' | 'connecting' | 'open' | 'reconnecting';
+
+// `snapshot` messages replace the fleet, others update individual devices
+export interface AlertStreamMessage {
+  devices: unknown[];
+  snapshot: boolean;
+}
+
+interface StreamHandlers {
+  onMessage: (message: AlertStreamMessage) => void;
+  onStatusChange: (status: StreamStatus) => void;
+}
+
+export interface StreamOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+// Accepts `{ devices: [...] }` snapshots, `{ device: {...} }` updates or a bare array
+export const parseStreamMessage = (data: unknown): AlertStreamMessage | null => {
+  let payload = data;
+  if (typeof data === 'string') {
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      console.warn('Ignoring non-JSON alert stream message:', data);
+      return null;
+    }
+  }
+
+  if (Array.isArray(payload)) return { devices: payload, snapshot: true };
+  if (payload && typeof payload === 'object') {
+    const message = payload as { devices?: unknown; device?: unknown };
+    if (Array.isArray(message.devices)) return { devices: message.devices, snapshot: true };
+    if (message.device) return { devices: [message.device], snapshot: false };
+  }
+  return null;
+};
+
+// Connect to an SSE (http/https) or WebSocket (ws/wss) endpoint, reconnecting
+// with exponential backoff and jitter. Returns a function that closes the stream.
+export const connectAlertStream = (
+  url: string,
+  handlers: StreamHandlers,
+  { initialDelayMs = 1000, maxDelayMs = 30000 }: StreamOptions = {}
+): (() => void) => {
+  let source: WebSocket | EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let closed = false;
+
+  const handleData = (data: unknown) => {
+    const message = parseStreamMessage(data);
+    if (message) handlers.onMessage(message);
+  };
+
+  const scheduleReconnect = (failed: WebSocket | EventSource) => {
+    // Only the current connection may schedule a retry (ws fires both error and close)
+    if (closed || source !== failed) return;
+    source = null;
+
+    const delay = Math.min(maxDelayMs, initialDelayMs * 2 ** attempt) * (0.5 + Math.random() * 0.5);
+    attempt += 1;
+    handlers.onStatusChange('reconnecting');
+    retryTimer = setTimeout(open, delay);
+  };
+
+  const handleOpen = () => {
+    attempt = 0;
+    handlers.onStatusChange('open');
+  };
+
+  function open() {
+    if (closed) return;
+    if (attempt === 0) handlers.onStatusChange('connecting');
+
+    if (/^wss?:/i.test(url)) {
+      const socket = new WebSocket(url);
+      socket.onopen = handleOpen;
+      socket.onmessage = event => handleData(event.data);
+      socket.onerror = () => socket.close();
+      socket.onclose = () => scheduleReconnect(socket);
+      source = socket;
+    } else {
+      const events = new EventSource(url);
+      events.onopen = handleOpen;
+      events.onmessage = event => handleData(event.data);
+      // EventSource retries on its own at a fixed rate; use our backoff instead
+      events.onerror = () => {
+        events.close();
+        scheduleReconnect(events);
+      };
+      source = events;
+    }
+  }
+
+  open();
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    source?.close();
+    source = null;
+    handlers.onStatusChange('disabled');
+  };
+};
+
+let currentStatus: StreamStatus = 'disabled';
+const statusListeners = new Set<() => void>();
+
+const setStreamStatus = (status: StreamStatus) => {
+  if (status === currentStatus) return;
+  currentStatus = status;
+  statusListeners.forEach(listener => listener());
+};
+
+export const getStreamStatus = () => currentStatus;
+
+export const subscribeStreamStatus = (listener: () => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+const mergeAlerts = (previous: AlertData[], updates: AlertData[]): AlertData[] => {
+  const byDevice = new Map(previous.map(alert => [alert.deviceId, alert]));
+  updates.forEach(alert => byDevice.set(alert.deviceId, alert));
+  return Array.from(byDevice.values());
+};
+
+// Feed pushed device updates into the react-query cache. Uses the stream URL from
+// Settings or VITE_ALERT_STREAM_URL when set, otherwise the backend adapter's
+// in-process stream (mock mode).
+// Queries keep polling as a fallback whenever the stream is not open.
+export const startAlertStream = (queryClient: QueryClient, options?: StreamOptions): (() => void) => {
+  const handleMessage = (message: AlertStreamMessage) => {
+    const alerts = parseAlerts(message.devices);
+    if (alerts.length === 0 && !message.snapshot) return;
+
+    recordReadings(alerts).catch(error => console.error('Error recording sensor history:', error));
+
+    queryClient.setQueryData<AlertData[]>(sensorQueryKeys.all, previous =>
+      message.snapshot ? alerts : mergeAlerts(previous ?? [], alerts)
+    );
+    alerts.forEach(alert => queryClient.setQueryData(sensorQueryKeys.detail(alert.deviceId), alert));
+  };
+
+  const url = getSettings().endpoints.alertStreamUrl || import.meta.env.VITE_ALERT_STREAM_URL;
+  if (url) {
+    return connectAlertStream(url, { onMessage: handleMessage, onStatusChange: setStreamStatus }, options);
+  }
+
+  const backend = getBackend();
+  if (backend.subscribe) {
+    const unsubscribe = backend.subscribe(devices => handleMessage({ devices, snapshot: true }));
+    setStreamStatus('open');
+    return () => {
+      unsubscribe();
+      setStreamStatus('disabled');
+    };
+  }
+
+  return () => undefined;
+};
@@ -0,0 +1,141 @@
+// src/api/auth.ts
+import { authSessionSchema, clearAuthSession, getAuthSession, setAuthSession, type AuthSession, type AuthUser } from '@/lib/auth';
+
+export interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+// Thrown when the identity provider rejects the credentials
+export class InvalidCredentialsError extends Error {
+  constructor(message = 'Invalid username or password') {
+    super(message);
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+// Sign-in goes through this interface so the dashboard can use the real
+// identity provider or a local stub for development and tests.
+export interface IdentityProvider {
+  readonly name: string;
+  // Resolves to a session or rejects with InvalidCredentialsError
+  login(credentials: LoginCredentials): Promise<AuthSession>;
+  // Best effort: the local session is dropped even if this fails
+  logout(session: AuthSession): Promise<void>;
+}
+
+// Expects POST {authUrl}/login -> { token, expiresAt, user } and POST {authUrl}/logout,
+// as served by scripts/auth-stub-server.mjs
+export const createHttpIdentityProvider = (authUrl: string): IdentityProvider => ({
+  name: 'http',
+
+  login: async credentials => {
+    const response = await fetch(`${authUrl}/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(credentials),
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      const body: { message?: string } = await response.json().catch(() => ({}));
+      throw new InvalidCredentialsError(body.message);
+    }
+    if (!response.ok) {
+      throw new Error(`Sign-in failed: ${response.status} ${response.statusText}`);
+    }
+
+    return authSessionSchema.parse(await response.json());
+  },
+
+  logout: async session => {
+    await fetch(`${authUrl}/logout`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${session.token}` },
+    });
+  },
+});
+
+export interface StubAccount extends AuthUser {
+  password: string;
+}
+
+// One account per role; the password is the username. Mirrored in scripts/auth-stub-server.mjs
+export const STUB_ACCOUNTS: StubAccount[] = [
+  { id: 'stub-viewer', username: 'viewer', password: 'viewer', name: 'Guest Viewer', role: 'viewer' },
+  { id: 'stub-ranger', username: 'ranger', password: 'ranger', name: 'Field Ranger', role: 'ranger' },
+  { id: 'stub-operator', username: 'operator', password: 'operator', name: 'Control Room', role: 'operator' },
+  { id: 'stub-admin', username: 'admin', password: 'admin', name: 'Administrator', role: 'admin' },
+];
+
+const STUB_SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+// In-process provider for offline development; never use in a deployment
+export const createStubIdentityProvider = (accounts: StubAccount[] = STUB_ACCOUNTS): IdentityProvider => ({
+  name: 'stub',
+
+  login: async ({ username, password }) => {
+    const account = accounts.find(item => item.username === username.trim().toLowerCase() && item.password === password);
+    if (!account) throw new InvalidCredentialsError();
+
+    const { password: _password, ...user } = account;
+    return {
+      token: `stub.${user.id}.${Date.now().toString(36)}`,
+      expiresAt: new Date(Date.now() + STUB_SESSION_TTL_MS).toISOString(),
+      user,
+    };
+  },
+
+  logout: async () => {},
+});
+
+// Who everyone is while no identity provider is configured
+export const OPEN_MODE_USER: AuthUser = { id: 'open-viewer', username: 'viewer', name: 'Guest Viewer', role: 'viewer' };
+
+// No identity provider: the dashboard stays readable as OPEN_MODE_USER and nobody can sign in
+const createOpenIdentityProvider = (): IdentityProvider => ({
+  name: 'open',
+  login: async () => {
+    throw new Error('No identity provider configured. Set VITE_AUTH_URL, or VITE_AUTH_PROVIDER=stub for local development.');
+  },
+  logout: async () => {},
+});
+
+const createIdentityProviderFromEnv = (): IdentityProvider => {
+  const provider = import.meta.env.VITE_AUTH_PROVIDER ?? (import.meta.env.VITE_BACKEND === 'mock' ? 'stub' : 'http');
+  if (provider === 'stub') return createStubIdentityProvider();
+  const authUrl = import.meta.env.VITE_AUTH_URL;
+  if (authUrl) return createHttpIdentityProvider(authUrl.replace(/\/$/, ''));
+  console.warn('VITE_AUTH_URL is not set; running in read-only viewer mode with no sign-in');
+  return createOpenIdentityProvider();
+};
+
+let activeProvider: IdentityProvider | null = null;
+
+export const getIdentityProvider = (): IdentityProvider => {
+  if (!activeProvider) activeProvider = createIdentityProviderFromEnv();
+  return activeProvider;
+};
+
+export const isOpenMode = () => getIdentityProvider().name === 'open';
+
+// Swap the provider at runtime, e.g. to inject test accounts
+export const setIdentityProvider = (provider: IdentityProvider | null) => {
+  activeProvider = provider;
+};
+
+export const login = async (credentials: LoginCredentials): Promise<AuthSession> => {
+  const session = await getIdentityProvider().login(credentials);
+  setAuthSession(session);
+  return session;
+};
+
+export const logout = async () => {
+  const session = getAuthSession();
+  clearAuthSession();
+  if (!session) return;
+  try {
+    await getIdentityProvider().logout(session);
+  } catch (error) {
+    console.warn('Identity provider logout failed:', error);
+  }
+};
@@ -0,0 +1,288 @@
+// src/api/backend.ts
+import { createMockBackend } from './mockBackend';
+import { getSettings, type Settings } from '@/lib/settings';
+import { getAuthSession } from '@/lib/auth';
+
+// Input expected by the forest-fire ML model
+export interface MLPredictionInput {
+  temperature: number;
+  humidity: number;
+  smoke: number;
+  temp_max: number;
+  temp_min: number;
+  wind_speed: number;
+  wind_gust: number;
+}
+
+export interface MLPredictionResult {
+  prediction: number;
+  level: string;
+  emoji: string;
+  message: string;
+  probabilities?: Record<string, number>;
+  probability?: number;
+}
+
+// Subset of the OpenWeather "current weather" document the app reads
+export interface OpenWeatherCurrent {
+  main: {
+    temp: number;
+    feels_like: number;
+    temp_min: number;
+    temp_max: number;
+    humidity: number;
+    pressure: number;
+  };
+  wind?: {
+    speed: number;
+    deg: number;
+    gust?: number;
+  };
+  clouds?: {
+    all: number;
+  };
+  visibility: number;
+  weather: { description: string; icon: string }[];
+}
+
+// Subset of the OpenWeather 5 day / 3 hour forecast document
+export interface OpenWeatherForecast {
+  list: {
+    // Unix seconds
+    dt: number;
+    main: { temp: number; humidity: number };
+    wind?: { speed: number; deg: number; gust?: number };
+  }[];
+}
+
+// Everything the UI needs from the outside world goes through this interface,
+// so the dashboard can run against the live services or fully offline.
+export interface BackendAdapter {
+  readonly name: string;
+  // Raw device documents, validated by the sensor repository
+  fetchDevices(): Promise<unknown[]>;
+  // Raw document for one device, or null when the service does not know it
+  fetchDevice(deviceId: string): Promise<unknown | null>;
+  createAlert(payload: unknown): Promise<unknown>;
+  // Raw incident documents shared by every operator, validated by the incident store
+  fetchIncidents(): Promise<unknown[]>;
+  // Stores one incident and returns the service's copy of it
+  saveIncident(incident: unknown): Promise<unknown>;
+  predictFire(input: MLPredictionInput): Promise<MLPredictionResult>;
+  fetchWeather(lat: number, lon: number): Promise<OpenWeatherCurrent>;
+  fetchForecast(lat: number, lon: number): Promise<OpenWeatherForecast>;
+  // Optional in-process push channel; receives full device snapshots
+  subscribe?(listener: (devices: unknown[]) => void): () => void;
+}
+
+export interface HttpBackendConfig {
+  apiBaseUrl: string;
+  mlApiUrl: string;
+  weatherApiUrl: string;
+  weatherApiKey: string;
+}
+
+// Public deployment, used for any endpoint not set in the environment
+const DEFAULT_HTTP_BACKEND: HttpBackendConfig = {
+  apiBaseUrl: 'https://fire-detection-system-neon.vercel.app/api/fire-alerts',
+  mlApiUrl: 'https://forest-fire-api2.onrender.com/predict',
+  weatherApiUrl: 'https://api.openweathermap.org/data/2.5/weather',
+  weatherApiKey: '',
+};
+
+// Endpoints set in Settings win over the build-time environment
+export const getHttpBackendConfig = (endpoints: Settings['endpoints'] = getSettings().endpoints): HttpBackendConfig => ({
+  apiBaseUrl: endpoints.apiBaseUrl || import.meta.env.VITE_API_BASE_URL || DEFAULT_HTTP_BACKEND.apiBaseUrl,
+  mlApiUrl: endpoints.mlApiUrl || import.meta.env.VITE_ML_API_URL || DEFAULT_HTTP_BACKEND.mlApiUrl,
+  weatherApiUrl: endpoints.weatherApiUrl || import.meta.env.VITE_OPENWEATHER_API_URL || DEFAULT_HTTP_BACKEND.weatherApiUrl,
+  weatherApiKey: endpoints.weatherApiKey || import.meta.env.VITE_OPENWEATHER_API_KEY || DEFAULT_HTTP_BACKEND.weatherApiKey,
+});
+
+// Thrown by weather lookups when neither Settings nor the environment has an OpenWeather key
+export class WeatherNotConfiguredError extends Error {
+  constructor() {
+    super('Weather API key not configured (VITE_OPENWEATHER_API_KEY)');
+    this.name = 'WeatherNotConfiguredError';
+  }
+}
+
+// Thrown when an endpoint answers with something other than the API it is set up as
+export class BackendConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackendConfigurationError';
+  }
+}
+
+// Data API calls carry the signed-in user's token so the server can enforce roles
+const authHeaders = (): Record<string, string> => {
+  const token = getAuthSession()?.token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+const requestJson = async <T>(url: string, init: RequestInit, label: string): Promise<T> => {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    throw new Error(`${label} failed: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+// Parsed body when the response is JSON, undefined otherwise
+const readJsonBody = async (response: Response): Promise<unknown> => {
+  if (!response.headers.get('Content-Type')?.includes('json')) return undefined;
+  try {
+    return await response.json();
+  } catch {
+    return undefined;
+  }
+};
+
+export const createHttpBackend = (config: HttpBackendConfig): BackendAdapter => {
+  if (!config.weatherApiKey) {
+    console.warn('No OpenWeather API key in Settings or VITE_OPENWEATHER_API_KEY; weather lookups will fail (see .env.example)');
+  }
+
+  return {
+    name: 'http',
+
+    fetchDevices: async () => {
+      const data = await requestJson<{ success?: boolean; devices?: unknown[] }>(
+        `${config.apiBaseUrl}/getAlert`,
+        { method: 'GET', headers: { 'Content-Type': 'application/json', ...authHeaders() }, mode: 'cors' },
+        'Fetching alerts'
+      );
+
+      if (data.success && Array.isArray(data.devices)) {
+        return data.devices;
+      }
+
+      console.warn('Unexpected API response format:', data);
+      return [];
+    },
+
+    fetchDevice: async deviceId => {
+      const response = await fetch(`${config.apiBaseUrl}/getAlert/${encodeURIComponent(deviceId)}`, {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        mode: 'cors',
+      });
+
+      if (response.status === 404) {
+        // The API answers an unknown device with its JSON envelope; any other 404 (an HTML
+        // page, an empty body) means the base URL does not point at the alerts API
+        const body = await readJsonBody(response);
+        if (body && typeof body === 'object' && 'success' in body) return null;
+        throw new BackendConfigurationError(
+          `Fetching device ${deviceId} hit a 404 that is not from the alerts API; check the API base URL (${config.apiBaseUrl})`
+        );
+      }
+      if (!response.ok) {
+        throw new Error(`Fetching device ${deviceId} failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data: { success?: boolean; device?: unknown } = await response.json();
+      return data.success && data.device ? data.device : null;
+    },
+
+    createAlert: payload =>
+      requestJson(
+        `${config.apiBaseUrl}/createAlert`,
+        { method: 'POST', headers: { 'Content-Type': 'application/json', ...authHeaders() }, body: JSON.stringify(payload) },
+        'Creating alert'
+      ),
+
+    fetchIncidents: async () => {
+      const data = await requestJson<{ success?: boolean; incidents?: unknown[] }>(
+        `${config.apiBaseUrl}/getIncidents`,
+        { method: 'GET', headers: { 'Content-Type': 'application/json', ...authHeaders() }, mode: 'cors' },
+        'Fetching incidents'
+      );
+
+      if (data.success && Array.isArray(data.incidents)) {
+        return data.incidents;
+      }
+
+      console.warn('Unexpected incidents response format:', data);
+      return [];
+    },
+
+    saveIncident: async incident => {
+      const data = await requestJson<{ success?: boolean; incident?: unknown }>(
+        `${config.apiBaseUrl}/saveIncident`,
+        { method: 'POST', headers: { 'Content-Type': 'application/json', ...authHeaders() }, body: JSON.stringify(incident) },
+        'Saving incident'
+      );
+
+      if (!data.success || !data.incident) {
+        throw new Error('Saving incident failed: unexpected response');
+      }
+      return data.incident;
+    },
+
+    predictFire: input =>
+      requestJson<MLPredictionResult>(
+        config.mlApiUrl,
+        { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(input) },
+        'ML prediction'
+      ),
+
+    fetchWeather: (lat, lon) => {
+      if (!config.weatherApiKey) return Promise.reject(new WeatherNotConfiguredError());
+      const params = new URLSearchParams({
+        lat: String(lat),
+        lon: String(lon),
+        appid: config.weatherApiKey,
+        units: 'metric',
+      });
+      return requestJson<OpenWeatherCurrent>(`${config.weatherApiUrl}?${params}`, {}, 'Weather API request');
+    },
+
+    fetchForecast: (lat, lon) => {
+      if (!config.weatherApiKey) return Promise.reject(new WeatherNotConfiguredError());
+      const params = new URLSearchParams({
+        lat: String(lat),
+        lon: String(lon),
+        appid: config.weatherApiKey,
+        units: 'metric',
+      });
+      // The forecast endpoint sits next to the current-weather one
+      const forecastUrl = config.weatherApiUrl.replace(/\/weather\/?$/, '/forecast');
+      return requestJson<OpenWeatherForecast>(`${forecastUrl}?${params}`, {}, 'Forecast API request');
+    },
+  };
+};
+
+const createBackendFromEnv = (): BackendAdapter => {
+  if (import.meta.env.VITE_BACKEND === 'mock') {
+    return createMockBackend({ recordingUrl: import.meta.env.VITE_MOCK_RECORDING_URL });
+  }
+  return createHttpBackend(getHttpBackendConfig());
+};
+
+// Everything an adapter is built from, compared by value: every settings save creates new
+// objects, and the mock takes no endpoints at all
+const backendKey = (endpoints: Settings['endpoints']) =>
+  import.meta.env.VITE_BACKEND === 'mock' ? 'mock' : JSON.stringify(getHttpBackendConfig(endpoints));
+
+let activeBackend: BackendAdapter | null = null;
+// Key of the active adapter; null for injected adapters
+let activeKey: string | null = null;
+
+export const getBackend = (): BackendAdapter => {
+  const key = backendKey(getSettings().endpoints);
+  // Rebuild only after the endpoints the adapter uses change in Settings
+  if (!activeBackend || (activeKey !== null && activeKey !== key)) {
+    activeBackend = createBackendFromEnv();
+    activeKey = key;
+  }
+  return activeBackend;
+};
+
+// Swap the adapter at runtime, e.g. to inject a scripted mock in tests
+export const setBackend = (backend: BackendAdapter | null) => {
+  activeBackend = backend;
+  activeKey = null;
+};
@@ -1,9 +1,15 @@
 // src/api/fireAlerts.ts
-const API_BASE_URL = 'https://fire-detection-system-neon.vercel.app/api/fire-alerts';
+import { z } from 'zod';
+import { getBackend } from './backend';
+import { parseAlert, parseAlerts } from './sensorRepository';
+import { recordReadings } from '@/lib/timeSeriesStore';
+import { getAuthSession } from '@/lib/auth';
+import type { FireReport, SensorHealth } from '@/types/sensor';
 
 export interface AlertData {
   id: string;
   deviceId: string;
+  name?: string;
   latitude: number;
   longitude: number;
   humidity: number;
@@ -11,110 +17,168 @@ export interface AlertData {
   smoke: number;
   isFire: boolean;
   timestamp: string;
+  source?: 'sensor' | 'manual';
+  health?: SensorHealth;
+  // Set on manual ranger reports
+  report?: Omit<FireReport, 'id' | 'latitude' | 'longitude'>;
 }
 
+export const FIRE_REPORT_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+// Blank inputs are rejected before coercion, which would turn them into 0
+const coordinateSchema = (label: string, limit: number) =>
+  z
+    .union([z.number(), z.string().trim().min(1, `Enter a ${label.toLowerCase()}`)], {
+      errorMap: () => ({ message: `Enter a ${label.toLowerCase()}` }),
+    })
+    .pipe(
+      z.coerce
+        .number({ invalid_type_error: `${label} must be a number` })
+        .min(-limit, `${label} must be between -${limit} and ${limit}`)
+        .max(limit, `${label} must be between -${limit} and ${limit}`)
+    );
+
+export const fireReportSchema = z.object({
+  latitude: coordinateSchema('Latitude', 90),
+  longitude: coordinateSchema('Longitude', 180),
+  severity: z.enum(FIRE_REPORT_SEVERITIES),
+  note: z.string().trim().min(1, 'Describe what you observed').max(500, 'Keep the note under 500 characters'),
+});
+
+export type FireReportInput = z.infer<typeof fireReportSchema>;
+
+// Thrown when the service has no record of the requested device
+export class DeviceNotFoundError extends Error {
+  readonly deviceId: string;
+
+  constructor(deviceId: string) {
+    super(`Device ${deviceId} not found`);
+    this.name = 'DeviceNotFoundError';
+    this.deviceId = deviceId;
+  }
+}
+
+// Per-device results are reused for a few seconds and concurrent requests share one fetch
+const DEVICE_CACHE_TTL_MS = 5000;
+const deviceCache = new Map<string, { alert: AlertData; fetchedAt: number }>();
+const pendingDeviceRequests = new Map<string, Promise<AlertData>>();
+
+const FIRE_REPORTS_STORAGE_KEY = 'fireReports';
+
+export const FIRE_REPORTS_QUERY_KEY = ['fireReports'] as const;
+
 // ✅ Fetch all alerts (GET)
 export const getFireAlerts = async (): Promise<AlertData[]> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/getAlert`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      mode: 'cors',
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch alerts: ${response.status} ${response.statusText}`);
-    }
+    const devices = await getBackend().fetchDevices();
+    const alerts = parseAlerts(devices);
 
-    const data = await response.json();
-    console.log('API Response:', data);
-
-    if (data.success && Array.isArray(data.devices)) {
-      return data.devices.map((alert: any) => ({
-        id: alert._id,
-        deviceId: alert.deviceId,
-        latitude: alert.latitude,
-        longitude: alert.longitude,
-        humidity: alert.humidity,
-        temp: alert.temp,
-        smoke: alert.smoke,
-        isFire: alert.isfire,
-        timestamp: alert.lastUpdate,
-      }));
-    }
+    // Every poll is kept in the local time-series store; a storage failure must not break the poll
+    recordReadings(alerts).catch(error => console.error('Error recording sensor history:', error));
 
-    console.warn('Unexpected API response format:', data);
-    return [];
+    const fetchedAt = Date.now();
+    alerts.forEach(alert => deviceCache.set(alert.deviceId, { alert, fetchedAt }));
+
+    return alerts;
   } catch (error) {
     console.error('Error fetching fire alerts:', error);
     throw error;
   }
 };
 
-// ✅ Fetch alert by device ID (GET) - with fallback to getAll if specific endpoint fails
-export const getFireAlertByDeviceId = async (deviceId: string): Promise<AlertData | null> => {
+const fetchFireAlertByDeviceId = async (deviceId: string): Promise<AlertData> => {
   try {
-    // First try the specific device endpoint
-    const response = await fetch(`${API_BASE_URL}/getAlert`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      mode: 'cors',
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      console.log('API Response for device:', deviceId, data);
-
-      if (data.success && data.device) {
-        const alert = data.device;
-        return {
-          id: alert._id,
-          deviceId: alert.deviceId,
-          latitude: alert.latitude,
-          longitude: alert.longitude,
-          humidity: alert.humidity,
-          temp: alert.temp,
-          smoke: alert.smoke,
-          isFire: alert.isfire,
-          timestamp: alert.lastUpdate,
-        };
-      }
+    const device = await getBackend().fetchDevice(deviceId);
+    const alert = device ? parseAlert(device) : null;
+    if (!alert) {
+      throw new DeviceNotFoundError(deviceId);
     }
 
-    // Fallback: Get all alerts and filter by deviceId
-    console.warn(`Specific device endpoint failed, trying fallback for device: ${deviceId}`);
-    const allAlerts = await getFireAlerts();
-    const deviceAlert = allAlerts.find(alert => alert.deviceId === deviceId);
-    return deviceAlert || null;
+    recordReadings([alert]).catch(error => console.error('Error recording sensor history:', error));
+    deviceCache.set(deviceId, { alert, fetchedAt: Date.now() });
+
+    return alert;
   } catch (error) {
-    console.error(`Error fetching fire alert for device ${deviceId}:`, error);
+    if (!(error instanceof DeviceNotFoundError)) {
+      console.error(`Error fetching fire alert for device ${deviceId}:`, error);
+    }
     throw error;
   }
 };
 
-// ✅ Create / update device alert (POST)
-export const createFireAlert = async (alertData: any) => {
+// ✅ Fetch alert by device ID (GET /getAlert/:deviceId), throws DeviceNotFoundError
+export const getFireAlertByDeviceId = (deviceId: string): Promise<AlertData> => {
+  const cached = deviceCache.get(deviceId);
+  if (cached && Date.now() - cached.fetchedAt < DEVICE_CACHE_TTL_MS) {
+    return Promise.resolve(cached.alert);
+  }
+
+  const pending = pendingDeviceRequests.get(deviceId);
+  if (pending) return pending;
+
+  const request = fetchFireAlertByDeviceId(deviceId).finally(() => {
+    pendingDeviceRequests.delete(deviceId);
+  });
+  pendingDeviceRequests.set(deviceId, request);
+  return request;
+};
+
+// ✅ Manual reports submitted from this client, newest first. Only a fallback for reports the
+// backend has not returned yet; the shared layer comes from the fleet snapshot.
+export const getFireReports = async (): Promise<FireReport[]> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/createAlert`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(alertData),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to create alert: ${response.status} ${response.statusText}`);
-    }
+    const reports = JSON.parse(localStorage.getItem(FIRE_REPORTS_STORAGE_KEY) || '[]');
+    return Array.isArray(reports) ? reports : [];
+  } catch (error) {
+    console.error('Error reading fire reports:', error);
+    return [];
+  }
+};
 
-    const data = await response.json();
-    return data;
+// Reports from the backend plus cached ones it has not returned yet, newest first
+export const mergeFireReports = (shared: FireReport[] = [], local: FireReport[] = []): FireReport[] => {
+  const sharedIds = new Set(shared.map(report => report.id));
+  return [...shared, ...local.filter(report => !sharedIds.has(report.id))].sort((a, b) =>
+    b.reportedAt.localeCompare(a.reportedAt)
+  );
+};
+
+// ✅ Create a manual fire report (POST)
+export const createFireAlert = async (input: FireReportInput): Promise<FireReport> => {
+  try {
+    const { latitude, longitude, severity, note } = fireReportSchema.parse(input);
+    const reportedAt = new Date().toISOString();
+    const deviceId = `MANUAL-${Date.now().toString(36).toUpperCase()}`;
+    const reportedBy = getAuthSession()?.user.name;
+
+    const response = (await getBackend().createAlert({
+      deviceId,
+      latitude,
+      longitude,
+      isfire: true,
+      source: 'manual',
+      severity,
+      note,
+      reportedAt,
+      reportedBy,
+    })) as { device?: { _id?: string } } | null;
+
+    const report: FireReport = {
+      id: response?.device?._id || deviceId,
+      latitude,
+      longitude,
+      severity,
+      note,
+      reportedAt,
+      reportedBy,
+    };
+
+    const reports = await getFireReports();
+    localStorage.setItem(FIRE_REPORTS_STORAGE_KEY, JSON.stringify([report, ...reports].slice(0, 100)));
+
+    return report;
   } catch (error) {
     console.error('Error creating fire alert:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,18 @@
+// src/api/history.ts
+import type { AlertData } from './fireAlerts';
+import { queryReadings } from '@/lib/timeSeriesStore';
+
+// ✅ Recorded readings for one device between `from` and `to` (inclusive), oldest first
+export const getDeviceHistory = async (
+  deviceId: string,
+  from: string | number | Date,
+  to: string | number | Date = new Date()
+): Promise<AlertData[]> => {
+  try {
+    const readings = await queryReadings(deviceId, from, to);
+    return readings.map(({ recordedAt, ...reading }) => reading);
+  } catch (error) {
+    console.error(`Error loading history for device ${deviceId}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,14 @@
+// src/api/mlApi.ts
+import { getBackend, type MLPredictionInput, type MLPredictionResult } from './backend';
+
+export type { MLPredictionInput, MLPredictionResult };
+
+// Forest-fire ML model prediction (0 = safe, 1 = high risk, 2 = borderline)
+export const predictFireWithML = async (input: MLPredictionInput): Promise<MLPredictionResult> => {
+  try {
+    return await getBackend().predictFire(input);
+  } catch (error) {
+    console.error('Error getting ML prediction:', error);
+    throw error;
+  }
+};
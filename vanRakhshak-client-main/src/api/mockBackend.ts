@@ -0,0 +1,262 @@
+// src/api/mockBackend.ts
+import type { BackendAdapter, MLPredictionInput, MLPredictionResult, OpenWeatherCurrent, OpenWeatherForecast } from './backend';
+
+// A scripted device: steady baseline readings plus optional fire windows
+// (seconds since the scenario started; the scenario loops).
+export interface MockDeviceScript {
+  deviceId: string;
+  latitude: number;
+  longitude: number;
+  baseline: { temp: number; humidity: number; smoke: number };
+  health?: { batteryVoltage: number; rssi: number; firmwareVersion: string };
+  fireWindows?: { start: number; end: number }[];
+}
+
+export interface MockScenario {
+  durationSeconds: number;
+  devices: MockDeviceScript[];
+}
+
+// One snapshot of a recorded `devices` array, offset from the start of the recording
+export interface RecordedFrame {
+  offsetMs: number;
+  devices: unknown[];
+}
+
+export interface MockBackendOptions {
+  scenario?: MockScenario;
+  recording?: RecordedFrame[];
+  // JSON file with RecordedFrame[], e.g. served from /public
+  recordingUrl?: string;
+  now?: () => number;
+  // How often subscribers receive a pushed snapshot
+  pushIntervalMs?: number;
+}
+
+export const DEFAULT_MOCK_SCENARIO: MockScenario = {
+  durationSeconds: 600,
+  devices: [
+    {
+      deviceId: 'MOCK-001',
+      latitude: 30.3892,
+      longitude: 78.4651,
+      baseline: { temp: 27, humidity: 58, smoke: 18 },
+      health: { batteryVoltage: 3.92, rssi: -71, firmwareVersion: '2.3.1' },
+      fireWindows: [{ start: 90, end: 330 }],
+    },
+    {
+      deviceId: 'MOCK-002',
+      latitude: 30.3851,
+      longitude: 78.4589,
+      baseline: { temp: 25, humidity: 63, smoke: 12 },
+      health: { batteryVoltage: 3.31, rssi: -84, firmwareVersion: '2.3.1' },
+    },
+    {
+      deviceId: 'MOCK-003',
+      latitude: 30.3918,
+      longitude: 78.4577,
+      baseline: { temp: 29, humidity: 49, smoke: 26 },
+      health: { batteryVoltage: 3.78, rssi: -96, firmwareVersion: '2.2.0' },
+      fireWindows: [{ start: 420, end: 540 }],
+    },
+    {
+      deviceId: 'MOCK-004',
+      latitude: 30.3827,
+      longitude: 78.4683,
+      baseline: { temp: 24, humidity: 67, smoke: 9 },
+    },
+  ],
+};
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+// 0 before a fire window, ramping to 1 over 30s, back to 0 once it ends
+const fireIntensityAt = (script: MockDeviceScript, t: number) => {
+  const window = script.fireWindows?.find(w => t >= w.start && t < w.end);
+  if (!window) return 0;
+  return Math.min(1, (t - window.start) / 30);
+};
+
+const scriptedDevice = (script: MockDeviceScript, index: number, t: number, now: number) => {
+  const intensity = fireIntensityAt(script, t);
+  const drift = Math.sin((2 * Math.PI * (t + index * 37)) / 120);
+
+  return {
+    _id: `mock-${script.deviceId}`,
+    deviceId: script.deviceId,
+    latitude: script.latitude,
+    longitude: script.longitude,
+    temp: round(script.baseline.temp + drift * 1.5 + intensity * 42),
+    humidity: round(Math.max(5, script.baseline.humidity - drift * 3 - intensity * 30)),
+    smoke: round(Math.max(0, script.baseline.smoke + drift * 4 + intensity * 520), 0),
+    isfire: intensity > 0.5,
+    lastUpdate: new Date(now).toISOString(),
+    ...(script.health && {
+      batteryVoltage: script.health.batteryVoltage,
+      rssi: Math.round(script.health.rssi + drift * 2),
+      firmwareVersion: script.health.firmwareVersion,
+      lastBoot: new Date(now - (index + 1) * 26 * 60 * 60 * 1000).toISOString(),
+    }),
+  };
+};
+
+// Simple rule-based stand-in for the ML model, using the same 0/1/2 classes
+const mockPrediction = (input: MLPredictionInput): MLPredictionResult => {
+  const score =
+    (input.temperature - 25) / 30 +
+    input.smoke / 400 +
+    (50 - input.humidity) / 100 +
+    input.wind_speed / 25;
+  const fireProbability = Math.max(0, Math.min(1, score / 2));
+
+  const probabilities = { '0': round(1 - fireProbability, 2), '1': round(fireProbability, 2) };
+
+  if (fireProbability >= 0.7) {
+    return { prediction: 1, level: 'High Risk', emoji: '🔥', message: 'Conditions indicate an active fire', probabilities };
+  }
+  if (fireProbability >= 0.4) {
+    return { prediction: 2, level: 'Borderline', emoji: '⚠️', message: 'Conditions are borderline, keep monitoring', probabilities };
+  }
+  return { prediction: 0, level: 'Low Risk', emoji: '✅', message: 'No fire risk detected', probabilities };
+};
+
+const mockWeather = (lat: number, lon: number, now: number): OpenWeatherCurrent => {
+  const hour = new Date(now).getHours();
+  const diurnal = Math.sin(((hour - 9) / 24) * 2 * Math.PI);
+  const temp = round(24 + diurnal * 6 + (lat - 30) * 0.5);
+
+  return {
+    main: {
+      temp,
+      feels_like: round(temp + 1),
+      temp_min: round(temp - 3),
+      temp_max: round(temp + 4),
+      humidity: Math.round(55 - diurnal * 15),
+      pressure: 1008,
+    },
+    wind: {
+      speed: round(3.5 + Math.abs(Math.sin(lon + hour)) * 3),
+      deg: Math.round((225 + hour * 5) % 360),
+      gust: round(6 + Math.abs(Math.cos(lat + hour)) * 3),
+    },
+    clouds: { all: 20 },
+    visibility: 10000,
+    weather: [{ description: 'scattered clouds', icon: '03d' }],
+  };
+};
+
+const FORECAST_STEP_MS = 3 * 60 * 60 * 1000;
+
+// Five days of 3-hourly slots, like OpenWeather, from the same diurnal curve as the current weather
+const mockForecast = (lat: number, lon: number, now: number): OpenWeatherForecast => {
+  const first = Math.ceil(now / FORECAST_STEP_MS) * FORECAST_STEP_MS;
+  return {
+    list: Array.from({ length: 40 }, (_, index) => {
+      const time = first + index * FORECAST_STEP_MS;
+      const { main, wind } = mockWeather(lat, lon, time);
+      return { dt: time / 1000, main: { temp: main.temp, humidity: main.humidity }, wind };
+    }),
+  };
+};
+
+export const createMockBackend = (options: MockBackendOptions = {}): BackendAdapter => {
+  const now = options.now ?? (() => Date.now());
+  const scenario = options.scenario ?? DEFAULT_MOCK_SCENARIO;
+  const startedAt = now();
+  // Devices posted through createAlert override or extend the scripted fleet
+  const postedDevices = new Map<string, Record<string, unknown>>();
+  // Incidents live as long as the page, standing in for the shared service
+  const incidents = new Map<string, unknown>();
+
+  let recording: RecordedFrame[] | null = options.recording ?? null;
+  let recordingRequest: Promise<RecordedFrame[] | null> | null = null;
+
+  const loadRecording = async () => {
+    if (recording || !options.recordingUrl) return recording;
+    if (!recordingRequest) {
+      recordingRequest = fetch(options.recordingUrl)
+        .then(response => (response.ok ? response.json() : null))
+        .then((frames: RecordedFrame[] | null) => {
+          recording = Array.isArray(frames) && frames.length > 0 ? frames : null;
+          return recording;
+        })
+        .catch(error => {
+          console.error('Failed to load mock recording, using scripted scenario:', error);
+          return null;
+        });
+    }
+    return recordingRequest;
+  };
+
+  const replayFrame = (frames: RecordedFrame[], elapsedMs: number): unknown[] => {
+    const sorted = [...frames].sort((a, b) => a.offsetMs - b.offsetMs);
+    const span = sorted[sorted.length - 1].offsetMs + 1;
+    const position = elapsedMs % span;
+    const frame = [...sorted].reverse().find(f => f.offsetMs <= position) ?? sorted[0];
+    const timestamp = new Date(now()).toISOString();
+
+    // Replayed frames are presented as live data
+    return frame.devices.map(device =>
+      device && typeof device === 'object' ? { ...(device as Record<string, unknown>), lastUpdate: timestamp } : device
+    );
+  };
+
+  const fetchDevices = async (): Promise<unknown[]> => {
+    const elapsedMs = now() - startedAt;
+    const frames = await loadRecording();
+
+    const devices = frames
+      ? replayFrame(frames, elapsedMs)
+      : scenario.devices.map((script, index) =>
+          scriptedDevice(script, index, (elapsedMs / 1000) % scenario.durationSeconds, now())
+        );
+
+    if (postedDevices.size === 0) return devices;
+
+    const merged = devices.filter(device => {
+      const deviceId = (device as { deviceId?: string })?.deviceId;
+      return !deviceId || !postedDevices.has(deviceId);
+    });
+    return [...merged, ...postedDevices.values()];
+  };
+
+  return {
+    name: 'mock',
+
+    fetchDevices,
+
+    fetchDevice: async deviceId => {
+      const devices = await fetchDevices();
+      return devices.find(device => (device as { deviceId?: string })?.deviceId === deviceId) ?? null;
+    },
+
+    createAlert: async payload => {
+      const alert: Record<string, unknown> = { ...(payload as Record<string, unknown>), lastUpdate: new Date(now()).toISOString() };
+      const deviceId = typeof alert.deviceId === 'string' ? alert.deviceId : `MOCK-POSTED-${postedDevices.size + 1}`;
+      postedDevices.set(deviceId, { _id: `mock-${deviceId}`, ...alert, deviceId });
+      return { success: true, device: postedDevices.get(deviceId) };
+    },
+
+    fetchIncidents: async () => [...incidents.values()],
+
+    saveIncident: async incident => {
+      const id = (incident as { id?: unknown })?.id;
+      if (typeof id !== 'string') throw new Error('Saving incident failed: no id');
+      incidents.set(id, incident);
+      return incident;
+    },
+
+    predictFire: async input => mockPrediction(input),
+
+    fetchWeather: async (lat, lon) => mockWeather(lat, lon, now()),
+
+    fetchForecast: async (lat, lon) => mockForecast(lat, lon, now()),
+
+    subscribe: listener => {
+      const timer = setInterval(() => {
+        fetchDevices().then(listener).catch(error => console.error('Mock push failed:', error));
+      }, options.pushIntervalMs ?? 2000);
+      return () => clearInterval(timer);
+    },
+  };
+};
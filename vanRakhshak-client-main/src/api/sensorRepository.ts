@@ -0,0 +1,193 @@
+// src/api/sensorRepository.ts
+import { z } from 'zod';
+import type { AlertData } from './fireAlerts';
+import type { FireReport, SensorData, SensorHealth } from '@/types/sensor';
+import { classifyReading, type ThresholdProfile } from '@/lib/thresholds';
+import { getSettings } from '@/lib/settings';
+
+// Shared react-query keys for the fleet snapshot and single-device queries
+export const sensorQueryKeys = {
+  all: ['fireAlerts'] as const,
+  detail: (deviceId: string) => ['fireAlerts', deviceId] as const,
+};
+
+// Missing, null or malformed telemetry is treated as "not reported"
+const blankToUndefined = (value: unknown) => (value === null || value === '' ? undefined : value);
+const optionalNumber = z.preprocess(blankToUndefined, z.coerce.number().optional()).catch(undefined);
+const optionalString = z.preprocess(blankToUndefined, z.coerce.string().optional()).catch(undefined);
+
+// Fault flags arrive either as an array or a comma-separated string
+const faultFlagsSchema = z
+  .union([z.array(z.coerce.string()), z.string()])
+  .transform(value =>
+    (Array.isArray(value) ? value : value.split(','))
+      .map(flag => flag.trim())
+      .filter(Boolean)
+  )
+  .optional()
+  .catch(undefined);
+
+// Raw device document as returned by the fire-alerts service. Both spellings of the
+// fire flag, report time and temperature are accepted.
+const rawDeviceSchema = z
+  .object({
+    _id: z.string().optional(),
+    id: z.string().optional(),
+    deviceId: z.string().optional(),
+    name: z.string().optional(),
+    latitude: z.coerce.number().default(0),
+    longitude: z.coerce.number().default(0),
+    humidity: z.coerce.number().default(0),
+    temp: z.coerce.number().optional(),
+    temperature: z.coerce.number().optional(),
+    smoke: z.coerce.number().default(0),
+    isfire: z.boolean().optional(),
+    isFire: z.boolean().optional(),
+    lastUpdate: z.string().optional(),
+    timestamp: z.string().optional(),
+    source: z.enum(['sensor', 'manual']).optional(),
+    // Ranger report details, sent with source 'manual'
+    severity: z.enum(['low', 'medium', 'high', 'critical']).optional().catch(undefined),
+    note: optionalString,
+    reportedAt: optionalString,
+    reportedBy: optionalString,
+    // Health telemetry; field names differ between firmware builds
+    batteryVoltage: optionalNumber,
+    battery: optionalNumber,
+    rssi: optionalNumber,
+    signalStrength: optionalNumber,
+    firmwareVersion: optionalString,
+    firmware: optionalString,
+    lastBoot: optionalString,
+    bootTime: optionalString,
+    faultFlags: faultFlagsSchema,
+    faults: faultFlagsSchema,
+  })
+  .refine(device => Boolean(device.deviceId || device._id || device.id), {
+    message: 'Device has no identifier',
+  });
+
+export type RawDevice = z.input<typeof rawDeviceSchema>;
+
+const parseHealth = (device: z.output<typeof rawDeviceSchema>): SensorHealth | undefined => {
+  const health: SensorHealth = {
+    batteryVoltage: device.batteryVoltage ?? device.battery,
+    rssi: device.rssi ?? device.signalStrength,
+    firmwareVersion: device.firmwareVersion ?? device.firmware,
+    lastBoot: device.lastBoot ?? device.bootTime,
+    faultFlags: device.faultFlags ?? device.faults,
+  };
+
+  const reported = Object.values(health).some(value => value !== undefined);
+  return reported ? health : undefined;
+};
+
+// Validate a single raw device and map it onto AlertData. Invalid records are
+// dropped (with a warning) instead of being rendered with made-up values.
+export const parseAlert = (raw: unknown): AlertData | null => {
+  const result = rawDeviceSchema.safeParse(raw);
+  if (!result.success) {
+    console.warn('Skipping invalid device payload:', result.error.issues, raw);
+    return null;
+  }
+
+  const device = result.data;
+  const deviceId = device.deviceId || (device._id ? `DEV-${device._id.slice(-4)}` : device.id);
+  // No report time means the reading's age is unknown; left empty, the sensor reads as offline
+  // rather than fresh on every poll
+  const timestamp = device.lastUpdate || device.timestamp || '';
+
+  return {
+    id: device._id || device.id || deviceId,
+    deviceId,
+    name: device.name,
+    latitude: device.latitude,
+    longitude: device.longitude,
+    humidity: device.humidity,
+    temp: device.temp ?? device.temperature ?? 0,
+    smoke: device.smoke,
+    isFire: device.isfire ?? device.isFire ?? false,
+    timestamp,
+    source: device.source,
+    health: parseHealth(device),
+    // A backend that drops the extra fields still yields a report pin
+    report:
+      device.source === 'manual'
+        ? {
+            severity: device.severity ?? 'high',
+            note: device.note ?? '',
+            reportedAt: device.reportedAt || timestamp,
+            reportedBy: device.reportedBy,
+          }
+        : undefined,
+  };
+};
+
+export const parseAlerts = (raw: unknown): AlertData[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(parseAlert).filter((alert): alert is AlertData => alert !== null);
+};
+
+// Inputs of the status rule that change at runtime; omitted values come from
+// the clock and the settings store
+export interface SensorStatusOptions {
+  now?: number;
+  profiles?: ThresholdProfile[];
+  heartbeatTimeoutMs?: number;
+}
+
+// A missing or unparseable timestamp counts as offline: we cannot tell when it last reported
+export const isSensorOffline = (
+  timestamp: string,
+  now: number = Date.now(),
+  heartbeatTimeoutMs: number = getSettings().polling.heartbeatTimeoutMs
+): boolean => {
+  const reportedAt = new Date(timestamp).getTime();
+  return Number.isNaN(reportedAt) || now - reportedAt > heartbeatTimeoutMs;
+};
+
+// Single status rule shared by every page. A fire reading wins even after the sensor goes
+// silent, often because the fire destroyed it; pages show the staleness next to it. Otherwise
+// offline wins over the last readings, which are stale by definition.
+export const deriveSensorStatus = (
+  alert: Pick<AlertData, 'isFire' | 'temp' | 'smoke' | 'humidity' | 'latitude' | 'longitude' | 'timestamp'>,
+  { now = Date.now(), profiles, heartbeatTimeoutMs }: SensorStatusOptions = {}
+): SensorData['status'] => {
+  const settings = getSettings();
+  const level = classifyReading(alert, profiles ?? settings.thresholds);
+  if (level === 'fire') return 'warning';
+  if (isSensorOffline(alert.timestamp, now, heartbeatTimeoutMs ?? settings.polling.heartbeatTimeoutMs)) return 'inactive';
+  return level === 'normal' ? 'active' : 'warning';
+};
+
+export const toSensorData = (alert: AlertData, options?: SensorStatusOptions): SensorData => ({
+  id: alert.id,
+  deviceId: alert.deviceId,
+  latitude: alert.latitude,
+  longitude: alert.longitude,
+  humidity: alert.humidity,
+  temp: alert.temp,
+  smoke: alert.smoke,
+  isFire: alert.isFire,
+  timestamp: alert.timestamp,
+  name: alert.name || `Sensor ${alert.deviceId}`,
+  status: deriveSensorStatus(alert, options),
+  health: alert.health,
+});
+
+// Manual ranger reports posted through createFireAlert are not sensors; toFireReports
+// takes them from the same snapshot
+export const toSensorDataList = (alerts: AlertData[] | null | undefined, options?: SensorStatusOptions): SensorData[] =>
+  Array.isArray(alerts)
+    ? alerts.filter(alert => alert.source !== 'manual').map(alert => toSensorData(alert, options))
+    : [];
+
+// Ranger reports from every client, newest first
+export const toFireReports = (alerts: AlertData[] | null | undefined): FireReport[] =>
+  Array.isArray(alerts)
+    ? alerts
+        .flatMap(({ id, latitude, longitude, source, report }) =>
+          source === 'manual' && report ? [{ id, latitude, longitude, ...report }] : []
+        )
+        .sort((a, b) => b.reportedAt.localeCompare(a.reportedAt))
+    : [];
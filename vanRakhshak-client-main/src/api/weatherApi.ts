@@ -1,3 +1,7 @@
+import { getBackend, WeatherNotConfiguredError } from './backend';
+
+export { WeatherNotConfiguredError };
+
 export interface WeatherData {
   temp: number;
   feels_like: number;
@@ -7,6 +11,9 @@ export interface WeatherData {
   wind_deg: number;
   wind_gust?: number;
   visibility: number;
+  temp_min?: number;
+  temp_max?: number;
+  clouds?: number;
   description: string;
   icon: string;
 }
@@ -18,18 +25,8 @@ export const getWeatherData = async (lat: number, lon: number): Promise<WeatherD
   }
 
   try {
-    const response = await fetch(
-      `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lon}&appid=070b8d1eb7f4b59140b6788d2bb9e26f&units=metric`
-    );
+    const data = await getBackend().fetchWeather(lat, lon);
 
-    if (!response.ok) {
-      throw new Error(`Weather API request failed: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    
-    console.log('Weather API Response:', data); // For debugging
-    
     if (!data.main || !data.weather || !data.weather[0]) {
       throw new Error('Invalid weather data structure received');
     }
@@ -43,12 +40,44 @@ export const getWeatherData = async (lat: number, lon: number): Promise<WeatherD
       wind_deg: data.wind?.deg || 0,
       wind_gust: data.wind?.gust,
       visibility: data.visibility,
+      temp_min: data.main.temp_min,
+      temp_max: data.main.temp_max,
+      clouds: data.clouds?.all,
       description: data.weather[0].description,
       icon: data.weather[0].icon
     };
   } catch (error) {
+    // Callers show their own "not configured" state for this one
+    if (error instanceof WeatherNotConfiguredError) throw error;
     console.error('Error fetching weather data:', error);
     // Instead of mock data, re-throw the error to handle it in the component
     throw new Error(`Failed to fetch weather data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-};
\ No newline at end of file
+};
+export interface WeatherForecastPoint {
+  // ISO
+  time: string;
+  temp: number;
+  humidity: number;
+  wind_speed: number;
+  wind_deg: number;
+}
+
+export const getWeatherForecast = async (lat: number, lon: number): Promise<WeatherForecastPoint[]> => {
+  if (!lat || !lon) {
+    throw new Error('Invalid coordinates provided');
+  }
+
+  const data = await getBackend().fetchForecast(lat, lon);
+  if (!Array.isArray(data?.list)) {
+    throw new Error('Invalid forecast data structure received');
+  }
+
+  return data.list.map(slot => ({
+    time: new Date(slot.dt * 1000).toISOString(),
+    temp: slot.main.temp,
+    humidity: slot.main.humidity,
+    wind_speed: slot.wind?.speed || 0,
+    wind_deg: slot.wind?.deg || 0,
+  }));
+};
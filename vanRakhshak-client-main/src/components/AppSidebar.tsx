@@ -10,6 +10,7 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarHeader,
+  SidebarFooter,
   useSidebar,
 } from '@/components/ui/sidebar';
 import { 
@@ -18,10 +19,14 @@ import {
   TreePine, 
   FileText, 
   Settings,
-  Shield
+  Shield,
+  Siren,
+  UserCircle
 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { ROLE_LABELS, type Permission } from '@/lib/auth';
 
-const menuItems = [
+const menuItems: { title: string; url: string; icon: typeof Home; permission?: Permission }[] = [
   {
     title: 'Dashboard',
     url: '/',
@@ -37,6 +42,11 @@ const menuItems = [
     url: '/monitoring',
     icon: TreePine,
   },
+  {
+    title: 'Incidents',
+    url: '/incidents',
+    icon: Siren,
+  },
   {
     title: 'Reports',
     url: '/reports',
@@ -46,6 +56,7 @@ const menuItems = [
     title: 'Settings',
     url: '/settings',
     icon: Settings,
+    permission: 'settings:edit',
   },
 ];
 
@@ -54,6 +65,7 @@ export function AppSidebar() {
   const location = useLocation();
   const currentPath = location.pathname;
   const collapsed = state === 'collapsed';
+  const { user, can } = useAuth();
 
   const isActive = (path: string) => currentPath === path;
   const getNavCls = ({ isActive }: { isActive: boolean }) =>
@@ -101,7 +113,7 @@ export function AppSidebar() {
           </SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => (
+              {menuItems.filter((item) => !item.permission || can(item.permission)).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild>
                     <NavLink to={item.url} end className={getNavCls}>
@@ -115,6 +127,20 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
       </SidebarContent>
+
+      {user && (
+        <SidebarFooter className="p-3 border-t border-forest-accent/30">
+          <div className="flex items-center gap-2">
+            <UserCircle className="w-6 h-6 shrink-0 text-forest-primary" />
+            {!collapsed && (
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{user.name}</p>
+                <p className="text-xs text-muted-foreground truncate">{ROLE_LABELS[user.role]}</p>
+              </div>
+            )}
+          </div>
+        </SidebarFooter>
+      )}
     </Sidebar>
   );
 }
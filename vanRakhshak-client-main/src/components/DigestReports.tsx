@@ -0,0 +1,221 @@
+import React, { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Calendar, CalendarRange, Download, FileText, Flame, ShieldAlert, ShieldOff, WifiOff } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useDigests } from '@/hooks/use-digests';
+import { useSettings } from '@/hooks/use-settings';
+import { DIGEST_KINDS, DIGEST_KIND_LABELS, type DigestKind } from '@/lib/digests';
+import { digestDocument, downloadDigestHtml, downloadDigestPdf, formatDigestPeriod } from '@/lib/digestReport';
+
+const DigestStat: React.FC<{ icon: React.ReactNode; label: string; value: number }> = ({ icon, label, value }) => (
+  <div className="p-4 bg-slate-50 rounded-xl border border-slate-200 flex items-center gap-3">
+    <div className="p-2 bg-white rounded-lg">{icon}</div>
+    <div>
+      <p className="text-sm text-slate-600">{label}</p>
+      <p className="text-2xl font-bold text-slate-800">{value}</p>
+    </div>
+  </div>
+);
+
+const DigestReports: React.FC = () => {
+  const { data: digests = [], isLoading } = useDigests();
+  const { units } = useSettings();
+  const [kind, setKind] = useState<DigestKind | 'all'>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const visible = useMemo(
+    () => (kind === 'all' ? digests : digests.filter(digest => digest.kind === kind)),
+    [digests, kind]
+  );
+  // Newest first, so the latest digest is open until another is picked
+  const selected = visible.find(digest => digest.id === selectedId) ?? visible[0] ?? null;
+  const content = useMemo(() => (selected ? digestDocument(selected, units.temperature) : null), [selected, units.temperature]);
+
+  const download = (save: () => void) => {
+    try {
+      save();
+    } catch (error) {
+      console.error('Error exporting digest:', error);
+      toast.error('Could not export the digest');
+    }
+  };
+
+  if (!isLoading && digests.length === 0) {
+    return (
+      <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl p-8 text-center">
+        <div className="flex flex-col items-center gap-4">
+          <div className="p-4 bg-slate-100 rounded-2xl">
+            <CalendarRange className="w-12 h-12 text-slate-400" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2">No Digests Yet</h2>
+            <p className="text-slate-600 max-w-md">
+              A daily digest is written after each day ends and a weekly one after each Monday-to-Sunday week, whenever
+              the app is open. Periods missed while it was closed are filled in on the next visit.
+            </p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-1">
+        <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl">
+          <CardHeader className="pb-4">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-xl font-bold text-slate-800">Digests</CardTitle>
+              <Select value={kind} onValueChange={value => setKind(value as DigestKind | 'all')}>
+                <SelectTrigger className="w-32" aria-label="Digest type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  {DIGEST_KINDS.map(option => (
+                    <SelectItem key={option} value={option}>
+                      {DIGEST_KIND_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3 max-h-[600px] overflow-y-auto">
+              {visible.length === 0 && (
+                <p className="text-sm text-slate-500 text-center py-6">
+                  {isLoading ? 'Loading digests...' : 'No digests of this type yet.'}
+                </p>
+              )}
+              {visible.map(digest => (
+                <Card
+                  key={digest.id}
+                  className={`cursor-pointer p-4 transition-all duration-200 hover:shadow-lg border-2 ${
+                    selected?.id === digest.id ? 'border-blue-500 bg-blue-50/50' : 'border-slate-200 hover:border-slate-300'
+                  }`}
+                  onClick={() => setSelectedId(digest.id)}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-semibold text-slate-800">{formatDigestPeriod(digest)}</h3>
+                    <Badge variant="outline" className={digest.kind === 'weekly' ? 'text-purple-700' : 'text-blue-700'}>
+                      {DIGEST_KIND_LABELS[digest.kind]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {digest.sessionsStarted.length} started · {digest.offlineSensors.length} offline ·{' '}
+                    {digest.falseAlarms} false alarms
+                  </p>
+                </Card>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="lg:col-span-2">
+        {selected && content && (
+          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl">
+            <CardHeader className="pb-4 border-b border-slate-200">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-blue-100 rounded-lg">
+                    <Calendar className="w-5 h-5 text-blue-600" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-xl font-bold text-slate-800">{content.title}</CardTitle>
+                    <p className="text-sm text-slate-600">
+                      {content.period} · compiled {new Date(selected.generatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-blue-600 text-blue-600 hover:bg-blue-50"
+                    onClick={() => download(() => downloadDigestPdf(selected, units.temperature))}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    PDF
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => download(() => downloadDigestHtml(selected, units.temperature))}
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    HTML
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+
+            <CardContent className="p-6 space-y-8">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <DigestStat
+                  icon={<Flame className="w-5 h-5 text-red-500" />}
+                  label="Sessions started"
+                  value={selected.sessionsStarted.length}
+                />
+                <DigestStat
+                  icon={<ShieldAlert className="w-5 h-5 text-green-600" />}
+                  label="Sessions ended"
+                  value={selected.sessionsEnded.length}
+                />
+                <DigestStat
+                  icon={<WifiOff className="w-5 h-5 text-amber-600" />}
+                  label="Sensors offline"
+                  value={selected.offlineSensors.length}
+                />
+                <DigestStat
+                  icon={<ShieldOff className="w-5 h-5 text-slate-500" />}
+                  label="False alarms"
+                  value={selected.falseAlarms}
+                />
+              </div>
+
+              {content.tables.map(table => (
+                <div key={table.heading}>
+                  <h3 className="text-lg font-semibold text-slate-800 mb-3">{table.heading}</h3>
+                  {table.rows.length === 0 ? (
+                    <p className="text-sm text-slate-500">{table.empty}</p>
+                  ) : (
+                    <div className="border rounded-md overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            {table.headers.map(header => (
+                              <TableHead key={header}>{header}</TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {table.rows.map((row, rowIndex) => (
+                            <TableRow key={rowIndex}>
+                              {row.map((cell, cellIndex) => (
+                                <TableCell key={cellIndex} className={cellIndex === 0 ? 'font-medium' : undefined}>
+                                  {cell}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DigestReports;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button, type ButtonProps } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  EXPORT_FORMAT_LABELS,
+  EXPORT_FORMATS,
+  exportDataset,
+  type ExportDataset,
+  type ExportFormat,
+} from '@/lib/dataExport';
+
+const GIS_FORMATS: ExportFormat[] = ['geojson', 'kml'];
+
+interface ExportMenuProps {
+  // Built on demand so large exports only load when picked
+  getDataset: () => ExportDataset | Promise<ExportDataset>;
+  label?: string;
+  formats?: readonly ExportFormat[];
+  disabled?: boolean;
+  variant?: ButtonProps['variant'];
+  className?: string;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  getDataset,
+  label = 'Export',
+  formats = EXPORT_FORMATS,
+  disabled,
+  variant = 'outline',
+  className,
+}) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const dataset = await getDataset();
+      const empty = GIS_FORMATS.includes(format)
+        ? dataset.features.length === 0
+        : dataset.tables.every(table => table.rows.length === 0);
+      if (empty) {
+        toast.info(GIS_FORMATS.includes(format) ? 'No locations to export' : 'Nothing to export');
+        return;
+      }
+      await exportDataset(dataset, format);
+    } catch (error) {
+      console.error(`Error exporting ${format}:`, error);
+      toast.error(`Could not export ${EXPORT_FORMAT_LABELS[format]}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const tableFormats = formats.filter(format => !GIS_FORMATS.includes(format));
+  const gisFormats = formats.filter(format => GIS_FORMATS.includes(format));
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={variant} size="sm" className={className} disabled={disabled || exporting}>
+          <Download className="w-4 h-4 mr-2" />
+          {exporting ? 'Exporting...' : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {tableFormats.map(format => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+        {gisFormats.length > 0 && (
+          <>
+            {tableFormats.length > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel className="text-xs text-muted-foreground">GIS</DropdownMenuLabel>
+            {gisFormats.map(format => (
+              <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                {EXPORT_FORMAT_LABELS[format]}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
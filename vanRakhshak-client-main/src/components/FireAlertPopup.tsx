@@ -9,6 +9,8 @@ import {
 import { Button } from '@/components/ui/button';
 import { SensorData } from '@/types/sensor';
 import { MapPin, Activity, X } from 'lucide-react';
+import { formatTemperature } from '@/lib/units';
+import { useSettings } from '@/hooks/use-settings';
 
 interface FireAlertPopupProps {
   alerts: SensorData[];
@@ -23,6 +25,8 @@ const FireAlertPopup: React.FC<FireAlertPopupProps> = ({
   onLiveMonitoring, // Add this back
   onClose
 }) => {
+  const { units } = useSettings();
+
   if (!alerts || alerts.length === 0) return null;
 
   return (
@@ -58,7 +62,7 @@ const FireAlertPopup: React.FC<FireAlertPopupProps> = ({
               <div className="grid grid-cols-2 gap-2 mt-2 text-sm">
                 <div>
                   <span className="text-muted-foreground">Temp:</span>
-                  <span className="ml-1 font-medium">{alert.temp}°C</span>
+                  <span className="ml-1 font-medium">{formatTemperature(alert.temp, units.temperature)}</span>
                 </div>
                 <div>
                   <span className="text-muted-foreground">Smoke:</span>
@@ -0,0 +1,261 @@
+import React, { useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { AlertTriangle, FileUp, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SESSIONS_QUERY_KEY } from '@/hooks/use-sessions';
+import {
+  applyImport,
+  ImportFormatError,
+  readImportFile,
+  type DuplicateStrategy,
+  type ImportPreview,
+} from '@/lib/sessionImport';
+
+const PREVIEW_ROWS = 8;
+const PREVIEW_ISSUES = 5;
+
+const DUPLICATE_STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  skip: 'Keep the archived copy',
+  merge: 'Merge readings into the archived copy',
+  replace: 'Replace the archived copy',
+};
+
+interface ImportDataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ImportDataDialog: React.FC<ImportDataDialogProps> = ({ open, onOpenChange }) => {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('skip');
+
+  const reset = () => {
+    setPreview(null);
+    setReadError(null);
+    setStrategy('skip');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setPreview(null);
+    setReadError(null);
+    setReading(true);
+    try {
+      setPreview(await readImportFile(file));
+    } catch (error) {
+      if (!(error instanceof ImportFormatError)) console.error('Error reading import file:', error);
+      setReadError(error instanceof Error ? error.message : 'The file could not be read');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: () => applyImport(preview, strategy),
+    onSuccess: result => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      const parts = [
+        `${result.added} added`,
+        result.updated ? `${result.updated} ${strategy === 'merge' ? 'merged' : 'replaced'}` : null,
+        result.skipped ? `${result.skipped} skipped` : null,
+      ].filter(Boolean);
+      toast.success(preview?.kind === 'readings' ? 'Sensor readings imported' : 'Sessions imported', {
+        description: parts.join(', '),
+      });
+      handleOpenChange(false);
+    },
+    onError: error => {
+      console.error('Error importing data:', error);
+      toast.error('Import failed', { description: error instanceof Error ? error.message : undefined });
+    },
+  });
+
+  const validCount = preview ? (preview.kind === 'sessions' ? preview.sessions.length : preview.readings.length) : 0;
+  const duplicateCount = preview?.kind === 'sessions' ? preview.duplicateIds.size : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Data</DialogTitle>
+          <DialogDescription>
+            Load sessions or sensor readings from this app's CSV or JSON exports. Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={reading}>
+            {reading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileUp className="w-4 h-4 mr-2" />}
+            {preview ? preview.fileName : 'Choose file'}
+          </Button>
+
+          {readError && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Cannot import this file</AlertTitle>
+              <AlertDescription>{readError}</AlertDescription>
+            </Alert>
+          )}
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {preview.kind === 'sessions' ? (
+                  <>
+                    <Badge variant="outline">{preview.sessions.length} sessions</Badge>
+                    <Badge variant="outline" className="bg-green-50 text-green-700">
+                      {preview.sessions.length - duplicateCount} new
+                    </Badge>
+                    {duplicateCount > 0 && (
+                      <Badge variant="outline" className="bg-amber-50 text-amber-700">
+                        {duplicateCount} already archived
+                      </Badge>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <Badge variant="outline">{preview.readings.length} sensor readings</Badge>
+                    <Badge variant="outline">{preview.deviceIds.length} devices</Badge>
+                  </>
+                )}
+                {preview.issues.length > 0 && (
+                  <Badge variant="outline" className="bg-red-50 text-red-700">
+                    {preview.issues.length} skipped
+                  </Badge>
+                )}
+              </div>
+
+              {preview.kind === 'sessions' && preview.sessions.length > 0 && (
+                <div className="border rounded-md max-h-64 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Device</TableHead>
+                        <TableHead>Started</TableHead>
+                        <TableHead className="text-right">Readings</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.sessions.slice(0, PREVIEW_ROWS).map(session => (
+                        <TableRow key={session.id}>
+                          <TableCell className="font-medium">{session.deviceId}</TableCell>
+                          <TableCell>{new Date(session.startTime).toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{session.readings.length}</TableCell>
+                          <TableCell className="text-right">
+                            {preview.duplicateIds.has(session.id) ? (
+                              <Badge variant="outline" className="text-amber-700">Duplicate</Badge>
+                            ) : (
+                              <Badge variant="outline" className="text-green-700">New</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {preview.sessions.length > PREVIEW_ROWS && (
+                    <p className="text-xs text-muted-foreground px-4 py-2">
+                      and {preview.sessions.length - PREVIEW_ROWS} more
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {preview.kind === 'sessions' && preview.partial && (
+                <p className="text-sm text-muted-foreground">
+                  CSV exports do not include ML predictions or weather snapshots. Import the JSON export to restore
+                  those as well.
+                </p>
+              )}
+              {preview.kind === 'readings' && (
+                <p className="text-sm text-muted-foreground">
+                  Readings go into the local sensor history used by Live Monitoring. Readings older than 30 days are
+                  removed by the usual retention cleanup.
+                </p>
+              )}
+
+              {preview.issues.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Some records failed validation and will be skipped</AlertTitle>
+                  <AlertDescription>
+                    <ul className="text-xs space-y-1 mt-1">
+                      {preview.issues.slice(0, PREVIEW_ISSUES).map((issue, index) => (
+                        <li key={index}>
+                          <span className="font-medium">{issue.location}:</span> {issue.message}
+                        </li>
+                      ))}
+                      {preview.issues.length > PREVIEW_ISSUES && (
+                        <li>and {preview.issues.length - PREVIEW_ISSUES} more</li>
+                      )}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {duplicateCount > 0 && (
+                <div className="space-y-2">
+                  <Label>For sessions that are already archived</Label>
+                  <RadioGroup value={strategy} onValueChange={value => setStrategy(value as DuplicateStrategy)}>
+                    {(Object.keys(DUPLICATE_STRATEGY_LABELS) as DuplicateStrategy[]).map(option => (
+                      <div key={option} className="flex items-center gap-2">
+                        <RadioGroupItem value={option} id={`duplicate-${option}`} />
+                        <Label htmlFor={`duplicate-${option}`} className="font-normal">
+                          {DUPLICATE_STRATEGY_LABELS[option]}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => importMutation.mutate()} disabled={!preview || validCount === 0 || importMutation.isPending}>
+            {importMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import {validCount > 0 ? validCount : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDataDialog;
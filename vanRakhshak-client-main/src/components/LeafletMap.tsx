@@ -2,25 +2,28 @@
 import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { SensorData } from '@/types/sensor';
+import { formatDistanceToNow } from 'date-fns';
+import { FireReport, SensorData } from '@/types/sensor';
+import { isSensorOffline } from '@/api/sensorRepository';
+import { formatUptime, getHealthWarnings, isLowBattery, isWeakSignal } from '@/lib/sensorHealth';
+import { classifyMetric, classifyReading, resolveProfile, type ThresholdProfile } from '@/lib/thresholds';
+import { getSettings } from '@/lib/settings';
+import { describeMissingTerrain, formatTerrain, terrainAt } from '@/lib/terrain';
+import { formatTemperature } from '@/lib/units';
+import { useSettings } from '@/hooks/use-settings';
 
 interface LeafletMapProps {
   sensors: SensorData[];
+  // Manual ranger reports, drawn with their own marker style
+  reports?: FireReport[];
   onSensorClick?: (sensor: SensorData) => void;
   selectedSensorId?: string;
   className?: string;
   showMeshNetwork?: boolean;
 }
 
-// Mesh network configuration - realistic for 3km² area
+// Mesh link styles; the hub location and ranges come from Settings
 const MESH_CONFIG = {
-  MOTHER_SENSOR: {
-    latitude: 30.387496,
-    longitude: 78.462447,
-    range: 1000, // Reduced to 1km for better visualization
-    name: "Central Hub Station"
-  },
-  MAX_RANGE: 3000, // 3km² area
   CONNECTION_OPTIONS: {
     color: '#3b82f6',
     weight: 1.5,
@@ -60,7 +63,7 @@ const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: numbe
 };
 
 // Create sensor icon based on status
-const createSensorIcon = (sensor: SensorData, isSelected: boolean = false, isMother: boolean = false) => {
+const createSensorIcon = (sensor: SensorData, profiles: ThresholdProfile[], isSelected: boolean = false, isMother: boolean = false) => {
   const size = isSelected ? 28 : isMother ? 32 : 22;
   
   let color = '#22c55e'; // green for normal
@@ -71,12 +74,16 @@ const createSensorIcon = (sensor: SensorData, isSelected: boolean = false, isMot
     color = '#7c3aed'; // purple for mother sensor
     innerIcon = '<rect x="9" y="9" width="6" height="6" rx="1" fill="white" fill-opacity="0.9"/>';
     pulseEffect = '<circle cx="12" cy="12" r="8" stroke="white" stroke-width="1" fill="none" opacity="0.6"><animate attributeName="r" from="8" to="12" dur="2s" repeatCount="indefinite"/><animate attributeName="opacity" from="0.6" to="0" dur="2s" repeatCount="indefinite"/></circle>';
-  } else if (sensor.isFire) {
+  } else if (classifyReading(sensor, profiles) === 'fire') {
+    // Before the offline check: a silent sensor whose last reading was a fire is still a fire
     color = '#ef4444'; // red for fire
     innerIcon = '<path d="M12 7v5l3 1.5" stroke="white" stroke-width="1.5" stroke-linecap="round" fill="none"/>';
     // Small pulsing effect for fire alerts
     pulseEffect = '<circle cx="12" cy="12" r="6" stroke="#ef4444" stroke-width="1" fill="none" opacity="0.4"><animate attributeName="r" from="6" to="9" dur="1.5s" repeatCount="indefinite"/><animate attributeName="opacity" from="0.4" to="0" dur="1.5s" repeatCount="indefinite"/></circle>';
-  } else if (sensor.status === 'warning' || sensor.temp > 35 || sensor.smoke > 50) {
+  } else if (sensor.status === 'inactive') {
+    color = '#9ca3af'; // grey for offline
+    innerIcon = '<path d="M9 9l6 6m0-6l-6 6" stroke="white" stroke-width="2" stroke-linecap="round"/>';
+  } else if (sensor.status === 'warning') {
     color = '#f59e0b'; // orange for warning
     innerIcon = '<path d="M12 8v4m0 4h.01" stroke="white" stroke-width="2" stroke-linecap="round"/>';
   } else {
@@ -88,6 +95,7 @@ const createSensorIcon = (sensor: SensorData, isSelected: boolean = false, isMot
     ${pulseEffect}
     ${innerIcon}
     ${isSelected ? '<circle cx="12" cy="12" r="7" stroke="white" stroke-width="1" fill="none" opacity="0.8"/>' : ''}
+    ${!isMother && (isLowBattery(sensor.health) || isWeakSignal(sensor.health)) ? '<circle cx="20" cy="4" r="3.5" fill="#f59e0b" stroke="white" stroke-width="1"/>' : ''}
   </svg>`;
 
   const dataUrl = `data:image/svg+xml;base64,${toBase64(svgString)}`;
@@ -100,6 +108,61 @@ const createSensorIcon = (sensor: SensorData, isSelected: boolean = false, isMot
   });
 };
 
+const REPORT_SEVERITY_COLORS: Record<FireReport['severity'], string> = {
+  low: '#60a5fa',
+  medium: '#3b82f6',
+  high: '#2563eb',
+  critical: '#1e3a8a'
+};
+
+// Ranger reports use a blue flag pin so they never read as a sensor detection
+const createReportIcon = (report: FireReport) => {
+  const color = REPORT_SEVERITY_COLORS[report.severity];
+  const svgString = `<svg width="26" height="32" viewBox="0 0 26 32" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M13 31C13 31 24 19.5 24 12C24 5.9 19.1 1 13 1C6.9 1 2 5.9 2 12C2 19.5 13 31 13 31Z" fill="${color}" stroke="white" stroke-width="2"/>
+    <path d="M10 7v11" stroke="white" stroke-width="1.8" stroke-linecap="round"/>
+    <path d="M10 7.5h7l-2 2.5 2 2.5h-7" fill="#f97316" stroke="white" stroke-width="1" stroke-linejoin="round"/>
+  </svg>`;
+
+  return L.icon({
+    iconUrl: `data:image/svg+xml;base64,${toBase64(svgString)}`,
+    iconSize: [26, 32],
+    iconAnchor: [13, 31],
+    popupAnchor: [0, -28]
+  });
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]);
+
+const NO_REPORTS: FireReport[] = [];
+
+// Popup rows for device telemetry; empty when the firmware reports none
+const healthPopupRows = (sensor: SensorData): string => {
+  const health = sensor.health;
+  if (!health) return '';
+
+  const rows: string[] = [];
+  if (health.batteryVoltage !== undefined) {
+    rows.push(`<div><strong>Battery:</strong> <span style="color:${isLowBattery(health) ? '#f59e0b' : '#059669'}">${health.batteryVoltage.toFixed(2)} V</span></div>`);
+  }
+  if (health.rssi !== undefined) {
+    rows.push(`<div><strong>Signal:</strong> <span style="color:${isWeakSignal(health) ? '#f59e0b' : '#059669'}">${health.rssi} dBm</span></div>`);
+  }
+  if (health.firmwareVersion) {
+    rows.push(`<div><strong>Firmware:</strong> ${escapeHtml(health.firmwareVersion)}</div>`);
+  }
+  const uptime = formatUptime(health.lastBoot);
+  if (uptime) {
+    rows.push(`<div><strong>Uptime:</strong> ${uptime}</div>`);
+  }
+  getHealthWarnings(health).forEach(warning => {
+    rows.push(`<div style="color:#f59e0b; font-weight:500">⚠ ${escapeHtml(warning.label)}</div>`);
+  });
+
+  return rows.join('');
+};
+
 export interface LeafletMapHandle {
   zoomToSensor: (sensor: SensorData) => void;
   zoomToMeshNetwork: () => void;
@@ -107,6 +170,7 @@ export interface LeafletMapHandle {
 
 const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({ 
   sensors, 
+  reports = NO_REPORTS,
   onSensorClick, 
   selectedSensorId,
   className = "",
@@ -115,15 +179,19 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersRef = useRef<L.Marker[]>([]);
+  const reportMarkersRef = useRef<L.Marker[]>([]);
   const circlesRef = useRef<L.Circle[]>([]);
   const connectionsRef = useRef<L.Polyline[]>([]);
   const meshCircleRef = useRef<L.Circle | null>(null);
+  const tileLayerRef = useRef<L.TileLayer | null>(null);
   const [mapReady, setMapReady] = useState(false);
+  const { meshHub, map: mapSettings, thresholds: profiles, units } = useSettings();
 
   useEffect(() => {
     if (!mapRef.current || mapInstanceRef.current) return;
 
-    // Initialize map focused on mother sensor location
+    // Initialize map on the configured default view
+    const { center, zoom } = getSettings().map;
     const mapInstance = L.map(mapRef.current, {
       preferCanvas: true,
       zoomControl: true,
@@ -132,13 +200,7 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
       doubleClickZoom: true,
       boxZoom: true,
       zoomSnap: 0.5
-    }).setView([MESH_CONFIG.MOTHER_SENSOR.latitude, MESH_CONFIG.MOTHER_SENSOR.longitude], 13);
-
-    // Add tile layer with better contrast for sensors
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-      maxZoom: 19
-    }).addTo(mapInstance);
+    }).setView([center.latitude, center.longitude], zoom);
 
     // Add zoom control to bottom right
     mapInstance.zoomControl.setPosition('bottomright');
@@ -159,6 +221,18 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
     };
   }, []);
 
+  // Tile source is configurable, so it lives outside the one-time map setup
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !mapReady) return;
+
+    tileLayerRef.current?.remove();
+    tileLayerRef.current = L.tileLayer(mapSettings.tileUrl, {
+      attribution: mapSettings.tileAttribution,
+      maxZoom: 19
+    }).addTo(map);
+  }, [mapReady, mapSettings.tileUrl, mapSettings.tileAttribution]);
+
   // Expose methods to parent component
   useImperativeHandle(ref, () => ({
     zoomToSensor: (sensor: SensorData) => {
@@ -178,7 +252,7 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
     zoomToMeshNetwork: () => {
       if (mapInstanceRef.current) {
         mapInstanceRef.current.setView(
-          [MESH_CONFIG.MOTHER_SENSOR.latitude, MESH_CONFIG.MOTHER_SENSOR.longitude], 
+          [meshHub.latitude, meshHub.longitude], 
           12, 
           { animate: true }
         );
@@ -203,9 +277,9 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
 
     // Add subtle mesh network coverage circle (smaller and more subtle)
     meshCircleRef.current = L.circle(
-      [MESH_CONFIG.MOTHER_SENSOR.latitude, MESH_CONFIG.MOTHER_SENSOR.longitude],
+      [meshHub.latitude, meshHub.longitude],
       {
-        radius: MESH_CONFIG.MOTHER_SENSOR.range,
+        radius: meshHub.rangeM,
         color: '#7c3aed',
         fillColor: '#7c3aed',
         fillOpacity: 0.05, // Very subtle fill
@@ -218,18 +292,18 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
     // Create connections between mother sensor and child sensors
     validSensors.forEach(sensor => {
       const distance = calculateDistance(
-        MESH_CONFIG.MOTHER_SENSOR.latitude,
-        MESH_CONFIG.MOTHER_SENSOR.longitude,
+        meshHub.latitude,
+        meshHub.longitude,
         sensor.latitude,
         sensor.longitude
       );
 
       // Only create connection if within range
-      if (distance <= MESH_CONFIG.MAX_RANGE) {
+      if (distance <= meshHub.maxRangeM) {
         const isStrongConnection = distance <= 800;
         const connection = L.polyline(
           [
-            [MESH_CONFIG.MOTHER_SENSOR.latitude, MESH_CONFIG.MOTHER_SENSOR.longitude],
+            [meshHub.latitude, meshHub.longitude],
             [sensor.latitude, sensor.longitude]
           ],
           isStrongConnection ? MESH_CONFIG.STRONG_CONNECTION_OPTIONS : MESH_CONFIG.CONNECTION_OPTIONS
@@ -309,9 +383,9 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
     const motherSensorData: SensorData = {
       id: 'mother-sensor',
       deviceId: 'HUB-001',
-      name: MESH_CONFIG.MOTHER_SENSOR.name,
-      latitude: MESH_CONFIG.MOTHER_SENSOR.latitude,
-      longitude: MESH_CONFIG.MOTHER_SENSOR.longitude,
+      name: meshHub.name,
+      latitude: meshHub.latitude,
+      longitude: meshHub.longitude,
       temp: 26,
       humidity: 58,
       smoke: 8,
@@ -329,16 +403,22 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
     allSensorsToDisplay.forEach((sensor) => {
       const isSelected = selectedSensorId === sensor.id;
       const isMother = sensor.id === 'mother-sensor';
-      const icon = createSensorIcon(sensor, isSelected, isMother);
+      const icon = createSensorIcon(sensor, profiles, isSelected, isMother);
 
       const marker = L.marker([sensor.latitude, sensor.longitude], { icon }).addTo(map);
       
-      const lastUpdate = new Date(sensor.timestamp).toLocaleString();
+      const profile = resolveProfile(sensor, profiles);
+      const silent = isSensorOffline(sensor.timestamp);
+      const seenAt = new Date(sensor.timestamp);
+      const lastSeen = Number.isNaN(seenAt.getTime()) ? 'at an unknown time' : formatDistanceToNow(seenAt, { addSuffix: true });
+      const lastUpdate = silent && !Number.isNaN(seenAt.getTime())
+        ? `${seenAt.toLocaleString()} (${lastSeen})`
+        : seenAt.toLocaleString();
       
       marker.bindPopup(`
         <div style="padding:12px; min-width:220px; font-family: system-ui, sans-serif;">
           <div style="display: flex; align-items: center; margin-bottom: 8px;">
-            <div style="width: 12px; height: 12px; border-radius: 50%; background: ${isMother ? '#7c3aed' : sensor.isFire ? '#ef4444' : sensor.status === 'warning' ? '#f59e0b' : '#22c55e'}; margin-right: 8px;"></div>
+            <div style="width: 12px; height: 12px; border-radius: 50%; background: ${isMother ? '#7c3aed' : sensor.isFire ? '#ef4444' : sensor.status === 'inactive' ? '#9ca3af' : sensor.status === 'warning' ? '#f59e0b' : '#22c55e'}; margin-right: 8px;"></div>
             <h3 style="margin:0; font-weight:600; color:${isMother ? '#7c3aed' : '#1f2937'}; font-size:14px;">
               ${sensor.name || sensor.deviceId} ${isMother ? '📡' : ''}
             </h3>
@@ -346,16 +426,18 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
           <div style="font-size:12px; color:#4b5563; line-height:1.4;">
             <div><strong>Device ID:</strong> ${sensor.deviceId}</div>
             ${!isMother ? `
-              <div><strong>Temperature:</strong> <span style="color:${sensor.temp > 35 ? '#ef4444' : '#059669'}">${sensor.temp}°C</span></div>
+              <div><strong>Temperature:</strong> <span style="color:${classifyMetric('temp', sensor.temp, profile) === 'normal' ? '#059669' : '#ef4444'}">${formatTemperature(sensor.temp, units.temperature)}</span></div>
               <div><strong>Humidity:</strong> ${sensor.humidity}%</div>
-              <div><strong>Smoke:</strong> <span style="color:${sensor.smoke > 50 ? '#ef4444' : '#059669'}">${sensor.smoke} ppm</span></div>
-              <div><strong>Status:</strong> <span style="color:${sensor.isFire ? '#ef4444' : sensor.status === 'warning' ? '#f59e0b' : '#059669'}; font-weight:500">${sensor.isFire ? '🔥 Fire Alert' : sensor.status}</span></div>
+              <div><strong>Smoke:</strong> <span style="color:${classifyMetric('smoke', sensor.smoke, profile) === 'normal' ? '#059669' : '#ef4444'}">${sensor.smoke} ppm</span></div>
+              <div><strong>Status:</strong> <span style="color:${sensor.isFire ? '#ef4444' : sensor.status === 'inactive' ? '#6b7280' : sensor.status === 'warning' ? '#f59e0b' : '#059669'}; font-weight:500">${sensor.isFire ? `🔥 Fire Alert${silent ? ` – last seen ${lastSeen}` : ''}` : sensor.status === 'inactive' ? 'Offline' : sensor.status}</span></div>
+              ${healthPopupRows(sensor)}
+              <div data-terrain><strong>Terrain:</strong> <span style="color:#9ca3af">${mapSettings.demTileUrl ? 'Loading...' : describeMissingTerrain('', false)}</span></div>
             ` : `
               <div><strong>Type:</strong> <span style="color:#7c3aed">Central Hub</span></div>
-              <div><strong>Coverage:</strong> ${MESH_CONFIG.MAX_RANGE/1000}km²</div>
+              <div><strong>Coverage:</strong> ${meshHub.maxRangeM/1000}km²</div>
               <div><strong>Connected Nodes:</strong> <span style="color:#059669">${validSensors.length}</span></div>
             `}
-            <div style="margin-top:4px; color:#6b7280; font-size:11px;"><strong>Last Update:</strong> ${lastUpdate}</div>
+            <div style="margin-top:4px; color:#6b7280; font-size:11px;"><strong>${silent ? 'Last Seen' : 'Last Update'}:</strong> ${lastUpdate}</div>
           </div>
           ${!isMother ? `
             <div style="margin-top: 12px;">
@@ -374,6 +456,22 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
         onSensorClick?.(sensor);
       });
 
+      // Terrain needs elevation tiles, so it is only looked up once the popup is opened
+      if (!isMother && mapSettings.demTileUrl) {
+        marker.on('popupopen', event => {
+          const row = event.popup.getElement()?.querySelector('[data-terrain]');
+          if (!row) return;
+          terrainAt(sensor.latitude, sensor.longitude, { tileUrl: mapSettings.demTileUrl, zoom: mapSettings.demZoom })
+            .then(sample => {
+              row.innerHTML = `<strong>Terrain:</strong> ${sample ? formatTerrain(sample) : `<span style="color:#9ca3af">${describeMissingTerrain(mapSettings.demTileUrl, false)}</span>`}`;
+            })
+            .catch(error => {
+              console.error('Error reading terrain:', error);
+              row.innerHTML = `<strong>Terrain:</strong> <span style="color:#9ca3af">${describeMissingTerrain(mapSettings.demTileUrl, true)}</span>`;
+            });
+        });
+      }
+
       markersRef.current.push(marker);
 
       // Add subtle alert circle for sensors with fire alerts (smaller size)
@@ -405,7 +503,40 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
       map.invalidateSize();
     }, 50);
 
-  }, [sensors, selectedSensorId, mapReady, onSensorClick, showMeshNetwork]);
+  }, [sensors, selectedSensorId, mapReady, onSensorClick, showMeshNetwork, meshHub, profiles, units.temperature, mapSettings.demTileUrl, mapSettings.demZoom]);
+
+  // Ranger reports live on their own layer so sensor refreshes don't redraw them
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !mapReady) return;
+
+    reportMarkersRef.current.forEach(marker => {
+      if (map.hasLayer(marker)) map.removeLayer(marker);
+    });
+    reportMarkersRef.current = reports.map(report => {
+      const marker = L.marker([report.latitude, report.longitude], {
+        icon: createReportIcon(report),
+        zIndexOffset: 500
+      }).addTo(map);
+
+      marker.bindPopup(`
+        <div style="padding:12px; min-width:220px; font-family: system-ui, sans-serif;">
+          <div style="display: flex; align-items: center; margin-bottom: 8px;">
+            <div style="width: 12px; height: 12px; border-radius: 2px; background: ${REPORT_SEVERITY_COLORS[report.severity]}; margin-right: 8px;"></div>
+            <h3 style="margin:0; font-weight:600; color:#1e3a8a; font-size:14px;">Ranger Report 🚩</h3>
+          </div>
+          <div style="font-size:12px; color:#4b5563; line-height:1.4;">
+            <div><strong>Severity:</strong> <span style="text-transform:capitalize; font-weight:500">${report.severity}</span></div>
+            <div><strong>Location:</strong> ${report.latitude.toFixed(5)}, ${report.longitude.toFixed(5)}</div>
+            <div style="margin-top:4px;">${escapeHtml(report.note)}</div>
+            <div style="margin-top:4px; color:#6b7280; font-size:11px;"><strong>Reported:</strong> ${new Date(report.reportedAt).toLocaleString()}${report.reportedBy ? ` by ${escapeHtml(report.reportedBy)}` : ''}</div>
+          </div>
+        </div>
+      `);
+
+      return marker;
+    });
+  }, [reports, mapReady]);
 
   const validSensorsCount = sensors.filter(sensor => 
     sensor.latitude !== undefined && 
@@ -436,7 +567,7 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
           </div>
           <div className="flex items-center justify-between">
             <span>Coverage:</span>
-            <span className="font-medium text-blue-600">3km²</span>
+            <span className="font-medium text-blue-600">{meshHub.maxRangeM / 1000}km²</span>
           </div>
         </div>
         
@@ -457,6 +588,16 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
             <div className="w-3 h-3 rounded-full bg-orange-500 mr-2 flex-shrink-0"></div>
             <span className="text-xs text-gray-700">Warning</span>
           </div>
+          <div className="flex items-center">
+            <div className="w-3 h-3 rounded-full bg-gray-400 mr-2 flex-shrink-0"></div>
+            <span className="text-xs text-gray-700">Offline</span>
+          </div>
+          {reports.length > 0 && (
+            <div className="flex items-center">
+              <div className="w-3 h-3 rounded-sm bg-blue-600 mr-2 flex-shrink-0"></div>
+              <span className="text-xs text-gray-700">Ranger Report</span>
+            </div>
+          )}
         </div>
 
         {showMeshNetwork && (
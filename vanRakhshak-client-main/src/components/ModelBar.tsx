@@ -12,6 +12,9 @@ import {
   Activity,
   BarChart3,
 } from "lucide-react";
+import { getWeatherData, WeatherNotConfiguredError } from "@/api/weatherApi";
+import { predictFireWithML } from "@/api/mlApi";
+import WeatherNotConfigured from "@/components/WeatherNotConfigured";
 
 interface ModelBarProps {
   sensorId: string;
@@ -22,6 +25,23 @@ interface ModelBarProps {
   longitude?: number;
 }
 
+interface ModelBarData {
+  fire_risk: boolean;
+  message: string;
+  probability: number;
+  weather: {
+    temp_max: number;
+    temp_min: number;
+    pressure: number;
+    clouds_all: number;
+    wind_speed: number;
+    wind_deg: number;
+    wind_gust: number;
+    temp_local: number;
+  };
+  sensors: { temperature?: number; humidity?: number; smoke?: number };
+}
+
 const ModelBar: React.FC<ModelBarProps> = ({
   sensorId,
   temperature,
@@ -30,9 +50,10 @@ const ModelBar: React.FC<ModelBarProps> = ({
   latitude,
   longitude,
 }) => {
-  const [data, setData] = useState<any>(null);
+  const [data, setData] = useState<ModelBarData | null>(null);
   const [fetching, setFetching] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [weatherMissing, setWeatherMissing] = useState(false);
 
   const fetchData = async () => {
     if (!sensorId) return;
@@ -41,21 +62,18 @@ const ModelBar: React.FC<ModelBarProps> = ({
       setFetching(true);
 
       
-      const weatherRes = await fetch(
-        `https://api.openweathermap.org/data/2.5/weather?lat=${latitude}&lon=${longitude}&appid=070b8d1eb7f4b59140b6788d2bb9e26f&units=metric`
-      );
-      const weatherData = await weatherRes.json();
+      const weatherData = await getWeatherData(latitude, longitude);
 
       
       const weather = {
-        temp_max: weatherData?.main?.temp_max ?? 0,
-        temp_min: weatherData?.main?.temp_min ?? 0,
-        pressure: weatherData?.main?.pressure ?? 0,
-        clouds_all: weatherData?.clouds?.all ?? 0,
-        wind_speed: weatherData?.wind?.speed ?? 0,
-        wind_deg: weatherData?.wind?.deg ?? 0,
-        wind_gust: weatherData?.wind?.gust ?? 0,
-        temp_local: weatherData?.main?.temp ?? 0,
+        temp_max: weatherData.temp_max ?? 0,
+        temp_min: weatherData.temp_min ?? 0,
+        pressure: weatherData.pressure ?? 0,
+        clouds_all: weatherData.clouds ?? 0,
+        wind_speed: weatherData.wind_speed ?? 0,
+        wind_deg: weatherData.wind_deg ?? 0,
+        wind_gust: weatherData.wind_gust ?? 0,
+        temp_local: weatherData.temp ?? 0,
       };
 
   
@@ -72,13 +90,7 @@ const ModelBar: React.FC<ModelBarProps> = ({
       console.log("Sending payload:", payload);
 
       
-      const aiRes = await fetch("https://forest-fire-api2.onrender.com/predict", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-
-      const aiData = await aiRes.json();
+      const aiData = await predictFireWithML(payload);
       console.log("AI Response:", aiData);
       
       const fireRisk = aiData.prediction === 1;
@@ -98,7 +110,13 @@ const ModelBar: React.FC<ModelBarProps> = ({
 
       setData(formattedData);
       setError(null);
+      setWeatherMissing(false);
     } catch (err) {
+      // The model needs wind inputs, so without a key there is nothing to retry
+      if (err instanceof WeatherNotConfiguredError) {
+        setWeatherMissing(true);
+        return;
+      }
       console.error(err);
       setError("Failed to fetch AI model data");
     } finally {
@@ -149,14 +167,20 @@ const ModelBar: React.FC<ModelBarProps> = ({
         </div>
       )}
 
+      {weatherMissing && (
+        <WeatherNotConfigured className="mb-6" impact="The fire-risk model needs wind readings and cannot run." />
+      )}
+
       {!data ? (
-        <div className="bg-white rounded-2xl shadow-lg p-8 text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Initializing AI Fire Risk Assessment...</p>
-          <p className="text-gray-500 text-sm mt-2">
-            Analyzing sensor and weather data
-          </p>
-        </div>
+        !weatherMissing && (
+          <div className="bg-white rounded-2xl shadow-lg p-8 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Initializing AI Fire Risk Assessment...</p>
+            <p className="text-gray-500 text-sm mt-2">
+              Analyzing sensor and weather data
+            </p>
+          </div>
+        )
       ) : (
         <div className="space-y-6">
           {/* 🔥 Risk Assessment */}
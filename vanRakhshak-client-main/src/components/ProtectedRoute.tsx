@@ -0,0 +1,40 @@
+// src/components/ProtectedRoute.tsx
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { ROLE_LABELS, type Permission } from '@/lib/auth';
+
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  // Role permission the page needs beyond being signed in
+  permission?: Permission;
+}
+
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { user, can } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (permission && !can(permission)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="glass-card rounded-lg p-8 max-w-md text-center space-y-3">
+          <ShieldAlert className="w-10 h-10 mx-auto text-forest-danger" />
+          <h2 className="text-xl font-bold text-forest-primary">Access restricted</h2>
+          <p className="text-sm text-muted-foreground">
+            You are signed in as {user.name} ({ROLE_LABELS[user.role]}), which cannot open this page. Ask an
+            administrator if you need access.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
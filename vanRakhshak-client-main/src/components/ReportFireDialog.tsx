@@ -0,0 +1,227 @@
+// src/components/ReportFireDialog.tsx
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { MapContainer, TileLayer, CircleMarker, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { toast } from 'sonner';
+import { Flame, Loader2, LocateFixed } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  createFireAlert,
+  fireReportSchema,
+  FIRE_REPORT_SEVERITIES,
+  FIRE_REPORTS_QUERY_KEY,
+  type FireReportInput,
+} from '@/api/fireAlerts';
+import { sensorQueryKeys } from '@/api/sensorRepository';
+import { useSettings } from '@/hooks/use-settings';
+
+interface ReportFireDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Where the picker map starts when no location has been chosen yet
+  defaultCenter?: [number, number];
+}
+
+const severityLabels: Record<FireReportInput['severity'], string> = {
+  low: 'Low – smoke or smouldering',
+  medium: 'Medium – small active flames',
+  high: 'High – spreading fire',
+  critical: 'Critical – threatens people or property',
+};
+
+// Click handler for the picker map
+const LocationPicker: React.FC<{ onPick: (lat: number, lng: number) => void }> = ({ onPick }) => {
+  useMapEvents({
+    click: event => onPick(Number(event.latlng.lat.toFixed(6)), Number(event.latlng.lng.toFixed(6))),
+  });
+  return null;
+};
+
+const ReportFireDialog: React.FC<ReportFireDialogProps> = ({ open, onOpenChange, defaultCenter }) => {
+  const queryClient = useQueryClient();
+  const { map: mapSettings } = useSettings();
+  const center: [number, number] = defaultCenter ?? [mapSettings.center.latitude, mapSettings.center.longitude];
+
+  const form = useForm<FireReportInput>({
+    resolver: zodResolver(fireReportSchema),
+    defaultValues: {
+      latitude: undefined,
+      longitude: undefined,
+      severity: 'medium',
+      note: '',
+    },
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: createFireAlert,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: FIRE_REPORTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: sensorQueryKeys.all });
+      toast.success('Fire report submitted');
+      onOpenChange(false);
+    },
+    onError: error => {
+      toast.error(`Could not submit report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    },
+  });
+
+  useEffect(() => {
+    if (!open) form.reset();
+  }, [open, form]);
+
+  const latitude = form.watch('latitude');
+  const longitude = form.watch('longitude');
+  const hasLocation = [latitude, longitude].every(
+    value => value !== undefined && String(value).trim() !== '' && Number.isFinite(Number(value))
+  );
+
+  const setLocation = (lat: number, lng: number) => {
+    form.setValue('latitude', lat, { shouldValidate: true });
+    form.setValue('longitude', lng, { shouldValidate: true });
+  };
+
+  const fillCurrentPosition = () => {
+    if (!navigator.geolocation) {
+      toast.error('Geolocation is not available on this device');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => setLocation(Number(position.coords.latitude.toFixed(6)), Number(position.coords.longitude.toFixed(6))),
+      () => toast.error('Could not read your current position')
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-forest-danger">
+            <Flame className="w-5 h-5" />
+            Report Fire
+          </DialogTitle>
+          <DialogDescription>
+            Click the map or enter coordinates to mark where the fire was observed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => mutate(values))} className="space-y-4">
+            <div className="h-48 w-full overflow-hidden rounded-lg border border-forest-accent/30">
+              <MapContainer center={center} zoom={mapSettings.zoom} className="h-full w-full">
+                <TileLayer attribution={mapSettings.tileAttribution} url={mapSettings.tileUrl} />
+                <LocationPicker onPick={setLocation} />
+                {hasLocation && (
+                  <CircleMarker
+                    center={[Number(latitude), Number(longitude)]}
+                    radius={9}
+                    pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#2563eb', fillOpacity: 0.9 }}
+                  />
+                )}
+              </MapContainer>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="latitude"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Latitude</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" placeholder="30.387496" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="longitude"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Longitude</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" placeholder="78.462447" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Button type="button" variant="outline" size="sm" onClick={fillCurrentPosition}>
+              <LocateFixed className="w-4 h-4 mr-2" />
+              Use my location
+            </Button>
+
+            <FormField
+              control={form.control}
+              name="severity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Severity</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select severity" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="z-[2000]">
+                      {FIRE_REPORT_SEVERITIES.map(severity => (
+                        <SelectItem key={severity} value={severity}>
+                          {severityLabels[severity]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Flame height, smoke colour, wind, access route..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending} className="bg-red-500 hover:bg-red-600 text-white">
+                {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Submit Report
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportFireDialog;
@@ -2,7 +2,13 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { SensorData } from '@/types/sensor';
-import { MapPin, Thermometer, Droplets, Flame } from 'lucide-react';
+import { isSensorOffline } from '@/api/sensorRepository';
+import { formatDistanceToNow } from 'date-fns';
+import { MapPin, Thermometer, Droplets, Flame, BatteryLow, Signal, AlertTriangle } from 'lucide-react';
+import { getHealthWarnings, isLowBattery, isWeakSignal } from '@/lib/sensorHealth';
+import { classifyReading } from '@/lib/thresholds';
+import { formatTemperature } from '@/lib/units';
+import { useSettings } from '@/hooks/use-settings';
 
 interface SensorListProps {
   sensors: SensorData[];
@@ -10,17 +16,22 @@ interface SensorListProps {
 }
 
 const SensorList: React.FC<SensorListProps> = ({ sensors, onSensorClick }) => {
+  const { thresholds: profiles, units } = useSettings();
+
+  // Fire before offline: a sensor that went silent on a fire reading may have burnt
   const getStatusColor = (sensor: SensorData) => {
-    if (sensor.isFire) return 'bg-forest-danger text-white';
-    if ((sensor.temp ?? 0) > 35 || (sensor.smoke ?? 0) > 50) {
-      return 'bg-forest-warning text-white';
-    }
+    const level = classifyReading(sensor, profiles);
+    if (level === 'fire') return 'bg-forest-danger text-white';
+    if (sensor.status === 'inactive') return 'bg-muted text-muted-foreground';
+    if (level === 'warning') return 'bg-forest-warning text-white';
     return 'bg-forest-success text-white';
   };
 
   const getStatusText = (sensor: SensorData) => {
-    if (sensor.isFire) return 'FIRE DETECTED';
-    if ((sensor.temp ?? 0) > 35 || (sensor.smoke ?? 0) > 50) return 'WARNING';
+    const level = classifyReading(sensor, profiles);
+    if (level === 'fire') return 'FIRE DETECTED';
+    if (sensor.status === 'inactive') return 'OFFLINE';
+    if (level === 'warning') return 'WARNING';
     return 'NORMAL';
   };
 
@@ -38,9 +49,10 @@ const SensorList: React.FC<SensorListProps> = ({ sensors, onSensorClick }) => {
               <div
                 key={sensor.id}
                 onClick={() => onSensorClick(sensor)}
-                className="p-3 rounded-lg border border-forest-accent/30 
+                className={`p-3 rounded-lg border border-forest-accent/30 
                            hover:border-forest-accent cursor-pointer 
-                           transition-all duration-200 hover:shadow-md"
+                           transition-all duration-200 hover:shadow-md
+                           ${sensor.status === 'inactive' ? 'opacity-60' : ''}`}
               >
                 {/* Header: Name + Status */}
                 <div className="flex items-center justify-between mb-2">
@@ -56,7 +68,7 @@ const SensorList: React.FC<SensorListProps> = ({ sensors, onSensorClick }) => {
                 <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground">
                   <div className="flex items-center gap-1">
                     <Thermometer className="w-3 h-3" />
-                    <span>{sensor.temp ?? '--'}°C</span>
+                    <span>{formatTemperature(sensor.temp, units.temperature)}</span>
                   </div>
                   <div className="flex items-center gap-1">
                     <Droplets className="w-3 h-3" />
@@ -74,12 +86,40 @@ const SensorList: React.FC<SensorListProps> = ({ sensors, onSensorClick }) => {
                   </div>
                 </div>
 
+                {/* Device health */}
+                {sensor.health && (
+                  <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                    {sensor.health.batteryVoltage !== undefined && (
+                      <span className={`flex items-center gap-1 ${isLowBattery(sensor.health) ? 'text-forest-warning font-medium' : ''}`}>
+                        <BatteryLow className="w-3 h-3" />
+                        {sensor.health.batteryVoltage.toFixed(2)} V
+                      </span>
+                    )}
+                    {sensor.health.rssi !== undefined && (
+                      <span className={`flex items-center gap-1 ${isWeakSignal(sensor.health) ? 'text-forest-warning font-medium' : ''}`}>
+                        <Signal className="w-3 h-3" />
+                        {sensor.health.rssi} dBm
+                      </span>
+                    )}
+                    {sensor.health.firmwareVersion && <span>FW {sensor.health.firmwareVersion}</span>}
+                  </div>
+                )}
+                {getHealthWarnings(sensor.health).length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {getHealthWarnings(sensor.health).map(warning => (
+                      <Badge key={warning.label} variant="outline" className="border-forest-warning text-forest-warning text-[10px] px-1.5 py-0">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        {warning.label}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
                 {/* Last update */}
                 <div className="mt-2 text-xs text-muted-foreground">
-                  Last update:{' '}
-                  {sensor.timestamp
-                    ? new Date(sensor.timestamp).toLocaleString()
-                    : 'N/A'}
+                  {isSensorOffline(sensor.timestamp) && !Number.isNaN(new Date(sensor.timestamp).getTime())
+                    ? `${classifyReading(sensor, profiles) === 'fire' ? 'Fire – last' : 'Last'} seen ${formatDistanceToNow(new Date(sensor.timestamp), { addSuffix: true })}`
+                    : `Last update: ${sensor.timestamp ? new Date(sensor.timestamp).toLocaleString() : 'N/A'}`}
                 </div>
               </div>
             ))
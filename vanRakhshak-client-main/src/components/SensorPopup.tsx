@@ -7,7 +7,10 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { SensorData } from '@/types/sensor';
-import { MapPin, Activity } from 'lucide-react';
+import { MapPin, Activity, AlertTriangle } from 'lucide-react';
+import { formatUptime, getHealthWarnings, isLowBattery, isWeakSignal } from '@/lib/sensorHealth';
+import { formatTemperature } from '@/lib/units';
+import { useSettings } from '@/hooks/use-settings';
 
 interface SensorPopupProps {
   sensor: SensorData | null;
@@ -24,6 +27,8 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
   onViewInMap,
   onLiveTracking
 }) => {
+  const { units } = useSettings();
+
   if (!sensor) return null;
 
   return (
@@ -39,7 +44,7 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <p className="text-sm font-medium text-muted-foreground">Temperature</p>
-              <p className="text-lg font-semibold text-forest-primary">{sensor.temp}°C</p>
+              <p className="text-lg font-semibold text-forest-primary">{formatTemperature(sensor.temp, units.temperature)}</p>
             </div>
             <div className="space-y-2">
               <p className="text-sm font-medium text-muted-foreground">Humidity</p>
@@ -59,6 +64,37 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
             </div>
           </div>
           
+          {sensor.health && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">Device Health</p>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                <span className="text-muted-foreground">Battery</span>
+                <span className={isLowBattery(sensor.health) ? 'text-forest-warning font-medium' : 'text-forest-primary'}>
+                  {sensor.health.batteryVoltage !== undefined ? `${sensor.health.batteryVoltage.toFixed(2)} V` : 'N/A'}
+                </span>
+                <span className="text-muted-foreground">Signal to hub</span>
+                <span className={isWeakSignal(sensor.health) ? 'text-forest-warning font-medium' : 'text-forest-primary'}>
+                  {sensor.health.rssi !== undefined ? `${sensor.health.rssi} dBm` : 'N/A'}
+                </span>
+                <span className="text-muted-foreground">Firmware</span>
+                <span className="text-forest-primary">{sensor.health.firmwareVersion || 'N/A'}</span>
+                <span className="text-muted-foreground">Uptime</span>
+                <span className="text-forest-primary">
+                  {formatUptime(sensor.health.lastBoot) ?? 'N/A'}
+                  {sensor.health.lastBoot && (
+                    <span className="text-xs text-muted-foreground"> (booted {new Date(sensor.health.lastBoot).toLocaleString()})</span>
+                  )}
+                </span>
+              </div>
+              {getHealthWarnings(sensor.health).map(warning => (
+                <p key={warning.label} className="flex items-center gap-2 text-sm text-forest-warning">
+                  <AlertTriangle className="w-4 h-4" />
+                  {warning.label}
+                </p>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-2">
             <p className="text-sm font-medium text-muted-foreground">Location</p>
             <p className="text-sm text-forest-primary">
@@ -69,7 +105,7 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
           <div className="space-y-2">
             <p className="text-sm font-medium text-muted-foreground">Last Update</p>
             <p className="text-sm text-forest-primary">
-              {new Date(sensor.timestamp).toLocaleString()}
+              {sensor.timestamp ? new Date(sensor.timestamp).toLocaleString() : 'Unknown'}
             </p>
           </div>
           
@@ -2,7 +2,7 @@
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { SensorStats as SensorStatsType } from '@/types/sensor';
-import { Thermometer, Droplets, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Thermometer, Droplets, AlertTriangle, CheckCircle, WifiOff } from 'lucide-react';
 
 interface SensorStatsProps {
   stats: SensorStatsType;
@@ -15,6 +15,7 @@ const SensorStats: React.FC<SensorStatsProps> = ({ stats }) => {
     activeSensors: stats?.activeSensors ?? 0,
     fireDetected: stats?.fireDetected ?? 0,
     warningStatus: stats?.warningStatus ?? 0,
+    offlineSensors: stats?.offlineSensors ?? 0,
   };
 
   const statItems = [
@@ -46,10 +47,17 @@ const SensorStats: React.FC<SensorStatsProps> = ({ stats }) => {
       color: 'text-forest-warning',
       bgColor: 'bg-forest-warning/20',
     },
+    {
+      label: 'Offline',
+      value: safeStats.offlineSensors,
+      icon: WifiOff,
+      color: 'text-muted-foreground',
+      bgColor: 'bg-muted',
+    },
   ];
 
   return (
-    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+    <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
       {statItems.map((item, index) => (
         <Card key={index} className="glass-card border-forest-accent/30">
           <CardContent className="p-4">
@@ -0,0 +1,304 @@
+import React, { useMemo, useState } from 'react';
+import { subDays, startOfDay } from 'date-fns';
+import { Activity, BrainCircuit, Clock, Flame } from 'lucide-react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useArchivedSessions } from '@/hooks/use-sessions';
+import { useSettings } from '@/hooks/use-settings';
+import { buildSessionAnalytics, histogram, type AnalyticsBucket } from '@/lib/sessionAnalytics';
+import { formatDurationMs } from '@/lib/sessionReport';
+import { formatTemperature, temperatureSymbol, toDisplayTemperature } from '@/lib/units';
+
+type AnalyticsPeriod = '7d' | '30d' | '90d' | '365d' | 'all';
+
+const PERIOD_DAYS: Record<AnalyticsPeriod, number | null> = { '7d': 7, '30d': 30, '90d': 90, '365d': 365, all: null };
+const PERIOD_LABELS: Record<AnalyticsPeriod, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  '365d': 'Last 12 months',
+  all: 'All time',
+};
+
+const TOP_DEVICES = 8;
+const TEMP_BIN_WIDTH = 5;
+const SMOKE_BIN_WIDTH = 100;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ML_COLOR = '#9333ea';
+const SENSOR_COLOR = '#f97316';
+
+const StatCard: React.FC<{ icon: React.ReactNode; label: string; value: string; detail?: string }> = ({
+  icon,
+  label,
+  value,
+  detail,
+}) => (
+  <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-md">
+    <CardContent className="p-5 flex items-start gap-3">
+      <div className="p-2 bg-slate-100 rounded-lg">{icon}</div>
+      <div className="min-w-0">
+        <p className="text-sm text-slate-600">{label}</p>
+        <p className="text-2xl font-bold text-slate-800 truncate">{value}</p>
+        {detail && <p className="text-xs text-slate-500 truncate">{detail}</p>}
+      </div>
+    </CardContent>
+  </Card>
+);
+
+const ChartCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-md">
+    <CardHeader className="pb-2">
+      <CardTitle className="text-base text-slate-800">{title}</CardTitle>
+    </CardHeader>
+    <CardContent className="h-72">{children}</CardContent>
+  </Card>
+);
+
+// Fleet-wide view over every archived session in the chosen period
+const SessionAnalytics: React.FC = () => {
+  const { units } = useSettings();
+  const [period, setPeriod] = useState<AnalyticsPeriod>('30d');
+  const [bucket, setBucket] = useState<AnalyticsBucket>('day');
+
+  // Day-aligned so the query key stays stable between renders
+  const from = useMemo(() => {
+    const days = PERIOD_DAYS[period];
+    return days === null ? undefined : startOfDay(subDays(new Date(), days - 1));
+  }, [period]);
+  const { data: sessions = [], isLoading } = useArchivedSessions({ from });
+
+  const analytics = useMemo(
+    () => buildSessionAnalytics(sessions, { bucket, from, to: from ? new Date() : undefined }),
+    [sessions, bucket, from]
+  );
+
+  const tempBins = useMemo(
+    () =>
+      histogram(
+        sessions.map(session => toDisplayTemperature(session.maxTemp, units.temperature)),
+        TEMP_BIN_WIDTH
+      ).map(bin => ({ range: `${bin.from}–${bin.to}`, sessions: bin.count })),
+    [sessions, units.temperature]
+  );
+  const smokeBins = useMemo(
+    () =>
+      histogram(sessions.map(session => session.maxSmoke), SMOKE_BIN_WIDTH).map(bin => ({
+        range: `${bin.from}–${bin.to}`,
+        sessions: bin.count,
+      })),
+    [sessions]
+  );
+
+  const topDevices = analytics.devices.slice(0, TOP_DEVICES).map(device => ({
+    device: device.name || device.deviceId,
+    sessions: device.sessions,
+    hours: Number((device.totalDurationMs / 3600000).toFixed(1)),
+  }));
+  const busiest = analytics.devices[0];
+  const heatmapMax = Math.max(1, ...analytics.startHeatmap.map(cell => cell.count));
+  const mlShare = analytics.total ? Math.round((analytics.mlConfirmed / analytics.total) * 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">Fleet Analytics</h2>
+          <p className="text-sm text-slate-600">Every archived fire alert session, across all devices</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={period} onValueChange={value => setPeriod(value as AnalyticsPeriod)}>
+            <SelectTrigger className="w-40 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PERIOD_LABELS) as AnalyticsPeriod[]).map(option => (
+                <SelectItem key={option} value={option}>
+                  {PERIOD_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={bucket} onValueChange={value => setBucket(value as AnalyticsBucket)}>
+            <SelectTrigger className="w-32 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Per day</SelectItem>
+              <SelectItem value="week">Per week</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          icon={<Activity className="w-5 h-5 text-blue-600" />}
+          label="Fire sessions"
+          value={isLoading ? '…' : String(analytics.total)}
+          detail={PERIOD_LABELS[period]}
+        />
+        <StatCard
+          icon={<Clock className="w-5 h-5 text-slate-600" />}
+          label="Mean duration"
+          value={analytics.meanDurationMs === null ? '—' : formatDurationMs(analytics.meanDurationMs)}
+          detail={analytics.medianDurationMs === null ? undefined : `Median ${formatDurationMs(analytics.medianDurationMs)}`}
+        />
+        <StatCard
+          icon={<BrainCircuit className="w-5 h-5 text-purple-600" />}
+          label="ML-confirmed"
+          value={analytics.total ? `${mlShare}%` : '—'}
+          detail={`${analytics.mlConfirmed} of ${analytics.total} sessions`}
+        />
+        <StatCard
+          icon={<Flame className="w-5 h-5 text-red-600" />}
+          label="Most fire-prone device"
+          value={busiest ? busiest.name || busiest.deviceId : '—'}
+          detail={busiest ? `${busiest.sessions} sessions, peak ${formatTemperature(busiest.maxTemp, units.temperature)}` : undefined}
+        />
+      </div>
+
+      {!isLoading && analytics.total === 0 ? (
+        <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-md p-8 text-center text-slate-600">
+          No fire alert sessions in this period.
+        </Card>
+      ) : (
+        <>
+          <ChartCard title={`Fire sessions per ${bucket}`}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={analytics.perPeriod}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" minTickGap={16} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="mlConfirmed" name="ML-confirmed" stackId="sessions" fill={ML_COLOR} />
+                <Bar dataKey="sensorOnly" name="Sensor only" stackId="sessions" fill={SENSOR_COLOR} />
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ChartCard title="Most fire-prone devices">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={topDevices} layout="vertical" margin={{ left: 24 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" allowDecimals={false} />
+                  <YAxis type="category" dataKey="device" width={110} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="sessions" name="Sessions" fill="#dc2626" />
+                  <Bar dataKey="hours" name="Hours burning" fill="#fb923c" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartCard>
+
+            <ChartCard title="ML-confirmed vs sensor-only">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={[
+                      { name: 'ML-confirmed', value: analytics.mlConfirmed },
+                      { name: 'Sensor only', value: analytics.sensorOnly },
+                    ]}
+                    dataKey="value"
+                    nameKey="name"
+                    outerRadius={90}
+                    label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                  >
+                    <Cell fill={ML_COLOR} />
+                    <Cell fill={SENSOR_COLOR} />
+                  </Pie>
+                  <Tooltip />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            </ChartCard>
+
+            <ChartCard title={`Peak temperature per session (${temperatureSymbol(units.temperature)})`}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={tempBins}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="range" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="sessions" name="Sessions" fill="#ef4444" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartCard>
+
+            <ChartCard title="Peak smoke per session (ppm)">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={smokeBins}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="range" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="sessions" name="Sessions" fill="#64748b" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartCard>
+          </div>
+
+          <ChartCard title="Session starts by time of day">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                <XAxis
+                  type="number"
+                  dataKey="hour"
+                  name="Hour"
+                  domain={[-0.5, 23.5]}
+                  ticks={[0, 3, 6, 9, 12, 15, 18, 21]}
+                  tickFormatter={hour => `${String(hour).padStart(2, '0')}:00`}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="weekday"
+                  name="Day"
+                  domain={[-0.5, 6.5]}
+                  ticks={[0, 1, 2, 3, 4, 5, 6]}
+                  tickFormatter={weekday => WEEKDAYS[weekday] ?? ''}
+                  reversed
+                  width={40}
+                />
+                <ZAxis type="number" dataKey="count" name="Sessions" range={[260, 260]} />
+                <Tooltip
+                  cursor={false}
+                  formatter={(value: number, name: string) =>
+                    name === 'Day' ? WEEKDAYS[value] : name === 'Hour' ? `${String(value).padStart(2, '0')}:00` : value
+                  }
+                />
+                <Scatter data={analytics.startHeatmap} shape="square">
+                  {analytics.startHeatmap.map(cell => (
+                    <Cell
+                      key={`${cell.weekday}-${cell.hour}`}
+                      fill="#dc2626"
+                      fillOpacity={cell.count === 0 ? 0.04 : 0.15 + (cell.count / heatmapMax) * 0.85}
+                    />
+                  ))}
+                </Scatter>
+              </ScatterChart>
+            </ResponsiveContainer>
+          </ChartCard>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionAnalytics;
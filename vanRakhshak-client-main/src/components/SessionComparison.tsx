@@ -0,0 +1,183 @@
+import React, { useMemo } from 'react';
+import { GitCompareArrows, X } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useSettings } from '@/hooks/use-settings';
+import {
+  buildComparisonSeries,
+  comparisonKey,
+  type ComparisonMetric,
+  type ComparisonRow,
+} from '@/lib/sessionAnalytics';
+import { formatDuration } from '@/lib/sessionReport';
+import { classifySessionPeak, type AlertLevel } from '@/lib/thresholds';
+import { formatTemperature, temperatureSymbol, toDisplayTemperature } from '@/lib/units';
+import type { FireAlertSession } from '@/types/session';
+
+// One per session; keep at least MAX_COMPARED_SESSIONS entries
+const COMPARISON_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2'];
+
+const PEAK_BADGES: Record<AlertLevel, string> = {
+  fire: 'bg-red-100 text-red-700 border-red-200',
+  warning: 'bg-amber-100 text-amber-700 border-amber-200',
+  normal: 'bg-green-100 text-green-700 border-green-200',
+};
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m` : `${Math.round(minutes)}m`;
+
+interface SessionComparisonProps {
+  sessions: FireAlertSession[];
+  onRemove: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+const SessionComparison: React.FC<SessionComparisonProps> = ({ sessions, onRemove, onClose }) => {
+  const { thresholds: thresholdProfiles, units } = useSettings();
+
+  const series = useMemo(() => buildComparisonSeries(sessions), [sessions]);
+  // Temperatures are stored in Celsius; convert once here rather than in every tooltip
+  const temperatureSeries = useMemo(
+    () =>
+      series.map(row => {
+        const converted: ComparisonRow = { ...row };
+        sessions.forEach((_, index) => {
+          const key = comparisonKey('temp', index);
+          if (row[key] !== undefined) converted[key] = toDisplayTemperature(row[key], units.temperature);
+        });
+        return converted;
+      }),
+    [series, sessions, units.temperature]
+  );
+
+  const charts: { metric: ComparisonMetric; title: string; unit: string; data: ComparisonRow[] }[] = [
+    { metric: 'temp', title: 'Temperature', unit: temperatureSymbol(units.temperature), data: temperatureSeries },
+    { metric: 'smoke', title: 'Smoke', unit: 'ppm', data: series },
+    { metric: 'humidity', title: 'Humidity', unit: '%', data: series },
+  ];
+
+  const sessionLabel = (session: FireAlertSession) =>
+    `${session.readings[0]?.name ?? session.deviceId} · ${new Date(session.startTime).toLocaleDateString()}`;
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl">
+      <CardHeader className="pb-4 border-b border-slate-200">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <GitCompareArrows className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold text-slate-800">Comparing {sessions.length} Sessions</CardTitle>
+              <p className="text-sm text-slate-600">Sensor curves aligned on time since each session started</p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            Exit Compare
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-6 space-y-6">
+        <div className="border rounded-md overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Session</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead className="text-right">Peak Temp</TableHead>
+                <TableHead className="text-right">Peak Smoke</TableHead>
+                <TableHead>Peak</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session, index) => {
+                const peak = classifySessionPeak(session, thresholdProfiles).overall;
+                return (
+                  <TableRow key={session.id}>
+                    <TableCell className="font-medium">
+                      <span
+                        className="inline-block w-3 h-3 rounded-full mr-2 align-middle"
+                        style={{ backgroundColor: COMPARISON_COLORS[index] }}
+                      />
+                      {session.deviceId}
+                      {session.mlConfirmed && (
+                        <Badge variant="outline" className="ml-2 text-purple-700">AI</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(session.startTime).toLocaleString()}</TableCell>
+                    <TableCell>{formatDuration(session.startTime, session.endTime)}</TableCell>
+                    <TableCell className="text-right">{formatTemperature(session.maxTemp, units.temperature)}</TableCell>
+                    <TableCell className="text-right">{session.maxSmoke} ppm</TableCell>
+                    <TableCell>
+                      <Badge className={PEAK_BADGES[peak]}>{peak.toUpperCase()}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-slate-400 hover:text-slate-700"
+                        aria-label="Remove from comparison"
+                        onClick={() => onRemove(session.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {charts.map(chart => (
+          <div key={chart.metric}>
+            <h3 className="text-lg font-semibold text-slate-800 mb-2">
+              {chart.title} ({chart.unit})
+            </h3>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chart.data}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                  <XAxis
+                    dataKey="minutes"
+                    type="number"
+                    domain={[0, 'dataMax']}
+                    tickFormatter={formatMinutes}
+                    stroke="#64748b"
+                    fontSize={12}
+                  />
+                  <YAxis stroke="#64748b" fontSize={12} />
+                  <Tooltip
+                    labelFormatter={minutes => `+${formatMinutes(Number(minutes))}`}
+                    formatter={(value: number, name: string) => [`${Number(value.toFixed(1))} ${chart.unit}`, name]}
+                  />
+                  <Legend />
+                  {sessions.map((session, index) => (
+                    <Line
+                      key={session.id}
+                      type="monotone"
+                      dataKey={comparisonKey(chart.metric, index)}
+                      name={sessionLabel(session)}
+                      stroke={COMPARISON_COLORS[index]}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SessionComparison;
@@ -0,0 +1,162 @@
+import React, { useMemo } from 'react';
+import { endOfDay, format } from 'date-fns';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSensors } from '@/hooks/use-sensors';
+import { hasSessionFilters, type SessionFilters } from '@/lib/sessionArchive';
+import type { AlertLevel } from '@/lib/thresholds';
+
+const ANY = 'any';
+const MINUTE_MS = 60_000;
+
+// Durations are in milliseconds; a missing bound is open
+const DURATION_PRESETS: { value: string; label: string; min?: number; max?: number }[] = [
+  { value: 'under5m', label: 'Under 5 min', max: 5 * MINUTE_MS },
+  { value: '5to30m', label: '5 – 30 min', min: 5 * MINUTE_MS, max: 30 * MINUTE_MS },
+  { value: '30mto2h', label: '30 min – 2 h', min: 30 * MINUTE_MS, max: 120 * MINUTE_MS },
+  { value: 'over2h', label: 'Over 2 h', min: 120 * MINUTE_MS },
+];
+
+const PEAK_LABELS: Record<AlertLevel, string> = { fire: 'Fire', warning: 'Warning', normal: 'Normal' };
+
+// yyyy-MM-dd for the date inputs, in local time
+const toDateInput = (value: SessionFilters['from']) => (value ? format(new Date(value), 'yyyy-MM-dd') : '');
+const fromDateInput = (value: string) => (value ? new Date(`${value}T00:00`) : undefined);
+
+interface SessionFilterBarProps {
+  filters: SessionFilters;
+  onChange: (filters: SessionFilters) => void;
+}
+
+const SessionFilterBar: React.FC<SessionFilterBarProps> = ({ filters, onChange }) => {
+  const { data: sensors = [] } = useSensors();
+
+  // Archived sessions can outlive their device, so keep the selected one listed
+  const deviceIds = useMemo(() => {
+    const ids = new Set(sensors.map(sensor => sensor.deviceId));
+    if (filters.deviceId) ids.add(filters.deviceId);
+    return Array.from(ids).sort();
+  }, [sensors, filters.deviceId]);
+  const deviceNames = useMemo(
+    () => new Map(sensors.map(sensor => [sensor.deviceId, sensor.name])),
+    [sensors]
+  );
+
+  const durationPreset =
+    DURATION_PRESETS.find(
+      preset => preset.min === filters.minDurationMs && preset.max === filters.maxDurationMs
+    )?.value ?? ANY;
+
+  const update = (changes: Partial<SessionFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <div className="relative flex-1 min-w-[200px]">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-slate-400" />
+        <Input
+          value={filters.search ?? ''}
+          onChange={e => update({ search: e.target.value || undefined })}
+          placeholder="Search device or session"
+          className="pl-8 bg-white"
+        />
+      </div>
+
+      <Select value={filters.deviceId ?? ANY} onValueChange={value => update({ deviceId: value === ANY ? undefined : value })}>
+        <SelectTrigger className="w-44 bg-white" aria-label="Device">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All devices</SelectItem>
+          {deviceIds.map(deviceId => (
+            <SelectItem key={deviceId} value={deviceId}>
+              {deviceNames.get(deviceId) ? `${deviceNames.get(deviceId)} (${deviceId})` : deviceId}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Input
+        type="date"
+        aria-label="From date"
+        value={toDateInput(filters.from)}
+        onChange={e => update({ from: fromDateInput(e.target.value) })}
+        className="w-40 bg-white"
+      />
+      <Input
+        type="date"
+        aria-label="To date"
+        value={toDateInput(filters.to)}
+        onChange={e => {
+          const day = fromDateInput(e.target.value);
+          update({ to: day ? endOfDay(day) : undefined });
+        }}
+        className="w-40 bg-white"
+      />
+
+      <Select
+        value={durationPreset}
+        onValueChange={value => {
+          const preset = DURATION_PRESETS.find(option => option.value === value);
+          update({
+            minDurationMs: preset?.min,
+            maxDurationMs: preset?.max,
+          });
+        }}
+      >
+        <SelectTrigger className="w-36 bg-white" aria-label="Duration">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any duration</SelectItem>
+          {DURATION_PRESETS.map(preset => (
+            <SelectItem key={preset.value} value={preset.value}>
+              {preset.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.mlConfirmed === undefined ? ANY : String(filters.mlConfirmed)}
+        onValueChange={value => update({ mlConfirmed: value === ANY ? undefined : value === 'true' })}
+      >
+        <SelectTrigger className="w-36 bg-white" aria-label="ML confirmation">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any detection</SelectItem>
+          <SelectItem value="true">AI confirmed</SelectItem>
+          <SelectItem value="false">Sensor only</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.peakLevel ?? ANY}
+        onValueChange={value => update({ peakLevel: value === ANY ? undefined : (value as AlertLevel) })}
+      >
+        <SelectTrigger className="w-36 bg-white" aria-label="Peak severity">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any severity</SelectItem>
+          {(Object.keys(PEAK_LABELS) as AlertLevel[]).map(level => (
+            <SelectItem key={level} value={level}>
+              Peak: {PEAK_LABELS[level]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {hasSessionFilters(filters) && (
+        <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+          <X className="w-4 h-4 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SessionFilterBar;
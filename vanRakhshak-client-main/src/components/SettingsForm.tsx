@@ -0,0 +1,324 @@
+// src/components/SettingsForm.tsx
+import React, { useEffect } from 'react';
+import { useForm, type Control, type FieldPath } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSettings } from '@/hooks/use-settings';
+import { getHttpBackendConfig } from '@/api/backend';
+import { saveSettings, settingsSchema, type Settings } from '@/lib/settings';
+import { requestNotificationPermission } from '@/lib/notifications';
+
+// Threshold profiles have their own editor below the form
+const settingsFormSchema = settingsSchema.omit({ version: true, thresholds: true });
+type SettingsFormValues = z.infer<typeof settingsFormSchema>;
+
+const toFormValues = ({ version, thresholds, ...values }: Settings): SettingsFormValues => values;
+
+// What each endpoint falls back to when left empty
+const EMPTY_ENDPOINTS: Settings['endpoints'] = {
+  apiBaseUrl: '',
+  alertStreamUrl: '',
+  mlApiUrl: '',
+  weatherApiUrl: '',
+  weatherApiKey: '',
+};
+
+interface TextFieldProps {
+  control: Control<SettingsFormValues>;
+  name: FieldPath<SettingsFormValues>;
+  label: string;
+  description?: string;
+  type?: 'text' | 'number' | 'password';
+  placeholder?: string;
+}
+
+const TextField: React.FC<TextFieldProps> = ({ control, name, label, description, type = 'text', placeholder }) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <FormControl>
+          <Input
+            type={type}
+            step={type === 'number' ? 'any' : undefined}
+            placeholder={placeholder}
+            {...field}
+            value={(field.value as string | number) ?? ''}
+          />
+        </FormControl>
+        {description && <FormDescription>{description}</FormDescription>}
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+// Intervals are stored in milliseconds but edited in seconds
+const SecondsField: React.FC<Omit<TextFieldProps, 'type' | 'placeholder'>> = ({ control, name, label, description }) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <FormControl>
+          <Input
+            type="number"
+            min={1}
+            step="any"
+            name={field.name}
+            ref={field.ref}
+            onBlur={field.onBlur}
+            value={Number(field.value) / 1000}
+            onChange={event => field.onChange(Math.round(Number(event.target.value) * 1000))}
+          />
+        </FormControl>
+        {description && <FormDescription>{description}</FormDescription>}
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+const NOTIFICATION_OPTIONS: { name: keyof Settings['notifications']; label: string; description: string }[] = [
+  { name: 'popup', label: 'Dashboard popup', description: 'Show the fire alert popup on the dashboard when a new fire is detected.' },
+  { name: 'sound', label: 'Alarm sound', description: 'Play a short alarm when a new fire is detected.' },
+  { name: 'browser', label: 'Browser notifications', description: 'Show a desktop notification, even when the tab is in the background.' },
+];
+
+const SettingsForm: React.FC = () => {
+  const settings = useSettings();
+  const fallbackEndpoints = getHttpBackendConfig(EMPTY_ENDPOINTS);
+
+  const form = useForm<SettingsFormValues>({
+    resolver: zodResolver(settingsFormSchema),
+    defaultValues: toFormValues(settings),
+  });
+
+  // Pick up imports and resets made outside the form
+  useEffect(() => {
+    form.reset(toFormValues(settings));
+  }, [settings, form]);
+
+  const onSubmit = (values: SettingsFormValues) => {
+    try {
+      saveSettings({ ...settings, ...values });
+      toast.success('Settings saved');
+    } catch (error) {
+      const message = error instanceof z.ZodError ? error.issues[0]?.message : error instanceof Error ? error.message : null;
+      toast.error(`Could not save settings: ${message || 'Invalid values'}`);
+    }
+  };
+
+  const handleBrowserToggle = async (checked: boolean, onChange: (value: boolean) => void) => {
+    if (!checked) {
+      onChange(false);
+      return;
+    }
+    const permission = await requestNotificationPermission();
+    if (permission === 'granted') {
+      onChange(true);
+    } else {
+      toast.error('Browser notifications are blocked for this site');
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <Card className="glass-card border-forest-accent/30">
+            <CardHeader>
+              <CardTitle className="text-forest-primary">Polling</CardTitle>
+              <CardDescription>How often the dashboard refreshes, and when a silent sensor counts as offline.</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <SecondsField control={form.control} name="polling.sensorIntervalMs" label="Sensors (s)" />
+              <SecondsField control={form.control} name="polling.weatherIntervalMs" label="Weather (s)" />
+              <SecondsField control={form.control} name="polling.heartbeatTimeoutMs" label="Offline after (s)" />
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card border-forest-accent/30">
+            <CardHeader>
+              <CardTitle className="text-forest-primary">Display</CardTitle>
+              <CardDescription>Units used wherever readings are shown. Sensors always report Celsius.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FormField
+                control={form.control}
+                name="units.temperature"
+                render={({ field }) => (
+                  <FormItem className="max-w-xs">
+                    <FormLabel>Temperature</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="celsius">Celsius (°C)</SelectItem>
+                        <SelectItem value="fahrenheit">Fahrenheit (°F)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="glass-card border-forest-accent/30">
+          <CardHeader>
+            <CardTitle className="text-forest-primary">Endpoints</CardTitle>
+            <CardDescription>Leave a field empty to use the deployment default shown in grey.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <TextField control={form.control} name="endpoints.apiBaseUrl" label="Sensor API" placeholder={fallbackEndpoints.apiBaseUrl} />
+            <TextField
+              control={form.control}
+              name="endpoints.alertStreamUrl"
+              label="Alert stream (SSE or WebSocket)"
+              placeholder={import.meta.env.VITE_ALERT_STREAM_URL || 'Disabled'}
+            />
+            <TextField control={form.control} name="endpoints.mlApiUrl" label="Fire prediction API" placeholder={fallbackEndpoints.mlApiUrl} />
+            <TextField control={form.control} name="endpoints.weatherApiUrl" label="Weather API" placeholder={fallbackEndpoints.weatherApiUrl} />
+            <TextField
+              control={form.control}
+              name="endpoints.weatherApiKey"
+              label="Weather API key"
+              type="password"
+              placeholder={fallbackEndpoints.weatherApiKey ? 'Set in environment' : 'Not set'}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <Card className="glass-card border-forest-accent/30">
+            <CardHeader>
+              <CardTitle className="text-forest-primary">Map</CardTitle>
+              <CardDescription>Where maps open and which tile server they load.</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <TextField control={form.control} name="map.center.latitude" label="Center latitude" type="number" />
+              <TextField control={form.control} name="map.center.longitude" label="Center longitude" type="number" />
+              <TextField control={form.control} name="map.zoom" label="Zoom" type="number" />
+              <div className="md:col-span-3 space-y-4">
+                <TextField
+                  control={form.control}
+                  name="map.tileUrl"
+                  label="Tile URL"
+                  description="Leaflet URL template, e.g. https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                />
+                <TextField control={form.control} name="map.tileAttribution" label="Tile attribution" />
+              </div>
+              <div className="md:col-span-2">
+                <TextField
+                  control={form.control}
+                  name="map.demTileUrl"
+                  label="Elevation tile URL"
+                  description="Terrain-RGB PNG tiles for slope and aspect, e.g. /dem/{z}/{x}/{y}.png (see the README to build them); empty turns terrain off"
+                />
+              </div>
+              <TextField control={form.control} name="map.demZoom" label="Elevation zoom" type="number" />
+              <div className="md:col-span-2">
+                <TextField
+                  control={form.control}
+                  name="map.assetsUrl"
+                  label="Assets GeoJSON URL"
+                  description="Settlements, roads, schools, water sources and ranger posts checked against the spread zones; leave empty to turn it off"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <TextField
+                  control={form.control}
+                  name="map.roadNetworkUrl"
+                  label="Road network GeoJSON URL"
+                  description="Roads, tracks and trails that crews are routed over from the ranger posts; lines must share a vertex where they join. Leave empty to turn routing off"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card border-forest-accent/30">
+            <CardHeader>
+              <CardTitle className="text-forest-primary">Mesh Hub</CardTitle>
+              <CardDescription>The central station sensors relay through.</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <TextField control={form.control} name="meshHub.name" label="Name" />
+              </div>
+              <TextField control={form.control} name="meshHub.latitude" label="Latitude" type="number" />
+              <TextField control={form.control} name="meshHub.longitude" label="Longitude" type="number" />
+              <TextField control={form.control} name="meshHub.rangeM" label="Hub range (m)" type="number" />
+              <TextField
+                control={form.control}
+                name="meshHub.maxRangeM"
+                label="Max link range (m)"
+                type="number"
+                description="Sensors further away are not linked to the hub."
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="glass-card border-forest-accent/30">
+          <CardHeader>
+            <CardTitle className="text-forest-primary">Notifications</CardTitle>
+            <CardDescription>How you are told about newly detected fires.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {NOTIFICATION_OPTIONS.map(option => (
+              <FormField
+                key={option.name}
+                control={form.control}
+                name={`notifications.${option.name}`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4 rounded-lg border border-forest-accent/30 p-3 space-y-0">
+                    <div className="space-y-0.5">
+                      <FormLabel>{option.label}</FormLabel>
+                      <FormDescription>{option.description}</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={checked =>
+                          option.name === 'browser' ? handleBrowserToggle(checked, field.onChange) : field.onChange(checked)
+                        }
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" disabled={!form.formState.isDirty} onClick={() => form.reset(toFormValues(settings))}>
+            Discard Changes
+          </Button>
+          <Button type="submit" disabled={!form.formState.isDirty} className="bg-forest-primary text-white hover:bg-forest-primary/90">
+            <Save className="w-4 h-4 mr-2" />
+            Save Settings
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default SettingsForm;
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Download, Pause, Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { formatHorizon } from '@/lib/fireSpread';
+import type { SpreadFrame } from '@/lib/spreadTimeline';
+
+// Real time between frames while playing
+const FRAME_INTERVAL_MS = 600;
+
+interface SpreadPlaybackBarProps {
+  frames: SpreadFrame[];
+  // null while playback is off and only the fixed projections are shown
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+  onExport: () => void;
+  // False when no forecast could be loaded and the current weather is held throughout
+  hasForecast: boolean;
+}
+
+const SpreadPlaybackBar: React.FC<SpreadPlaybackBarProps> = ({ frames, index, onIndexChange, onExport, hasForecast }) => {
+  const [playing, setPlaying] = useState(false);
+  const lastIndex = frames.length - 1;
+  const frame = index === null ? null : frames[index];
+
+  useEffect(() => {
+    if (!playing) return;
+    if (index === lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timer = window.setTimeout(() => onIndexChange((index ?? -1) + 1), FRAME_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, index, lastIndex, onIndexChange]);
+
+  const togglePlaying = () => {
+    // Start from the beginning when nothing is shown yet or the end was reached
+    if (!playing && (index === null || index === lastIndex)) onIndexChange(0);
+    setPlaying(!playing);
+  };
+
+  const stop = () => {
+    setPlaying(false);
+    onIndexChange(null);
+  };
+
+  return (
+    <Card className="border border-gray-200 shadow-sm">
+      <CardHeader className="bg-white border-b py-4">
+        <CardTitle className="flex items-center gap-3 text-base">
+          <Clock className="w-5 h-5 text-blue-600" />
+          <span>Spread Playback</span>
+          <span className="ml-auto text-xs font-normal text-gray-500">
+            {hasForecast ? 'Driven by the wind forecast' : 'No forecast available; current wind held'}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={togglePlaying}
+            disabled={frames.length === 0}
+            aria-label={playing ? 'Pause playback' : 'Play spread'}
+          >
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Slider
+            value={[index ?? 0]}
+            min={0}
+            max={Math.max(0, lastIndex)}
+            step={1}
+            disabled={frames.length === 0}
+            onValueChange={([value]) => {
+              setPlaying(false);
+              onIndexChange(value);
+            }}
+            aria-label="Playback time"
+          />
+          <Button size="icon" variant="ghost" onClick={stop} disabled={index === null} aria-label="Stop playback">
+            <X className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={onExport} disabled={frames.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Frames
+          </Button>
+        </div>
+        <div className="text-sm text-gray-600">
+          {frame ? (
+            <>
+              <span className="font-semibold text-gray-900">{formatHorizon(frame.minutes)}</span> ·{' '}
+              {new Date(frame.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · wind{' '}
+              {frame.weather.windSpeedMs.toFixed(1)} m/s from {Math.round(frame.weather.windFromDeg)}° ·{' '}
+              {frame.areaHa.toFixed(1)} ha
+            </>
+          ) : (
+            'Press play or drag the slider to watch the perimeter grow over the next hours.'
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpreadPlaybackBar;
@@ -2,19 +2,20 @@
 import React from 'react';
 import { AlertTriangle, CheckCircle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { classifyReading, type ClassifiableReading } from '@/lib/thresholds';
+import { useThresholdProfiles } from '@/hooks/use-threshold-profiles';
 
 interface StatusIndicatorProps {
-  reading: {
-    isFire: boolean;
-    temp: number;
-    smoke: number;
-  };
+  reading: ClassifiableReading;
   size?: 'sm' | 'lg';
 }
 
 const StatusIndicator: React.FC<StatusIndicatorProps> = ({ reading, size = 'md' }) => {
+  const profiles = useThresholdProfiles();
+
   const getStatusConfig = () => {
-    if (reading.isFire) {
+    const level = classifyReading(reading, profiles);
+    if (level === 'fire') {
       return {
         text: 'FIRE DETECTED',
         color: 'text-red-600 bg-red-100',
@@ -22,7 +23,7 @@ const StatusIndicator: React.FC<StatusIndicatorProps> = ({ reading, size = 'md'
         pulse: true
       };
     }
-    if (reading.temp > 35 || reading.smoke > 50) {
+    if (level === 'warning') {
       return {
         text: 'WARNING',
         color: 'text-yellow-600 bg-yellow-100',
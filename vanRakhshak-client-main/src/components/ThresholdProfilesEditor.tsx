@@ -0,0 +1,220 @@
+// src/components/ThresholdProfilesEditor.tsx
+import React, { useEffect, useState } from 'react';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useThresholdProfiles } from '@/hooks/use-threshold-profiles';
+import { UTTARAKHAND_FOREST_BOUNDARIES } from '@/lib/forestBoundaries';
+import { updateSettings } from '@/lib/settings';
+import {
+  DEFAULT_PROFILE_ID,
+  DEFAULT_THRESHOLD_PROFILES,
+  METRIC_DIRECTION,
+  THRESHOLD_METRICS,
+  type MetricThreshold,
+  type ThresholdMetric,
+  type ThresholdProfile,
+} from '@/lib/thresholds';
+
+const METRIC_LABELS: Record<ThresholdMetric, string> = {
+  temp: 'Temperature (°C)',
+  smoke: 'Smoke (ppm)',
+  humidity: 'Humidity (%)',
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const ANY_REGION = 'any';
+
+const ThresholdProfilesEditor: React.FC = () => {
+  const profiles = useThresholdProfiles();
+  const [draft, setDraft] = useState<ThresholdProfile[]>(profiles);
+
+  useEffect(() => {
+    setDraft(profiles);
+  }, [profiles]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(profiles);
+
+  const updateProfile = (id: string, changes: Partial<ThresholdProfile>) => {
+    setDraft(current => current.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)));
+  };
+
+  const updateLimit = (profile: ThresholdProfile, metric: ThresholdMetric, level: keyof MetricThreshold, raw: string) => {
+    const value = raw.trim() === '' ? undefined : Number(raw);
+    updateProfile(profile.id, {
+      metrics: { ...profile.metrics, [metric]: { ...profile.metrics[metric], [level]: value } },
+    });
+  };
+
+  const addProfile = () => {
+    const base = draft.find(profile => profile.id === DEFAULT_PROFILE_ID) ?? draft[0];
+    setDraft(current => [
+      ...current,
+      {
+        id: `profile-${Date.now().toString(36)}`,
+        name: 'New profile',
+        metrics: structuredClone(base.metrics),
+        months: [],
+      },
+    ]);
+  };
+
+  const handleSave = () => {
+    try {
+      updateSettings('thresholds', draft);
+      toast.success('Threshold profiles saved');
+    } catch (error) {
+      const message = error instanceof z.ZodError ? error.issues[0]?.message : error instanceof Error ? error.message : null;
+      toast.error(`Could not save profiles: ${message || 'Invalid values'}`);
+    }
+  };
+
+  const handleReset = () => {
+    updateSettings('thresholds', DEFAULT_THRESHOLD_PROFILES);
+    toast.success('Threshold profiles reset to defaults');
+  };
+
+  return (
+    <Card className="glass-card border-forest-accent/30">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-forest-primary">Alert Thresholds</CardTitle>
+          <CardDescription>
+            Readings past a warning or fire limit change the sensor status everywhere in the dashboard. Region and
+            season profiles override the default where they apply; leave a limit empty to ignore it.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" size="sm" onClick={handleReset}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+          <Button variant="outline" size="sm" onClick={addProfile}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Profile
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!isDirty} className="bg-forest-primary text-white hover:bg-forest-primary/90">
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft.map(profile => {
+          const isDefault = profile.id === DEFAULT_PROFILE_ID;
+          const nameValid = profile.name.trim().length > 0;
+
+          return (
+            <div key={profile.id} className="rounded-lg border border-forest-accent/30 p-4 space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-1.5 flex-1 min-w-[180px]">
+                  <Label htmlFor={`${profile.id}-name`}>Profile name</Label>
+                  <Input
+                    id={`${profile.id}-name`}
+                    value={profile.name}
+                    onChange={event => updateProfile(profile.id, { name: event.target.value })}
+                    className={nameValid ? '' : 'border-destructive'}
+                  />
+                </div>
+                {isDefault ? (
+                  <Badge variant="secondary" className="mb-2">Applies everywhere else</Badge>
+                ) : (
+                  <>
+                    <div className="space-y-1.5 min-w-[220px]">
+                      <Label>Region</Label>
+                      <Select
+                        value={profile.region ?? ANY_REGION}
+                        onValueChange={value => updateProfile(profile.id, { region: value === ANY_REGION ? undefined : value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY_REGION}>Any region</SelectItem>
+                          {UTTARAKHAND_FOREST_BOUNDARIES.map(forest => (
+                            <SelectItem key={forest.properties.name} value={forest.properties.name}>
+                              {forest.properties.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Delete ${profile.name}`}
+                      onClick={() => setDraft(current => current.filter(item => item.id !== profile.id))}
+                      className="text-forest-danger"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              {!isDefault && (
+                <div className="space-y-1.5">
+                  <Label>Months (none selected = all year)</Label>
+                  {!profile.region && !profile.months?.length && (
+                    <p className="text-xs text-forest-warning">Choose a region or months, otherwise this profile is never used.</p>
+                  )}
+                  <ToggleGroup
+                    type="multiple"
+                    variant="outline"
+                    size="sm"
+                    className="flex-wrap justify-start"
+                    value={(profile.months ?? []).map(String)}
+                    onValueChange={values => updateProfile(profile.id, { months: values.map(Number).sort((a, b) => a - b) })}
+                  >
+                    {MONTHS.map((month, index) => (
+                      <ToggleGroupItem key={month} value={String(index + 1)} className="w-12">
+                        {month}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+              )}
+
+              <div className="grid grid-cols-[minmax(140px,1fr)_1fr_1fr] gap-x-4 gap-y-2 items-center text-sm">
+                <span className="text-muted-foreground">Metric</span>
+                <span className="text-forest-warning font-medium">Warning</span>
+                <span className="text-forest-danger font-medium">Fire</span>
+                {THRESHOLD_METRICS.map(metric => (
+                  <React.Fragment key={metric}>
+                    <span>
+                      {METRIC_LABELS[metric]}
+                      <span className="block text-xs text-muted-foreground">
+                        {METRIC_DIRECTION[metric] === 'above' ? 'alert above limit' : 'alert below limit'}
+                      </span>
+                    </span>
+                    {(['warning', 'fire'] as const).map(level => (
+                      <Input
+                        key={level}
+                        type="number"
+                        step="any"
+                        placeholder="off"
+                        aria-label={`${METRIC_LABELS[metric]} ${level} limit`}
+                        value={profile.metrics[metric][level] ?? ''}
+                        onChange={event => updateLimit(profile, metric, level, event.target.value)}
+                      />
+                    ))}
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ThresholdProfilesEditor;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { KeyRound } from 'lucide-react';
+
+interface WeatherNotConfiguredProps {
+  // What goes without weather on this page
+  impact?: string;
+  className?: string;
+}
+
+// Shown in place of weather when no OpenWeather key is set, so a fresh checkout does not
+// look like an outage
+const WeatherNotConfigured: React.FC<WeatherNotConfiguredProps> = ({ impact, className = '' }) => (
+  <div className={`flex items-start gap-3 p-4 rounded-lg border border-amber-200 bg-amber-50 ${className}`}>
+    <KeyRound className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+    <div>
+      <p className="font-semibold text-amber-900">Weather API key not configured</p>
+      <p className="text-sm text-amber-800">
+        Set <code>VITE_OPENWEATHER_API_KEY</code> in <code>.env</code> (see <code>.env.example</code>) or add a key under
+        Settings → Endpoints.{impact && ` ${impact}`}
+      </p>
+    </div>
+  </div>
+);
+
+export default WeatherNotConfigured;
@@ -1,18 +1,25 @@
 // src/components/WeatherPanel.tsx
 import React from 'react';
 import { Wind, Thermometer, Droplets, Gauge } from 'lucide-react';
+import WeatherNotConfigured from '@/components/WeatherNotConfigured';
 
 interface WeatherPanelProps {
   weatherData: any;
+  // No OpenWeather key, so weatherData will never arrive
+  notConfigured?: boolean;
 }
 
-const WeatherPanel: React.FC<WeatherPanelProps> = ({ weatherData }) => {
+const WeatherPanel: React.FC<WeatherPanelProps> = ({ weatherData, notConfigured = false }) => {
   const getWindDirection = (degrees: number): string => {
     const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
     const index = Math.round(degrees / 22.5) % 16;
     return directions[index];
   };
 
+  if (!weatherData && notConfigured) {
+    return <WeatherNotConfigured />;
+  }
+
   if (!weatherData) {
     return (
       <div className="bg-gradient-to-br from-blue-50 to-cyan-50 p-6 rounded-xl border border-blue-200">
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { loadAssets } from '@/lib/assetsAtRisk';
+import { useSettings } from './use-settings';
+
+export const ASSETS_QUERY_KEY = ['assets'] as const;
+
+// Settlements, roads and other assets from the local GeoJSON; null when there is no file
+export function useAssets() {
+  const { assetsUrl } = useSettings().map;
+
+  return useQuery({
+    queryKey: [...ASSETS_QUERY_KEY, assetsUrl],
+    queryFn: () => loadAssets(assetsUrl),
+    enabled: Boolean(assetsUrl),
+    // The file ships with the app and does not change while it is open
+    staleTime: Infinity,
+  });
+}
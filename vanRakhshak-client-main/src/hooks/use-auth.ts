@@ -0,0 +1,13 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getAuthSession, hasPermission, subscribeAuth, type Permission } from '@/lib/auth';
+import { isOpenMode, login, logout, OPEN_MODE_USER } from '@/api/auth';
+
+export function useAuth() {
+  const session = useSyncExternalStore(subscribeAuth, getAuthSession);
+  const openMode = isOpenMode();
+  const user = session?.user ?? (openMode ? OPEN_MODE_USER : null);
+  const role = user?.role;
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return { session, user, openMode, can, login, logout };
+}
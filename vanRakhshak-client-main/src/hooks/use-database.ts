@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getDatabaseStatus, subscribeDatabaseStatus } from '@/lib/db';
+
+export function useDatabaseStatus() {
+  return useSyncExternalStore(subscribeDatabaseStatus, getDatabaseStatus);
+}
@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { listDigests, runDigestScheduler } from '@/lib/digests';
+import { useSettings } from './use-settings';
+
+export const DIGESTS_QUERY_KEY = ['digests'] as const;
+
+// Periods roll over at midnight, so checking a few times an hour is plenty
+const DIGEST_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export function useDigests() {
+  return useQuery({
+    queryKey: DIGESTS_QUERY_KEY,
+    queryFn: listDigests,
+  });
+}
+
+// Writes daily and weekly digests, catching up on periods missed while the app was
+// closed. Mounted once in the app shell so it runs whichever page is open.
+export function useDigestScheduler() {
+  const queryClient = useQueryClient();
+  const { heartbeatTimeoutMs } = useSettings().polling;
+
+  useEffect(() => {
+    const run = () =>
+      runDigestScheduler({ heartbeatTimeoutMs })
+        .then(created => {
+          if (created.length > 0) queryClient.invalidateQueries({ queryKey: DIGESTS_QUERY_KEY });
+        })
+        .catch(error => console.error('Error generating digests:', error));
+
+    run();
+    const timer = window.setInterval(run, DIGEST_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [heartbeatTimeoutMs, queryClient]);
+}
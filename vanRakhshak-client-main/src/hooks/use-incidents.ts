@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { flushIncidentQueue, refreshIncidents, syncIncidentsWithFireSensors } from '@/lib/incidentStore';
+import { useAuth } from './use-auth';
+import { useSensors } from './use-sensors';
+import { useSettings } from './use-settings';
+
+export const INCIDENTS_QUERY_KEY = ['incidents'] as const;
+
+export function useIncidents() {
+  return useQuery({
+    queryKey: INCIDENTS_QUERY_KEY,
+    queryFn: refreshIncidents,
+    // Picks up changes other operators make
+    refetchInterval: useSettings().polling.sensorIntervalMs,
+  });
+}
+
+// Opens incidents for newly burning sensors. Mounted once in the app shell so
+// detection does not depend on which page is open. Only roles that manage
+// incidents write them; the backend would reject anyone else's changes.
+export function useIncidentTracker() {
+  const queryClient = useQueryClient();
+  const { data: sensors } = useSensors();
+  const canManage = useAuth().can('incidents:manage');
+
+  useEffect(() => {
+    if (!canManage || !sensors?.length) return;
+    const refresh = () => queryClient.invalidateQueries({ queryKey: INCIDENTS_QUERY_KEY });
+    syncIncidentsWithFireSensors(sensors)
+      .then(changed => {
+        if (changed) refresh();
+      })
+      .catch(error => console.error('Error updating incidents:', error))
+      // Every poll also retries changes queued while the backend was unreachable
+      .then(flushIncidentQueue)
+      .then(sent => {
+        if (sent > 0) refresh();
+      })
+      .catch(error => console.warn('Incident changes stay queued until the backend is reachable:', error));
+  }, [sensors, queryClient, canManage]);
+}
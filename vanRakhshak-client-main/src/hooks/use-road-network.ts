@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { loadRoadNetwork } from '@/lib/crewRouting';
+import { useSettings } from './use-settings';
+
+export const ROAD_NETWORK_QUERY_KEY = ['road-network'] as const;
+
+// Routable graph of the local road and trail GeoJSON; null when there is no file
+export function useRoadNetwork() {
+  const { roadNetworkUrl } = useSettings().map;
+
+  return useQuery({
+    queryKey: [...ROAD_NETWORK_QUERY_KEY, roadNetworkUrl],
+    queryFn: () => loadRoadNetwork(roadNetworkUrl),
+    enabled: Boolean(roadNetworkUrl),
+    // The file ships with the app and does not change while it is open
+    staleTime: Infinity,
+  });
+}
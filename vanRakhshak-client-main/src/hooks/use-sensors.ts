@@ -0,0 +1,84 @@
+import { useQuery } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import type { AlertData } from '@/api/fireAlerts';
+import {
+  DeviceNotFoundError,
+  FIRE_REPORTS_QUERY_KEY,
+  getFireAlertByDeviceId,
+  getFireAlerts,
+  getFireReports,
+  mergeFireReports,
+} from '@/api/fireAlerts';
+import { sensorQueryKeys, toFireReports, toSensorDataList } from '@/api/sensorRepository';
+import { getStreamStatus, subscribeStreamStatus } from '@/api/alertStream';
+import { BackendConfigurationError } from '@/api/backend';
+import { useSettings } from './use-settings';
+
+// How often derived statuses are re-evaluated, so a sensor that goes quiet
+// turns offline even when no new data arrives
+const STATUS_CLOCK_INTERVAL_MS = 30000;
+
+export function useAlertStreamStatus() {
+  return useSyncExternalStore(subscribeStreamStatus, getStreamStatus);
+}
+
+// Fallback polling while the push channel is not connected. One interval for
+// every page, since they all share the same cache entry.
+function usePollInterval() {
+  const { sensorIntervalMs } = useSettings().polling;
+  return useAlertStreamStatus() === 'open' ? false : sensorIntervalMs;
+}
+
+export function useNow(intervalMs: number = STATUS_CLOCK_INTERVAL_MS) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
+
+export function useSensors() {
+  const now = useNow();
+  const { thresholds: profiles, polling } = useSettings();
+  const { heartbeatTimeoutMs } = polling;
+  const select = useCallback(
+    (alerts: AlertData[]) => toSensorDataList(alerts, { now, profiles, heartbeatTimeoutMs }),
+    [now, profiles, heartbeatTimeoutMs]
+  );
+
+  return useQuery({
+    queryKey: sensorQueryKeys.all,
+    queryFn: getFireAlerts,
+    select,
+    refetchInterval: usePollInterval(),
+  });
+}
+
+// Ranger reports from every client, from the same snapshot as the sensors. Reports this
+// client filed stay on the map from the local cache until the backend returns them.
+export function useFireReports() {
+  const { data: shared } = useQuery({
+    queryKey: sensorQueryKeys.all,
+    queryFn: getFireAlerts,
+    select: toFireReports,
+    refetchInterval: usePollInterval(),
+  });
+  const { data: local } = useQuery({ queryKey: FIRE_REPORTS_QUERY_KEY, queryFn: getFireReports });
+
+  return useMemo(() => mergeFireReports(shared, local), [shared, local]);
+}
+
+export function useSensor(deviceId: string | undefined) {
+  return useQuery({
+    queryKey: sensorQueryKeys.detail(deviceId ?? ''),
+    queryFn: () => (deviceId ? getFireAlertByDeviceId(deviceId) : null),
+    refetchInterval: usePollInterval(),
+    enabled: !!deviceId,
+    // An unknown device or a misconfigured endpoint will not come right by retrying
+    retry: (failureCount, error) =>
+      !(error instanceof DeviceNotFoundError || error instanceof BackendConfigurationError) && failureCount < 3,
+  });
+}
@@ -0,0 +1,70 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { archiveSessions, listSessions, querySessions, type SessionFilters, type SessionQuery } from '@/lib/sessionArchive';
+import { getFireAlertSessions, subscribeFireAlertSessions, trackSensorReadings } from '@/lib/sessionTracker';
+import { linkSessionToIncident, syncIncidentsWithFireSensors } from '@/lib/incidentStore';
+import type { FireAlertSession } from '@/types/session';
+import { useAuth } from './use-auth';
+import { INCIDENTS_QUERY_KEY } from './use-incidents';
+import { useSensors } from './use-sensors';
+
+export const SESSIONS_QUERY_KEY = ['sessions'] as const;
+
+export function useFireAlertSessions() {
+  return useSyncExternalStore(subscribeFireAlertSessions, getFireAlertSessions);
+}
+
+// Links a new session to its device's incident, opening the incident first if
+// the incident tracker has not seen this reading yet
+export const linkSessionsToIncidents = async (sessions: FireAlertSession[]) => {
+  let linked = false;
+  for (const session of sessions) {
+    await syncIncidentsWithFireSensors(session.readings.slice(0, 1));
+    if (await linkSessionToIncident(session.deviceId, session.id)) linked = true;
+  }
+  return linked;
+};
+
+// Runs session detection for every device on each poll. Mounted once in the
+// app shell so sessions are recorded whichever page is open.
+export function useSessionTracker() {
+  const queryClient = useQueryClient();
+  const { data: sensors } = useSensors();
+  const canManageIncidents = useAuth().can('incidents:manage');
+
+  useEffect(() => {
+    if (!sensors?.length) return;
+    const { started, completed } = trackSensorReadings(sensors);
+
+    if (completed.length) {
+      archiveSessions(completed)
+        .then(() => queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY }))
+        .catch(error => console.error('Error archiving sessions:', error));
+    }
+    if (started.length === 0 || !canManageIncidents) return;
+
+    linkSessionsToIncidents(started)
+      .then(linked => {
+        if (linked) queryClient.invalidateQueries({ queryKey: INCIDENTS_QUERY_KEY });
+      })
+      .catch(error => console.error('Error linking sessions to incidents:', error));
+  }, [sensors, queryClient, canManageIncidents]);
+}
+
+// One page of archived sessions; the previous page stays visible while the next loads
+export function useSessionPage(query: SessionQuery) {
+  return useQuery({
+    queryKey: [...SESSIONS_QUERY_KEY, query],
+    queryFn: () => querySessions(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Every archived session matching the filters, e.g. for fleet-wide analytics
+export function useArchivedSessions(filters: SessionFilters) {
+  return useQuery({
+    queryKey: [...SESSIONS_QUERY_KEY, 'list', filters],
+    queryFn: () => listSessions(filters),
+    placeholderData: keepPreviousData,
+  });
+}
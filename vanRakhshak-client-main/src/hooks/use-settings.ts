@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getSettings, subscribeSettings } from '@/lib/settings';
+
+export function useSettings() {
+  return useSyncExternalStore(subscribeSettings, getSettings);
+}
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { terrainAt } from '@/lib/terrain';
+import { useSettings } from './use-settings';
+
+export const TERRAIN_QUERY_KEY = ['terrain'] as const;
+
+// Slope and aspect under a point from the local elevation tiles; null where they have no data
+export function useTerrain(latitude: number | undefined, longitude: number | undefined) {
+  const { demTileUrl, demZoom } = useSettings().map;
+
+  return useQuery({
+    queryKey: [...TERRAIN_QUERY_KEY, demTileUrl, demZoom, latitude, longitude],
+    queryFn: () => terrainAt(latitude, longitude, { tileUrl: demTileUrl, zoom: demZoom }),
+    enabled: Boolean(demTileUrl) && latitude !== undefined && longitude !== undefined,
+    // Terrain does not change while the app is open
+    staleTime: Infinity,
+  });
+}
@@ -0,0 +1,5 @@
+import { useSettings } from './use-settings';
+
+export function useThresholdProfiles() {
+  return useSettings().thresholds;
+}
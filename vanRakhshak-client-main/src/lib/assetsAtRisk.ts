@@ -0,0 +1,182 @@
+import * as turf from '@turf/turf';
+import { z } from 'zod';
+import { SPREAD_HORIZONS_MIN, fireArrivalMinutes, spreadZoneAt, type SpreadPrediction } from './fireSpread';
+import { fetchLocalGeoJson, positionSchema, toPosition, type Position } from './localGeoJson';
+
+export const ASSET_KINDS = ['school', 'settlement', 'ranger_post', 'road', 'water'] as const;
+export type AssetKind = (typeof ASSET_KINDS)[number];
+
+export const ASSET_KIND_LABELS: Record<AssetKind, string> = {
+  school: 'School',
+  settlement: 'Settlement',
+  ranger_post: 'Ranger post',
+  road: 'Road',
+  water: 'Water source',
+};
+
+// What the evacuation list tells crews to do about each kind
+export const ASSET_ACTIONS: Record<AssetKind, string> = {
+  school: 'Evacuate pupils and staff',
+  settlement: 'Evacuate residents',
+  ranger_post: 'Withdraw staff or stage crews',
+  road: 'Clear traffic before the fire cuts it',
+  water: 'Secure for fire-fighting supply',
+};
+
+// Spacing of the points checked along roads and area outlines
+const SAMPLE_SPACING_M = 50;
+
+const assetFeatureSchema = z.object({
+  type: z.literal('Feature'),
+  id: z.union([z.string(), z.number()]).optional(),
+  geometry: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('Point'), coordinates: positionSchema }),
+    z.object({ type: z.literal('LineString'), coordinates: z.array(positionSchema).min(2) }),
+    z.object({ type: z.literal('Polygon'), coordinates: z.array(z.array(positionSchema).min(4)).min(1) }),
+  ]),
+  properties: z.object({
+    name: z.string().trim().min(1),
+    kind: z.enum(ASSET_KINDS),
+    population: z.number().int().nonnegative().optional(),
+  }),
+});
+
+export type AssetGeometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'Polygon'; coordinates: Position[][] };
+
+export interface Asset {
+  id: string;
+  name: string;
+  kind: AssetKind;
+  // People to move, where the file says
+  population?: number;
+  geometry: AssetGeometry;
+}
+
+export interface AssetExposure {
+  asset: Asset;
+  // Shortest distance from the ignition point, metres
+  distanceM: number;
+  // Minutes until the spreading fire first reaches the asset
+  etaMin: number;
+  // Where it does, [lng, lat]
+  impactPoint: Position;
+  // Innermost projected perimeter that reaches the asset
+  zoneMin: number;
+  // 1 is evacuated first
+  priority: number;
+}
+
+const toAssetGeometry = (geometry: z.infer<typeof assetFeatureSchema>['geometry']): AssetGeometry => {
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: toPosition(geometry.coordinates) };
+    case 'LineString':
+      return { type: 'LineString', coordinates: geometry.coordinates.map(toPosition) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: geometry.coordinates.map(ring => ring.map(toPosition)) };
+  }
+};
+
+// Features that are not valid assets are skipped so one bad entry does not hide the rest
+export const parseAssets = (features: unknown[]): Asset[] => {
+  let skipped = 0;
+  const assets = features.flatMap((feature, index): Asset[] => {
+    const parsed = assetFeatureSchema.safeParse(feature);
+    if (!parsed.success) {
+      skipped += 1;
+      return [];
+    }
+    const { id, geometry, properties } = parsed.data;
+    return [
+      {
+        id: String(id ?? index),
+        name: properties.name,
+        kind: properties.kind,
+        population: properties.population,
+        geometry: toAssetGeometry(geometry),
+      },
+    ];
+  });
+  if (skipped > 0) {
+    console.warn(`Skipped ${skipped} of ${features.length} assets without a name, a known kind or a point, line or polygon`);
+  }
+  return assets;
+};
+
+// null when there is no file at the URL
+export const loadAssets = async (url: string): Promise<Asset[] | null> => {
+  const features = await fetchLocalGeoJson(url, 'assets file');
+  return features && parseAssets(features);
+};
+
+// Vertices plus points every SAMPLE_SPACING_M along each segment between them
+const samplePositions = (geometry: AssetGeometry): Position[] => {
+  if (geometry.type === 'Point') return [geometry.coordinates];
+  const lines = geometry.type === 'LineString' ? [geometry.coordinates] : geometry.coordinates;
+
+  return lines.flatMap(line =>
+    line.flatMap(([longitude, latitude], index): Position[] => {
+      const next = line[index + 1];
+      if (!next) return [[longitude, latitude]];
+      const steps = Math.max(1, Math.ceil(turf.distance([longitude, latitude], next, { units: 'meters' }) / SAMPLE_SPACING_M));
+      return Array.from({ length: steps }, (_, step): Position => [
+        longitude + ((next[0] - longitude) * step) / steps,
+        latitude + ((next[1] - latitude) * step) / steps,
+      ]);
+    })
+  );
+};
+
+// Assets the projected perimeters reach, in evacuation order: by zone, then schools and
+// settlements before posts, roads and water, then by who the fire reaches first
+export const assessAssets = (
+  assets: Asset[],
+  prediction: SpreadPrediction,
+  origin: { latitude: number; longitude: number }
+): AssetExposure[] => {
+  if (!prediction.spreads) return [];
+  const ignition = turf.point([origin.longitude, origin.latitude]);
+  const lastHorizon = SPREAD_HORIZONS_MIN[SPREAD_HORIZONS_MIN.length - 1];
+
+  const exposed = assets.flatMap(asset => {
+    // A fire that starts inside an area has already reached it
+    if (asset.geometry.type === 'Polygon' && turf.booleanPointInPolygon(ignition, turf.polygon(asset.geometry.coordinates))) {
+      return [{ asset, distanceM: 0, etaMin: 0, impactPoint: [origin.longitude, origin.latitude] as Position }];
+    }
+
+    let distanceM = Infinity;
+    let etaMin = Infinity;
+    let impactPoint: Position = [origin.longitude, origin.latitude];
+    samplePositions(asset.geometry).forEach(position => {
+      const eta = fireArrivalMinutes(prediction, origin, position);
+      distanceM = Math.min(distanceM, turf.distance(ignition, position, { units: 'meters' }));
+      if (eta < etaMin) {
+        etaMin = eta;
+        impactPoint = position;
+      }
+    });
+    return etaMin <= lastHorizon ? [{ asset, distanceM, etaMin, impactPoint }] : [];
+  });
+
+  return exposed
+    .map(exposure => ({ ...exposure, zoneMin: spreadZoneAt(exposure.etaMin) }))
+    .sort(
+      (a, b) =>
+        a.zoneMin - b.zoneMin ||
+        ASSET_KINDS.indexOf(a.asset.kind) - ASSET_KINDS.indexOf(b.asset.kind) ||
+        a.etaMin - b.etaMin
+    )
+    .map((exposure, index) => ({ ...exposure, priority: index + 1 }));
+};
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+export const formatEta = (minutes: number) => {
+  if (minutes < 1) return 'Now';
+  const rounded = Math.round(minutes);
+  return rounded < 60 ? `${rounded} min` : `${Math.floor(rounded / 60)} h${rounded % 60 ? ` ${rounded % 60} min` : ''}`;
+};
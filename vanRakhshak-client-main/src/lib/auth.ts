@@ -0,0 +1,107 @@
+// src/lib/auth.ts
+import { z } from 'zod';
+
+const AUTH_STORAGE_KEY = 'vanrakshakAuth';
+
+export const ROLES = ['viewer', 'ranger', 'operator', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  ranger: 'Ranger',
+  operator: 'Control-room operator',
+  admin: 'Admin',
+};
+
+export type Permission = 'alerts:create' | 'incidents:manage' | 'sessions:delete' | 'sessions:import' | 'settings:edit';
+
+// Everyone signed in can view the dashboard; these are the actions that change data
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  ranger: ['alerts:create', 'incidents:manage'],
+  operator: ['alerts:create', 'incidents:manage', 'sessions:delete', 'sessions:import'],
+  admin: ['alerts:create', 'incidents:manage', 'sessions:delete', 'sessions:import', 'settings:edit'],
+};
+
+export const hasPermission = (role: Role | undefined, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export const authUserSchema = z.object({
+  id: z.string().min(1),
+  username: z.string().min(1),
+  name: z.string().min(1),
+  role: z.enum(ROLES),
+});
+
+// What an identity provider hands back on login
+export const authSessionSchema = z.object({
+  token: z.string().min(1),
+  expiresAt: z.string().datetime({ offset: true }),
+  user: authUserSchema,
+});
+
+export type AuthUser = z.infer<typeof authUserSchema>;
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+const isExpired = (session: AuthSession) => new Date(session.expiresAt).getTime() <= Date.now();
+
+let currentSession: AuthSession | null | undefined;
+let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// setTimeout overflows past ~24.8 days; a session that long is re-checked on the next load
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const scheduleExpiry = (session: AuthSession | null) => {
+  clearTimeout(expiryTimer);
+  if (!session) return;
+  const remaining = new Date(session.expiresAt).getTime() - Date.now();
+  if (remaining < MAX_TIMER_MS) {
+    expiryTimer = setTimeout(() => clearAuthSession(), Math.max(0, remaining));
+  }
+};
+
+const readStoredSession = (): AuthSession | null => {
+  try {
+    const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+    if (!stored) return null;
+    const result = authSessionSchema.safeParse(JSON.parse(stored));
+    if (result.success && !isExpired(result.data)) return result.data;
+    localStorage.removeItem(AUTH_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error reading auth session:', error);
+  }
+  return null;
+};
+
+export const getAuthSession = (): AuthSession | null => {
+  if (currentSession === undefined) {
+    currentSession = readStoredSession();
+    scheduleExpiry(currentSession);
+  }
+  return currentSession;
+};
+
+export const subscribeAuth = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setAuthSession = (session: AuthSession) => {
+  const validated = authSessionSchema.parse(session);
+  localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(validated));
+  currentSession = validated;
+  scheduleExpiry(validated);
+  notify();
+};
+
+export const clearAuthSession = () => {
+  localStorage.removeItem(AUTH_STORAGE_KEY);
+  currentSession = null;
+  scheduleExpiry(null);
+  notify();
+};
@@ -0,0 +1,309 @@
+import * as turf from '@turf/turf';
+import { z } from 'zod';
+import type { Asset } from './assetsAtRisk';
+import { fireArrivalMinutes, spreadZoneAt, type SpreadPrediction } from './fireSpread';
+import { fetchLocalGeoJson, positionSchema, toPosition, type Position } from './localGeoJson';
+
+export const ROAD_KINDS = ['road', 'track', 'trail'] as const;
+export type RoadKind = (typeof ROAD_KINDS)[number];
+
+// Crew speeds, km/h, for lines without a speedKmh of their own
+const DEFAULT_SPEEDS_KMH: Record<RoadKind, number> = { road: 30, track: 15, trail: 4 };
+// Off the network crews go on foot
+const WALK_SPEED_KMH = 4;
+// Stations and fires further than this from the network cannot be routed
+const MAX_WALK_M = 2000;
+// Cost multipliers for network inside the projected perimeters, by horizon. Soft, so a way
+// in to the fire always exists, but strong enough to take a longer road round a zone.
+const ZONE_PENALTIES: Record<number, number> = { 30: 10, 60: 5, 180: 2 };
+// Lines join where their vertices agree to this many decimals, about 0.1 m
+const NODE_PRECISION = 6;
+
+const roadFeatureSchema = z.object({
+  type: z.literal('Feature'),
+  geometry: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('LineString'), coordinates: z.array(positionSchema).min(2) }),
+    z.object({ type: z.literal('MultiLineString'), coordinates: z.array(z.array(positionSchema).min(2)) }),
+  ]),
+  properties: z.preprocess(
+    value => value ?? {},
+    z.object({
+      name: z.string().trim().optional(),
+      kind: z.enum(ROAD_KINDS).default('road'),
+      speedKmh: z.number().positive().optional(),
+    })
+  ),
+});
+
+interface RoadEdge {
+  from: number;
+  to: number;
+  distanceM: number;
+  minutes: number;
+  name?: string;
+}
+
+export interface RoadNetwork {
+  nodes: Position[];
+  edges: RoadEdge[];
+  // Edge indexes by node
+  adjacency: number[][];
+}
+
+export interface CrewRoute {
+  station: Asset;
+  // [lng, lat] from the station to the fire, with the walks on and off the network
+  path: Position[];
+  distanceM: number;
+  minutes: number;
+  // Network distance inside the projected perimeters; the final walk in to the fire is not counted
+  inZoneM: number;
+  // Innermost perimeter the route crosses
+  innermostZoneMin?: number;
+  // Named roads in travel order
+  via: string[];
+}
+
+export interface CrewRouting {
+  // Fastest first
+  routes: CrewRoute[];
+  // Too far from the network, or on a part of it that does not connect to the fire
+  unreachable: Asset[];
+}
+
+const distanceBetween = (a: Position, b: Position) => turf.distance(a, b, { units: 'meters' });
+
+const travelMinutes = (distanceM: number, speedKmh: number) => (distanceM / 1000 / speedKmh) * 60;
+
+// Lines that are not valid roads are skipped so one bad entry does not cut the network
+export const buildRoadNetwork = (features: unknown[]): RoadNetwork => {
+  const network: RoadNetwork = { nodes: [], edges: [], adjacency: [] };
+  const nodeIds = new Map<string, number>();
+  const nodeAt = (position: Position) => {
+    const key = position.map(value => value.toFixed(NODE_PRECISION)).join(',');
+    let id = nodeIds.get(key);
+    if (id === undefined) {
+      id = network.nodes.push(position) - 1;
+      network.adjacency.push([]);
+      nodeIds.set(key, id);
+    }
+    return id;
+  };
+
+  let skipped = 0;
+  features.forEach(feature => {
+    const parsed = roadFeatureSchema.safeParse(feature);
+    if (!parsed.success) {
+      skipped += 1;
+      return;
+    }
+    const { geometry, properties } = parsed.data;
+    const speedKmh = properties.speedKmh ?? DEFAULT_SPEEDS_KMH[properties.kind];
+    const lines = geometry.type === 'LineString' ? [geometry.coordinates] : geometry.coordinates;
+
+    lines.forEach(line => {
+      line.map(toPosition).forEach((position, index, positions) => {
+        if (index === 0) return;
+        const from = nodeAt(positions[index - 1]);
+        const to = nodeAt(position);
+        if (from === to) return;
+        const distanceM = distanceBetween(network.nodes[from], network.nodes[to]);
+        const edge = network.edges.push({ from, to, distanceM, minutes: travelMinutes(distanceM, speedKmh), name: properties.name }) - 1;
+        network.adjacency[from].push(edge);
+        network.adjacency[to].push(edge);
+      });
+    });
+  });
+  if (skipped > 0) {
+    console.warn(`Skipped ${skipped} of ${features.length} road features that are not lines`);
+  }
+  return network;
+};
+
+// null when there is no file at the URL
+export const loadRoadNetwork = async (url: string): Promise<RoadNetwork | null> => {
+  const features = await fetchLocalGeoJson(url, 'road network');
+  return features && buildRoadNetwork(features);
+};
+
+// Binary heap of [cost, node], cheapest on top
+class MinHeap {
+  private items: Array<[number, number]> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: [number, number]) {
+    const { items } = this;
+    items.push(item);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent][0] <= items[index][0]) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const { items } = this;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+// Closest point of an edge to a position, as a fraction along the edge. Planar with longitude
+// scaled to the latitude, which is close enough over a single road segment.
+const projectOntoEdge = (network: RoadNetwork, edge: RoadEdge, [longitude, latitude]: Position) => {
+  const scale = Math.cos((latitude * Math.PI) / 180);
+  const [fromLng, fromLat] = network.nodes[edge.from];
+  const [toLng, toLat] = network.nodes[edge.to];
+  const dx = (toLng - fromLng) * scale;
+  const dy = toLat - fromLat;
+  const lengthSq = dx * dx + dy * dy;
+  const fraction =
+    lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((longitude - fromLng) * scale * dx + (latitude - fromLat) * dy) / lengthSq));
+  const point: Position = [fromLng + (toLng - fromLng) * fraction, fromLat + (toLat - fromLat) * fraction];
+  return { fraction, point };
+};
+
+// Joins a position to the network at the nearest point of the nearest edge, splitting that
+// edge in two when the point falls between its ends. Changes the network, so callers pass a copy.
+const attachToNetwork = (network: RoadNetwork, position: Position) => {
+  let nearest = { edgeIndex: -1, fraction: 0, point: position, distanceM: Infinity };
+  network.edges.forEach((edge, edgeIndex) => {
+    const { fraction, point } = projectOntoEdge(network, edge, position);
+    const distanceM = distanceBetween(point, position);
+    if (distanceM < nearest.distanceM) nearest = { edgeIndex, fraction, point, distanceM };
+  });
+
+  const { edgeIndex, fraction, point, distanceM } = nearest;
+  if (edgeIndex === -1) return { node: -1, distanceM };
+  const edge = network.edges[edgeIndex];
+  if (fraction <= 0) return { node: edge.from, distanceM };
+  if (fraction >= 1) return { node: edge.to, distanceM };
+
+  // The edge keeps its index for the first half; the second half is a new edge
+  const node = network.nodes.push(point) - 1;
+  network.edges[edgeIndex] = { ...edge, to: node, distanceM: edge.distanceM * fraction, minutes: edge.minutes * fraction };
+  const second =
+    network.edges.push({
+      ...edge,
+      from: node,
+      distanceM: edge.distanceM * (1 - fraction),
+      minutes: edge.minutes * (1 - fraction),
+    }) - 1;
+  network.adjacency[edge.to] = network.adjacency[edge.to].map(index => (index === edgeIndex ? second : index));
+  network.adjacency.push([edgeIndex, second]);
+  return { node, distanceM };
+};
+
+// Fastest route from every ranger station to the fire. The network is undirected, so one
+// Dijkstra search outward from the fire reaches all stations at once.
+export const routeCrews = (
+  roads: RoadNetwork,
+  stations: Asset[],
+  fire: { latitude: number; longitude: number },
+  prediction: SpreadPrediction | null
+): CrewRouting => {
+  // Attaching splits edges; the loaded network is shared, so work on a copy
+  const network: RoadNetwork = { nodes: [...roads.nodes], edges: [...roads.edges], adjacency: [...roads.adjacency] };
+  const firePosition: Position = [fire.longitude, fire.latitude];
+  const entry = attachToNetwork(network, firePosition);
+  if (entry.node === -1 || entry.distanceM > MAX_WALK_M) return { routes: [], unreachable: stations };
+
+  // Stations join before the search so their split edges are part of it
+  const starts = stations.map(station => {
+    const position = turf.centroid(station.geometry).geometry.coordinates as Position;
+    return { station, position, ...attachToNetwork(network, position) };
+  });
+
+  // Perimeter each edge lies in, judged at its midpoint; worked out only for edges the search reaches
+  const edgeZones = new Map<number, number | undefined>();
+  const zoneOf = (edgeIndex: number) => {
+    if (!prediction?.spreads) return undefined;
+    if (!edgeZones.has(edgeIndex)) {
+      const edge = network.edges[edgeIndex];
+      const [fromLng, fromLat] = network.nodes[edge.from];
+      const [toLng, toLat] = network.nodes[edge.to];
+      const midpoint: Position = [(fromLng + toLng) / 2, (fromLat + toLat) / 2];
+      edgeZones.set(edgeIndex, spreadZoneAt(fireArrivalMinutes(prediction, fire, midpoint)));
+    }
+    return edgeZones.get(edgeIndex);
+  };
+
+  const cost = new Array<number>(network.nodes.length).fill(Infinity);
+  // Edge taken to reach each node on the way out from the fire, i.e. the next edge toward it
+  const via = new Array<number>(network.nodes.length).fill(-1);
+  const heap = new MinHeap();
+  cost[entry.node] = 0;
+  heap.push([0, entry.node]);
+
+  while (heap.size > 0) {
+    const [nodeCost, node] = heap.pop();
+    if (nodeCost > cost[node]) continue;
+    network.adjacency[node].forEach(edgeIndex => {
+      const edge = network.edges[edgeIndex];
+      const next = edge.from === node ? edge.to : edge.from;
+      const zone = zoneOf(edgeIndex);
+      const nextCost = nodeCost + edge.minutes * (zone === undefined ? 1 : ZONE_PENALTIES[zone]);
+      if (nextCost < cost[next]) {
+        cost[next] = nextCost;
+        via[next] = edgeIndex;
+        heap.push([nextCost, next]);
+      }
+    });
+  }
+
+  const routes: CrewRoute[] = [];
+  const unreachable: Asset[] = [];
+  starts.forEach(({ station, position: stationPosition, ...start }) => {
+    if (start.distanceM > MAX_WALK_M || cost[start.node] === Infinity) {
+      unreachable.push(station);
+      return;
+    }
+
+    const path: Position[] = [stationPosition];
+    const names: string[] = [];
+    let distanceM = start.distanceM + entry.distanceM;
+    let minutes = travelMinutes(start.distanceM + entry.distanceM, WALK_SPEED_KMH);
+    let inZoneM = 0;
+    let innermostZoneMin: number | undefined;
+    for (let node = start.node; ; ) {
+      path.push(network.nodes[node]);
+      if (node === entry.node) break;
+      const edgeIndex = via[node];
+      const edge = network.edges[edgeIndex];
+      const zone = zoneOf(edgeIndex);
+      distanceM += edge.distanceM;
+      minutes += edge.minutes;
+      if (zone !== undefined) {
+        inZoneM += edge.distanceM;
+        innermostZoneMin = Math.min(innermostZoneMin ?? Infinity, zone);
+      }
+      if (edge.name && names[names.length - 1] !== edge.name) names.push(edge.name);
+      node = edge.from === node ? edge.to : edge.from;
+    }
+    path.push(firePosition);
+
+    routes.push({ station, path, distanceM, minutes, inZoneM, innermostZoneMin, via: names });
+  });
+
+  return { routes: routes.sort((a, b) => a.minutes - b.minutes), unreachable };
+};
@@ -0,0 +1,325 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import type { SensorData } from '@/types/sensor';
+import type { FireAlertSession } from '@/types/session';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json', 'geojson', 'kml'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+  geojson: 'GeoJSON',
+  kml: 'KML (Google Earth)',
+};
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+export interface ExportTable {
+  // Sheet name in XLSX
+  name: string;
+  columns: string[];
+  rows: ExportValue[][];
+}
+
+// [longitude, latitude], the GeoJSON order
+export type ExportPosition = [number, number];
+
+export interface ExportFeature {
+  name: string;
+  geometry:
+    | { type: 'Point'; coordinates: ExportPosition }
+    | { type: 'LineString'; coordinates: ExportPosition[] }
+    | { type: 'Polygon'; coordinates: ExportPosition[][] };
+  properties: Record<string, ExportValue>;
+}
+
+// One thing to export, in every shape the formats need
+export interface ExportDataset {
+  // Base of the downloaded file name, without extension
+  fileName: string;
+  // CSV takes the first table; XLSX writes one sheet per table
+  tables: ExportTable[];
+  // GeoJSON and KML
+  features: ExportFeature[];
+  // Written as-is by the JSON format, so nothing is flattened away
+  data: unknown;
+}
+
+const CSV_NEEDS_QUOTES = /[",\r\n]/;
+
+const csvCell = (value: ExportValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return CSV_NEEDS_QUOTES.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180: fields with commas, quotes or line breaks are quoted, quotes doubled
+export const toCsv = ({ columns, rows }: ExportTable): string =>
+  [columns, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+// Inverse of toCsv; accepts \n or \r\n line endings and a leading BOM
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines, e.g. a trailing newline
+  return rows.filter(cells => cells.some(cell => cell !== ''));
+};
+
+export const toGeoJson = (features: ExportFeature[]) => ({
+  type: 'FeatureCollection' as const,
+  features: features.map(feature => ({
+    type: 'Feature' as const,
+    geometry: feature.geometry,
+    properties: { name: feature.name, ...feature.properties },
+  })),
+});
+
+// RFC 8142 GeoJSON text sequence: one collection per record, each led by a record separator
+export const toGeoJsonSequence = (collections: ExportFeature[][]): string =>
+  collections.map(features => `\u001e${JSON.stringify(toGeoJson(features))}\n`).join('');
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const kmlCoordinates = (positions: ExportPosition[]) =>
+  positions.map(([longitude, latitude]) => `${longitude},${latitude},0`).join(' ');
+
+const kmlGeometry = (geometry: ExportFeature['geometry']) => {
+  if (geometry.type === 'Point') {
+    return `<Point><coordinates>${kmlCoordinates([geometry.coordinates])}</coordinates></Point>`;
+  }
+  if (geometry.type === 'LineString') {
+    return `<LineString><coordinates>${kmlCoordinates(geometry.coordinates)}</coordinates></LineString>`;
+  }
+  const [outer, ...holes] = geometry.coordinates;
+  return [
+    '<Polygon>',
+    `<outerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>`,
+    ...holes.map(hole => `<innerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(hole)}</coordinates></LinearRing></innerBoundaryIs>`),
+    '</Polygon>',
+  ].join('');
+};
+
+export const toKml = (name: string, features: ExportFeature[]): string => {
+  const placemarks = features.map(feature => {
+    const data = Object.entries(feature.properties)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+      .join('');
+    return `    <Placemark><name>${escapeXml(feature.name)}</name><ExtendedData>${data}</ExtendedData>${kmlGeometry(feature.geometry)}</Placemark>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+  ].join('\n');
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking straight away can cancel the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportDataset = async (dataset: ExportDataset, format: ExportFormat): Promise<void> => {
+  const { fileName } = dataset;
+
+  switch (format) {
+    case 'csv': {
+      const [table] = dataset.tables;
+      if (!table) throw new Error('Nothing to export as CSV');
+      // The BOM makes Excel read the file as UTF-8
+      downloadBlob(new Blob(['\uFEFF', toCsv(table)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+      return;
+    }
+    case 'xlsx': {
+      const blob = await writeXlsxFile(
+        dataset.tables.map(table => ({
+          // Excel limits sheet names to 31 characters
+          sheet: table.name.slice(0, 31),
+          data: [table.columns, ...table.rows].map(row => row.map(value => (value === undefined ? null : value))),
+          stickyRowsCount: 1,
+        }))
+      ).toBlob();
+      downloadBlob(blob, `${fileName}.xlsx`);
+      return;
+    }
+    case 'json':
+      downloadBlob(new Blob([JSON.stringify(dataset.data, null, 2)], { type: 'application/json' }), `${fileName}.json`);
+      return;
+    case 'geojson':
+      downloadBlob(
+        new Blob([JSON.stringify(toGeoJson(dataset.features), null, 2)], { type: 'application/geo+json' }),
+        `${fileName}.geojson`
+      );
+      return;
+    case 'kml':
+      downloadBlob(
+        new Blob([toKml(fileName, dataset.features)], { type: 'application/vnd.google-earth.kml+xml' }),
+        `${fileName}.kml`
+      );
+      return;
+  }
+};
+
+const fileTimestamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+const SENSOR_COLUMNS = [
+  'device_id', 'name', 'latitude', 'longitude', 'temperature', 'humidity', 'smoke', 'is_fire', 'status', 'timestamp',
+  'battery_voltage', 'rssi', 'firmware_version',
+];
+
+export const sensorExportDataset = (sensors: SensorData[]): ExportDataset => ({
+  fileName: `sensors_${fileTimestamp()}`,
+  tables: [
+    {
+      name: 'Sensors',
+      columns: SENSOR_COLUMNS,
+      rows: sensors.map(sensor => [
+        sensor.deviceId, sensor.name, sensor.latitude, sensor.longitude, sensor.temp, sensor.humidity, sensor.smoke,
+        sensor.isFire, sensor.status, sensor.timestamp,
+        sensor.health?.batteryVoltage, sensor.health?.rssi, sensor.health?.firmwareVersion,
+      ]),
+    },
+  ],
+  features: sensors.map(sensor => ({
+    name: sensor.name || sensor.deviceId,
+    geometry: { type: 'Point', coordinates: [sensor.longitude, sensor.latitude] },
+    properties: {
+      deviceId: sensor.deviceId,
+      temperature: sensor.temp,
+      humidity: sensor.humidity,
+      smoke: sensor.smoke,
+      isFire: sensor.isFire,
+      status: sensor.status,
+      timestamp: sensor.timestamp,
+    },
+  })),
+  data: sensors,
+});
+
+// The model's training columns; weather gaps are filled the way the model expects
+const TRAINING_COLUMNS = ['temperature', 'humidity', 'smoke', 'temp_max', 'temp_min', 'wind_speed', 'wind_gust'];
+
+const SESSION_SUMMARY_COLUMNS = [
+  'session_id', 'device_id', 'start_time', 'end_time', 'readings', 'max_temp', 'min_temp', 'avg_temp',
+  'max_smoke', 'min_smoke', 'avg_smoke', 'max_humidity', 'min_humidity', 'avg_humidity', 'ml_confirmed',
+];
+
+// Readings in the training-column layout. Single-session exports leave out the
+// id columns so the file can go straight into training.
+export const sessionExportDataset = (
+  sessions: FireAlertSession[],
+  { fileName = `fire_sessions_${fileTimestamp()}`, withIds = true }: { fileName?: string; withIds?: boolean } = {}
+): ExportDataset => {
+  // The id and position columns are what sessionImport needs to rebuild sessions from the CSV
+  const readingColumns = withIds
+    ? [...TRAINING_COLUMNS, 'device_id', 'timestamp', 'session_id', 'latitude', 'longitude', 'is_fire']
+    : TRAINING_COLUMNS;
+
+  return {
+    fileName,
+    tables: [
+      {
+        name: 'Readings',
+        columns: readingColumns,
+        rows: sessions.flatMap(session =>
+          session.readings.map(reading => {
+            const weather = reading.weatherData;
+            const training: ExportValue[] = [
+              reading.temp,
+              reading.humidity,
+              reading.smoke,
+              weather?.temp_max ?? Number((reading.temp + 2).toFixed(1)),
+              weather?.temp_min ?? Number((reading.temp - 2).toFixed(1)),
+              weather?.wind_speed ?? 0,
+              weather?.wind_gust ?? 0,
+            ];
+            return withIds
+              ? [...training, reading.deviceId, reading.timestamp, session.id, reading.latitude, reading.longitude, reading.isFire]
+              : training;
+          })
+        ),
+      },
+      {
+        name: 'Sessions',
+        columns: SESSION_SUMMARY_COLUMNS,
+        rows: sessions.map(session => [
+          session.id, session.deviceId, session.startTime, session.endTime, session.readingCount ?? session.readings.length,
+          session.maxTemp, session.minTemp, session.avgTemp, session.maxSmoke, session.minSmoke, session.avgSmoke,
+          session.maxHumidity, session.minHumidity, session.avgHumidity, session.mlConfirmed,
+        ]),
+      },
+    ],
+    // Every fire reading is a fire point
+    features: sessions.flatMap(session =>
+      session.readings
+        .filter(reading => reading.isFire)
+        .map(reading => ({
+          name: `${reading.name || session.deviceId} ${reading.timestamp}`,
+          geometry: { type: 'Point' as const, coordinates: [reading.longitude, reading.latitude] as ExportPosition },
+          properties: {
+            sessionId: session.id,
+            deviceId: reading.deviceId,
+            timestamp: reading.timestamp,
+            temperature: reading.temp,
+            smoke: reading.smoke,
+            humidity: reading.humidity,
+            mlConfirmed: session.mlConfirmed,
+          },
+        }))
+    ),
+    data: sessions,
+  };
+};
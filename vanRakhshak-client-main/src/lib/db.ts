@@ -0,0 +1,109 @@
+// Shared IndexedDB database for client-side persistence
+const DB_NAME = 'vanrakshak';
+const DB_VERSION = 5;
+
+export const STORES = {
+  readings: 'readings',
+  incidents: 'incidents',
+  sessions: 'sessions',
+  digests: 'digests',
+} as const;
+
+// Each version adds its stores; never edit a released step, append a new one
+const upgrade = (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => {
+  if (oldVersion < 1) {
+    // One record per device reading, keyed so duplicates of the same poll collapse
+    db.createObjectStore(STORES.readings, { keyPath: ['deviceId', 'timestamp'] });
+  }
+  if (oldVersion < 2) {
+    const incidents = db.createObjectStore(STORES.incidents, { keyPath: 'id' });
+    incidents.createIndex('openedAt', 'openedAt');
+  }
+  if (oldVersion < 3) {
+    // Completed fire alert sessions; the index drives newest-first paging and date filters
+    const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    sessions.createIndex('startTime', 'startTime');
+  }
+  if (oldVersion < 4) {
+    // Daily and weekly summaries written by the digest scheduler
+    const digests = db.createObjectStore(STORES.digests, { keyPath: 'id' });
+    digests.createIndex('periodStart', 'periodStart');
+  }
+  if (oldVersion < 5) {
+    // Time-range reads and pruning across every device
+    transaction.objectStore(STORES.readings).createIndex('timestamp', 'timestamp');
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// 'blocked': another tab holds the previous version open, so the upgrade waits for it.
+// 'outdated': another tab upgraded the database and this one has to reload to use it.
+export type DatabaseStatus = 'ready' | 'blocked' | 'outdated';
+
+let databaseStatus: DatabaseStatus = 'ready';
+const statusListeners = new Set<() => void>();
+
+const setDatabaseStatus = (status: DatabaseStatus) => {
+  if (status === databaseStatus) return;
+  databaseStatus = status;
+  statusListeners.forEach(listener => listener());
+};
+
+export const getDatabaseStatus = () => databaseStatus;
+
+export const subscribeDatabaseStatus = (listener: () => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => upgrade(request.result, event.oldVersion, request.transaction as IDBTransaction);
+      request.onblocked = () => setDatabaseStatus('blocked');
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when another tab opens a newer version, instead of blocking its upgrade
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+          setDatabaseStatus('outdated');
+        };
+        setDatabaseStatus('ready');
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open instead of caching the rejection
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Index keys are compared as strings, and UTC ISO strings sort chronologically, so every
+// stored or queried time goes through this. null for anything that is not a date.
+export const toIsoTimestamp = (value: string | number | Date): string | null => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
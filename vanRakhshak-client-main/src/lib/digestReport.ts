@@ -0,0 +1,162 @@
+import { format } from 'date-fns';
+import { downloadBlob, escapeXml } from './dataExport';
+import { DIGEST_KIND_LABELS, type Digest, type DigestSession } from './digests';
+import { ReportWriter, formatDuration, formatDurationMs } from './sessionReport';
+import type { TemperatureUnit } from './settings';
+import { formatTemperature } from './units';
+
+export interface DigestTable {
+  heading: string;
+  // Shown instead of the table when there are no rows
+  empty: string;
+  headers: string[];
+  rows: string[][];
+  // Fractions of the page width, for the PDF
+  widths: number[];
+}
+
+export interface DigestDocument {
+  title: string;
+  period: string;
+  summary: Array<[string, string]>;
+  tables: DigestTable[];
+}
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+// The end is exclusive, so the last day shown is the one before it
+export const formatDigestPeriod = (digest: Pick<Digest, 'kind' | 'periodStart' | 'periodEnd'>) => {
+  const start = new Date(digest.periodStart);
+  if (digest.kind === 'daily') return format(start, 'EEE d MMM yyyy');
+  const lastDay = new Date(new Date(digest.periodEnd).getTime() - 1);
+  return `${format(start, 'd MMM')} – ${format(lastDay, 'd MMM yyyy')}`;
+};
+
+const sessionTable = (heading: string, empty: string, sessions: DigestSession[], units: TemperatureUnit): DigestTable => ({
+  heading,
+  empty,
+  headers: ['Device', 'Start', 'Duration', 'Peak temp', 'Peak smoke', 'ML'],
+  rows: sessions.map(session => [
+    session.name ? `${session.name} (${session.deviceId})` : session.deviceId,
+    formatDateTime(session.startTime),
+    formatDuration(session.startTime, session.endTime),
+    formatTemperature(session.maxTemp, units),
+    `${session.maxSmoke} ppm`,
+    session.mlConfirmed ? 'Yes' : 'No',
+  ]),
+  widths: [0.24, 0.22, 0.14, 0.14, 0.14, 0.12],
+});
+
+// Everything a digest shows, laid out once for the page, the PDF and the HTML export
+export const digestDocument = (digest: Digest, units: TemperatureUnit): DigestDocument => ({
+  title: `VanRakshak ${DIGEST_KIND_LABELS[digest.kind]} Digest`,
+  period: formatDigestPeriod(digest),
+  summary: [
+    ['Sessions started', String(digest.sessionsStarted.length)],
+    ['Sessions ended', String(digest.sessionsEnded.length)],
+    ['Sensors offline', String(digest.offlineSensors.length)],
+    ['False alarms', String(digest.falseAlarms)],
+    ['Regions reporting', String(digest.regions.length)],
+    ['Compiled', formatDateTime(digest.generatedAt)],
+  ],
+  tables: [
+    {
+      heading: 'Maximum Readings by Region',
+      empty: 'No sensor readings were recorded in this period.',
+      headers: ['Region', 'Sensors', 'Max temp', 'Max smoke', 'Min humidity'],
+      rows: digest.regions.map(region => [
+        region.region,
+        String(region.sensors),
+        `${formatTemperature(region.maxTemp, units)} (${region.maxTempDeviceId})`,
+        `${region.maxSmoke} ppm (${region.maxSmokeDeviceId})`,
+        `${region.minHumidity}%`,
+      ]),
+      widths: [0.3, 0.1, 0.22, 0.22, 0.16],
+    },
+    sessionTable('Sessions Started', 'No fire alert sessions started in this period.', digest.sessionsStarted, units),
+    sessionTable('Sessions Ended', 'No fire alert sessions ended in this period.', digest.sessionsEnded, units),
+    {
+      heading: 'Sensors Offline',
+      empty: 'No sensor went silent past the heartbeat timeout while the app was open.',
+      headers: ['Device', 'Time offline', 'Last seen'],
+      rows: digest.offlineSensors.map(sensor => [
+        sensor.name ? `${sensor.name} (${sensor.deviceId})` : sensor.deviceId,
+        formatDurationMs(sensor.offlineMs),
+        formatDateTime(sensor.lastSeen),
+      ]),
+      widths: [0.4, 0.25, 0.35],
+    },
+  ],
+});
+
+const digestFileName = (digest: Digest) => `${digest.kind}_digest_${format(new Date(digest.periodStart), 'yyyy-MM-dd')}`;
+
+export const buildDigestPdf = (digest: Digest, units: TemperatureUnit) => {
+  const content = digestDocument(digest, units);
+  const writer = new ReportWriter();
+
+  writer.title(content.title, content.period);
+  writer.heading('Summary');
+  writer.fields(content.summary);
+  content.tables.forEach(table => {
+    writer.heading(table.heading);
+    if (table.rows.length === 0) writer.paragraph(table.empty);
+    else writer.table(table.headers, table.rows, table.widths);
+  });
+  writer.footers(`${DIGEST_KIND_LABELS[digest.kind]} digest, ${content.period}`);
+  return writer.doc;
+};
+
+// Self-contained page with inline styles, so it can be mailed or archived as a single file
+export const buildDigestHtml = (digest: Digest, units: TemperatureUnit): string => {
+  const content = digestDocument(digest, units);
+  const cells = (values: string[], tag: 'th' | 'td') => values.map(value => `<${tag}>${escapeXml(value)}</${tag}>`).join('');
+  const tables = content.tables
+    .map(table => {
+      const body =
+        table.rows.length === 0
+          ? `<p class="muted">${escapeXml(table.empty)}</p>`
+          : `<table><thead><tr>${cells(table.headers, 'th')}</tr></thead><tbody>${table.rows
+              .map(row => `<tr>${cells(row, 'td')}</tr>`)
+              .join('')}</tbody></table>`;
+      return `<h2>${escapeXml(table.heading)}</h2>${body}`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(`${content.title} – ${content.period}`)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #1e293b; max-width: 880px; margin: 32px auto; padding: 0 16px; }
+  h1 { margin-bottom: 4px; }
+  h2 { font-size: 16px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; margin-top: 28px; }
+  .muted { color: #64748b; font-size: 14px; }
+  .summary { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; margin-top: 16px; }
+  .summary div { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; }
+  .summary strong { display: block; font-size: 20px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+  th { background: #f1f5f9; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(content.title)}</h1>
+<p class="muted">${escapeXml(content.period)}</p>
+<div class="summary">${content.summary
+    .map(([label, value]) => `<div><span class="muted">${escapeXml(label)}</span><strong>${escapeXml(value)}</strong></div>`)
+    .join('')}</div>
+${tables}
+</body>
+</html>
+`;
+};
+
+export const downloadDigestPdf = (digest: Digest, units: TemperatureUnit) => {
+  buildDigestPdf(digest, units).save(`${digestFileName(digest)}.pdf`);
+};
+
+export const downloadDigestHtml = (digest: Digest, units: TemperatureUnit) => {
+  downloadBlob(new Blob([buildDigestHtml(digest, units)], { type: 'text/html;charset=utf-8' }), `${digestFileName(digest)}.html`);
+};
@@ -0,0 +1,311 @@
+import { addDays, addWeeks, startOfDay, startOfWeek } from 'date-fns';
+import type { FireAlertSession } from '@/types/session';
+import type { Incident } from '@/types/incident';
+import { STORES, isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from './db';
+import { UTTARAKHAND_FOREST_BOUNDARIES, checkIfInForest } from './forestBoundaries';
+import { listIncidents } from './incidentStore';
+import { WEEK_OPTIONS } from './sessionAnalytics';
+import { listSessions } from './sessionArchive';
+import { READINGS_RETENTION_MS, latestReadingsBefore, listReadings, type StoredReading } from './timeSeriesStore';
+
+export const DIGEST_KINDS = ['daily', 'weekly'] as const;
+export type DigestKind = (typeof DIGEST_KINDS)[number];
+
+export const DIGEST_KIND_LABELS: Record<DigestKind, string> = { daily: 'Daily', weekly: 'Weekly' };
+
+// Bump when the stored digest shape changes; digests of other versions are ignored
+export const DIGEST_SCHEMA_VERSION = 1;
+
+// Readings outside every forest boundary are grouped under this name
+export const OUTSIDE_FORESTS_REGION = 'Outside forest areas';
+
+// Sessions that ended inside a period but started this long before it are still found
+const SESSION_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface DigestSession {
+  id: string;
+  deviceId: string;
+  name?: string;
+  startTime: string;
+  endTime: string | null;
+  maxTemp: number;
+  maxSmoke: number;
+  mlConfirmed: boolean;
+}
+
+export interface DigestOfflineSensor {
+  deviceId: string;
+  name?: string;
+  // Silence beyond the heartbeat timeout that fell inside the period, as observed while the app was open
+  offlineMs: number;
+  // Latest reading before the period ended; null when the device never reported
+  lastSeen: string | null;
+}
+
+export interface DigestRegion {
+  region: string;
+  sensors: number;
+  readings: number;
+  // Celsius
+  maxTemp: number;
+  maxTempDeviceId: string;
+  maxSmoke: number;
+  maxSmokeDeviceId: string;
+  // Lowest humidity, the fire-relevant extreme
+  minHumidity: number;
+}
+
+export interface Digest {
+  // `${kind}:${periodStart}`
+  id: string;
+  kind: DigestKind;
+  schemaVersion: number;
+  // ISO; the end is exclusive
+  periodStart: string;
+  periodEnd: string;
+  generatedAt: string;
+  sessionsStarted: DigestSession[];
+  sessionsEnded: DigestSession[];
+  offlineSensors: DigestOfflineSensor[];
+  // Incidents closed as false alarms during the period
+  falseAlarms: number;
+  regions: DigestRegion[];
+}
+
+export interface DigestPeriod {
+  kind: DigestKind;
+  start: Date;
+  end: Date;
+}
+
+export interface DigestSources {
+  sessions: FireAlertSession[];
+  // Readings history up to the period end, including before it so ongoing outages are seen
+  readings: StoredReading[];
+  incidents: Incident[];
+  heartbeatTimeoutMs: number;
+}
+
+// The local day, or the Monday-start week, containing `date`
+export const digestPeriod = (kind: DigestKind, date: Date): DigestPeriod => {
+  const start = kind === 'weekly' ? startOfWeek(date, WEEK_OPTIONS) : startOfDay(date);
+  return { kind, start, end: kind === 'weekly' ? addWeeks(start, 1) : addDays(start, 1) };
+};
+
+const nextPeriod = (period: DigestPeriod) => digestPeriod(period.kind, period.end);
+
+// Completed periods after `lastEnd` that still need a digest. Catch-up stops at the
+// readings retention, since older periods can no longer be summarised fully. With no
+// earlier digest only the latest completed period is due, so a new install is not
+// flooded with empty digests.
+export const duePeriods = (kind: DigestKind, lastEnd: Date | null, now: Date): DigestPeriod[] => {
+  if (!lastEnd) return [digestPeriod(kind, new Date(digestPeriod(kind, now).start.getTime() - 1))];
+
+  const earliest = new Date(Math.max(lastEnd.getTime(), now.getTime() - READINGS_RETENTION_MS));
+  const periods: DigestPeriod[] = [];
+  for (let period = digestPeriod(kind, earliest); period.end <= now; period = nextPeriod(period)) {
+    // Skip a partial first period when catch-up was cut short by retention
+    if (period.start >= earliest) periods.push(period);
+  }
+  return periods;
+};
+
+const inPeriod = (value: string | null | undefined, period: DigestPeriod) => {
+  if (!value) return false;
+  const time = new Date(value).getTime();
+  return time >= period.start.getTime() && time < period.end.getTime();
+};
+
+const toDigestSession = (session: FireAlertSession): DigestSession => ({
+  id: session.id,
+  deviceId: session.deviceId,
+  name: session.readings[0]?.name,
+  startTime: session.startTime,
+  endTime: session.endTime,
+  maxTemp: session.maxTemp,
+  maxSmoke: session.maxSmoke,
+  mlConfirmed: session.mlConfirmed,
+});
+
+// Each stored reading was seen as current until `recordedAt`, so any time past the
+// heartbeat timeout before that is an observed outage. A newer reading cuts it short,
+// which also keeps imported history from looking like a long silence.
+const offlineSensors = (readings: StoredReading[], period: DigestPeriod, heartbeatTimeoutMs: number) => {
+  const byDevice = new Map<string, StoredReading[]>();
+  readings.forEach(reading => {
+    const list = byDevice.get(reading.deviceId) ?? [];
+    list.push(reading);
+    byDevice.set(reading.deviceId, list);
+  });
+
+  const periodStart = period.start.getTime();
+  const periodEnd = period.end.getTime();
+  const offline: DigestOfflineSensor[] = [];
+
+  byDevice.forEach((deviceReadings, deviceId) => {
+    const sorted = [...deviceReadings].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    let offlineMs = 0;
+    let lastSeen: StoredReading | null = null;
+
+    sorted.forEach((reading, index) => {
+      const readAt = new Date(reading.timestamp).getTime();
+      if (readAt >= periodEnd) return;
+      lastSeen = reading;
+      const next = sorted[index + 1];
+      const silenceEnd = Math.min(reading.recordedAt, next ? new Date(next.timestamp).getTime() : Infinity, periodEnd);
+      const silenceStart = Math.max(readAt + heartbeatTimeoutMs, periodStart);
+      if (silenceEnd > silenceStart) offlineMs += silenceEnd - silenceStart;
+    });
+
+    if (offlineMs > 0) {
+      offline.push({ deviceId, name: lastSeen?.name, offlineMs, lastSeen: lastSeen?.timestamp ?? null });
+    }
+  });
+
+  return offline.sort((a, b) => b.offlineMs - a.offlineMs);
+};
+
+const regionSummaries = (readings: StoredReading[], sessions: FireAlertSession[], period: DigestPeriod) => {
+  // Session readings are usually in the history too; key on device and time to count each once
+  const unique = new Map<string, Pick<StoredReading, 'deviceId' | 'latitude' | 'longitude' | 'temp' | 'smoke' | 'humidity'>>();
+  [...readings, ...sessions.flatMap(session => session.readings)].forEach(reading => {
+    if (inPeriod(reading.timestamp, period)) unique.set(`${reading.deviceId}|${new Date(reading.timestamp).toISOString()}`, reading);
+  });
+
+  // Sensors don't move, so resolve each position once
+  const regionByPosition = new Map<string, string>();
+  const regionOf = (latitude: number, longitude: number) => {
+    const key = `${latitude},${longitude}`;
+    let region = regionByPosition.get(key);
+    if (!region) {
+      region =
+        (Number.isFinite(latitude) && Number.isFinite(longitude)
+          ? checkIfInForest(latitude, longitude, UTTARAKHAND_FOREST_BOUNDARIES).forestName
+          : undefined) ?? OUTSIDE_FORESTS_REGION;
+      regionByPosition.set(key, region);
+    }
+    return region;
+  };
+
+  const regions = new Map<string, DigestRegion & { deviceIds: Set<string> }>();
+  unique.forEach(reading => {
+    const name = regionOf(reading.latitude, reading.longitude);
+    const region = regions.get(name) ?? {
+      region: name,
+      sensors: 0,
+      readings: 0,
+      maxTemp: -Infinity,
+      maxTempDeviceId: reading.deviceId,
+      maxSmoke: -Infinity,
+      maxSmokeDeviceId: reading.deviceId,
+      minHumidity: Infinity,
+      deviceIds: new Set<string>(),
+    };
+    region.readings += 1;
+    region.deviceIds.add(reading.deviceId);
+    if (reading.temp > region.maxTemp) {
+      region.maxTemp = reading.temp;
+      region.maxTempDeviceId = reading.deviceId;
+    }
+    if (reading.smoke > region.maxSmoke) {
+      region.maxSmoke = reading.smoke;
+      region.maxSmokeDeviceId = reading.deviceId;
+    }
+    region.minHumidity = Math.min(region.minHumidity, reading.humidity);
+    regions.set(name, region);
+  });
+
+  return Array.from(regions.values())
+    .map(({ deviceIds, ...region }) => ({ ...region, sensors: deviceIds.size }))
+    .sort((a, b) => b.maxTemp - a.maxTemp);
+};
+
+export const buildDigest = (period: DigestPeriod, sources: DigestSources, generatedAt = new Date()): Digest => {
+  const periodStart = period.start.toISOString();
+  const byStart = (a: DigestSession, b: DigestSession) => a.startTime.localeCompare(b.startTime);
+
+  return {
+    id: `${period.kind}:${periodStart}`,
+    kind: period.kind,
+    schemaVersion: DIGEST_SCHEMA_VERSION,
+    periodStart,
+    periodEnd: period.end.toISOString(),
+    generatedAt: generatedAt.toISOString(),
+    sessionsStarted: sources.sessions
+      .filter(session => inPeriod(session.startTime, period))
+      .map(toDigestSession)
+      .sort(byStart),
+    sessionsEnded: sources.sessions
+      .filter(session => inPeriod(session.endTime, period))
+      .map(toDigestSession)
+      .sort(byStart),
+    offlineSensors: offlineSensors(sources.readings, period, sources.heartbeatTimeoutMs),
+    falseAlarms: sources.incidents.filter(
+      incident => incident.status === 'false_alarm' && inPeriod(incident.closedAt ?? incident.updatedAt, period)
+    ).length,
+    regions: regionSummaries(sources.readings, sources.sessions, period),
+  };
+};
+
+// Newest period first
+export const listDigests = async (): Promise<Digest[]> => {
+  if (!isIndexedDbAvailable()) return [];
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.digests, 'readonly');
+  const digests = await requestToPromise(
+    transaction.objectStore(STORES.digests).index('periodStart').getAll() as IDBRequest<Digest[]>
+  );
+  return digests.filter(digest => digest.schemaVersion === DIGEST_SCHEMA_VERSION).reverse();
+};
+
+const saveDigests = async (digests: Digest[]) => {
+  if (digests.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.digests, 'readwrite');
+  const store = transaction.objectStore(STORES.digests);
+  // Keyed by kind and period, so a second tab generating the same digest just overwrites it
+  digests.forEach(digest => store.put(digest));
+  await transactionDone(transaction);
+};
+
+let running: Promise<Digest[]> | null = null;
+
+// Writes a digest for every due period and returns the new ones. Concurrent calls share one run.
+export const runDigestScheduler = ({
+  heartbeatTimeoutMs,
+  now = new Date(),
+}: {
+  heartbeatTimeoutMs: number;
+  now?: Date;
+}): Promise<Digest[]> => {
+  if (!isIndexedDbAvailable()) return Promise.resolve([]);
+  if (!running) {
+    running = (async () => {
+      const existing = await listDigests();
+      const due = DIGEST_KINDS.flatMap(kind => {
+        const latest = existing.find(digest => digest.kind === kind);
+        return duePeriods(kind, latest ? new Date(latest.periodEnd) : null, now);
+      });
+      if (due.length === 0) return [];
+
+      const rangeStart = new Date(Math.min(...due.map(period => period.start.getTime())));
+      const rangeEnd = new Date(Math.max(...due.map(period => period.end.getTime())));
+      // An older reading only matters to the offline check while no newer one follows it,
+      // so the last one per device before the range stands in for all of them
+      const [sessions, earlier, readings, incidents] = await Promise.all([
+        listSessions({ from: new Date(rangeStart.getTime() - SESSION_LOOKBACK_MS), to: rangeEnd }),
+        latestReadingsBefore(rangeStart),
+        listReadings(rangeStart, rangeEnd),
+        listIncidents(),
+      ]);
+
+      const sources = { sessions, readings: [...earlier, ...readings], incidents, heartbeatTimeoutMs };
+      const digests = due.map(period => buildDigest(period, sources, now));
+      await saveDigests(digests);
+      return digests;
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
@@ -0,0 +1,62 @@
+import { ASSET_ACTIONS, ASSET_KIND_LABELS, formatDistance, formatEta, type AssetExposure } from './assetsAtRisk';
+import { SPREAD_HORIZONS_MIN, formatHorizon, type SpreadPrediction } from './fireSpread';
+import { ReportWriter } from './sessionReport';
+
+export interface EvacuationContext {
+  deviceId: string;
+  latitude: number;
+  longitude: number;
+  prediction: SpreadPrediction;
+  // Assets in the loaded file, at risk or not
+  assetCount: number;
+}
+
+const bearingName = (degrees: number) => ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'][Math.round(degrees / 45) % 8];
+
+// One table per risk zone, in priority order, for printing and handing to field crews
+export const buildEvacuationPdf = (exposures: AssetExposure[], context: EvacuationContext) => {
+  const { prediction } = context;
+  const writer = new ReportWriter();
+
+  writer.title('Evacuation Priority List', `Fire at ${context.deviceId}`);
+  writer.heading('Situation');
+  writer.fields([
+    ['Fire location', `${context.latitude.toFixed(5)}, ${context.longitude.toFixed(5)}`],
+    ['Spreading toward', `${bearingName(prediction.headingDeg)} (${Math.round(prediction.headingDeg)}°)`],
+    ['Head rate', `${prediction.headRate.toFixed(1)} m/min`],
+    ['Fuel', prediction.fuel.label],
+    ['Assets at risk', `${exposures.length} of ${context.assetCount}`],
+    ['Zones', SPREAD_HORIZONS_MIN.map(formatHorizon).join(', ')],
+  ]);
+
+  SPREAD_HORIZONS_MIN.forEach(minutes => {
+    const inZone = exposures.filter(exposure => exposure.zoneMin === minutes);
+    writer.heading(`Reached by ${formatHorizon(minutes)}`);
+    if (inZone.length === 0) {
+      writer.paragraph('No mapped assets in this zone.');
+      return;
+    }
+    writer.table(
+      ['#', 'Asset', 'Type', 'Distance', 'Time to impact', 'Action'],
+      inZone.map(({ asset, distanceM, etaMin, priority }) => [
+        String(priority),
+        asset.population ? `${asset.name} (pop. ${asset.population})` : asset.name,
+        ASSET_KIND_LABELS[asset.kind],
+        formatDistance(distanceM),
+        formatEta(etaMin),
+        ASSET_ACTIONS[asset.kind],
+      ]),
+      [0.06, 0.28, 0.14, 0.11, 0.13, 0.28]
+    );
+  });
+
+  writer.paragraph(
+    'Times assume the current wind, fuel and slope hold. Re-issue the list when conditions change or the fire is seen elsewhere.'
+  );
+  writer.footers(`Evacuation priority list, ${context.deviceId}`);
+  return writer.doc;
+};
+
+export const downloadEvacuationPdf = (exposures: AssetExposure[], context: EvacuationContext) => {
+  buildEvacuationPdf(exposures, context).save(`evacuation_${context.deviceId}_${Date.now()}.pdf`);
+};
@@ -0,0 +1,322 @@
+import * as turf from '@turf/turf';
+
+// Surface fire spread after Rothermel (1972), single fuel-size class, with the
+// elliptical fire shape of Anderson (1983). The equations are in the original
+// imperial units (ft, lb, Btu, min); inputs and results are metric.
+
+export const FUEL_MODEL_IDS = ['grass', 'grassUnderstory', 'shrub', 'pineLitter', 'broadleafLitter'] as const;
+export type FuelModelId = (typeof FUEL_MODEL_IDS)[number];
+
+export interface FuelModel {
+  id: FuelModelId;
+  label: string;
+  // Anderson (1982) model the parameters come from
+  anderson: number;
+  // Fine dead fuel load, lb/ft²
+  load: number;
+  // Surface-area-to-volume ratio, 1/ft
+  sav: number;
+  // Fuel bed depth, ft
+  depth: number;
+  // Moisture of extinction, fraction
+  extinctionMoisture: number;
+  // Midflame to 20-ft wind ratio for the canopy cover typical of this fuel
+  windAdjustment: number;
+}
+
+const TONS_PER_ACRE = 0.0459137;
+
+export const FUEL_MODELS: Record<FuelModelId, FuelModel> = {
+  grass: {
+    id: 'grass',
+    label: 'Grassland',
+    anderson: 1,
+    load: 0.74 * TONS_PER_ACRE,
+    sav: 3500,
+    depth: 1,
+    extinctionMoisture: 0.12,
+    windAdjustment: 0.36,
+  },
+  grassUnderstory: {
+    id: 'grassUnderstory',
+    label: 'Open forest with grass understory',
+    anderson: 2,
+    load: 2 * TONS_PER_ACRE,
+    sav: 3000,
+    depth: 1,
+    extinctionMoisture: 0.15,
+    windAdjustment: 0.3,
+  },
+  shrub: {
+    id: 'shrub',
+    label: 'Shrub and lantana thicket',
+    anderson: 5,
+    load: 1 * TONS_PER_ACRE,
+    sav: 2000,
+    depth: 2,
+    extinctionMoisture: 0.2,
+    windAdjustment: 0.42,
+  },
+  pineLitter: {
+    id: 'pineLitter',
+    label: 'Chir pine needle litter',
+    anderson: 9,
+    load: 2.92 * TONS_PER_ACRE,
+    sav: 2500,
+    depth: 0.2,
+    extinctionMoisture: 0.25,
+    windAdjustment: 0.2,
+  },
+  broadleafLitter: {
+    id: 'broadleafLitter',
+    label: 'Closed broadleaf (oak, sal) litter',
+    anderson: 8,
+    load: 1.5 * TONS_PER_ACRE,
+    sav: 2000,
+    depth: 0.2,
+    extinctionMoisture: 0.3,
+    windAdjustment: 0.15,
+  },
+};
+
+// Chir pine litter carries most fires in the Uttarakhand fire season
+export const DEFAULT_FUEL_MODEL: FuelModelId = 'pineLitter';
+
+// Projection horizons, minutes after detection
+export const SPREAD_HORIZONS_MIN = [30, 60, 180];
+
+// Heat content (Btu/lb), total and effective mineral content, oven-dry particle density (lb/ft³)
+const HEAT_CONTENT = 8000;
+const MINERAL_TOTAL = 0.0555;
+const MINERAL_EFFECTIVE = 0.01;
+const PARTICLE_DENSITY = 32;
+
+const FT_PER_M = 3.28084;
+const FT_PER_MIN_PER_MPH = 88;
+// OpenWeather reports wind at 10 m; 20-ft wind is about 1/1.15 of that
+const TEN_METRE_TO_TWENTY_FOOT = 1 / 1.15;
+const ELLIPSE_POINTS = 72;
+
+export interface SpreadInput {
+  latitude: number;
+  longitude: number;
+  // 10-m wind, m/s
+  windSpeedMs: number;
+  // Direction the wind blows from, degrees clockwise from north
+  windFromDeg: number;
+  // Ambient air, not the sensor, which is reading the fire itself
+  temperatureC: number;
+  humidity: number;
+  fuel: FuelModelId;
+  slopePercent?: number;
+  // Bearing that points uphill
+  upslopeDeg?: number;
+  // Perimeters to build, minutes; defaults to SPREAD_HORIZONS_MIN
+  horizonsMin?: number[];
+}
+
+export interface SpreadPerimeter {
+  minutes: number;
+  // Closed [lng, lat] ring
+  ring: [number, number][];
+  areaHa: number;
+  headDistanceM: number;
+  backDistanceM: number;
+  // Half the ellipse width
+  flankDistanceM: number;
+}
+
+export interface SpreadPrediction {
+  fuel: FuelModel;
+  // Dead fine fuel moisture, fraction
+  fuelMoisture: number;
+  // False when the fuel is too moist to carry a fire
+  spreads: boolean;
+  // m/min
+  headRate: number;
+  backRate: number;
+  // Bearing of fastest spread, combining wind and slope
+  headingDeg: number;
+  lengthToBreadth: number;
+  // Wind speed that alone would give the combined wind and slope effect, m/s midflame
+  effectiveWindMs: number;
+  // Byram's intensity at the head, kW/m
+  firelineIntensity: number;
+  flameLengthM: number;
+  perimeters: SpreadPerimeter[];
+}
+
+// Equilibrium moisture content of fine dead fuel from air temperature and humidity (Simard 1968)
+export const deadFuelMoisture = (temperatureC: number, humidity: number): number => {
+  const rh = Math.min(100, Math.max(0, humidity));
+  const tempF = temperatureC * 1.8 + 32;
+  let emc: number;
+  if (rh < 10) emc = 0.03229 + 0.281073 * rh - 0.000578 * rh * tempF;
+  else if (rh < 50) emc = 2.22749 + 0.160107 * rh - 0.01478 * tempF;
+  else emc = 21.0606 + 0.005565 * rh ** 2 - 0.00035 * rh * tempF - 0.483199 * rh;
+  return Math.max(0.02, emc / 100);
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toBearing = (radians: number) => (((radians * 180) / Math.PI) % 360 + 360) % 360;
+
+export const predictFireSpread = (input: SpreadInput): SpreadPrediction => {
+  const fuel = FUEL_MODELS[input.fuel];
+  const { sav, load, depth, extinctionMoisture } = fuel;
+  const moisture = deadFuelMoisture(input.temperatureC, input.humidity);
+
+  // Fuel bed and reaction intensity
+  const bulkDensity = load / depth;
+  const packing = bulkDensity / PARTICLE_DENSITY;
+  const optimumPacking = 3.348 * sav ** -0.8189;
+  const relativePacking = packing / optimumPacking;
+  const maxReactionVelocity = sav ** 1.5 / (495 + 0.0594 * sav ** 1.5);
+  const a = 133 * sav ** -0.7913;
+  const reactionVelocity = maxReactionVelocity * relativePacking ** a * Math.exp(a * (1 - relativePacking));
+  const netLoad = load * (1 - MINERAL_TOTAL);
+  const moistureRatio = moisture / extinctionMoisture;
+  // The polynomial only reaches zero at extinction up to rounding, so cut it off explicitly
+  const moistureDamping =
+    moistureRatio >= 1 ? 0 : Math.max(0, 1 - 2.59 * moistureRatio + 5.11 * moistureRatio ** 2 - 3.52 * moistureRatio ** 3);
+  const mineralDamping = Math.min(1, 0.174 * MINERAL_EFFECTIVE ** -0.19);
+  // Btu/ft²/min
+  const reactionIntensity = reactionVelocity * netLoad * HEAT_CONTENT * moistureDamping * mineralDamping;
+
+  const propagatingFlux = Math.exp((0.792 + 0.681 * sav ** 0.5) * (packing + 0.1)) / (192 + 0.2595 * sav);
+  const heatingNumber = Math.exp(-138 / sav);
+  const ignitionHeat = 250 + 1116 * moisture;
+  // ft/min with no wind on flat ground
+  const baseRate = (reactionIntensity * propagatingFlux) / (bulkDensity * heatingNumber * ignitionHeat);
+
+  // Wind factor, capped at the wind speed the fire can still respond to
+  const c = 7.47 * Math.exp(-0.133 * sav ** 0.55);
+  const b = 0.02526 * sav ** 0.54;
+  const e = 0.715 * Math.exp(-3.59e-4 * sav);
+  const midflameWind = Math.min(
+    Math.max(0, input.windSpeedMs) * TEN_METRE_TO_TWENTY_FOOT * fuel.windAdjustment * FT_PER_M * 60,
+    0.9 * reactionIntensity
+  );
+  const windFactor = c * midflameWind ** b * relativePacking ** -e;
+  const slope = Math.max(0, input.slopePercent ?? 0) / 100;
+  const slopeFactor = 5.275 * packing ** -0.3 * slope ** 2;
+
+  // Wind and slope push in different directions in general; add them as vectors
+  const windTo = toRadians((input.windFromDeg + 180) % 360);
+  const upslope = toRadians(input.upslopeDeg ?? 0);
+  const east = windFactor * Math.sin(windTo) + slopeFactor * Math.sin(upslope);
+  const north = windFactor * Math.cos(windTo) + slopeFactor * Math.cos(upslope);
+  const combinedFactor = Math.hypot(east, north);
+  const headingDeg = combinedFactor > 0 ? toBearing(Math.atan2(east, north)) : (input.windFromDeg + 180) % 360;
+
+  // ft/min
+  const effectiveWind = combinedFactor > 0 ? ((combinedFactor * relativePacking ** e) / c) ** (1 / b) : 0;
+  const effectiveWindMph = effectiveWind / FT_PER_MIN_PER_MPH;
+  const lengthToBreadth = Math.max(
+    1,
+    0.936 * Math.exp(0.2566 * effectiveWindMph) + 0.461 * Math.exp(-0.1548 * effectiveWindMph) - 0.397
+  );
+  const eccentricity = Math.sqrt(lengthToBreadth ** 2 - 1) / lengthToBreadth;
+
+  const headRateFt = baseRate * (1 + combinedFactor);
+  const backRateFt = (headRateFt * (1 - eccentricity)) / (1 + eccentricity);
+  const headRate = headRateFt / FT_PER_M;
+  const backRate = backRateFt / FT_PER_M;
+  const spreads = headRate > 0;
+
+  // Byram intensity from reaction intensity and flame residence time (384/σ min), Btu/ft/s
+  const byram = (reactionIntensity * (384 / sav) * headRateFt) / 60;
+  const flameLengthFt = byram > 0 ? 0.45 * byram ** 0.46 : 0;
+
+  const origin = turf.point([input.longitude, input.latitude]);
+  const perimeters: SpreadPerimeter[] = spreads
+    ? (input.horizonsMin ?? SPREAD_HORIZONS_MIN).map(minutes => {
+        const headDistanceM = headRate * minutes;
+        const backDistanceM = backRate * minutes;
+        const semiMajor = (headDistanceM + backDistanceM) / 2;
+        const semiMinor = semiMajor / lengthToBreadth;
+        // The ignition point sits at the rear focus side, so the centre is shifted toward the head
+        const centreOffset = semiMajor - backDistanceM;
+        const heading = toRadians(headingDeg);
+
+        const ring: [number, number][] = [];
+        for (let index = 0; index <= ELLIPSE_POINTS; index++) {
+          const angle = (index / ELLIPSE_POINTS) * Math.PI * 2;
+          // Along and across the heading, metres from the ignition point
+          const along = centreOffset + semiMajor * Math.cos(angle);
+          const across = semiMinor * Math.sin(angle);
+          const eastM = along * Math.sin(heading) + across * Math.cos(heading);
+          const northM = along * Math.cos(heading) - across * Math.sin(heading);
+          const distanceKm = Math.hypot(eastM, northM) / 1000;
+          const point =
+            distanceKm > 0
+              ? turf.destination(origin, distanceKm, toBearing(Math.atan2(eastM, northM)), { units: 'kilometers' })
+              : origin;
+          ring.push(point.geometry.coordinates as [number, number]);
+        }
+        ring[ring.length - 1] = ring[0];
+
+        return {
+          minutes,
+          ring,
+          areaHa: turf.area(turf.polygon([ring])) / 10_000,
+          headDistanceM,
+          backDistanceM,
+          flankDistanceM: semiMinor,
+        };
+      })
+    : [];
+
+  return {
+    fuel,
+    fuelMoisture: moisture,
+    spreads,
+    headRate,
+    backRate,
+    headingDeg,
+    lengthToBreadth,
+    effectiveWindMs: effectiveWind / FT_PER_M / 60,
+    firelineIntensity: byram * 3.4613,
+    flameLengthM: flameLengthFt / FT_PER_M,
+    perimeters,
+  };
+};
+
+// Rate along a bearing from the ignition point, m/min: where a ray that way meets the
+// spread ellipse after one minute, since every perimeter is the same ellipse scaled by time
+export const spreadRateToward = (prediction: SpreadPrediction, bearingDeg: number): number => {
+  if (!prediction.spreads) return 0;
+  const semiMajor = (prediction.headRate + prediction.backRate) / 2;
+  const semiMinor = semiMajor / prediction.lengthToBreadth;
+  const centreOffset = semiMajor - prediction.backRate;
+  const angle = toRadians(bearingDeg - prediction.headingDeg);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  const a = cos ** 2 / semiMajor ** 2 + sin ** 2 / semiMinor ** 2;
+  const b = (-2 * centreOffset * cos) / semiMajor ** 2;
+  const c = centreOffset ** 2 / semiMajor ** 2 - 1;
+  return (-b + Math.sqrt(b ** 2 - 4 * a * c)) / (2 * a);
+};
+
+// Minutes until the fire spreading from the origin reaches a [lng, lat] position; Infinity if it never does
+export const fireArrivalMinutes = (
+  prediction: SpreadPrediction,
+  origin: { latitude: number; longitude: number },
+  position: [number, number]
+): number => {
+  const ignition = [origin.longitude, origin.latitude];
+  const distance = turf.distance(ignition, position, { units: 'meters' });
+  if (distance === 0) return 0;
+  const rate = spreadRateToward(prediction, turf.bearing(ignition, position));
+  return rate > 0 ? distance / rate : Infinity;
+};
+
+// Innermost projected perimeter reached by a given arrival time, or undefined past the last one
+export const spreadZoneAt = (arrivalMinutes: number) => SPREAD_HORIZONS_MIN.find(minutes => arrivalMinutes <= minutes);
+
+export const formatHorizon = (minutes: number) =>
+  minutes < 60 ? `+${minutes} min` : `+${Math.floor(minutes / 60)} h${minutes % 60 ? ` ${minutes % 60} min` : ''}`;
+
+// Slow / Moderate / Fast / Very Fast by head-fire rate in m/min
+export const spreadRateClass = (headRate: number) =>
+  headRate < 1 ? 'Slow' : headRate < 5 ? 'Moderate' : headRate < 20 ? 'Fast' : 'Very Fast';
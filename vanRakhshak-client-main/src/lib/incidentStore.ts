@@ -0,0 +1,338 @@
+import * as turf from '@turf/turf';
+import { z } from 'zod';
+import { getBackend } from '@/api/backend';
+import type { SensorData } from '@/types/sensor';
+import type { Incident, IncidentActor, IncidentEvent, IncidentStatus } from '@/types/incident';
+import { ROLES, type AuthUser } from './auth';
+import { getFireAlertSessions } from './sessionTracker';
+import { STORES, isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from './db';
+
+export const INCIDENT_STATUS_LABELS: Record<IncidentStatus, string> = {
+  new: 'New',
+  acknowledged: 'Acknowledged',
+  crew_dispatched: 'Crew dispatched',
+  contained: 'Contained',
+  resolved: 'Resolved',
+  false_alarm: 'False alarm',
+};
+
+// Allowed next states. Resolved and false alarm are final.
+export const INCIDENT_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  new: ['acknowledged', 'false_alarm'],
+  acknowledged: ['crew_dispatched', 'resolved', 'false_alarm'],
+  crew_dispatched: ['contained', 'resolved', 'false_alarm'],
+  contained: ['resolved'],
+  resolved: [],
+  false_alarm: [],
+};
+
+export const isIncidentOpen = (incident: Pick<Incident, 'status'>) => INCIDENT_TRANSITIONS[incident.status].length > 0;
+
+// A fire sensor this close to an open incident joins it instead of opening a new one
+const INCIDENT_MERGE_RADIUS_M = 1500;
+
+export const SYSTEM_ACTOR: IncidentActor = { id: 'system', name: 'Automatic detection' };
+
+export const toIncidentActor = (user: AuthUser): IncidentActor => ({ id: user.id, name: user.name, role: user.role });
+
+export class IncidentNotFoundError extends Error {
+  readonly incidentId: string;
+
+  constructor(incidentId: string) {
+    super(`Incident ${incidentId} not found`);
+    this.name = 'IncidentNotFoundError';
+    this.incidentId = incidentId;
+  }
+}
+
+// Thrown when a status change skips or reverses the lifecycle
+export class IncidentTransitionError extends Error {
+  constructor(from: IncidentStatus, to: IncidentStatus) {
+    super(`Cannot move an incident from ${INCIDENT_STATUS_LABELS[from]} to ${INCIDENT_STATUS_LABELS[to]}`);
+    this.name = 'IncidentTransitionError';
+  }
+}
+
+const incidentStatusSchema = z.enum(['new', 'acknowledged', 'crew_dispatched', 'contained', 'resolved', 'false_alarm']);
+
+const incidentEventSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['opened', 'status_changed', 'note', 'sensor_linked', 'session_linked']),
+  at: z.string(),
+  actor: z.object({ id: z.string(), name: z.string(), role: z.enum(ROLES).optional() }),
+  from: incidentStatusSchema.optional(),
+  to: incidentStatusSchema.optional(),
+  note: z.string().optional(),
+  sensorId: z.string().optional(),
+  sessionId: z.string().optional(),
+});
+
+// Shape of the incident documents the backend hands back
+const incidentSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  status: incidentStatusSchema,
+  latitude: z.number(),
+  longitude: z.number(),
+  sensorIds: z.array(z.string()),
+  sessionIds: z.array(z.string()).default([]),
+  crew: z.string().optional(),
+  outcome: z.string().optional(),
+  openedAt: z.string(),
+  updatedAt: z.string(),
+  closedAt: z.string().optional(),
+  events: z.array(incidentEventSchema),
+});
+
+const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createEvent = (
+  actor: IncidentActor,
+  type: IncidentEvent['type'],
+  details: Omit<IncidentEvent, 'id' | 'type' | 'at' | 'actor'> = {}
+): IncidentEvent => ({ id: createId('evt'), type, at: new Date().toISOString(), actor, ...details });
+
+const appendEvent = (incident: Incident, event: IncidentEvent): Incident => ({
+  ...incident,
+  updatedAt: event.at,
+  events: [...incident.events, event],
+});
+
+const distanceM = (a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) =>
+  turf.distance(turf.point([a.longitude, a.latitude]), turf.point([b.longitude, b.latitude]), { units: 'meters' });
+
+const newestFirst = (a: Incident, b: Incident) => b.openedAt.localeCompare(a.openedAt);
+
+const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+
+// Both copies' audit trails, with the current fields from whichever changed last
+const mergeIncident = (local: Incident, remote: Incident): Incident => {
+  const newer = local.updatedAt > remote.updatedAt ? local : remote;
+  const events = new Map([...remote.events, ...local.events].map(event => [event.id, event]));
+  return {
+    ...newer,
+    sensorIds: union(remote.sensorIds, local.sensorIds),
+    sessionIds: union(remote.sessionIds, local.sessionIds),
+    events: [...events.values()].sort((a, b) => a.at.localeCompare(b.at)),
+  };
+};
+
+// The local copy, including changes still waiting to reach the backend
+export const listIncidents = async (): Promise<Incident[]> => {
+  if (!isIndexedDbAvailable()) return [];
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.incidents, 'readonly');
+  const incidents = await requestToPromise(transaction.objectStore(STORES.incidents).getAll() as IDBRequest<Incident[]>);
+  return incidents.sort(newestFirst);
+};
+
+// Merges the backend's incidents into the local store; queued local changes stay queued
+const pullIncidents = async () => {
+  const documents = await getBackend().fetchIncidents();
+  const remote = documents.flatMap(document => {
+    const parsed = incidentSchema.safeParse(document);
+    return parsed.success ? [parsed.data as Incident] : [];
+  });
+  if (remote.length < documents.length) {
+    console.warn(`Skipped ${documents.length - remote.length} of ${documents.length} malformed incidents from the backend`);
+  }
+  if (remote.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.incidents, 'readwrite');
+  const store = transaction.objectStore(STORES.incidents);
+  await Promise.all(
+    remote.map(async incident => {
+      const local = await requestToPromise(store.get(incident.id) as IDBRequest<Incident | undefined>);
+      store.put(local ? { ...mergeIncident(local, incident), unsynced: local.unsynced } : incident);
+    })
+  );
+  await transactionDone(transaction);
+};
+
+// The backend's copy replaces the queued one. An incident changed again while it was
+// being sent stays queued for the next flush.
+const storeSavedIncident = async (sent: Incident, saved: Incident) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.incidents, 'readwrite');
+  const store = transaction.objectStore(STORES.incidents);
+  const current = (await requestToPromise(store.get(sent.id) as IDBRequest<Incident | undefined>)) ?? sent;
+  store.put({ ...mergeIncident(current, saved), unsynced: current.events.length !== sent.events.length });
+  await transactionDone(transaction);
+};
+
+const sendQueuedIncidents = async (): Promise<number> => {
+  if (!isIndexedDbAvailable()) return 0;
+  const queued = (await listIncidents())
+    .filter(incident => incident.unsynced)
+    .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+
+  for (const incident of queued) {
+    const { unsynced, ...payload } = incident;
+    const saved = incidentSchema.parse(await getBackend().saveIncident(payload)) as Incident;
+    await storeSavedIncident(incident, saved);
+  }
+  return queued.length;
+};
+
+let flushRequest: Promise<number> | null = null;
+
+// Sends every incident changed on this device, oldest change first, and resolves to how many
+// went. Rejects at the first failure, leaving the rest queued for the next attempt.
+export const flushIncidentQueue = (): Promise<number> => {
+  if (!flushRequest) {
+    flushRequest = sendQueuedIncidents().finally(() => {
+      flushRequest = null;
+    });
+  }
+  return flushRequest;
+};
+
+// Local incidents after exchanging changes with the backend; the local copy alone while it is unreachable
+export const refreshIncidents = async (): Promise<Incident[]> => {
+  if (!isIndexedDbAvailable()) return [];
+  try {
+    await flushIncidentQueue();
+    await pullIncidents();
+  } catch (error) {
+    console.warn('Incident sync failed, showing the local copy:', error);
+  }
+  return listIncidents();
+};
+
+// Read-modify-write in one transaction so concurrent updates can't drop audit events.
+// The change is queued for the backend.
+const updateIncident = async (incidentId: string, change: (incident: Incident) => Incident): Promise<Incident> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.incidents, 'readwrite');
+  const store = transaction.objectStore(STORES.incidents);
+
+  const current = await requestToPromise(store.get(incidentId) as IDBRequest<Incident | undefined>);
+  if (!current) {
+    transaction.abort();
+    throw new IncidentNotFoundError(incidentId);
+  }
+
+  let updated: Incident;
+  try {
+    updated = change(current);
+  } catch (error) {
+    transaction.abort();
+    throw error;
+  }
+  const queued = { ...updated, unsynced: true };
+  store.put(queued);
+  await transactionDone(transaction);
+  return queued;
+};
+
+export interface TransitionDetails {
+  note?: string;
+  // Required when dispatching
+  crew?: string;
+  // Recorded when the incident is closed
+  outcome?: string;
+}
+
+export const transitionIncident = (
+  incidentId: string,
+  to: IncidentStatus,
+  actor: IncidentActor,
+  { note, crew, outcome }: TransitionDetails = {}
+): Promise<Incident> =>
+  updateIncident(incidentId, incident => {
+    if (!INCIDENT_TRANSITIONS[incident.status].includes(to)) {
+      throw new IncidentTransitionError(incident.status, to);
+    }
+
+    const event = createEvent(actor, 'status_changed', { from: incident.status, to, note: note?.trim() || undefined });
+    const closing = INCIDENT_TRANSITIONS[to].length === 0;
+    return appendEvent(
+      {
+        ...incident,
+        status: to,
+        crew: to === 'crew_dispatched' ? crew?.trim() || incident.crew : incident.crew,
+        outcome: closing ? outcome?.trim() || note?.trim() || incident.outcome : incident.outcome,
+        closedAt: closing ? event.at : undefined,
+      },
+      event
+    );
+  });
+
+export const addIncidentNote = (incidentId: string, actor: IncidentActor, note: string): Promise<Incident> =>
+  updateIncident(incidentId, incident => appendEvent(incident, createEvent(actor, 'note', { note: note.trim() })));
+
+// Every client watching the same fire derives the same id, from the device and the first fire
+// reading of its session, so their copies merge instead of duplicating the incident
+const incidentIdFor = (sensor: SensorData) => {
+  const session = getFireAlertSessions().active.find(active => active.deviceId === sensor.deviceId);
+  return `inc-${sensor.deviceId}-${session?.startTime ?? sensor.timestamp}`;
+};
+
+const isCovered = (sensor: SensorData, open: Incident[]) => open.some(incident => incident.sensorIds.includes(sensor.deviceId));
+
+// Opens an incident for each fire sensor not already covered by an open one.
+// Sensors near an open incident are linked to it. Returns true if anything changed.
+export const syncIncidentsWithFireSensors = async (sensors: SensorData[]): Promise<boolean> => {
+  const fireSensors = sensors.filter(sensor => sensor.isFire);
+  if (!isIndexedDbAvailable() || fireSensors.length === 0) return false;
+
+  // Another operator may already have opened it
+  const known = (await listIncidents()).filter(isIncidentOpen);
+  if (fireSensors.every(sensor => isCovered(sensor, known))) return false;
+  await pullIncidents().catch(error => console.warn('Could not check the backend for open incidents:', error));
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.incidents, 'readwrite');
+  const store = transaction.objectStore(STORES.incidents);
+  const open = (await requestToPromise(store.getAll() as IDBRequest<Incident[]>)).filter(isIncidentOpen);
+  let changed = false;
+
+  fireSensors.forEach(sensor => {
+    if (isCovered(sensor, open)) return;
+
+    const nearby = open.find(incident => distanceM(incident, sensor) <= INCIDENT_MERGE_RADIUS_M);
+    if (nearby) {
+      const linked = appendEvent(
+        { ...nearby, sensorIds: [...nearby.sensorIds, sensor.deviceId] },
+        createEvent(SYSTEM_ACTOR, 'sensor_linked', { sensorId: sensor.deviceId })
+      );
+      open[open.indexOf(nearby)] = linked;
+      store.put({ ...linked, unsynced: true });
+    } else {
+      const id = incidentIdFor(sensor);
+      const event = { ...createEvent(SYSTEM_ACTOR, 'opened', { sensorId: sensor.deviceId }), id: `evt-${id}-opened` };
+      const incident: Incident = {
+        id,
+        title: `Fire near ${sensor.name || sensor.deviceId}`,
+        status: 'new',
+        latitude: sensor.latitude,
+        longitude: sensor.longitude,
+        sensorIds: [sensor.deviceId],
+        sessionIds: [],
+        openedAt: event.at,
+        updatedAt: event.at,
+        events: [event],
+      };
+      open.push(incident);
+      store.put({ ...incident, unsynced: true });
+    }
+    changed = true;
+  });
+
+  await transactionDone(transaction);
+  return changed;
+};
+
+// Attaches a Live Monitoring session to the open incident for its device, if there is one
+export const linkSessionToIncident = async (deviceId: string, sessionId: string): Promise<Incident | null> => {
+  const incident = (await listIncidents()).find(item => isIncidentOpen(item) && item.sensorIds.includes(deviceId));
+  if (!incident || incident.sessionIds.includes(sessionId)) return null;
+
+  return updateIncident(incident.id, current =>
+    appendEvent(
+      { ...current, sessionIds: [...current.sessionIds, sessionId] },
+      createEvent(SYSTEM_ACTOR, 'session_linked', { sessionId, sensorId: deviceId })
+    )
+  );
+};
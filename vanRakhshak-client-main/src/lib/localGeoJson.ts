@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+// GeoJSON files shipped in /public, such as the asset map and the road network
+
+// [lng, lat]; any altitude in the file is dropped
+export type Position = [number, number];
+
+export const positionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]).rest(z.number());
+
+export const toPosition = ([longitude, latitude]: number[]): Position => [longitude, latitude];
+
+export class GeoJsonFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoJsonFormatError';
+  }
+}
+
+// The features of a FeatureCollection, still to be validated by the caller
+const featuresOf = (value: unknown, what: string): unknown[] => {
+  if (typeof value !== 'object' || value === null || (value as { type?: unknown }).type !== 'FeatureCollection') {
+    throw new GeoJsonFormatError(`The ${what} must be a GeoJSON FeatureCollection`);
+  }
+  const features = (value as { features?: unknown }).features;
+  if (!Array.isArray(features)) throw new GeoJsonFormatError(`The ${what} has no features array`);
+  return features;
+};
+
+// Features of the collection at the URL, or null when there is no file there
+export const fetchLocalGeoJson = async (url: string, what: string): Promise<unknown[] | null> => {
+  const response = await fetch(url);
+  // Dev servers answer missing files with the HTML app shell rather than a 404
+  if (response.status === 404 || response.headers.get('content-type')?.startsWith('text/html')) return null;
+  if (!response.ok) throw new Error(`Could not load the ${what} from ${url}: ${response.status} ${response.statusText}`);
+
+  let value: unknown;
+  try {
+    value = await response.json();
+  } catch {
+    throw new GeoJsonFormatError(`The ${what} at ${url} is not valid JSON`);
+  }
+  return featuresOf(value, what);
+};
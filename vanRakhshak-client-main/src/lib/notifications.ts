@@ -0,0 +1,46 @@
+// src/lib/notifications.ts
+
+export const browserNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Resolves to the permission state; only prompts when the user hasn't decided yet
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!browserNotificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+export const showBrowserNotification = (title: string, body: string) => {
+  if (!browserNotificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag: 'vanrakshak-fire-alert' });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Could not show browser notification:', error);
+  }
+};
+
+// Short two-tone alarm generated with Web Audio, so no sound asset is needed
+export const playAlertSound = () => {
+  const AudioContextClass = window.AudioContext ?? (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return;
+
+  try {
+    const context = new AudioContextClass();
+    const gain = context.createGain();
+    gain.gain.value = 0.15;
+    gain.connect(context.destination);
+
+    [880, 660, 880].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      oscillator.type = 'square';
+      oscillator.frequency.value = frequency;
+      oscillator.connect(gain);
+      oscillator.start(context.currentTime + index * 0.25);
+      oscillator.stop(context.currentTime + index * 0.25 + 0.2);
+    });
+
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    console.warn('Could not play alert sound:', error);
+  }
+};
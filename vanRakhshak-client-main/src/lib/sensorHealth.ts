@@ -0,0 +1,47 @@
+import type { SensorHealth } from '@/types/sensor';
+
+// Single-cell Li-ion pack: below this the node has hours, not days, left
+export const LOW_BATTERY_VOLTAGE = 3.4;
+// Links to the mesh hub weaker than this start dropping packets
+export const WEAK_SIGNAL_RSSI = -90;
+
+export type HealthWarningKind = 'lowBattery' | 'weakSignal' | 'fault';
+
+export interface HealthWarning {
+  kind: HealthWarningKind;
+  label: string;
+}
+
+export const isLowBattery = (health?: SensorHealth) =>
+  health?.batteryVoltage !== undefined && health.batteryVoltage < LOW_BATTERY_VOLTAGE;
+
+export const isWeakSignal = (health?: SensorHealth) =>
+  health?.rssi !== undefined && health.rssi < WEAK_SIGNAL_RSSI;
+
+export const getHealthWarnings = (health?: SensorHealth): HealthWarning[] => {
+  if (!health) return [];
+
+  const warnings: HealthWarning[] = [];
+  if (isLowBattery(health)) {
+    warnings.push({ kind: 'lowBattery', label: `Low battery (${health.batteryVoltage.toFixed(2)} V)` });
+  }
+  if (isWeakSignal(health)) {
+    warnings.push({ kind: 'weakSignal', label: `Weak signal (${health.rssi} dBm)` });
+  }
+  health.faultFlags?.forEach(flag => warnings.push({ kind: 'fault', label: `Fault: ${flag}` }));
+  return warnings;
+};
+
+// "3d 4h" style uptime since the last boot
+export const formatUptime = (lastBoot?: string, now: number = Date.now()): string | null => {
+  if (!lastBoot) return null;
+  const bootedAt = new Date(lastBoot).getTime();
+  if (Number.isNaN(bootedAt) || bootedAt > now) return null;
+
+  const minutes = Math.floor((now - bootedAt) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
@@ -0,0 +1,189 @@
+import { eachDayOfInterval, eachWeekOfInterval, format, startOfDay, startOfWeek } from 'date-fns';
+import type { FireAlertSession } from '@/types/session';
+
+export type AnalyticsBucket = 'day' | 'week';
+
+export interface PeriodCount {
+  // Start of the day or week, local time
+  start: Date;
+  label: string;
+  mlConfirmed: number;
+  sensorOnly: number;
+}
+
+export interface DeviceSummary {
+  deviceId: string;
+  name?: string;
+  sessions: number;
+  totalDurationMs: number;
+  // Celsius
+  maxTemp: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface HeatmapCell {
+  // 0 = Sunday, as Date.getDay()
+  weekday: number;
+  hour: number;
+  count: number;
+}
+
+export interface SessionAnalytics {
+  total: number;
+  perPeriod: PeriodCount[];
+  // Completed sessions only; null when there are none
+  meanDurationMs: number | null;
+  medianDurationMs: number | null;
+  devices: DeviceSummary[];
+  // Session starts by local weekday and hour, all 7 x 24 cells
+  startHeatmap: HeatmapCell[];
+  mlConfirmed: number;
+  sensorOnly: number;
+}
+
+// Week buckets start on Monday, as the monthly reviews count them
+export const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+export const sessionDurationMs = (session: FireAlertSession): number | null => {
+  if (!session.endTime) return null;
+  const duration = new Date(session.endTime).getTime() - new Date(session.startTime).getTime();
+  return Number.isFinite(duration) && duration >= 0 ? duration : null;
+};
+
+const bucketStart = (date: Date, bucket: AnalyticsBucket) =>
+  bucket === 'week' ? startOfWeek(date, WEEK_OPTIONS) : startOfDay(date);
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Equal-width bins aligned to multiples of binWidth, with empty bins kept so the axis has no gaps
+export const histogram = (values: number[], binWidth: number): HistogramBin[] => {
+  const finite = values.filter(Number.isFinite);
+  if (finite.length === 0) return [];
+
+  const first = Math.floor(Math.min(...finite) / binWidth);
+  const last = Math.floor(Math.max(...finite) / binWidth);
+  const bins: HistogramBin[] = [];
+  for (let index = first; index <= last; index++) {
+    bins.push({ from: index * binWidth, to: (index + 1) * binWidth, count: 0 });
+  }
+  finite.forEach(value => {
+    bins[Math.floor(value / binWidth) - first].count += 1;
+  });
+  return bins;
+};
+
+// Aggregates for the fleet-wide view. `from`/`to` fix the period axis; without
+// them it spans the sessions themselves.
+export const buildSessionAnalytics = (
+  sessions: FireAlertSession[],
+  { bucket, from, to }: { bucket: AnalyticsBucket; from?: Date; to?: Date }
+): SessionAnalytics => {
+  const starts = sessions.map(session => new Date(session.startTime));
+  const validStarts = starts.filter(date => !Number.isNaN(date.getTime()));
+
+  const perPeriod: PeriodCount[] = [];
+  if (validStarts.length > 0 || (from && to)) {
+    const times = validStarts.map(date => date.getTime());
+    const rangeStart = from ?? new Date(Math.min(...times));
+    const rangeEnd = to ?? new Date(Math.max(...times));
+    const periods =
+      bucket === 'week'
+        ? eachWeekOfInterval({ start: rangeStart, end: rangeEnd }, WEEK_OPTIONS)
+        : eachDayOfInterval({ start: rangeStart, end: rangeEnd });
+    const byStart = new Map<number, PeriodCount>();
+    periods.forEach(start => {
+      const period = { start, label: format(start, bucket === 'week' ? "'Wk of' d MMM" : 'd MMM'), mlConfirmed: 0, sensorOnly: 0 };
+      byStart.set(start.getTime(), period);
+      perPeriod.push(period);
+    });
+    sessions.forEach((session, index) => {
+      if (Number.isNaN(starts[index].getTime())) return;
+      const period = byStart.get(bucketStart(starts[index], bucket).getTime());
+      if (!period) return;
+      if (session.mlConfirmed) period.mlConfirmed += 1;
+      else period.sensorOnly += 1;
+    });
+  }
+
+  const durations = sessions.map(sessionDurationMs).filter((value): value is number => value !== null);
+
+  const devices = new Map<string, DeviceSummary>();
+  sessions.forEach(session => {
+    const summary = devices.get(session.deviceId) ?? {
+      deviceId: session.deviceId,
+      name: session.readings[0]?.name,
+      sessions: 0,
+      totalDurationMs: 0,
+      maxTemp: -Infinity,
+    };
+    summary.sessions += 1;
+    summary.totalDurationMs += sessionDurationMs(session) ?? 0;
+    summary.maxTemp = Math.max(summary.maxTemp, session.maxTemp);
+    devices.set(session.deviceId, summary);
+  });
+
+  const startHeatmap: HeatmapCell[] = [];
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (let hour = 0; hour < 24; hour++) startHeatmap.push({ weekday, hour, count: 0 });
+  }
+  validStarts.forEach(date => {
+    startHeatmap[date.getDay() * 24 + date.getHours()].count += 1;
+  });
+
+  const mlConfirmed = sessions.filter(session => session.mlConfirmed).length;
+
+  return {
+    total: sessions.length,
+    perPeriod,
+    meanDurationMs: durations.length ? durations.reduce((sum, value) => sum + value, 0) / durations.length : null,
+    medianDurationMs: median(durations),
+    devices: Array.from(devices.values()).sort(
+      (a, b) => b.sessions - a.sessions || b.totalDurationMs - a.totalDurationMs
+    ),
+    startHeatmap,
+    mlConfirmed,
+    sensorOnly: sessions.length - mlConfirmed,
+  };
+};
+
+// More overlaid curves than this stop being readable
+export const MAX_COMPARED_SESSIONS = 6;
+
+export const COMPARISON_METRICS = ['temp', 'smoke', 'humidity'] as const;
+export type ComparisonMetric = (typeof COMPARISON_METRICS)[number];
+
+// `minutes` since the owning session started, plus `${metric}_${sessionIndex}` for each
+// reading taken at that offset. Sessions rarely share offsets, so most keys are absent.
+export type ComparisonRow = { minutes: number } & Record<string, number>;
+
+export const comparisonKey = (metric: ComparisonMetric, sessionIndex: number) => `${metric}_${sessionIndex}`;
+
+// Lines up several sessions on time since their own start, for overlaying their curves
+export const buildComparisonSeries = (sessions: FireAlertSession[]): ComparisonRow[] => {
+  const rows = new Map<number, ComparisonRow>();
+  sessions.forEach((session, sessionIndex) => {
+    const start = new Date(session.startTime).getTime();
+    session.readings.forEach(reading => {
+      const offset = new Date(reading.timestamp).getTime() - start;
+      if (!Number.isFinite(offset)) return;
+      // Rounded to the second so near-simultaneous readings share a row
+      const minutes = Math.round(offset / 1000) / 60;
+      const row = rows.get(minutes) ?? ({ minutes } as ComparisonRow);
+      COMPARISON_METRICS.forEach(metric => {
+        row[comparisonKey(metric, sessionIndex)] = reading[metric];
+      });
+      rows.set(minutes, row);
+    });
+  });
+  return Array.from(rows.values()).sort((a, b) => a.minutes - b.minutes);
+};
@@ -0,0 +1,253 @@
+import type { FireAlertSession } from '@/types/session';
+import { classifySessionPeak, type AlertLevel, type ThresholdProfile } from './thresholds';
+import { sessionDurationMs } from './sessionAnalytics';
+import { STORES, isIndexedDbAvailable, openDatabase, requestToPromise, toIsoTimestamp, transactionDone } from './db';
+
+// Completed sessions lived in localStorage, capped at 10, before the archive existed
+const LEGACY_SESSIONS_STORAGE_KEY = 'fireAlertSessions';
+
+// Bump when the stored session shape changes and add a step to migrateSession
+export const SESSION_SCHEMA_VERSION = 1;
+
+export interface ArchivedSession extends FireAlertSession {
+  schemaVersion: number;
+}
+
+export interface SessionQuery {
+  // Zero-based
+  page: number;
+  pageSize: number;
+  // Matches session id, device id or device name, case-insensitive
+  search?: string;
+  // Inclusive bounds on the session start
+  from?: string | Date;
+  to?: string | Date;
+  deviceId?: string;
+  // Inclusive; a session still open when archived has no duration and never matches
+  minDurationMs?: number;
+  maxDurationMs?: number;
+  mlConfirmed?: boolean;
+  // Rated by classifySessionPeak, so the profiles must come with it
+  peakLevel?: AlertLevel;
+  thresholds?: ThresholdProfile[];
+}
+
+export type SessionFilters = Omit<SessionQuery, 'page' | 'pageSize'>;
+
+// Whether any filter narrows the archive; `thresholds` alone does not
+export const hasSessionFilters = (filters: SessionFilters) =>
+  Boolean(
+    filters.search?.trim() ||
+      filters.from ||
+      filters.to ||
+      filters.deviceId ||
+      filters.minDurationMs !== undefined ||
+      filters.maxDurationMs !== undefined ||
+      filters.mlConfirmed !== undefined ||
+      filters.peakLevel
+  );
+
+export interface SessionPage {
+  sessions: ArchivedSession[];
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+// The startTime index only sorts correctly on UTC ISO strings
+const withIsoTimes = <T extends FireAlertSession>(session: T): T => ({
+  ...session,
+  startTime: toIsoTimestamp(session.startTime) ?? session.startTime,
+  endTime: session.endTime ? toIsoTimestamp(session.endTime) ?? session.endTime : null,
+});
+
+// Brings a record of any earlier version up to SESSION_SCHEMA_VERSION
+const migrateSession = (raw: Partial<ArchivedSession>): ArchivedSession | null => {
+  if (!raw?.id || !raw.deviceId || !raw.startTime) return null;
+  let session = raw as ArchivedSession;
+
+  if (!session.schemaVersion) {
+    // Version 0: the localStorage format. ML fields were optional and timestamps unnormalised.
+    session = withIsoTimes({
+      ...session,
+      readings: Array.isArray(session.readings) ? session.readings : [],
+      mlPredictions: Array.isArray(session.mlPredictions) ? session.mlPredictions : [],
+      mlConfirmed: !!session.mlConfirmed,
+      status: 'completed',
+      schemaVersion: 1,
+    });
+  }
+
+  return session;
+};
+
+let migration: Promise<void> | null = null;
+
+// Moves sessions saved by older builds into the archive, once
+const migrateLegacySessions = (db: IDBDatabase): Promise<void> => {
+  if (!migration) {
+    migration = (async () => {
+      const stored = localStorage.getItem(LEGACY_SESSIONS_STORAGE_KEY);
+      if (!stored) return;
+
+      let legacy: unknown;
+      try {
+        legacy = JSON.parse(stored);
+      } catch (error) {
+        console.error('Discarding unreadable legacy sessions:', error);
+        localStorage.removeItem(LEGACY_SESSIONS_STORAGE_KEY);
+        return;
+      }
+
+      const transaction = db.transaction(STORES.sessions, 'readwrite');
+      const store = transaction.objectStore(STORES.sessions);
+      (Array.isArray(legacy) ? legacy : []).forEach(raw => {
+        const session = migrateSession(raw);
+        if (session) store.put(session);
+      });
+      await transactionDone(transaction);
+      localStorage.removeItem(LEGACY_SESSIONS_STORAGE_KEY);
+    })();
+    // Retry on the next call if the write failed
+    migration.catch(() => {
+      migration = null;
+    });
+  }
+  return migration;
+};
+
+const openArchive = async () => {
+  const db = await openDatabase();
+  await migrateLegacySessions(db);
+  return db;
+};
+
+export const archiveSessions = async (sessions: FireAlertSession[]): Promise<void> => {
+  if (!isIndexedDbAvailable() || sessions.length === 0) return;
+
+  const db = await openArchive();
+  const transaction = db.transaction(STORES.sessions, 'readwrite');
+  const store = transaction.objectStore(STORES.sessions);
+  sessions.forEach(session => {
+    store.put(withIsoTimes({ ...session, schemaVersion: SESSION_SCHEMA_VERSION }) satisfies ArchivedSession);
+  });
+  await transactionDone(transaction);
+};
+
+export const deleteArchivedSession = async (sessionId: string): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openArchive();
+  const transaction = db.transaction(STORES.sessions, 'readwrite');
+  transaction.objectStore(STORES.sessions).delete(sessionId);
+  await transactionDone(transaction);
+};
+
+export const getArchivedSession = async (sessionId: string): Promise<ArchivedSession | null> => {
+  if (!isIndexedDbAvailable()) return null;
+  const db = await openArchive();
+  const transaction = db.transaction(STORES.sessions, 'readonly');
+  const raw = await requestToPromise(transaction.objectStore(STORES.sessions).get(sessionId));
+  return raw ? migrateSession(raw) : null;
+};
+
+// The archived copies of whichever of these ids exist, e.g. to spot duplicates on import
+export const getArchivedSessions = async (sessionIds: string[]): Promise<Map<string, ArchivedSession>> => {
+  const found = new Map<string, ArchivedSession>();
+  if (!isIndexedDbAvailable() || sessionIds.length === 0) return found;
+
+  const db = await openArchive();
+  const store = db.transaction(STORES.sessions, 'readonly').objectStore(STORES.sessions);
+  const stored = await Promise.all(sessionIds.map(id => requestToPromise(store.get(id))));
+  stored.forEach(raw => {
+    const session = raw ? migrateSession(raw) : null;
+    if (session) found.set(session.id, session);
+  });
+  return found;
+};
+
+const startTimeRange = (from?: string | Date, to?: string | Date): IDBKeyRange | null => {
+  const lower = from ? toIsoTimestamp(from) : null;
+  const upper = to ? toIsoTimestamp(to) : null;
+  if (lower && upper) return lower <= upper ? IDBKeyRange.bound(lower, upper) : null;
+  if (lower) return IDBKeyRange.lowerBound(lower);
+  if (upper) return IDBKeyRange.upperBound(upper);
+  return null;
+};
+
+const matchesSearch = (session: ArchivedSession, search: string) =>
+  [session.id, session.deviceId, session.readings[0]?.name].some(value => value?.toLowerCase().includes(search));
+
+// Everything but the date range, which the index cursor already applies
+const matchesFilters = (session: ArchivedSession, filters: SessionFilters, needle?: string) => {
+  if (needle && !matchesSearch(session, needle)) return false;
+  if (filters.deviceId && session.deviceId !== filters.deviceId) return false;
+  if (filters.mlConfirmed !== undefined && session.mlConfirmed !== filters.mlConfirmed) return false;
+
+  if (filters.minDurationMs !== undefined || filters.maxDurationMs !== undefined) {
+    const duration = sessionDurationMs(session);
+    if (duration === null) return false;
+    if (filters.minDurationMs !== undefined && duration < filters.minDurationMs) return false;
+    if (filters.maxDurationMs !== undefined && duration > filters.maxDurationMs) return false;
+  }
+
+  if (filters.peakLevel && classifySessionPeak(session, filters.thresholds ?? []).overall !== filters.peakLevel) {
+    return false;
+  }
+  return true;
+};
+
+// Walks the startTime index newest first, so only the requested page is kept in memory
+const scanSessions = async (
+  filters: SessionFilters,
+  visit: (session: ArchivedSession, index: number) => void
+): Promise<number> => {
+  const { search, from, to } = filters;
+  if (!isIndexedDbAvailable()) return 0;
+  if ((from || to) && !startTimeRange(from, to)) return 0;
+
+  const db = await openArchive();
+  const transaction = db.transaction(STORES.sessions, 'readonly');
+  const index = transaction.objectStore(STORES.sessions).index('startTime');
+  const request = index.openCursor(startTimeRange(from, to), 'prev');
+  const needle = search?.trim().toLowerCase();
+  let matched = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const session = migrateSession(cursor.value);
+      if (session && matchesFilters(session, filters, needle)) {
+        visit(session, matched);
+        matched += 1;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  return matched;
+};
+
+export const querySessions = async (query: SessionQuery): Promise<SessionPage> => {
+  const pageSize = Math.max(1, query.pageSize);
+  const page = Math.max(0, query.page);
+  const start = page * pageSize;
+  const sessions: ArchivedSession[] = [];
+
+  const total = await scanSessions(query, (session, index) => {
+    if (index >= start && index < start + pageSize) sessions.push(session);
+  });
+
+  return { sessions, total, page, pageCount: Math.max(1, Math.ceil(total / pageSize)) };
+};
+
+// Every session matching the filters, newest first, e.g. for export
+export const listSessions = async (filters: SessionFilters = {}): Promise<ArchivedSession[]> => {
+  const sessions: ArchivedSession[] = [];
+  await scanSessions(filters, session => sessions.push(session));
+  return sessions;
+};
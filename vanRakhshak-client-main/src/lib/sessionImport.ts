@@ -0,0 +1,454 @@
+import { z } from 'zod';
+import type { AlertData } from '@/api/fireAlerts';
+import type { FireAlertSession, SensorReading } from '@/types/session';
+import { parseCsv } from './dataExport';
+import { archiveSessions, getArchivedSessions } from './sessionArchive';
+import { recordReadings } from './timeSeriesStore';
+
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+const timestampSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid timestamp');
+
+const sensorHealthSchema = z.object({
+  batteryVoltage: z.number().optional(),
+  rssi: z.number().optional(),
+  firmwareVersion: z.string().optional(),
+  lastBoot: z.string().optional(),
+  faultFlags: z.array(z.string()).optional(),
+});
+
+const alertDataSchema = z.object({
+  id: z.string().min(1),
+  deviceId: z.string().min(1),
+  name: z.string().optional(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  humidity: z.number(),
+  temp: z.number(),
+  smoke: z.number(),
+  isFire: z.boolean(),
+  timestamp: timestampSchema,
+  health: sensorHealthSchema.optional(),
+});
+
+const sensorReadingSchema = alertDataSchema.extend({
+  status: z.enum(['active', 'inactive', 'warning']).optional(),
+  weatherData: z
+    .object({
+      temp_max: z.number(),
+      temp_min: z.number(),
+      wind_speed: z.number(),
+      wind_gust: z.number(),
+      current_temp: z.number(),
+      feels_like: z.number(),
+      humidity: z.number(),
+      pressure: z.number(),
+      description: z.string(),
+    })
+    .optional(),
+});
+
+const mlPredictionSchema = z.object({
+  id: z.string().min(1),
+  timestamp: timestampSchema,
+  input_data: z.object({
+    temperature: z.number(),
+    humidity: z.number(),
+    smoke: z.number(),
+    temp_max: z.number(),
+    temp_min: z.number(),
+    wind_speed: z.number(),
+    wind_gust: z.number(),
+  }),
+  prediction: z.number(),
+  level: z.string(),
+  emoji: z.string(),
+  message: z.string(),
+  confidence: z.number().optional(),
+  probabilities: z.record(z.number()).optional(),
+  status: z.enum(['processing', 'completed', 'failed']),
+});
+
+export const fireAlertSessionSchema = z.object({
+  id: z.string().min(1),
+  deviceId: z.string().min(1),
+  startTime: timestampSchema,
+  endTime: timestampSchema.nullable(),
+  readings: z.array(sensorReadingSchema).min(1, 'A session needs at least one reading'),
+  mlPredictions: z.array(mlPredictionSchema).default([]),
+  maxTemp: z.number(),
+  minTemp: z.number(),
+  avgTemp: z.number(),
+  maxSmoke: z.number(),
+  minSmoke: z.number(),
+  avgSmoke: z.number(),
+  maxHumidity: z.number(),
+  minHumidity: z.number(),
+  avgHumidity: z.number(),
+  readingCount: z.number().int().positive().optional(),
+  status: z.enum(['active', 'completed']),
+  mlConfirmed: z.boolean().default(false),
+});
+
+export interface ImportIssue {
+  // e.g. "Session 3" or "Row 12"
+  location: string;
+  message: string;
+}
+
+export interface SessionImportPreview {
+  kind: 'sessions';
+  fileName: string;
+  sessions: FireAlertSession[];
+  // Ids already in the archive
+  duplicateIds: Set<string>;
+  issues: ImportIssue[];
+  // CSV exports carry no ML predictions or weather snapshots
+  partial: boolean;
+}
+
+export interface ReadingImportPreview {
+  kind: 'readings';
+  fileName: string;
+  readings: AlertData[];
+  deviceIds: string[];
+  issues: ImportIssue[];
+}
+
+export type ImportPreview = SessionImportPreview | ReadingImportPreview;
+
+export type DuplicateStrategy = 'skip' | 'merge' | 'replace';
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+const describeZodError = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 3)
+    .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+
+const average = (readings: SensorReading[], metric: 'temp' | 'smoke' | 'humidity') =>
+  readings.reduce((sum, reading) => sum + reading[metric], 0) / readings.length;
+
+const newestFirst = <T extends { timestamp: string }>(items: T[]) =>
+  [...items].sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+
+// Stats for sessions rebuilt from rows, where only the readings are known
+const summariseReadings = (readings: SensorReading[]) => ({
+  maxTemp: Math.max(...readings.map(reading => reading.temp)),
+  minTemp: Math.min(...readings.map(reading => reading.temp)),
+  avgTemp: average(readings, 'temp'),
+  maxSmoke: Math.max(...readings.map(reading => reading.smoke)),
+  minSmoke: Math.min(...readings.map(reading => reading.smoke)),
+  avgSmoke: average(readings, 'smoke'),
+  maxHumidity: Math.max(...readings.map(reading => reading.humidity)),
+  minHumidity: Math.min(...readings.map(reading => reading.humidity)),
+  avgHumidity: average(readings, 'humidity'),
+  readingCount: readings.length,
+});
+
+const readingKey = (reading: SensorReading) => `${reading.deviceId}|${Date.parse(reading.timestamp)}`;
+
+const readingCountOf = (session: FireAlertSession) => session.readingCount ?? session.readings.length;
+
+const averagesOf = ({ avgTemp, avgSmoke, avgHumidity }: FireAlertSession) => ({ avgTemp, avgSmoke, avgHumidity });
+
+// Every reading `part` stores is in `whole`, which has seen at least as many
+const covers = (whole: FireAlertSession, part: FireAlertSession) => {
+  const keys = new Set(whole.readings.map(readingKey));
+  return readingCountOf(whole) >= readingCountOf(part) && part.readings.every(reading => keys.has(readingKey(reading)));
+};
+
+// Averages over every reading either copy has seen, each counted once. A copy the other
+// already covers adds nothing; otherwise the averages are weighted by reading count, less
+// the readings both copies store.
+const mergeAverages = (existing: FireAlertSession, incoming: FireAlertSession) => {
+  if (covers(existing, incoming)) return { ...averagesOf(existing), readingCount: readingCountOf(existing) };
+  if (covers(incoming, existing)) return { ...averagesOf(incoming), readingCount: readingCountOf(incoming) };
+
+  const incomingKeys = new Set(incoming.readings.map(readingKey));
+  const shared = existing.readings.filter(reading => incomingKeys.has(readingKey(reading)));
+  const readingCount = readingCountOf(existing) + readingCountOf(incoming) - shared.length;
+  const combine = (metric: 'temp' | 'smoke' | 'humidity', key: 'avgTemp' | 'avgSmoke' | 'avgHumidity') =>
+    (existing[key] * readingCountOf(existing) +
+      incoming[key] * readingCountOf(incoming) -
+      shared.reduce((sum, reading) => sum + reading[metric], 0)) /
+    readingCount;
+
+  return {
+    avgTemp: combine('temp', 'avgTemp'),
+    avgSmoke: combine('smoke', 'avgSmoke'),
+    avgHumidity: combine('humidity', 'avgHumidity'),
+    readingCount,
+  };
+};
+
+// Readings are unioned by device and time, so importing the same export twice changes nothing
+export const mergeSessions = (existing: FireAlertSession, incoming: FireAlertSession): FireAlertSession => {
+  const readings = new Map<string, SensorReading>();
+  [...existing.readings, ...incoming.readings].forEach(reading => {
+    readings.set(readingKey(reading), reading);
+  });
+  const predictions = new Map(
+    [...existing.mlPredictions, ...incoming.mlPredictions].map(prediction => [prediction.id, prediction])
+  );
+  const mergedReadings = newestFirst(Array.from(readings.values()));
+  const endTimes = [existing.endTime, incoming.endTime].filter((value): value is string => !!value);
+
+  return {
+    ...existing,
+    readings: mergedReadings,
+    mlPredictions: newestFirst(Array.from(predictions.values())),
+    startTime: Date.parse(incoming.startTime) < Date.parse(existing.startTime) ? incoming.startTime : existing.startTime,
+    endTime: endTimes.length ? endTimes.reduce((latest, value) => (Date.parse(value) > Date.parse(latest) ? value : latest)) : null,
+    // The stored min/max cover readings that may since have been capped away
+    maxTemp: Math.max(existing.maxTemp, incoming.maxTemp),
+    minTemp: Math.min(existing.minTemp, incoming.minTemp),
+    maxSmoke: Math.max(existing.maxSmoke, incoming.maxSmoke),
+    minSmoke: Math.min(existing.minSmoke, incoming.minSmoke),
+    maxHumidity: Math.max(existing.maxHumidity, incoming.maxHumidity),
+    minHumidity: Math.min(existing.minHumidity, incoming.minHumidity),
+    ...mergeAverages(existing, incoming),
+    status: existing.status === 'completed' || incoming.status === 'completed' ? 'completed' : 'active',
+    mlConfirmed: existing.mlConfirmed || incoming.mlConfirmed,
+  };
+};
+
+type CsvRecord = Record<string, string>;
+
+const toRecords = (rows: string[][]): CsvRecord[] => {
+  const [header, ...body] = rows;
+  const columns = header.map(column => column.trim().toLowerCase());
+  return body.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? ''])));
+};
+
+const csvNumber = (value: string | undefined) => (value === undefined || value === '' ? Number.NaN : Number(value));
+const csvOptionalNumber = (value: string | undefined) => (value ? Number(value) : undefined);
+const csvBoolean = (value: string | undefined) => value?.toLowerCase() === 'true' || value === '1';
+
+const requireColumns = (records: CsvRecord[], header: string[], required: string[], exportName: string) => {
+  const missing = required.filter(column => !header.includes(column));
+  if (missing.length) {
+    throw new ImportFormatError(
+      `This CSV is missing ${missing.join(', ')}. Use a ${exportName} from this version of the app, or its JSON export.`
+    );
+  }
+  return records;
+};
+
+// "Export All" session CSVs: one row per reading, grouped back into sessions by session_id
+const sessionsFromCsv = (rows: string[][], issues: ImportIssue[]) => {
+  const header = rows[0].map(column => column.trim().toLowerCase());
+  const records = requireColumns(
+    toRecords(rows),
+    header,
+    ['session_id', 'device_id', 'timestamp', 'latitude', 'longitude', 'temperature', 'humidity', 'smoke'],
+    'session export'
+  );
+
+  const bySession = new Map<string, SensorReading[]>();
+  records.forEach((record, index) => {
+    const parsed = sensorReadingSchema.safeParse({
+      id: `${record.device_id}-${record.timestamp}`,
+      deviceId: record.device_id,
+      latitude: csvNumber(record.latitude),
+      longitude: csvNumber(record.longitude),
+      temp: csvNumber(record.temperature),
+      humidity: csvNumber(record.humidity),
+      smoke: csvNumber(record.smoke),
+      isFire: record.is_fire ? csvBoolean(record.is_fire) : true,
+      timestamp: record.timestamp,
+    });
+    if (!parsed.success || !record.session_id) {
+      // +2: the header row and one-based numbering
+      issues.push({ location: `Row ${index + 2}`, message: parsed.success ? 'session_id is empty' : describeZodError(parsed.error) });
+      return;
+    }
+    bySession.set(record.session_id, [...(bySession.get(record.session_id) ?? []), parsed.data as SensorReading]);
+  });
+
+  return Array.from(bySession.entries()).map(([id, sessionReadings]): FireAlertSession => {
+    const readings = newestFirst(sessionReadings);
+    return {
+      id,
+      deviceId: readings[0].deviceId,
+      startTime: readings[readings.length - 1].timestamp,
+      endTime: readings[0].timestamp,
+      readings,
+      mlPredictions: [],
+      ...summariseReadings(readings),
+      status: 'completed',
+      mlConfirmed: false,
+    };
+  });
+};
+
+// Sensor Status CSVs: one row per sensor
+const readingsFromCsv = (rows: string[][], issues: ImportIssue[]) => {
+  const header = rows[0].map(column => column.trim().toLowerCase());
+  const records = requireColumns(
+    toRecords(rows),
+    header,
+    ['device_id', 'timestamp', 'latitude', 'longitude', 'temperature', 'humidity', 'smoke'],
+    'sensor export'
+  );
+
+  return records.flatMap((record, index) => {
+    const batteryVoltage = csvOptionalNumber(record.battery_voltage);
+    const rssi = csvOptionalNumber(record.rssi);
+    const hasHealth = batteryVoltage !== undefined || rssi !== undefined || !!record.firmware_version;
+    const parsed = alertDataSchema.safeParse({
+      id: record.device_id,
+      deviceId: record.device_id,
+      name: record.name || undefined,
+      latitude: csvNumber(record.latitude),
+      longitude: csvNumber(record.longitude),
+      temp: csvNumber(record.temperature),
+      humidity: csvNumber(record.humidity),
+      smoke: csvNumber(record.smoke),
+      isFire: csvBoolean(record.is_fire),
+      timestamp: record.timestamp,
+      health: hasHealth ? { batteryVoltage, rssi, firmwareVersion: record.firmware_version || undefined } : undefined,
+    });
+    if (!parsed.success) {
+      issues.push({ location: `Row ${index + 2}`, message: describeZodError(parsed.error) });
+      return [];
+    }
+    return [parsed.data as AlertData];
+  });
+};
+
+const isSessionLike = (value: unknown) => typeof value === 'object' && value !== null && 'readings' in value;
+
+const fromJson = (value: unknown, issues: ImportIssue[]): Pick<ImportPreview, 'kind'> & { items: unknown[] } => {
+  // The Affected Areas export wraps the sensor in an object
+  if (typeof value === 'object' && value !== null && !Array.isArray(value) && 'sensor' in value) {
+    return { kind: 'readings', items: [(value as { sensor: unknown }).sensor] };
+  }
+  const items = Array.isArray(value) ? value : [value];
+  if (items.length === 0) throw new ImportFormatError('The file contains no records');
+
+  const sessionLike = items.filter(isSessionLike).length;
+  if (sessionLike > 0 && sessionLike < items.length) {
+    issues.push({ location: 'File', message: 'Mixed sessions and sensor readings; only sessions were imported' });
+  }
+  return sessionLike > 0 ? { kind: 'sessions', items: items.filter(isSessionLike) } : { kind: 'readings', items };
+};
+
+const parseJsonSessions = (items: unknown[], issues: ImportIssue[]) =>
+  items.flatMap((item, index) => {
+    const parsed = fireAlertSessionSchema.safeParse(item);
+    if (!parsed.success) {
+      issues.push({ location: `Session ${index + 1}`, message: describeZodError(parsed.error) });
+      return [];
+    }
+    return [parsed.data as FireAlertSession];
+  });
+
+const parseJsonReadings = (items: unknown[], issues: ImportIssue[]) =>
+  items.flatMap((item, index) => {
+    // Strips UI-only fields such as status
+    const parsed = alertDataSchema.safeParse(item);
+    if (!parsed.success) {
+      issues.push({ location: `Record ${index + 1}`, message: describeZodError(parsed.error) });
+      return [];
+    }
+    return [parsed.data as AlertData];
+  });
+
+// The first copy of each session id in the file wins
+const dedupeById = (sessions: FireAlertSession[], issues: ImportIssue[]) => {
+  const seen = new Set<string>();
+  return sessions.filter(session => {
+    if (seen.has(session.id)) {
+      issues.push({ location: `Session ${session.id}`, message: 'Appears more than once in the file; later copies ignored' });
+      return false;
+    }
+    seen.add(session.id);
+    return true;
+  });
+};
+
+// Parses and validates an exported file without writing anything
+export const readImportFile = async (file: File): Promise<ImportPreview> => {
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new ImportFormatError(`Files over ${MAX_IMPORT_BYTES / (1024 * 1024)} MB are not supported`);
+  }
+
+  const text = await file.text();
+  const issues: ImportIssue[] = [];
+  const trimmed = text.replace(/^\uFEFF/, '').trimStart();
+  const isJson = /\.(geo)?json$/i.test(file.name) || trimmed.startsWith('[') || trimmed.startsWith('{');
+
+  if (isJson) {
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      throw new ImportFormatError('The file is not valid JSON');
+    }
+    if (typeof value === 'object' && value !== null && (value as { type?: unknown }).type === 'FeatureCollection') {
+      throw new ImportFormatError('GeoJSON exports are for GIS tools and cannot be imported; use the JSON export');
+    }
+
+    const { kind, items } = fromJson(value, issues);
+    if (kind === 'readings') {
+      const readings = parseJsonReadings(items, issues);
+      return { kind, fileName: file.name, readings, deviceIds: [...new Set(readings.map(r => r.deviceId))], issues };
+    }
+    const sessions = dedupeById(parseJsonSessions(items, issues), issues);
+    const duplicateIds = new Set((await getArchivedSessions(sessions.map(session => session.id))).keys());
+    return { kind, fileName: file.name, sessions, duplicateIds, issues, partial: false };
+  }
+
+  const rows = parseCsv(text);
+  if (rows.length < 2) throw new ImportFormatError('The CSV has no data rows');
+
+  if (rows[0].map(column => column.trim().toLowerCase()).includes('session_id')) {
+    const sessions = sessionsFromCsv(rows, issues);
+    const duplicateIds = new Set((await getArchivedSessions(sessions.map(session => session.id))).keys());
+    return { kind: 'sessions', fileName: file.name, sessions, duplicateIds, issues, partial: true };
+  }
+
+  const readings = readingsFromCsv(rows, issues);
+  return { kind: 'readings', fileName: file.name, readings, deviceIds: [...new Set(readings.map(r => r.deviceId))], issues };
+};
+
+// Writes a previewed import. Duplicates are looked up again in case the archive changed meanwhile.
+export const applyImport = async (preview: ImportPreview, strategy: DuplicateStrategy): Promise<ImportResult> => {
+  if (preview.kind === 'readings') {
+    // Readings are keyed on device and time, so re-importing is a no-op
+    await recordReadings(preview.readings);
+    return { added: preview.readings.length, updated: 0, skipped: 0 };
+  }
+
+  const existing = await getArchivedSessions(preview.sessions.map(session => session.id));
+  const result: ImportResult = { added: 0, updated: 0, skipped: 0 };
+  const toWrite = preview.sessions.flatMap(session => {
+    const current = existing.get(session.id);
+    if (!current) {
+      result.added += 1;
+      return [session];
+    }
+    if (strategy === 'skip') {
+      result.skipped += 1;
+      return [];
+    }
+    result.updated += 1;
+    return [strategy === 'merge' ? mergeSessions(current, session) : session];
+  });
+
+  await archiveSessions(toWrite);
+  return result;
+};
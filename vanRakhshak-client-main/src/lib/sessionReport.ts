@@ -0,0 +1,438 @@
+import { jsPDF } from 'jspdf';
+import type { FireAlertSession, SensorReading } from '@/types/session';
+import type { Settings, TemperatureUnit } from './settings';
+import { formatTemperature, temperatureSymbol, toDisplayTemperature } from './units';
+
+export interface SessionReportOptions {
+  units: TemperatureUnit;
+  map: Settings['map'];
+  // Name printed under "Prepared by" in the signature block
+  preparedBy?: string;
+}
+
+// A4 portrait, in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const MAP_ZOOM = 14;
+const MAP_WIDTH_PX = 720;
+const MAP_HEIGHT_PX = 360;
+const TILE_SIZE = 256;
+const TILE_TIMEOUT_MS = 8000;
+
+type Rgb = [number, number, number];
+const TEXT: Rgb = [30, 41, 59];
+const MUTED: Rgb = [100, 116, 139];
+const RULE: Rgb = [203, 213, 225];
+const TEMP_COLOR: Rgb = [220, 38, 38];
+const SMOKE_COLOR: Rgb = [71, 85, 105];
+
+export const formatDurationMs = (durationMs: number): string => {
+  const hours = Math.floor(durationMs / (1000 * 60 * 60));
+  const minutes = Math.floor((durationMs % (1000 * 60 * 60)) / (1000 * 60));
+  const seconds = Math.floor((durationMs % (1000 * 60)) / 1000);
+
+  if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
+
+export const formatDuration = (start: string, end: string | null): string =>
+  end ? formatDurationMs(new Date(end).getTime() - new Date(start).getTime()) : 'Ongoing';
+
+const formatDateTime = (value: string | null | undefined) => (value ? new Date(value).toLocaleString() : '—');
+
+const loadTile = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    // Without CORS the canvas is tainted and cannot be exported
+    image.crossOrigin = 'anonymous';
+    const timer = window.setTimeout(() => reject(new Error(`Tile timed out: ${url}`)), TILE_TIMEOUT_MS);
+    image.onload = () => {
+      window.clearTimeout(timer);
+      resolve(image);
+    };
+    image.onerror = () => {
+      window.clearTimeout(timer);
+      reject(new Error(`Tile failed to load: ${url}`));
+    };
+    image.src = url;
+  });
+
+const tileUrl = (template: string, z: number, x: number, y: number) =>
+  template
+    .replace('{s}', 'abc'[(x + y) % 3])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{r}', '');
+
+// Stitches the configured tile layer around the point into a PNG data URL.
+// Returns null when the tiles cannot be fetched (offline, or no CORS headers).
+export const renderStaticMap = async (
+  latitude: number,
+  longitude: number,
+  template: string,
+  zoom = MAP_ZOOM
+): Promise<string | null> => {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+
+  const tileCount = 2 ** zoom;
+  const worldSize = tileCount * TILE_SIZE;
+  const sinLat = Math.sin((latitude * Math.PI) / 180);
+  const centerX = ((longitude + 180) / 360) * worldSize;
+  const centerY = (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * worldSize;
+  const left = centerX - MAP_WIDTH_PX / 2;
+  const top = centerY - MAP_HEIGHT_PX / 2;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = MAP_WIDTH_PX;
+  canvas.height = MAP_HEIGHT_PX;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.fillStyle = '#e2e8f0';
+  context.fillRect(0, 0, MAP_WIDTH_PX, MAP_HEIGHT_PX);
+
+  const draws: Promise<void>[] = [];
+  for (let tileX = Math.floor(left / TILE_SIZE); tileX <= Math.floor((left + MAP_WIDTH_PX) / TILE_SIZE); tileX++) {
+    for (let tileY = Math.floor(top / TILE_SIZE); tileY <= Math.floor((top + MAP_HEIGHT_PX) / TILE_SIZE); tileY++) {
+      if (tileY < 0 || tileY >= tileCount) continue;
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+      draws.push(
+        loadTile(tileUrl(template, zoom, wrappedX, tileY)).then(image => {
+          context.drawImage(image, tileX * TILE_SIZE - left, tileY * TILE_SIZE - top);
+        })
+      );
+    }
+  }
+
+  try {
+    await Promise.all(draws);
+    context.beginPath();
+    context.arc(MAP_WIDTH_PX / 2, MAP_HEIGHT_PX / 2, 10, 0, Math.PI * 2);
+    context.fillStyle = 'rgba(220, 38, 38, 0.85)';
+    context.fill();
+    context.lineWidth = 3;
+    context.strokeStyle = '#ffffff';
+    context.stroke();
+    return canvas.toDataURL('image/png');
+  } catch (error) {
+    console.error('Error rendering static map:', error);
+    return null;
+  }
+};
+
+// Keeps track of the write position and starts a new page when a block won't fit
+export class ReportWriter {
+  readonly doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  y = MARGIN;
+
+  title(text: string, subtitle: string) {
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(18);
+    this.doc.setTextColor(...TEXT);
+    this.doc.text(text, MARGIN, this.y + 4);
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(9);
+    this.doc.setTextColor(...MUTED);
+    this.doc.text(subtitle, MARGIN, this.y + 10);
+    this.doc.text(`Generated ${new Date().toLocaleString()}`, PAGE_WIDTH - MARGIN, this.y + 10, { align: 'right' });
+    this.y += 14;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(14);
+    this.y += 4;
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(12);
+    this.doc.setTextColor(...TEXT);
+    this.doc.text(text, MARGIN, this.y);
+    this.y += 2;
+    this.doc.setDrawColor(...RULE);
+    this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+    this.y += 5;
+  }
+
+  paragraph(text: string, color: Rgb = MUTED) {
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(9);
+    this.doc.setTextColor(...color);
+    const lines: string[] = this.doc.splitTextToSize(text, CONTENT_WIDTH);
+    this.ensureSpace(lines.length * 4.5);
+    this.doc.text(lines, MARGIN, this.y);
+    this.y += lines.length * 4.5;
+  }
+
+  // Label/value pairs in two columns
+  fields(pairs: Array<[string, string]>) {
+    const columnWidth = CONTENT_WIDTH / 2;
+    for (let index = 0; index < pairs.length; index += 2) {
+      this.ensureSpace(6);
+      pairs.slice(index, index + 2).forEach(([label, value], column) => {
+        const x = MARGIN + column * columnWidth;
+        this.doc.setFont('helvetica', 'normal');
+        this.doc.setFontSize(9);
+        this.doc.setTextColor(...MUTED);
+        this.doc.text(label, x, this.y);
+        this.doc.setFont('helvetica', 'bold');
+        this.doc.setTextColor(...TEXT);
+        this.doc.text(this.doc.splitTextToSize(value, columnWidth - 38)[0] ?? '', x + 36, this.y);
+      });
+      this.y += 6;
+    }
+  }
+
+  // Column widths are fractions of the content width
+  table(headers: string[], rows: string[][], widths: number[]) {
+    const columnX = widths.reduce<number[]>(
+      (xs, width, index) => [...xs, xs[index] + width * CONTENT_WIDTH],
+      [MARGIN]
+    );
+    const drawRow = (cells: string[], bold: boolean) => {
+      this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+      this.doc.setFontSize(8.5);
+      this.doc.setTextColor(...(bold ? TEXT : MUTED));
+      const wrapped = cells.map((cell, index) =>
+        this.doc.splitTextToSize(cell, widths[index] * CONTENT_WIDTH - 2) as string[]
+      );
+      const height = Math.max(...wrapped.map(lines => lines.length)) * 4 + 2;
+      this.ensureSpace(height);
+      wrapped.forEach((lines, index) => this.doc.text(lines, columnX[index] + 1, this.y + 3));
+      this.y += height;
+      this.doc.setDrawColor(...RULE);
+      this.doc.line(MARGIN, this.y - 1, PAGE_WIDTH - MARGIN, this.y - 1);
+    };
+
+    drawRow(headers, true);
+    rows.forEach(row => drawRow(row, false));
+    this.y += 2;
+  }
+
+  lineChart(title: string, unitLabel: string, points: Array<{ time: number; value: number }>, color: Rgb) {
+    const height = 48;
+    this.ensureSpace(height + 10);
+    const top = this.y;
+    const plotLeft = MARGIN + 14;
+    const plotWidth = CONTENT_WIDTH - 14;
+    const plotTop = top + 5;
+    const plotHeight = height - 12;
+
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(9);
+    this.doc.setTextColor(...TEXT);
+    this.doc.text(`${title} (${unitLabel})`, MARGIN, top);
+    this.doc.setDrawColor(...RULE);
+    this.doc.rect(plotLeft, plotTop, plotWidth, plotHeight);
+
+    if (points.length === 0) {
+      this.paragraph('No readings recorded.');
+      this.y = top + height;
+      return;
+    }
+
+    const values = points.map(point => point.value);
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    if (min === max) {
+      min -= 1;
+      max += 1;
+    }
+    const firstTime = points[0].time;
+    const span = Math.max(1, points[points.length - 1].time - firstTime);
+    const toX = (time: number) => (points.length === 1 ? plotLeft + plotWidth / 2 : plotLeft + ((time - firstTime) / span) * plotWidth);
+    const toY = (value: number) => plotTop + plotHeight - ((value - min) / (max - min)) * plotHeight;
+
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(7);
+    this.doc.setTextColor(...MUTED);
+    this.doc.text(max.toFixed(1), plotLeft - 1, plotTop + 2, { align: 'right' });
+    this.doc.text(min.toFixed(1), plotLeft - 1, plotTop + plotHeight, { align: 'right' });
+    this.doc.text(new Date(firstTime).toLocaleTimeString(), plotLeft, plotTop + plotHeight + 4);
+    this.doc.text(new Date(points[points.length - 1].time).toLocaleTimeString(), plotLeft + plotWidth, plotTop + plotHeight + 4, {
+      align: 'right',
+    });
+
+    this.doc.setDrawColor(...color);
+    this.doc.setFillColor(...color);
+    this.doc.setLineWidth(0.5);
+    points.forEach((point, index) => {
+      if (index > 0) {
+        const previous = points[index - 1];
+        this.doc.line(toX(previous.time), toY(previous.value), toX(point.time), toY(point.value));
+      }
+      this.doc.circle(toX(point.time), toY(point.value), 0.6, 'F');
+    });
+    this.doc.setLineWidth(0.2);
+    this.y = top + height;
+  }
+
+  // Page numbers and a label on every page; call once the content is complete
+  footers(label: string) {
+    const pageCount = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      this.doc.setPage(page);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(8);
+      this.doc.setTextColor(...MUTED);
+      this.doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: 'right' });
+      this.doc.text(label, MARGIN, PAGE_HEIGHT - 8);
+    }
+  }
+}
+
+const latestWeatherReading = (readings: SensorReading[]) => readings.find(reading => reading.weatherData);
+
+export const buildSessionReport = async (session: FireAlertSession, options: SessionReportOptions): Promise<jsPDF> => {
+  const { units } = options;
+  const writer = new ReportWriter();
+  const { doc } = writer;
+  const origin = session.readings[session.readings.length - 1] ?? session.readings[0];
+
+  writer.title('VanRakshak Fire Incident Report', `Session ${session.id}`);
+
+  writer.heading('Device');
+  writer.fields([
+    ['Device ID', session.deviceId],
+    ['Name', origin?.name || '—'],
+    ['Latitude', origin ? origin.latitude.toFixed(6) : '—'],
+    ['Longitude', origin ? origin.longitude.toFixed(6) : '—'],
+  ]);
+
+  writer.heading('Session');
+  writer.fields([
+    ['Start', formatDateTime(session.startTime)],
+    ['End', formatDateTime(session.endTime)],
+    ['Duration', formatDuration(session.startTime, session.endTime)],
+    ['Status', session.status === 'completed' ? 'Completed' : 'Active'],
+    ['Readings', String(session.readingCount ?? session.readings.length)],
+    ['ML confirmed', session.mlConfirmed ? 'Yes' : 'No'],
+  ]);
+
+  writer.heading('Statistics');
+  writer.table(
+    ['Metric', 'Minimum', 'Maximum', 'Average'],
+    [
+      [
+        'Temperature',
+        formatTemperature(session.minTemp, units),
+        formatTemperature(session.maxTemp, units),
+        formatTemperature(session.avgTemp, units),
+      ],
+      ['Smoke', `${session.minSmoke} ppm`, `${session.maxSmoke} ppm`, `${session.avgSmoke.toFixed(1)} ppm`],
+      ['Humidity', `${session.minHumidity}%`, `${session.maxHumidity}%`, `${session.avgHumidity.toFixed(1)}%`],
+    ],
+    [0.31, 0.23, 0.23, 0.23]
+  );
+
+  // Readings are stored newest first
+  const chronological = [...session.readings].reverse().map(reading => ({
+    time: new Date(reading.timestamp).getTime(),
+    reading,
+  }));
+  writer.heading('Readings');
+  writer.lineChart(
+    'Temperature',
+    temperatureSymbol(units),
+    chronological.map(({ time, reading }) => ({ time, value: toDisplayTemperature(reading.temp, units) })),
+    TEMP_COLOR
+  );
+  writer.lineChart(
+    'Smoke',
+    'ppm',
+    chronological.map(({ time, reading }) => ({ time, value: reading.smoke })),
+    SMOKE_COLOR
+  );
+
+  writer.heading('ML Prediction History');
+  if (session.mlPredictions.length === 0) {
+    writer.paragraph('No model predictions were recorded for this session.');
+  } else {
+    writer.table(
+      ['Time', 'Level', 'Fire', 'Confidence', 'Message'],
+      session.mlPredictions.map(prediction => [
+        formatDateTime(prediction.timestamp),
+        prediction.level,
+        prediction.prediction === 1 ? 'Yes' : 'No',
+        prediction.confidence !== undefined ? `${(prediction.confidence * 100).toFixed(1)}%` : '—',
+        prediction.message,
+      ]),
+      [0.22, 0.14, 0.08, 0.13, 0.43]
+    );
+  }
+
+  writer.heading('Weather Snapshot');
+  const weatherReading = latestWeatherReading(session.readings);
+  const weather = weatherReading?.weatherData;
+  if (!weather) {
+    writer.paragraph('No weather data was captured during this session.');
+  } else {
+    writer.paragraph(`As of ${formatDateTime(weatherReading.timestamp)}: ${weather.description}`);
+    writer.y += 1;
+    writer.fields([
+      ['Temperature', formatTemperature(weather.current_temp, units)],
+      ['Feels like', formatTemperature(weather.feels_like, units)],
+      ['Min / max', `${formatTemperature(weather.temp_min, units)} / ${formatTemperature(weather.temp_max, units)}`],
+      ['Humidity', `${weather.humidity}%`],
+      ['Wind', `${weather.wind_speed} m/s`],
+      ['Gusts', `${weather.wind_gust} m/s`],
+      ['Pressure', `${weather.pressure} hPa`],
+    ]);
+  }
+
+  writer.heading('Location');
+  const mapImage = origin ? await renderStaticMap(origin.latitude, origin.longitude, options.map.tileUrl) : null;
+  if (mapImage) {
+    const height = (CONTENT_WIDTH * MAP_HEIGHT_PX) / MAP_WIDTH_PX;
+    writer.ensureSpace(height + 6);
+    doc.addImage(mapImage, 'PNG', MARGIN, writer.y, CONTENT_WIDTH, height);
+    writer.y += height + 2;
+    // Tile attribution is HTML in settings; the PDF only needs the text
+    writer.paragraph(`Map data: ${options.map.tileAttribution.replace(/<[^>]+>/g, '').replace(/&copy;/g, '©')}`);
+  } else {
+    writer.paragraph('Map tiles could not be loaded when this report was generated.');
+  }
+  if (origin) {
+    writer.paragraph(`Sensor position ${origin.latitude.toFixed(6)}, ${origin.longitude.toFixed(6)}`, TEXT);
+  }
+
+  writer.heading('Sign-off');
+  writer.ensureSpace(40);
+  const signatureTop = writer.y + 16;
+  const columnWidth = (CONTENT_WIDTH - 10) / 2;
+  [
+    ['Prepared by', options.preparedBy ?? ''],
+    ['Reviewed by (Forest Officer)', ''],
+  ].forEach(([label, name], column) => {
+    const x = MARGIN + column * (columnWidth + 10);
+    doc.setDrawColor(...TEXT);
+    doc.line(x, signatureTop, x + columnWidth, signatureTop);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED);
+    doc.text(label, x, signatureTop + 5);
+    if (name) {
+      doc.setTextColor(...TEXT);
+      doc.text(name, x, signatureTop - 2);
+    }
+    doc.setTextColor(...MUTED);
+    doc.text('Date: ____________________', x, signatureTop + 12);
+  });
+  writer.y = signatureTop + 16;
+
+  writer.footers(`Device ${session.deviceId}`);
+  return doc;
+};
+
+export const downloadSessionReport = async (session: FireAlertSession, options: SessionReportOptions) => {
+  const doc = await buildSessionReport(session, options);
+  doc.save(`incident_report_${session.deviceId}_${session.startTime.slice(0, 10)}.pdf`);
+};
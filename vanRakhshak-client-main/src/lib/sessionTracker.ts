@@ -0,0 +1,180 @@
+// src/lib/sessionTracker.ts
+import type { FireAlertSession, MLPrediction, SensorReading } from '@/types/session';
+
+// Completed sessions move to the IndexedDB archive (see sessionArchive.ts)
+const ACTIVE_SESSIONS_STORAGE_KEY = 'activeFireAlertSessions';
+
+const MAX_SESSION_READINGS = 50;
+const MAX_SESSION_PREDICTIONS = 20;
+
+export interface FireAlertSessions {
+  // At most one per device
+  active: FireAlertSession[];
+}
+
+const readStoredActive = (): FireAlertSession[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ACTIVE_SESSIONS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    console.error('Error reading active sessions:', error);
+    return [];
+  }
+};
+
+let current: FireAlertSessions | null = null;
+const listeners = new Set<() => void>();
+
+export const getFireAlertSessions = (): FireAlertSessions => {
+  if (!current) {
+    current = { active: readStoredActive() };
+  }
+  return current;
+};
+
+export const subscribeFireAlertSessions = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const commit = (next: FireAlertSessions) => {
+  localStorage.setItem(ACTIVE_SESSIONS_STORAGE_KEY, JSON.stringify(next.active));
+  current = next;
+  listeners.forEach(listener => listener());
+};
+
+// Only what the session needs from a reading, so derived UI fields don't leak into storage
+const toSessionReading = (reading: SensorReading): SensorReading => ({
+  id: reading.id,
+  deviceId: reading.deviceId,
+  latitude: reading.latitude,
+  longitude: reading.longitude,
+  humidity: reading.humidity,
+  temp: reading.temp,
+  smoke: reading.smoke,
+  isFire: reading.isFire,
+  timestamp: reading.timestamp,
+  name: reading.name,
+  status: reading.status,
+  weatherData: reading.weatherData,
+});
+
+// The stored readings are capped, so averages are kept running over every reading the
+// session has seen: the previous average times its count stands in for the running sum
+const runningAverage = (average: number, count: number, value: number) => (average * count + value) / (count + 1);
+
+const startSession = (reading: SensorReading, predictions: MLPrediction[] = []): FireAlertSession => ({
+  id: `session-${Date.now()}-${reading.deviceId}`,
+  deviceId: reading.deviceId,
+  startTime: reading.timestamp,
+  endTime: null,
+  readings: [reading],
+  mlPredictions: predictions,
+  maxTemp: reading.temp,
+  minTemp: reading.temp,
+  avgTemp: reading.temp,
+  maxSmoke: reading.smoke,
+  minSmoke: reading.smoke,
+  avgSmoke: reading.smoke,
+  maxHumidity: reading.humidity,
+  minHumidity: reading.humidity,
+  avgHumidity: reading.humidity,
+  readingCount: 1,
+  status: 'active',
+  mlConfirmed: predictions.some(prediction => prediction.prediction === 1),
+});
+
+const addReading = (session: FireAlertSession, reading: SensorReading): FireAlertSession => {
+  const readings = [reading, ...session.readings].slice(0, MAX_SESSION_READINGS);
+  const count = session.readingCount ?? session.readings.length;
+  return {
+    ...session,
+    readings,
+    readingCount: count + 1,
+    maxTemp: Math.max(session.maxTemp, reading.temp),
+    minTemp: Math.min(session.minTemp, reading.temp),
+    avgTemp: runningAverage(session.avgTemp, count, reading.temp),
+    maxSmoke: Math.max(session.maxSmoke, reading.smoke),
+    minSmoke: Math.min(session.minSmoke, reading.smoke),
+    avgSmoke: runningAverage(session.avgSmoke, count, reading.smoke),
+    maxHumidity: Math.max(session.maxHumidity, reading.humidity),
+    minHumidity: Math.min(session.minHumidity, reading.humidity),
+    avgHumidity: runningAverage(session.avgHumidity, count, reading.humidity),
+  };
+};
+
+const isNewer = (session: FireAlertSession, reading: SensorReading) =>
+  new Date(reading.timestamp).getTime() > new Date(session.readings[0]?.timestamp ?? session.startTime).getTime();
+
+// Feeds the latest reading of every device through the session rules: a fire
+// reading starts or extends that device's session, the first newer clear
+// reading completes it. Returns the sessions started and completed by this
+// call; completed ones are no longer held here and must be archived.
+export const trackSensorReadings = (
+  readings: SensorReading[]
+): { started: FireAlertSession[]; completed: FireAlertSession[] } => {
+  const state = getFireAlertSessions();
+  const activeByDevice = new Map(state.active.map(session => [session.deviceId, session]));
+  const started: FireAlertSession[] = [];
+  const completed: FireAlertSession[] = [];
+  let changed = false;
+
+  readings.forEach(raw => {
+    const reading = toSessionReading(raw);
+    // A reading without a report time cannot be placed in a session
+    if (Number.isNaN(new Date(reading.timestamp).getTime())) return;
+    const session = activeByDevice.get(reading.deviceId);
+
+    if (!session) {
+      if (!reading.isFire) return;
+      const created = startSession(reading);
+      activeByDevice.set(reading.deviceId, created);
+      started.push(created);
+      changed = true;
+      return;
+    }
+
+    if (!isNewer(session, reading)) return;
+    changed = true;
+
+    if (reading.isFire) {
+      activeByDevice.set(reading.deviceId, addReading(session, reading));
+    } else {
+      activeByDevice.delete(reading.deviceId);
+      completed.push({ ...session, endTime: reading.timestamp, status: 'completed' });
+    }
+  });
+
+  if (changed) {
+    commit({ active: Array.from(activeByDevice.values()) });
+  }
+  return { started, completed };
+};
+
+// Attaches a finished model prediction to the device's session. A positive
+// prediction starts a session even when the device itself reports no fire;
+// that session completes at the device's next clear reading.
+export const recordMlPrediction = (reading: SensorReading, prediction: MLPrediction): FireAlertSession | null => {
+  if (prediction.status !== 'completed') return null;
+
+  const state = getFireAlertSessions();
+  const session = state.active.find(item => item.deviceId === reading.deviceId);
+  const confirmsFire = prediction.prediction === 1;
+
+  if (!session) {
+    if (!confirmsFire) return null;
+    const created = startSession(toSessionReading(reading), [prediction]);
+    commit({ active: [...state.active, created] });
+    return created;
+  }
+
+  const updated: FireAlertSession = {
+    ...session,
+    mlPredictions: [prediction, ...session.mlPredictions].slice(0, MAX_SESSION_PREDICTIONS),
+    mlConfirmed: session.mlConfirmed || confirmsFire,
+  };
+  commit({ active: state.active.map(item => (item.id === session.id ? updated : item)) });
+  return null;
+};
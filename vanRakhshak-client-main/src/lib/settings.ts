@@ -0,0 +1,203 @@
+// src/lib/settings.ts
+import { z } from 'zod';
+import { DEFAULT_PROFILE_ID, DEFAULT_THRESHOLD_PROFILES, thresholdProfileSchema } from './thresholds';
+
+const SETTINGS_STORAGE_KEY = 'vanrakshakSettings';
+// Threshold profiles were stored on their own before the settings store existed
+const LEGACY_THRESHOLDS_STORAGE_KEY = 'thresholdProfiles';
+
+export const SETTINGS_VERSION = 1;
+
+const intervalMs = z.coerce.number().int().min(1000, 'Intervals must be at least 1 second');
+// Empty means "use the build-time environment / public deployment default"
+const optionalUrl = z.union([z.literal(''), z.string().trim().url('Enter a full URL, e.g. https://...')]);
+
+export const settingsSchema = z.object({
+  version: z.literal(SETTINGS_VERSION),
+  polling: z.object({
+    sensorIntervalMs: intervalMs,
+    weatherIntervalMs: intervalMs,
+    // Sensors silent for longer than this are shown as offline
+    heartbeatTimeoutMs: intervalMs,
+  }),
+  endpoints: z.object({
+    apiBaseUrl: optionalUrl,
+    alertStreamUrl: z.union([z.literal(''), z.string().trim().regex(/^(https?|wss?):\/\//, 'Use an http(s) or ws(s) URL')]),
+    mlApiUrl: optionalUrl,
+    weatherApiUrl: optionalUrl,
+    weatherApiKey: z.string().trim(),
+  }),
+  thresholds: z
+    .array(thresholdProfileSchema)
+    .refine(profiles => profiles.some(profile => profile.id === DEFAULT_PROFILE_ID), 'The default threshold profile cannot be removed'),
+  map: z.object({
+    center: z.object({
+      latitude: z.coerce.number().min(-90).max(90),
+      longitude: z.coerce.number().min(-180).max(180),
+    }),
+    zoom: z.coerce.number().min(1).max(19),
+    tileUrl: z.string().trim().min(1, 'Tile URL is required'),
+    tileAttribution: z.string(),
+    // Terrain-RGB elevation tiles; empty turns terrain off
+    demTileUrl: z.string().trim(),
+    demZoom: z.coerce.number().int().min(1).max(15),
+    // GeoJSON of settlements, roads and other assets checked against the spread zones; empty turns it off
+    assetsUrl: z.string().trim(),
+    // GeoJSON road and trail lines crews are routed over, offline; empty turns routing off
+    roadNetworkUrl: z.string().trim(),
+  }),
+  units: z.object({
+    temperature: z.enum(['celsius', 'fahrenheit']),
+  }),
+  notifications: z.object({
+    // In-app popup on the dashboard when a new fire is detected
+    popup: z.boolean(),
+    sound: z.boolean(),
+    // Desktop notification through the browser Notification API
+    browser: z.boolean(),
+  }),
+  meshHub: z.object({
+    name: z.string().trim().min(1, 'Hub name is required'),
+    latitude: z.coerce.number().min(-90).max(90),
+    longitude: z.coerce.number().min(-180).max(180),
+    // Radius drawn around the hub, metres
+    rangeM: z.coerce.number().positive(),
+    // Sensors further than this from the hub are not linked to it, metres
+    maxRangeM: z.coerce.number().positive(),
+  }),
+});
+
+export type Settings = z.infer<typeof settingsSchema>;
+export type TemperatureUnit = Settings['units']['temperature'];
+
+const envHeartbeatMs = Number(import.meta.env.VITE_SENSOR_HEARTBEAT_TIMEOUT_MS);
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  polling: {
+    sensorIntervalMs: 10000,
+    weatherIntervalMs: 15000,
+    heartbeatTimeoutMs: Number.isFinite(envHeartbeatMs) && envHeartbeatMs > 0 ? envHeartbeatMs : 10 * 60 * 1000,
+  },
+  endpoints: {
+    apiBaseUrl: '',
+    alertStreamUrl: '',
+    mlApiUrl: '',
+    weatherApiUrl: '',
+    weatherApiKey: '',
+  },
+  thresholds: DEFAULT_THRESHOLD_PROFILES,
+  map: {
+    center: { latitude: 30.387496, longitude: 78.462447 },
+    zoom: 13,
+    tileUrl: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    tileAttribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    // None ship with the app; see "Terrain tiles" in the README to build a set
+    demTileUrl: '',
+    demZoom: 12,
+    assetsUrl: '/data/assets-at-risk.geojson',
+    roadNetworkUrl: '/data/road-network.geojson',
+  },
+  units: {
+    temperature: 'celsius',
+  },
+  notifications: {
+    popup: true,
+    sound: false,
+    browser: false,
+  },
+  meshHub: {
+    name: 'Central Hub Station',
+    latitude: 30.387496,
+    longitude: 78.462447,
+    rangeM: 1000,
+    maxRangeM: 3000,
+  },
+};
+
+type SettingsSection = Exclude<keyof Settings, 'version'>;
+
+// Fill sections and fields missing from a stored or imported file from `base`,
+// so a deployment file only needs the values it changes
+const mergeSections = (base: Settings, value: Record<string, unknown>): Record<string, unknown> => {
+  const merged: Record<string, unknown> = { ...base, version: SETTINGS_VERSION };
+  (Object.keys(base) as (keyof Settings)[]).forEach(key => {
+    if (key === 'version' || value[key] === undefined) return;
+    const fallback = base[key];
+    merged[key] =
+      fallback && typeof fallback === 'object' && !Array.isArray(fallback) && typeof value[key] === 'object'
+        ? { ...fallback, ...(value[key] as object) }
+        : value[key];
+  });
+  return merged;
+};
+
+const readStoredSettings = (): Settings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const result = settingsSchema.safeParse(mergeSections(DEFAULT_SETTINGS, JSON.parse(stored)));
+      if (result.success) return result.data;
+      console.warn('Ignoring invalid stored settings:', result.error.issues);
+      return DEFAULT_SETTINGS;
+    }
+
+    const legacyThresholds = localStorage.getItem(LEGACY_THRESHOLDS_STORAGE_KEY);
+    if (legacyThresholds) {
+      const result = settingsSchema.safeParse({ ...DEFAULT_SETTINGS, thresholds: JSON.parse(legacyThresholds) });
+      localStorage.removeItem(LEGACY_THRESHOLDS_STORAGE_KEY);
+      if (result.success) {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(result.data));
+        return result.data;
+      }
+    }
+  } catch (error) {
+    console.error('Error reading settings:', error);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+let currentSettings: Settings | null = null;
+const listeners = new Set<() => void>();
+
+export const getSettings = (): Settings => {
+  if (!currentSettings) currentSettings = readStoredSettings();
+  return currentSettings;
+};
+
+export const subscribeSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Validates and persists the whole document; throws a ZodError on invalid values
+export const saveSettings = (settings: Settings): Settings => {
+  const validated = settingsSchema.parse(settings);
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(validated));
+  currentSettings = validated;
+  listeners.forEach(listener => listener());
+  return validated;
+};
+
+export const updateSettings = <K extends SettingsSection>(section: K, value: Settings[K]): Settings =>
+  saveSettings({ ...getSettings(), [section]: value });
+
+export const resetSettings = (): Settings => saveSettings(DEFAULT_SETTINGS);
+
+export const exportSettingsJson = (settings: Settings = getSettings()): string => JSON.stringify(settings, null, 2);
+
+// Accepts a full export or a partial file with only the sections to change;
+// anything left out keeps its current value
+export const importSettingsJson = (json: string): Settings => {
+  const parsed: unknown = JSON.parse(json);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Settings file must contain a JSON object');
+  }
+  const { version } = parsed as { version?: unknown };
+  if (version !== undefined && version !== SETTINGS_VERSION) {
+    throw new Error(`Unsupported settings version ${String(version)}`);
+  }
+  return saveSettings(settingsSchema.parse(mergeSections(getSettings(), parsed as Record<string, unknown>)));
+};
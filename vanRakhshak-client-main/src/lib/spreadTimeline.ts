@@ -0,0 +1,188 @@
+import * as turf from '@turf/turf';
+import { downloadBlob, toGeoJsonSequence, type ExportFeature } from './dataExport';
+import { predictFireSpread, type SpreadInput } from './fireSpread';
+
+// Playback covers the next few hours in fixed steps
+export const PLAYBACK_DURATION_MIN = 360;
+export const PLAYBACK_STEP_MIN = 10;
+
+// Half-width of the wind sector drawn with each frame
+const WIND_SECTOR_HALF_ANGLE = 45;
+const MIN_WIND_SECTOR_KM = 0.3;
+// Outward directions the perimeter is traced along
+const PERIMETER_DIRECTIONS = 72;
+
+export interface WeatherSample {
+  // ms since epoch
+  time: number;
+  windSpeedMs: number;
+  windFromDeg: number;
+  temperatureC: number;
+  humidity: number;
+}
+
+export interface SpreadFrame {
+  index: number;
+  // Since the start of playback
+  minutes: number;
+  // ISO
+  time: string;
+  // Conditions driving the step that ends at this frame
+  weather: WeatherSample;
+  headingDeg: number;
+  headRate: number;
+  // Closed [lng, lat] rings
+  ring: [number, number][];
+  windSector: [number, number][];
+  areaHa: number;
+}
+
+type SpreadSite = Omit<SpreadInput, 'windSpeedMs' | 'windFromDeg' | 'temperatureC' | 'humidity' | 'horizonsMin'>;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toBearing = (radians: number) => (((radians * 180) / Math.PI) % 360 + 360) % 360;
+
+// Linear in time between samples and held past either end; wind direction goes the short way round
+export const interpolateWeather = (samples: WeatherSample[], time: number): WeatherSample => {
+  const sorted = [...samples].sort((a, b) => a.time - b.time);
+  const nextIndex = sorted.findIndex(sample => sample.time >= time);
+  if (nextIndex === 0) return { ...sorted[0], time };
+  if (nextIndex === -1) return { ...sorted[sorted.length - 1], time };
+
+  const before = sorted[nextIndex - 1];
+  const after = sorted[nextIndex];
+  const t = (time - before.time) / (after.time - before.time);
+  const mix = (a: number, b: number) => a + (b - a) * t;
+  const turn = ((after.windFromDeg - before.windFromDeg + 540) % 360) - 180;
+
+  return {
+    time,
+    windSpeedMs: mix(before.windSpeedMs, after.windSpeedMs),
+    windFromDeg: (before.windFromDeg + turn * t + 360) % 360,
+    temperatureC: mix(before.temperatureC, after.temperatureC),
+    humidity: mix(before.humidity, after.humidity),
+  };
+};
+
+// Huygens-style growth: each step adds a spread ellipse for that step's weather. Conditions are
+// uniform in space, so the perimeter is the Minkowski sum of the step ellipses and can be traced
+// by adding their support points direction by direction. With steady weather it matches the
+// single ellipse of predictFireSpread.
+export const projectSpreadTimeline = (
+  site: SpreadSite,
+  weather: WeatherSample[],
+  start: number,
+  { durationMin = PLAYBACK_DURATION_MIN, stepMin = PLAYBACK_STEP_MIN } = {}
+): SpreadFrame[] => {
+  if (weather.length === 0) return [];
+
+  const origin = turf.point([site.longitude, site.latitude]);
+  const toPosition = ({ east, north }: { east: number; north: number }) => {
+    const distanceKm = Math.hypot(east, north) / 1000;
+    const point =
+      distanceKm > 0
+        ? turf.destination(origin, distanceKm, toBearing(Math.atan2(east, north)), { units: 'kilometers' })
+        : origin;
+    return point.geometry.coordinates as [number, number];
+  };
+  const directions = Array.from(
+    { length: PERIMETER_DIRECTIONS },
+    (_, index) => (index / PERIMETER_DIRECTIONS) * Math.PI * 2
+  );
+  // Metres east and north of the ignition point, one per direction
+  const front = directions.map(() => ({ east: 0, north: 0 }));
+  const frames: SpreadFrame[] = [];
+
+  for (let minutes = stepMin; minutes <= durationMin; minutes += stepMin) {
+    const sample = interpolateWeather(weather, start + (minutes - stepMin / 2) * 60_000);
+    const step = predictFireSpread({
+      ...site,
+      windSpeedMs: sample.windSpeedMs,
+      windFromDeg: sample.windFromDeg,
+      temperatureC: sample.temperatureC,
+      humidity: sample.humidity,
+      horizonsMin: [],
+    });
+
+    if (step.spreads) {
+      const semiMajor = ((step.headRate + step.backRate) / 2) * stepMin;
+      const semiMinor = semiMajor / step.lengthToBreadth;
+      const centreOffset = semiMajor - step.backRate * stepMin;
+      const heading = toRadians(step.headingDeg);
+      // Unit vectors along and across the heading, as east/north
+      const along = { east: Math.sin(heading), north: Math.cos(heading) };
+      const across = { east: Math.cos(heading), north: -Math.sin(heading) };
+
+      directions.forEach((direction, index) => {
+        const normalAlong = Math.sin(direction) * along.east + Math.cos(direction) * along.north;
+        const normalAcross = Math.sin(direction) * across.east + Math.cos(direction) * across.north;
+        const scale = Math.hypot(semiMajor * normalAlong, semiMinor * normalAcross);
+        if (scale === 0) return;
+        const x = centreOffset + (semiMajor ** 2 * normalAlong) / scale;
+        const y = (semiMinor ** 2 * normalAcross) / scale;
+        front[index].east += x * along.east + y * across.east;
+        front[index].north += x * along.north + y * across.north;
+      });
+    }
+
+    const ring = [...front, front[0]].map(toPosition);
+    const reachKm = Math.max(...front.map(point => Math.hypot(point.east, point.north))) / 1000;
+    const windTo = (sample.windFromDeg + 180) % 360;
+    const sector = turf.sector(
+      origin,
+      Math.max(MIN_WIND_SECTOR_KM, reachKm * 1.2),
+      windTo - WIND_SECTOR_HALF_ANGLE,
+      windTo + WIND_SECTOR_HALF_ANGLE,
+      { units: 'kilometers' }
+    );
+
+    frames.push({
+      index: frames.length,
+      minutes,
+      time: new Date(start + minutes * 60_000).toISOString(),
+      weather: sample,
+      headingDeg: step.headingDeg,
+      headRate: step.spreads ? step.headRate : 0,
+      ring,
+      windSector: sector.geometry.coordinates[0] as [number, number][],
+      areaHa: reachKm > 0 ? turf.area(turf.polygon([ring])) / 10_000 : 0,
+    });
+  }
+
+  return frames;
+};
+
+const frameFeatures = (frame: SpreadFrame): ExportFeature[] => {
+  const properties = {
+    frame: frame.index,
+    minutes: frame.minutes,
+    time: frame.time,
+    windSpeedMs: Number(frame.weather.windSpeedMs.toFixed(2)),
+    windFromDeg: Math.round(frame.weather.windFromDeg),
+    headingDeg: Math.round(frame.headingDeg),
+    headRateMPerMin: Number(frame.headRate.toFixed(2)),
+    areaHa: Number(frame.areaHa.toFixed(3)),
+  };
+  const wind: ExportFeature = {
+    name: `Wind +${frame.minutes} min`,
+    geometry: { type: 'Polygon', coordinates: [frame.windSector] },
+    properties: { ...properties, layer: 'wind' },
+  };
+  // A fire that has not moved has no perimeter to draw
+  if (frame.areaHa === 0) return [wind];
+  return [
+    {
+      name: `Perimeter +${frame.minutes} min`,
+      geometry: { type: 'Polygon', coordinates: [frame.ring] },
+      properties: { ...properties, layer: 'perimeter' },
+    },
+    wind,
+  ];
+};
+
+export const downloadSpreadFrames = (frames: SpreadFrame[], fileName: string) => {
+  downloadBlob(
+    new Blob([toGeoJsonSequence(frames.map(frameFeatures))], { type: 'application/geo+json-seq' }),
+    `${fileName}.geojsons`
+  );
+};
@@ -0,0 +1,141 @@
+// Slope and aspect from a local terrain-RGB tile set (the Mapbox encoding,
+// elevation = -10000 + (R·65536 + G·256 + B) · 0.1 m), served as XYZ PNG tiles.
+
+const TILE_SIZE = 256;
+const EARTH_CIRCUMFERENCE_M = 40_075_016.686;
+
+export interface TerrainSource {
+  // XYZ URL template with {z}, {x} and {y}
+  tileUrl: string;
+  zoom: number;
+}
+
+export interface TerrainSample {
+  elevationM: number;
+  slopePercent: number;
+  slopeDeg: number;
+  // Direction the slope faces (downhill), degrees clockwise from north; null on flat ground
+  aspectDeg: number | null;
+  // Bearing that points uphill, the direction fire runs fastest on the slope
+  upslopeDeg: number | null;
+}
+
+export const decodeTerrainRgb = (red: number, green: number, blue: number) =>
+  -10000 + (red * 65536 + green * 256 + blue) * 0.1;
+
+const toBearing = (radians: number) => (((radians * 180) / Math.PI) % 360 + 360) % 360;
+
+// Horn's method over a 3×3 window, rows north to south, each west to east
+export const slopeAspect = (cells: number[], cellSizeM: number): Omit<TerrainSample, 'elevationM'> => {
+  const [a, b, c, d, , f, g, h, i] = cells;
+  // Rise per metre toward the east and toward the north
+  const east = (c + 2 * f + i - (a + 2 * d + g)) / (8 * cellSizeM);
+  const north = (a + 2 * b + c - (g + 2 * h + i)) / (8 * cellSizeM);
+  const gradient = Math.hypot(east, north);
+  const upslopeDeg = gradient > 0 ? toBearing(Math.atan2(east, north)) : null;
+
+  return {
+    slopePercent: gradient * 100,
+    slopeDeg: (Math.atan(gradient) * 180) / Math.PI,
+    aspectDeg: upslopeDeg === null ? null : (upslopeDeg + 180) % 360,
+    upslopeDeg,
+  };
+};
+
+const ASPECT_NAMES = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const formatAspect = (aspectDeg: number | null) =>
+  aspectDeg === null ? 'Flat' : `${ASPECT_NAMES[Math.round(aspectDeg / 45) % 8]}-facing (${Math.round(aspectDeg)}°)`;
+
+export const formatTerrain = (sample: TerrainSample) =>
+  `${Math.round(sample.slopePercent)}% slope (${sample.slopeDeg.toFixed(0)}°), ${formatAspect(sample.aspectDeg)}, ${Math.round(sample.elevationM)} m`;
+
+// Shown where a terrain sample would be, so missing terrain is never silent
+export const describeMissingTerrain = (tileUrl: string, failed: boolean) =>
+  !tileUrl
+    ? 'Terrain unavailable: no elevation tiles configured'
+    : failed
+      ? 'Terrain unavailable: elevation tiles failed to load'
+      : 'No elevation data for this location';
+
+// Confidence points a sensor alert gains from terrain that favours fire: steep ground, where
+// fire runs fast, and the sun-dried south- to west-facing slopes of the Himalayan foothills
+export const terrainConfidenceBonus = (sample: TerrainSample | null | undefined) => {
+  if (!sample) return 0;
+  const steep = sample.slopePercent >= 30 ? 3 : 0;
+  const sunFacing = sample.aspectDeg !== null && sample.aspectDeg >= 135 && sample.aspectDeg <= 270 ? 2 : 0;
+  return steep + sunFacing;
+};
+
+// Decoded tiles by URL; null when the tile set has no tile there. Failed fetches are
+// dropped, so the next lookup tries again.
+const tileCache = new Map<string, Promise<Float32Array | null>>();
+
+const tileUrl = (source: TerrainSource, x: number, y: number) =>
+  source.tileUrl.replace('{z}', String(source.zoom)).replace('{x}', String(x)).replace('{y}', String(y));
+
+const decodeTile = async (blob: Blob): Promise<Float32Array> => {
+  // Colour management would shift the channel values, and with them the elevations
+  const bitmap = await createImageBitmap(blob, { colorSpaceConversion: 'none', premultiplyAlpha: 'none' });
+  const canvas =
+    typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(TILE_SIZE, TILE_SIZE)
+      : Object.assign(document.createElement('canvas'), { width: TILE_SIZE, height: TILE_SIZE });
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) throw new Error('Canvas 2D is not available to decode elevation tiles');
+  context.drawImage(bitmap, 0, 0, TILE_SIZE, TILE_SIZE);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, TILE_SIZE, TILE_SIZE);
+  const elevations = new Float32Array(TILE_SIZE * TILE_SIZE);
+  for (let pixel = 0; pixel < elevations.length; pixel++) {
+    elevations[pixel] = decodeTerrainRgb(data[pixel * 4], data[pixel * 4 + 1], data[pixel * 4 + 2]);
+  }
+  return elevations;
+};
+
+const loadTile = (source: TerrainSource, x: number, y: number) => {
+  const url = tileUrl(source, x, y);
+  let tile = tileCache.get(url);
+  if (!tile) {
+    tile = fetch(url).then(response => {
+      // Dev servers answer missing files with the HTML app shell rather than a 404
+      if (response.status === 404 || (response.ok && !response.headers.get('content-type')?.startsWith('image/'))) {
+        return null;
+      }
+      if (!response.ok) throw new Error(`Elevation tile ${url} failed: ${response.status} ${response.statusText}`);
+      return response.blob().then(decodeTile);
+    });
+    tileCache.set(url, tile);
+    tile.catch(() => tileCache.delete(url));
+  }
+  return tile;
+};
+
+// Elevation and terrain shape at a point, or null when the tile set does not cover it.
+// Rejects when a tile could not be loaded.
+export const terrainAt = async (latitude: number, longitude: number, source: TerrainSource): Promise<TerrainSample | null> => {
+  if (!source.tileUrl || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+
+  // Global pixel position at the tile set's zoom (Web Mercator)
+  const worldSize = TILE_SIZE * 2 ** source.zoom;
+  const latitudeRad = (latitude * Math.PI) / 180;
+  const pixelX = Math.floor(((longitude + 180) / 360) * worldSize);
+  const pixelY = Math.floor(((1 - Math.log(Math.tan(latitudeRad) + 1 / Math.cos(latitudeRad)) / Math.PI) / 2) * worldSize);
+
+  const offsets = [-1, 0, 1];
+  const cells = await Promise.all(
+    offsets.flatMap(dy =>
+      offsets.map(async dx => {
+        const x = pixelX + dx;
+        const y = pixelY + dy;
+        const tile = await loadTile(source, Math.floor(x / TILE_SIZE), Math.floor(y / TILE_SIZE));
+        return tile ? tile[(y % TILE_SIZE) * TILE_SIZE + (x % TILE_SIZE)] : null;
+      })
+    )
+  );
+  if (cells.some(elevation => elevation === null)) return null;
+
+  const cellSizeM = (EARTH_CIRCUMFERENCE_M * Math.cos(latitudeRad)) / worldSize;
+  return { elevationM: cells[4], ...slopeAspect(cells, cellSizeM) };
+};
@@ -0,0 +1,161 @@
+// src/lib/thresholds.ts
+import { z } from 'zod';
+import { checkIfInForest, UTTARAKHAND_FOREST_BOUNDARIES } from './forestBoundaries';
+
+export type AlertLevel = 'normal' | 'warning' | 'fire';
+
+export const THRESHOLD_METRICS = ['temp', 'smoke', 'humidity'] as const;
+export type ThresholdMetric = (typeof THRESHOLD_METRICS)[number];
+
+// Humidity is dangerous when it drops, the other metrics when they rise
+export const METRIC_DIRECTION: Record<ThresholdMetric, 'above' | 'below'> = {
+  temp: 'above',
+  smoke: 'above',
+  humidity: 'below',
+};
+
+const optionalLimit = z.number().finite().optional();
+
+// A missing limit disables that level for the metric
+const metricThresholdSchema = z.object({
+  warning: optionalLimit,
+  fire: optionalLimit,
+});
+
+export const thresholdProfileSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1, 'Name is required').max(60),
+    metrics: z.object({
+      temp: metricThresholdSchema,
+      smoke: metricThresholdSchema,
+      humidity: metricThresholdSchema,
+    }),
+    // Forest boundary name; the profile only applies to sensors inside it
+    region: z.string().optional(),
+    // Calendar months (1-12) the profile applies to, e.g. the pre-monsoon fire season
+    months: z.array(z.number().int().min(1).max(12)).optional(),
+  })
+  .superRefine((profile, ctx) => {
+    THRESHOLD_METRICS.forEach(metric => {
+      const { warning, fire } = profile.metrics[metric];
+      if (warning === undefined || fire === undefined) return;
+      const ordered = METRIC_DIRECTION[metric] === 'above' ? fire >= warning : fire <= warning;
+      if (!ordered) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['metrics', metric, 'fire'],
+          message: `${profile.name}: the ${metric} fire limit must be past the warning limit`,
+        });
+      }
+    });
+  });
+
+export type MetricThreshold = z.infer<typeof metricThresholdSchema>;
+export type ThresholdProfile = z.infer<typeof thresholdProfileSchema>;
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Matches the rule the dashboard has always used: warn above 35°C or smoke 50, and only the
+// device's own flag means fire. Fire levels are for profiles operators add.
+export const DEFAULT_THRESHOLD_PROFILES: ThresholdProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Default',
+    metrics: {
+      temp: { warning: 35 },
+      smoke: { warning: 50 },
+      humidity: {},
+    },
+  },
+];
+
+export interface ClassifiableReading {
+  isFire?: boolean;
+  temp?: number;
+  smoke?: number;
+  humidity?: number;
+  latitude?: number;
+  longitude?: number;
+  timestamp?: string;
+}
+
+// The most specific matching profile wins: region beats season beats the default.
+// Extra profiles without a region or months never apply.
+export const resolveProfile = (
+  reading: Pick<ClassifiableReading, 'latitude' | 'longitude' | 'timestamp'>,
+  profiles: ThresholdProfile[]
+): ThresholdProfile => {
+  const fallback = profiles.find(profile => profile.id === DEFAULT_PROFILE_ID) ?? DEFAULT_THRESHOLD_PROFILES[0];
+  const takenAt = reading.timestamp ? new Date(reading.timestamp) : new Date();
+  const month = (Number.isNaN(takenAt.getTime()) ? new Date() : takenAt).getMonth() + 1;
+
+  let region: string | undefined;
+  if (profiles.some(profile => profile.region) && Number.isFinite(reading.latitude) && Number.isFinite(reading.longitude)) {
+    region = checkIfInForest(reading.latitude, reading.longitude, UTTARAKHAND_FOREST_BOUNDARIES).forestName;
+  }
+
+  let best = fallback;
+  let bestScore = 0;
+  profiles.forEach(profile => {
+    if (profile.id === DEFAULT_PROFILE_ID) return;
+    if (profile.region && profile.region !== region) return;
+    if (profile.months?.length && !profile.months.includes(month)) return;
+
+    const score = (profile.region ? 2 : 0) + (profile.months?.length ? 1 : 0);
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const exceeds = (metric: ThresholdMetric, value: number, limit: number | undefined) => {
+  if (limit === undefined) return false;
+  return METRIC_DIRECTION[metric] === 'above' ? value > limit : value < limit;
+};
+
+export const classifyMetric = (metric: ThresholdMetric, value: number | undefined, profile: ThresholdProfile): AlertLevel => {
+  if (value === undefined || value === null || !Number.isFinite(value)) return 'normal';
+  const threshold = profile.metrics[metric];
+  if (exceeds(metric, value, threshold.fire)) return 'fire';
+  if (exceeds(metric, value, threshold.warning)) return 'warning';
+  return 'normal';
+};
+
+export interface PeakClassification {
+  temp: AlertLevel;
+  smoke: AlertLevel;
+  overall: AlertLevel;
+}
+
+// Session peaks rated against the profile that applied where and when the session started
+export const classifySessionPeak = (
+  session: { maxTemp: number; maxSmoke: number; startTime: string; readings: ClassifiableReading[] },
+  profiles: ThresholdProfile[]
+): PeakClassification => {
+  const origin = session.readings[0];
+  const profile = resolveProfile(
+    { latitude: origin?.latitude, longitude: origin?.longitude, timestamp: session.startTime },
+    profiles
+  );
+  const temp = classifyMetric('temp', session.maxTemp, profile);
+  const smoke = classifyMetric('smoke', session.maxSmoke, profile);
+  const overall: AlertLevel = [temp, smoke].includes('fire') ? 'fire' : [temp, smoke].includes('warning') ? 'warning' : 'normal';
+  return { temp, smoke, overall };
+};
+
+// The one status rule for readings. The device's own fire flag always wins.
+export const classifyReading = (
+  reading: ClassifiableReading,
+  profiles: ThresholdProfile[]
+): AlertLevel => {
+  if (reading.isFire) return 'fire';
+
+  const profile = resolveProfile(reading, profiles);
+  const levels = THRESHOLD_METRICS.map(metric => classifyMetric(metric, reading[metric], profile));
+  if (levels.includes('fire')) return 'fire';
+  if (levels.includes('warning')) return 'warning';
+  return 'normal';
+};
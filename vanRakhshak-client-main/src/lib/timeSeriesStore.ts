@@ -0,0 +1,122 @@
+import type { AlertData } from '@/api/fireAlerts';
+import { STORES, isIndexedDbAvailable, openDatabase, requestToPromise, toIsoTimestamp, transactionDone } from './db';
+
+// Readings older than this are dropped the first time the store is used in a session
+export const READINGS_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface StoredReading extends AlertData {
+  recordedAt: number;
+}
+
+let pruned = false;
+
+const pruneOldReadings = async (db: IDBDatabase) => {
+  if (pruned) return;
+  pruned = true;
+
+  const cutoff = new Date(Date.now() - READINGS_RETENTION_MS).toISOString();
+  const transaction = db.transaction(STORES.readings, 'readwrite');
+  const index = transaction.objectStore(STORES.readings).index('timestamp');
+  // Only the expired readings are visited
+  const request = index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+
+  await transactionDone(transaction);
+};
+
+export const recordReadings = async (alerts: AlertData[]): Promise<void> => {
+  if (!isIndexedDbAvailable() || alerts.length === 0) return;
+
+  const db = await openDatabase();
+  await pruneOldReadings(db);
+
+  const transaction = db.transaction(STORES.readings, 'readwrite');
+  const store = transaction.objectStore(STORES.readings);
+  const recordedAt = Date.now();
+
+  alerts.forEach(alert => {
+    const timestamp = toIsoTimestamp(alert.timestamp);
+    if (!timestamp) return;
+    // put() on the [deviceId, timestamp] key makes repeated polls of the same reading a no-op
+    store.put({ ...alert, timestamp, recordedAt } satisfies StoredReading);
+  });
+
+  await transactionDone(transaction);
+};
+
+export const queryReadings = async (
+  deviceId: string,
+  from: string | number | Date,
+  to: string | number | Date
+): Promise<StoredReading[]> => {
+  if (!isIndexedDbAvailable()) return [];
+
+  const lower = toIsoTimestamp(from);
+  const upper = toIsoTimestamp(to);
+  if (!lower || !upper || lower > upper) return [];
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.readings, 'readonly');
+  const range = IDBKeyRange.bound([deviceId, lower], [deviceId, upper]);
+
+  return requestToPromise(transaction.objectStore(STORES.readings).getAll(range) as IDBRequest<StoredReading[]>);
+};
+
+// Every device's readings in the range, oldest first
+export const listReadings = async (from: string | number | Date, to: string | number | Date): Promise<StoredReading[]> => {
+  if (!isIndexedDbAvailable()) return [];
+
+  const lower = toIsoTimestamp(from);
+  const upper = toIsoTimestamp(to);
+  if (!lower || !upper || lower > upper) return [];
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.readings, 'readonly');
+  const index = transaction.objectStore(STORES.readings).index('timestamp');
+
+  return requestToPromise(index.getAll(IDBKeyRange.bound(lower, upper)) as IDBRequest<StoredReading[]>);
+};
+
+// The newest reading of every device from before `before`. Readings are keyed by device and
+// then time, so one cursor hops from device to device and each lookup reads a single record.
+export const latestReadingsBefore = async (before: string | number | Date): Promise<StoredReading[]> => {
+  if (!isIndexedDbAvailable()) return [];
+
+  const upper = toIsoTimestamp(before);
+  if (!upper) return [];
+
+  const db = await openDatabase();
+  const store = db.transaction(STORES.readings, 'readonly').objectStore(STORES.readings);
+
+  const deviceIds = await new Promise<string[]>((resolve, reject) => {
+    const ids: string[] = [];
+    const request = store.openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(ids);
+        return;
+      }
+      const [deviceId] = cursor.key as [string, string];
+      ids.push(deviceId);
+      // Arrays sort after strings, so this skips the rest of the device's readings
+      cursor.continue([deviceId, []]);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  const latest = await Promise.all(
+    deviceIds.map(deviceId =>
+      requestToPromise(store.openCursor(IDBKeyRange.bound([deviceId, ''], [deviceId, upper], false, true), 'prev')).then(
+        cursor => cursor?.value as StoredReading | undefined
+      )
+    )
+  );
+  return latest.filter((reading): reading is StoredReading => !!reading);
+};
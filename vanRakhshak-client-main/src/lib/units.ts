@@ -0,0 +1,13 @@
+// src/lib/units.ts
+import type { TemperatureUnit } from './settings';
+
+// Sensors and the weather API report Celsius; conversion happens only for display
+export const toDisplayTemperature = (celsius: number, unit: TemperatureUnit): number =>
+  unit === 'fahrenheit' ? (celsius * 9) / 5 + 32 : celsius;
+
+export const temperatureSymbol = (unit: TemperatureUnit) => (unit === 'fahrenheit' ? '°F' : '°C');
+
+export const formatTemperature = (celsius: number | null | undefined, unit: TemperatureUnit, digits = 1): string => {
+  if (celsius === null || celsius === undefined || !Number.isFinite(Number(celsius))) return `--${temperatureSymbol(unit)}`;
+  return `${Number(toDisplayTemperature(Number(celsius), unit).toFixed(digits))}${temperatureSymbol(unit)}`;
+};
@@ -1,16 +1,61 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Wind, MapPin, Thermometer, AlertTriangle, Navigation, RefreshCw, Compass, Flame, Clock, Shield, Users, AlertCircle, TrendingUp, Map } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Wind, MapPin, Thermometer, AlertTriangle, Navigation, RefreshCw, Compass, Flame, Clock, Shield, Users, AlertCircle, TrendingUp, Map, Home, Printer, Truck, CloudOff } from 'lucide-react';
 
 // Import Leaflet CSS
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 
 // Import your API functions
-import { getFireAlerts, getFireAlertByDeviceId, type AlertData } from '@/api/fireAlerts';
-import { getWeatherData, type WeatherData as WeatherDataType } from '@/api/weatherApi';
+import { getFireAlerts, getFireAlertByDeviceId, DeviceNotFoundError, type AlertData } from '@/api/fireAlerts';
+import { toSensorData } from '@/api/sensorRepository';
+import { SensorData } from '@/types/sensor';
+import {
+  getWeatherData,
+  getWeatherForecast,
+  WeatherNotConfiguredError,
+  type WeatherData as WeatherDataType,
+  type WeatherForecastPoint,
+} from '@/api/weatherApi';
+import { getSettings } from '@/lib/settings';
+import { describeMissingTerrain, formatAspect, formatTerrain } from '@/lib/terrain';
+import { formatTemperature } from '@/lib/units';
+import { useSettings } from '@/hooks/use-settings';
+import { useTerrain } from '@/hooks/use-terrain';
+import { useAssets } from '@/hooks/use-assets';
+import { useRoadNetwork } from '@/hooks/use-road-network';
+import { escapeXml, sensorExportDataset, type ExportDataset } from '@/lib/dataExport';
+import {
+  DEFAULT_FUEL_MODEL,
+  FUEL_MODELS,
+  FUEL_MODEL_IDS,
+  SPREAD_HORIZONS_MIN,
+  formatHorizon,
+  predictFireSpread,
+  spreadRateClass,
+  type FuelModelId,
+  type SpreadPrediction,
+} from '@/lib/fireSpread';
+import { downloadSpreadFrames, projectSpreadTimeline } from '@/lib/spreadTimeline';
+import {
+  ASSET_ACTIONS,
+  ASSET_KIND_LABELS,
+  assessAssets,
+  formatDistance,
+  formatEta,
+  type Asset,
+  type AssetExposure,
+} from '@/lib/assetsAtRisk';
+import { downloadEvacuationPdf } from '@/lib/evacuationReport';
+import { routeCrews } from '@/lib/crewRouting';
+import ExportMenu from '@/components/ExportMenu';
+import SpreadPlaybackBar from '@/components/SpreadPlaybackBar';
+import WeatherNotConfigured from '@/components/WeatherNotConfigured';
 
 // Fix for default markers in Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -20,107 +65,28 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
-interface SensorData {
-  id: string;
-  deviceId: string;
-  latitude: number;
-  longitude: number;
-  humidity: number;
-  temp: number;
-  smoke: number;
-  isFire: boolean;
-  timestamp: string;
-  name: string;
-  status: string;
-}
-
-// Create quarter-circle sector (90-degree arc) in wind direction
-const createWindSector = (
-  centerLat: number,
-  centerLng: number,
-  windDirection: number,
-  radius: number,
-  color: string
-) => {
-  // Convert to direction wind is blowing TO (where fire spreads)
-  const directionTo = (windDirection + 180) % 360;
-  const centerRad = (directionTo * Math.PI) / 180;
-  
-  // Create 90-degree sector (45 degrees on each side of center)
-  const sectorAngle = 45; // 45 degrees each side = 90 degree total sector
-  const steps = 20;
-  const points = [];
-  
-  // Start at center
-  points.push([centerLat, centerLng]);
-  
-  // Create arc points for the sector
-  for (let i = -sectorAngle; i <= sectorAngle; i += sectorAngle / steps) {
-    const angle = (directionTo + i) * Math.PI / 180;
-    const pointLat = centerLat + (radius * Math.cos(angle) / 111000);
-    const pointLng = centerLng + (radius * Math.sin(angle) / (111000 * Math.cos(centerLat * Math.PI / 180)));
-    points.push([pointLat, pointLng]);
-  }
-  
-  // Close the polygon back to center
-  points.push([centerLat, centerLng]);
-  
-  return L.polygon(points, {
-    color: color,
-    fillColor: color,
-    fillOpacity: 0.3,
-    weight: 2,
-    className: 'wind-sector'
-  });
-};
+// Perimeter styling in SPREAD_HORIZONS_MIN order, nearest horizon first
+const PERIMETER_STYLES = [
+  { color: '#dc2626', tone: 'red', tile: 'bg-red-100 text-red-700', note: 'Expected burnt area - Evacuate immediately' },
+  { color: '#ea580c', tone: 'orange', tile: 'bg-orange-100 text-orange-700', note: 'Likely reached within the hour - Evacuate now' },
+  { color: '#eab308', tone: 'yellow', tile: 'bg-yellow-100 text-yellow-700', note: 'Possible reach - Prepare for evacuation' },
+];
 
-// Calculate fire spread areas with directional sectors
-const calculateFireSpreadAreas = (
-  centerLat: number,
-  centerLng: number,
-  weatherData: WeatherDataType,
-  fireIntensity: number
-) => {
-  // Fixed radii for different zones
-  const activeRadius = 200; // meters
-  const highRiskRadius = 500; // meters
-  const mediumRiskRadius = 900; // meters
-  
-  return [
-    {
-      lat: centerLat,
-      lng: centerLng,
-      radius: activeRadius,
-      type: 'immediate-fire',
-      popupTitle: 'Active Fire Zone',
-      riskLevel: 'Extreme',
-      color: '#dc2626',
-      strokeColor: '#991b1b',
-      description: 'Active burning area - Extreme danger'
-    },
-    {
-      lat: centerLat,
-      lng: centerLng,
-      radius: highRiskRadius,
-      type: 'high-risk',
-      popupTitle: 'High Risk Zone',
-      riskLevel: 'High',
-      color: '#ea580c',
-      strokeColor: '#c2410c',
-      description: 'Immediate fire spread risk - Evacuate immediately'
-    },
-    {
-      lat: centerLat,
-      lng: centerLng,
-      radius: mediumRiskRadius,
-      type: 'medium-risk',
-      popupTitle: 'Medium Risk Zone',
-      riskLevel: 'Medium',
-      color: '#eab308',
-      strokeColor: '#a16207',
-      description: 'Potential fire spread - Prepare for evacuation'
-    }
-  ];
+// GeoJSON [lng, lat] rings to Leaflet [lat, lng]
+const toLatLngs = (ring: [number, number][]) => ring.map(([lng, lat]) => [lat, lng] as [number, number]);
+
+// One Leaflet layer per asset shape
+const assetLayer = (asset: Asset, color: string, fillOpacity: number) => {
+  const { geometry } = asset;
+  const style = { color, fillColor: color, fillOpacity, weight: geometry.type === 'LineString' ? 4 : 2 };
+  switch (geometry.type) {
+    case 'Point':
+      return L.circleMarker([geometry.coordinates[1], geometry.coordinates[0]], { ...style, radius: 7, fillOpacity: 0.9 });
+    case 'LineString':
+      return L.polyline(toLatLngs(geometry.coordinates), style);
+    case 'Polygon':
+      return L.polygon(geometry.coordinates.map(toLatLngs), style);
+  }
 };
 
 // Create fire icon
@@ -244,12 +210,10 @@ const createWindArrow = (direction: number, speed: number) => {
 const createFireSpreadDirectionArrow = (
   startLat: number,
   startLng: number,
-  direction: number,
+  heading: number,
   distance: number
 ) => {
-  // Convert to direction wind is blowing TO (where fire spreads)
-  const directionTo = (direction + 180) % 360;
-  const rad = (directionTo * Math.PI) / 180;
+  const rad = (heading * Math.PI) / 180;
   
   const endLat = startLat + (distance * Math.cos(rad) / 111);
   const endLng = startLng + (distance * Math.sin(rad) / (111 * Math.cos(startLat * Math.PI / 180)));
@@ -275,28 +239,29 @@ const PossibleAffectedAreasMap: React.FC = () => {
   const location = useLocation();
   const [sensorData, setSensorData] = useState<SensorData | null>(null);
   const [weatherData, setWeatherData] = useState<WeatherDataType | null>(null);
-  const [affectedAreas, setAffectedAreas] = useState<any[]>([]);
+  const [forecast, setForecast] = useState<WeatherForecastPoint[]>([]);
+  const [weatherMissing, setWeatherMissing] = useState(false);
+  // The weather service failed; nothing is projected until it answers
+  const [weatherFailed, setWeatherFailed] = useState(false);
+  const [frameIndex, setFrameIndex] = useState<number | null>(null);
+  const [fuel, setFuel] = useState<FuelModelId>(DEFAULT_FUEL_MODEL);
+  const [slopePercent, setSlopePercent] = useState(0);
+  const [upslopeDeg, setUpslopeDeg] = useState(0);
   const [map, setMap] = useState<L.Map | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const mapRef = useRef<HTMLDivElement>(null);
   const [isMapInitialized, setIsMapInitialized] = useState(false);
+  const { units, map: { assetsUrl, roadNetworkUrl, demTileUrl } } = useSettings();
+  const { data: terrain, isError: terrainFailed, isLoading: terrainLoading } = useTerrain(sensorData?.latitude, sensorData?.longitude);
+  const { data: assets, error: assetsError, isLoading: assetsLoading } = useAssets();
+  const { data: roadNetwork, error: roadNetworkError, isLoading: roadNetworkLoading } = useRoadNetwork();
 
-  // Convert AlertData to SensorData format
-  const convertAlertToSensorData = (alert: AlertData): SensorData => {
-    return {
-      id: alert.id,
-      deviceId: alert.deviceId,
-      latitude: alert.latitude,
-      longitude: alert.longitude,
-      humidity: alert.humidity,
-      temp: alert.temp,
-      smoke: alert.smoke,
-      isFire: alert.isFire,
-      timestamp: alert.timestamp,
-      name: `Sensor ${alert.deviceId}`,
-      status: alert.isFire ? 'active' : 'inactive'
-    };
-  };
+  // Terrain under the sensor seeds the slope inputs, which can still be overridden by hand
+  useEffect(() => {
+    if (!terrain) return;
+    setSlopePercent(Math.round(terrain.slopePercent));
+    setUpslopeDeg(Math.round(terrain.upslopeDeg ?? 0));
+  }, [terrain]);
 
   // Calculate fire intensity based on sensor data
   const calculateFireIntensity = (sensor: SensorData): number => {
@@ -318,18 +283,85 @@ const PossibleAffectedAreasMap: React.FC = () => {
     return Math.max(1, Math.min(10, intensity / 10));
   };
 
-  // Calculate estimated spread rate based on conditions
-  const calculateSpreadRate = (): string => {
-    if (!weatherData || !sensorData) return 'Moderate';
-    
-    const windSpeed = weatherData.wind_speed;
-    const humidity = sensorData.humidity;
-    const temp = sensorData.temp;
-    
-    if (windSpeed > 8 && humidity < 30 && temp > 80) return 'Very Fast';
-    if (windSpeed > 6 && humidity < 40 && temp > 70) return 'Fast';
-    if (windSpeed > 4 && humidity < 50) return 'Moderate';
-    return 'Slow';
+  // Fuel moisture comes from the weather station air, not the sensor, which sits in the fire
+  const prediction = useMemo<SpreadPrediction | null>(() => {
+    if (!sensorData || !weatherData) return null;
+    return predictFireSpread({
+      latitude: sensorData.latitude,
+      longitude: sensorData.longitude,
+      windSpeedMs: weatherData.wind_speed,
+      windFromDeg: weatherData.wind_deg,
+      temperatureC: weatherData.temp,
+      humidity: weatherData.humidity,
+      fuel,
+      slopePercent,
+      upslopeDeg,
+    });
+  }, [sensorData, weatherData, fuel, slopePercent, upslopeDeg]);
+
+  const exposures = useMemo<AssetExposure[]>(
+    () => (assets && prediction && sensorData ? assessAssets(assets, prediction, sensorData) : []),
+    [assets, prediction, sensorData]
+  );
+
+  // Ranger posts from the asset map, routed to the fire around the projected perimeters
+  // Crews are only sent to a confirmed fire, not to a sensor that is merely warm
+  const crewRouting = useMemo(() => {
+    if (!roadNetwork || !assets || !sensorData?.isFire) return null;
+    const stations = assets.filter(asset => asset.kind === 'ranger_post');
+    return routeCrews(roadNetwork, stations, sensorData, prediction);
+  }, [roadNetwork, assets, sensorData, prediction]);
+
+  // Playback starts from the current weather and follows the forecast after it
+  const frames = useMemo(() => {
+    if (!sensorData || !weatherData) return [];
+    const now = Date.now();
+    const samples = [
+      {
+        time: now,
+        windSpeedMs: weatherData.wind_speed,
+        windFromDeg: weatherData.wind_deg,
+        temperatureC: weatherData.temp,
+        humidity: weatherData.humidity,
+      },
+      ...forecast
+        .filter(point => new Date(point.time).getTime() > now)
+        .map(point => ({
+          time: new Date(point.time).getTime(),
+          windSpeedMs: point.wind_speed,
+          windFromDeg: point.wind_deg,
+          temperatureC: point.temp,
+          humidity: point.humidity,
+        })),
+    ];
+    return projectSpreadTimeline(
+      { latitude: sensorData.latitude, longitude: sensorData.longitude, fuel, slopePercent, upslopeDeg },
+      samples,
+      now
+    );
+  }, [sensorData, weatherData, forecast, fuel, slopePercent, upslopeDeg]);
+
+  // Without live weather there is nothing to model from, and the page says so rather than guessing
+  const loadWeather = async (latitude: number, longitude: number) => {
+    try {
+      setWeatherData(await getWeatherData(latitude, longitude));
+      setWeatherMissing(false);
+      setWeatherFailed(false);
+    } catch (error) {
+      if (!(error instanceof WeatherNotConfiguredError)) console.error('Weather unavailable:', error);
+      setWeatherData(null);
+      setWeatherMissing(error instanceof WeatherNotConfiguredError);
+      setWeatherFailed(!(error instanceof WeatherNotConfiguredError));
+      return;
+    }
+
+    // Playback can run on the current weather alone, so a missing forecast is not an error
+    getWeatherForecast(latitude, longitude)
+      .then(setForecast)
+      .catch(error => {
+        console.warn('Weather forecast unavailable, holding current conditions:', error);
+        setForecast([]);
+      });
   };
 
   // Fetch live sensor data from API
@@ -338,8 +370,17 @@ const PossibleAffectedAreasMap: React.FC = () => {
       let alertData: AlertData | null = null;
       
       if (deviceId) {
-        alertData = await getFireAlertByDeviceId(deviceId);
-      } else {
+        try {
+          alertData = await getFireAlertByDeviceId(deviceId);
+        } catch (error) {
+          if (!(error instanceof DeviceNotFoundError)) throw error;
+          // A remembered device may have been decommissioned; fall back to the fleet
+          console.warn(error.message);
+          localStorage.removeItem('lastDeviceId');
+        }
+      }
+
+      if (!alertData) {
         const allAlerts = await getFireAlerts();
         const activeFire = allAlerts.find(alert => alert.isFire);
         if (activeFire) {
@@ -350,7 +391,7 @@ const PossibleAffectedAreasMap: React.FC = () => {
       }
       
       if (alertData) {
-        return convertAlertToSensorData(alertData);
+        return toSensorData(alertData);
       }
       
       return null;
@@ -380,17 +421,7 @@ const PossibleAffectedAreasMap: React.FC = () => {
         if (sensor) {
           setSensorData(sensor);
           
-          const weather = await getWeatherData(sensor.latitude, sensor.longitude);
-          setWeatherData(weather);
-          
-          const fireIntensity = calculateFireIntensity(sensor);
-          const areas = calculateFireSpreadAreas(
-            sensor.latitude,
-            sensor.longitude,
-            weather,
-            fireIntensity
-          );
-          setAffectedAreas(areas);
+          await loadWeather(sensor.latitude, sensor.longitude);
           
           localStorage.setItem('lastSensorData', JSON.stringify(sensor));
           localStorage.setItem('lastDeviceId', sensor.deviceId);
@@ -401,29 +432,7 @@ const PossibleAffectedAreasMap: React.FC = () => {
         if (fallbackData) {
           const sensor = JSON.parse(fallbackData);
           setSensorData(sensor);
-          
-          const mockWeather: WeatherDataType = {
-            temp: 25,
-            feels_like: 26,
-            humidity: 60,
-            pressure: 1013,
-            wind_speed: 5.5,
-            wind_deg: 45,
-            wind_gust: 7.0,
-            visibility: 10000,
-            description: 'clear sky',
-            icon: '01d'
-          };
-          setWeatherData(mockWeather);
-          
-          const fireIntensity = calculateFireIntensity(sensor);
-          const areas = calculateFireSpreadAreas(
-            sensor.latitude,
-            sensor.longitude,
-            mockWeather,
-            fireIntensity
-          );
-          setAffectedAreas(areas);
+          await loadWeather(sensor.latitude, sensor.longitude);
         }
       } finally {
         setIsLoading(false);
@@ -450,8 +459,9 @@ const PossibleAffectedAreasMap: React.FC = () => {
         position: 'topright'
       }).addTo(leafletMap);
 
-      L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-        attribution: '© OpenStreetMap contributors',
+      const { tileUrl, tileAttribution } = getSettings().map;
+      L.tileLayer(tileUrl, {
+        attribution: tileAttribution,
         maxZoom: 18,
         minZoom: 3,
       }).addTo(leafletMap);
@@ -471,7 +481,16 @@ const PossibleAffectedAreasMap: React.FC = () => {
 
   // Add markers and overlays to map
   useEffect(() => {
-    if (map && sensorData && affectedAreas.length > 0 && weatherData) {
+    // Zones drawn from earlier weather must not outlive it
+    if (map && !weatherData) {
+      map.eachLayer((layer) => {
+        if (!(layer instanceof L.TileLayer)) {
+          map.removeLayer(layer);
+        }
+      });
+    }
+
+    if (map && sensorData && prediction && weatherData) {
       // Clear existing layers
       map.eachLayer((layer) => {
         if (!(layer instanceof L.TileLayer)) {
@@ -480,52 +499,46 @@ const PossibleAffectedAreasMap: React.FC = () => {
       });
 
       const center = [sensorData.latitude, sensorData.longitude] as [number, number];
-      const fireSpreadDirection = getWindDirection((weatherData.wind_deg + 180) % 360);
-
-      // Add fire zones as directional sectors (quarter-circles)
-      affectedAreas.forEach((area) => {
-        const sector = createWindSector(
-          area.lat,
-          area.lng,
-          weatherData.wind_deg,
-          area.radius,
-          area.color
-        )
+      const fireSpreadDirection = getWindDirection(prediction.headingDeg);
+
+      // Largest horizon first so the nearer perimeters stay on top and clickable
+      [...prediction.perimeters].reverse().forEach((perimeter) => {
+        const { color, tone, note } = PERIMETER_STYLES[SPREAD_HORIZONS_MIN.indexOf(perimeter.minutes)];
+        L.polygon(toLatLngs(perimeter.ring), {
+          color,
+          fillColor: color,
+          fillOpacity: 0.3,
+          weight: 2,
+          className: 'spread-perimeter'
+        })
         .addTo(map)
         .bindPopup(`
           <div class="p-4 min-w-[280px] bg-white border border-gray-200 rounded-lg shadow-lg">
             <div class="text-center mb-3">
-              <div class="w-10 h-10 mx-auto mb-2 bg-${area.type === 'immediate-fire' ? 'red' : area.type === 'high-risk' ? 'orange' : 'yellow'}-500 rounded-full flex items-center justify-center">
+              <div class="w-10 h-10 mx-auto mb-2 bg-${tone}-500 rounded-full flex items-center justify-center">
                 <div class="w-4 h-4 bg-white rounded-full"></div>
               </div>
-              <h3 class="text-lg font-bold text-${area.type === 'immediate-fire' ? 'red' : area.type === 'high-risk' ? 'orange' : 'yellow'}-700 mb-1">
-                ${area.popupTitle}
+              <h3 class="text-lg font-bold text-${tone}-700 mb-1">
+                Perimeter at ${formatHorizon(perimeter.minutes)}
               </h3>
-              <div class="text-sm text-gray-600 font-medium">${area.description}</div>
+              <div class="text-sm text-gray-600 font-medium">${note}</div>
             </div>
             <div class="space-y-3">
               <div class="bg-gray-50 p-3 rounded">
                 <div class="grid grid-cols-2 gap-3 text-sm">
                   <div>
-                    <div class="text-gray-600 font-medium">Risk Level</div>
-                    <div class="font-bold text-${area.type === 'immediate-fire' ? 'red' : area.type === 'high-risk' ? 'orange' : 'yellow'}-700">${area.riskLevel}</div>
+                    <div class="text-gray-600 font-medium">Head Run</div>
+                    <div class="font-bold text-${tone}-700">${Math.round(perimeter.headDistanceM)} m</div>
                   </div>
                   <div>
-                    <div class="text-gray-600 font-medium">Spread Distance</div>
-                    <div class="font-bold text-gray-800">${area.radius} m</div>
+                    <div class="text-gray-600 font-medium">Area</div>
+                    <div class="font-bold text-gray-800">${perimeter.areaHa.toFixed(2)} ha</div>
                   </div>
                 </div>
               </div>
-              <div class="bg-${area.type === 'immediate-fire' ? 'red' : area.type === 'high-risk' ? 'orange' : 'yellow'}-50 p-3 rounded">
-                <div class="text-sm font-medium text-${area.type === 'immediate-fire' ? 'red' : area.type === 'high-risk' ? 'orange' : 'yellow'}-800">
-                  ${area.type === 'immediate-fire' ? '🔥 Active burning area' : 
-                    area.type === 'high-risk' ? '⚠️ Immediate evacuation required' : 
-                    '📡 Prepare for evacuation'}
-                </div>
-              </div>
               <div class="bg-blue-50 p-3 rounded">
                 <div class="text-sm text-blue-700">
-                  <strong>Spread Direction:</strong> ${fireSpreadDirection}
+                  <strong>Spread Direction:</strong> ${fireSpreadDirection} at ${prediction.headRate.toFixed(1)} m/min
                 </div>
               </div>
             </div>
@@ -533,17 +546,88 @@ const PossibleAffectedAreasMap: React.FC = () => {
         `);
       });
 
-      // Add fire spread direction arrow (dotted line from center)
-      const fireSpreadArrow = createFireSpreadDirectionArrow(
-        sensorData.latitude,
-        sensorData.longitude,
-        weatherData.wind_deg,
-        0.01 // distance in degrees
-      ).addTo(map);
-
-      // Add label for fire spread direction
-      const arrowEndLat = sensorData.latitude + (0.012 * Math.cos(((weatherData.wind_deg + 180) % 360 * Math.PI) / 180));
-      const arrowEndLng = sensorData.longitude + (0.012 * Math.sin(((weatherData.wind_deg + 180) % 360 * Math.PI) / 180));
+      // Assets over the perimeters, coloured by the zone that reaches them; the rest in grey.
+      // Names come from a configurable GeoJSON file, so they are escaped before going into HTML.
+      (assets ?? []).forEach((asset) => {
+        const exposure = exposures.find(candidate => candidate.asset.id === asset.id);
+        if (!exposure) {
+          assetLayer(asset, '#6b7280', 0.15)
+            .addTo(map)
+            .bindTooltip(`${escapeXml(asset.name)} (${ASSET_KIND_LABELS[asset.kind]}) - outside the projected perimeters`);
+          return;
+        }
+        const { color, tone } = PERIMETER_STYLES[SPREAD_HORIZONS_MIN.indexOf(exposure.zoneMin)];
+        assetLayer(asset, color, 0.45)
+          .addTo(map)
+          .bindPopup(`
+            <div class="p-3 min-w-[240px] bg-white border border-gray-200 rounded-lg shadow-lg">
+              <div class="mb-2">
+                <div class="text-xs font-bold text-${tone}-700 uppercase">Evacuation priority ${exposure.priority}</div>
+                <h3 class="text-base font-bold text-gray-900">${escapeXml(asset.name)}</h3>
+                <div class="text-sm text-gray-600">${ASSET_KIND_LABELS[asset.kind]}${asset.population ? ` · ${asset.population} people` : ''}</div>
+              </div>
+              <div class="grid grid-cols-2 gap-2 text-sm bg-gray-50 p-2 rounded">
+                <div>
+                  <div class="text-gray-600 font-medium">Distance</div>
+                  <div class="font-bold text-gray-800">${formatDistance(exposure.distanceM)}</div>
+                </div>
+                <div>
+                  <div class="text-gray-600 font-medium">Time to impact</div>
+                  <div class="font-bold text-${tone}-700">${formatEta(exposure.etaMin)}</div>
+                </div>
+              </div>
+              <div class="mt-2 text-xs text-gray-700">${ASSET_ACTIONS[asset.kind]}</div>
+            </div>
+          `);
+      });
+
+      // Crew routes, the fastest drawn last so it sits on top. Station and road names come from
+      // GeoJSON files, so they are escaped too.
+      [...(crewRouting?.routes ?? [])].reverse().forEach((route, index, routes) => {
+        const fastest = index === routes.length - 1;
+        L.polyline(toLatLngs(route.path), {
+          color: fastest ? '#1d4ed8' : '#60a5fa',
+          weight: fastest ? 5 : 3,
+          opacity: 0.9,
+          dashArray: fastest ? undefined : '6, 8',
+          className: 'crew-route'
+        })
+        .addTo(map)
+        .bindPopup(`
+          <div class="p-3 min-w-[240px] bg-white border border-gray-200 rounded-lg shadow-lg">
+            <div class="text-xs font-bold text-blue-700 uppercase">${fastest ? 'Fastest crew route' : 'Crew route'}</div>
+            <h3 class="text-base font-bold text-gray-900 mb-2">From ${escapeXml(route.station.name)}</h3>
+            <div class="grid grid-cols-2 gap-2 text-sm bg-gray-50 p-2 rounded">
+              <div>
+                <div class="text-gray-600 font-medium">Distance</div>
+                <div class="font-bold text-gray-800">${formatDistance(route.distanceM)}</div>
+              </div>
+              <div>
+                <div class="text-gray-600 font-medium">Travel time</div>
+                <div class="font-bold text-blue-700">${formatEta(route.minutes)}</div>
+              </div>
+            </div>
+            ${route.via.length ? `<div class="mt-2 text-xs text-gray-700">Via ${route.via.map(escapeXml).join(' → ')}</div>` : ''}
+            ${route.innermostZoneMin ? `<div class="mt-1 text-xs text-orange-700">${formatDistance(route.inZoneM)} inside the ${formatHorizon(route.innermostZoneMin)} perimeter</div>` : ''}
+          </div>
+        `);
+      });
+
+      // Dotted line along the heading, as far as the head runs in an hour
+      const arrowKm = Math.max(0.3, (prediction.perimeters[1]?.headDistanceM ?? 0) / 1000);
+      if (prediction.spreads) {
+        createFireSpreadDirectionArrow(
+          sensorData.latitude,
+          sensorData.longitude,
+          prediction.headingDeg,
+          arrowKm
+        ).addTo(map);
+      }
+
+      // Add label for fire spread direction, just past the arrow
+      const headingRad = (prediction.headingDeg * Math.PI) / 180;
+      const arrowEndLat = sensorData.latitude + (arrowKm * 1.2 * Math.cos(headingRad)) / 111;
+      const arrowEndLng = sensorData.longitude + (arrowKm * 1.2 * Math.sin(headingRad)) / (111 * Math.cos(sensorData.latitude * Math.PI / 180));
       
       L.marker([arrowEndLat, arrowEndLng], {
         icon: L.divIcon({
@@ -559,7 +643,7 @@ const PossibleAffectedAreasMap: React.FC = () => {
               box-shadow: 0 2px 8px rgba(0,0,0,0.3);
               white-space: nowrap;
             ">
-              🔥 Fire spreading toward ${fireSpreadDirection}
+              ${prediction.spreads ? `🔥 Fire spreading toward ${fireSpreadDirection}` : 'Fuel too moist to carry fire'}
             </div>
           `,
           className: 'fire-spread-label',
@@ -585,7 +669,7 @@ const PossibleAffectedAreasMap: React.FC = () => {
           <div class="space-y-3">
             <div class="flex justify-between items-center p-2 bg-gray-50 rounded">
               <span class="text-gray-700 font-medium">Temperature</span>
-              <span class="font-bold text-red-600">${sensorData.temp}°C</span>
+              <span class="font-bold text-red-600">${formatTemperature(sensorData.temp, units.temperature)}</span>
             </div>
             <div class="flex justify-between items-center p-2 bg-gray-50 rounded">
               <span class="text-gray-700 font-medium">Smoke Level</span>
@@ -595,6 +679,16 @@ const PossibleAffectedAreasMap: React.FC = () => {
               <span class="text-gray-700 font-medium">Humidity</span>
               <span class="font-bold text-blue-600">${sensorData.humidity}%</span>
             </div>
+            ${terrain ? `
+              <div class="flex justify-between items-center p-2 bg-gray-50 rounded">
+                <span class="text-gray-700 font-medium">Slope</span>
+                <span class="font-bold text-gray-700">${Math.round(terrain.slopePercent)}% (${terrain.slopeDeg.toFixed(0)}°)</span>
+              </div>
+              <div class="flex justify-between items-center p-2 bg-gray-50 rounded">
+                <span class="text-gray-700 font-medium">Aspect</span>
+                <span class="font-bold text-gray-700">${formatAspect(terrain.aspectDeg)}</span>
+              </div>
+            ` : ''}
           </div>
           <div class="mt-3 p-2 bg-red-50 rounded text-center">
             <div class="text-xs text-red-700 font-medium">Fire Intensity</div>
@@ -619,11 +713,11 @@ const PossibleAffectedAreasMap: React.FC = () => {
       }).addTo(map).bindTooltip(`Wind: ${getWindDirection(weatherData.wind_deg)} at ${weatherData.wind_speed.toFixed(1)} m/s`);
 
       // Fit map to show all elements
-      const largestRadius = 900; // medium risk radius
-      const bounds = L.latLngBounds([
-        [sensorData.latitude - (largestRadius / 111000), sensorData.longitude - (largestRadius / (111000 * Math.cos(sensorData.latitude * Math.PI / 180)))],
-        [sensorData.latitude + (largestRadius / 111000), sensorData.longitude + (largestRadius / (111000 * Math.cos(sensorData.latitude * Math.PI / 180)))]
-      ]);
+      const bounds = L.latLngBounds([center, [arrowEndLat, arrowEndLng]]);
+      const outermost = prediction.perimeters[prediction.perimeters.length - 1];
+      if (outermost) bounds.extend(toLatLngs(outermost.ring));
+      const fastestRoute = crewRouting?.routes[0];
+      if (fastestRoute) bounds.extend(toLatLngs(fastestRoute.path));
       
       setTimeout(() => {
         map.fitBounds(bounds.pad(0.1), {
@@ -632,7 +726,39 @@ const PossibleAffectedAreasMap: React.FC = () => {
         });
       }, 100);
     }
-  }, [map, sensorData, affectedAreas, weatherData]);
+  }, [map, sensorData, prediction, weatherData, terrain, assets, exposures, crewRouting, units.temperature]);
+
+  // Playback frame over the fixed projections; redrawn after the overlays above are rebuilt
+  useEffect(() => {
+    const frame = frameIndex === null ? null : frames[frameIndex];
+    if (!map || !frame) return;
+
+    const layers = L.layerGroup([
+      L.polygon(toLatLngs(frame.windSector), {
+        color: '#2563eb',
+        fillColor: '#3b82f6',
+        fillOpacity: 0.12,
+        weight: 1,
+        dashArray: '4, 6',
+        interactive: false,
+        className: 'wind-sector'
+      }),
+      ...(frame.areaHa > 0
+        ? [L.polygon(toLatLngs(frame.ring), {
+            color: '#7f1d1d',
+            fillColor: '#b91c1c',
+            fillOpacity: 0.35,
+            weight: 3,
+            interactive: false,
+            className: 'spread-frame'
+          })]
+        : []),
+    ]).addTo(map);
+
+    return () => {
+      layers.remove();
+    };
+  }, [map, frames, frameIndex, prediction, weatherData, sensorData, terrain, assets, exposures, crewRouting, units.temperature]);
 
   const handleRefreshData = async () => {
     if (!sensorData) return;
@@ -643,17 +769,7 @@ const PossibleAffectedAreasMap: React.FC = () => {
       if (freshSensorData) {
         setSensorData(freshSensorData);
         
-        const freshWeatherData = await getWeatherData(freshSensorData.latitude, freshSensorData.longitude);
-        setWeatherData(freshWeatherData);
-        
-        const fireIntensity = calculateFireIntensity(freshSensorData);
-        const areas = calculateFireSpreadAreas(
-          freshSensorData.latitude,
-          freshSensorData.longitude,
-          freshWeatherData,
-          fireIntensity
-        );
-        setAffectedAreas(areas);
+        await loadWeather(freshSensorData.latitude, freshSensorData.longitude);
       }
     } catch (error) {
       console.error('Error refreshing data:', error);
@@ -662,6 +778,94 @@ const PossibleAffectedAreasMap: React.FC = () => {
     }
   };
 
+  // The sensor plus the projected perimeters, with the same rings as the map
+  const buildSpreadDataset = (): ExportDataset => {
+    const sensorDataset = sensorExportDataset([sensorData]);
+    const perimeters = prediction?.perimeters ?? [];
+    const fileName = `fire_spread_${sensorData.deviceId}_${Date.now()}`;
+
+    return {
+      fileName,
+      tables: [
+        ...sensorDataset.tables,
+        {
+          name: 'Spread perimeters',
+          columns: [
+            'horizon_min', 'area_ha', 'head_m', 'back_m', 'flank_m', 'head_rate_m_min', 'heading_deg', 'fuel',
+            'fuel_moisture_pct', 'slope_pct', 'wind_deg', 'wind_speed',
+          ],
+          rows: perimeters.map(perimeter => [
+            perimeter.minutes, Number(perimeter.areaHa.toFixed(3)), Math.round(perimeter.headDistanceM),
+            Math.round(perimeter.backDistanceM), Math.round(perimeter.flankDistanceM),
+            Number(prediction.headRate.toFixed(2)), Math.round(prediction.headingDeg), prediction.fuel.label,
+            Number((prediction.fuelMoisture * 100).toFixed(1)), slopePercent, weatherData.wind_deg, weatherData.wind_speed,
+          ]),
+        },
+        {
+          name: 'Assets at risk',
+          columns: ['priority', 'name', 'kind', 'population', 'zone_min', 'distance_m', 'eta_min', 'action'],
+          rows: exposures.map(({ asset, priority, zoneMin, distanceM, etaMin }) => [
+            priority, asset.name, asset.kind, asset.population, zoneMin, Math.round(distanceM), Number(etaMin.toFixed(1)),
+            ASSET_ACTIONS[asset.kind],
+          ]),
+        },
+        {
+          name: 'Crew routes',
+          columns: ['station', 'distance_m', 'travel_min', 'in_zone_m', 'innermost_zone_min', 'via'],
+          rows: (crewRouting?.routes ?? []).map(route => [
+            route.station.name, Math.round(route.distanceM), Number(route.minutes.toFixed(1)), Math.round(route.inZoneM),
+            route.innermostZoneMin, route.via.join(' > '),
+          ]),
+        },
+      ],
+      features: [
+        ...sensorDataset.features,
+        ...perimeters.map(perimeter => ({
+          name: `Perimeter ${formatHorizon(perimeter.minutes)}`,
+          geometry: { type: 'Polygon' as const, coordinates: [perimeter.ring] },
+          properties: {
+            minutes: perimeter.minutes,
+            areaHa: perimeter.areaHa,
+            headDistanceMeters: perimeter.headDistanceM,
+            headingDeg: prediction.headingDeg,
+            fuel: prediction.fuel.id,
+          },
+        })),
+        ...exposures.map(({ asset, priority, zoneMin, distanceM, etaMin }) => ({
+          name: asset.name,
+          geometry: asset.geometry,
+          properties: {
+            kind: asset.kind,
+            population: asset.population,
+            priority,
+            zoneMinutes: zoneMin,
+            distanceMeters: Math.round(distanceM),
+            etaMinutes: Number(etaMin.toFixed(1)),
+          },
+        })),
+        ...(crewRouting?.routes ?? []).map(route => ({
+          name: `Crew route from ${route.station.name}`,
+          geometry: { type: 'LineString' as const, coordinates: route.path },
+          properties: {
+            station: route.station.name,
+            distanceMeters: Math.round(route.distanceM),
+            travelMinutes: Number(route.minutes.toFixed(1)),
+            inZoneMeters: Math.round(route.inZoneM),
+          },
+        })),
+      ],
+      data: {
+        sensor: sensorData,
+        weather: weatherData,
+        terrain,
+        inputs: { fuel, slopePercent, upslopeDeg },
+        prediction,
+        assetsAtRisk: exposures,
+        crewRoutes: crewRouting?.routes ?? [],
+      },
+    };
+  };
+
   if (!sensorData) {
     return (
       <div className="min-h-screen bg-gray-50 p-6">
@@ -681,8 +885,8 @@ const PossibleAffectedAreasMap: React.FC = () => {
   }
 
   const fireIntensity = sensorData ? calculateFireIntensity(sensorData) : 0;
-  const fireSpreadDirection = weatherData ? getWindDirection((weatherData.wind_deg + 180) % 360) : 'N/A';
-  const spreadRate = calculateSpreadRate();
+  const fireSpreadDirection = prediction ? getWindDirection(prediction.headingDeg) : 'N/A';
+  const spreadRate = !prediction ? 'N/A' : prediction.spreads ? spreadRateClass(prediction.headRate) : 'None';
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -711,6 +915,7 @@ const PossibleAffectedAreasMap: React.FC = () => {
           <div className="text-sm text-gray-600">
             Fire Intensity: <span className="font-bold text-red-600">Level {fireIntensity}/10</span>
           </div>
+          <ExportMenu label="Export Zones" getDataset={buildSpreadDataset} />
           <Button 
             onClick={handleRefreshData} 
             disabled={isLoading}
@@ -736,15 +941,15 @@ const PossibleAffectedAreasMap: React.FC = () => {
                   <div className="flex gap-3 ml-auto text-sm">
                     <div className="flex items-center gap-2">
                       <div className="w-3 h-3 bg-red-600 rounded-full"></div>
-                      <span>Active Fire</span>
+                      <span>+30 min</span>
                     </div>
                     <div className="flex items-center gap-2">
                       <div className="w-3 h-3 bg-orange-500 rounded-full"></div>
-                      <span>High Risk</span>
+                      <span>+1 h</span>
                     </div>
                     <div className="flex items-center gap-2">
                       <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
-                      <span>Medium Risk</span>
+                      <span>+3 h</span>
                     </div>
                   </div>
                 </CardTitle>
@@ -768,6 +973,30 @@ const PossibleAffectedAreasMap: React.FC = () => {
               </CardContent>
             </Card>
 
+            {weatherMissing && (
+              <WeatherNotConfigured impact="Spread zones, assets at risk and crew routes need live wind and humidity." />
+            )}
+            {weatherFailed && (
+              <div className="flex items-start gap-3 p-4 rounded-lg border border-amber-200 bg-amber-50">
+                <CloudOff className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold text-amber-900">Live weather unavailable</p>
+                  <p className="text-sm text-amber-800">
+                    The weather service did not answer, so no spread zones, assets at risk or crew routes are projected.
+                    Use Refresh Live Data once it is reachable again.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <SpreadPlaybackBar
+              frames={frames}
+              index={frameIndex}
+              onIndexChange={setFrameIndex}
+              hasForecast={forecast.length > 0}
+              onExport={() => downloadSpreadFrames(frames, `fire_spread_frames_${sensorData.deviceId}_${Date.now()}`)}
+            />
+
             {/* Information Cards Below Map */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {/* Fire Spread Analysis Card */}
@@ -801,7 +1030,10 @@ const PossibleAffectedAreasMap: React.FC = () => {
                       <Compass className="w-4 h-4 text-blue-600 mt-0.5 flex-shrink-0" />
                       <div>
                         <div className="text-sm font-semibold text-blue-800">Primary Spread Direction</div>
-                        <div className="text-xs text-blue-700">Fire is primarily moving toward {fireSpreadDirection} due to wind patterns</div>
+                        <div className="text-xs text-blue-700">
+                          Fire is primarily moving toward {fireSpreadDirection}
+                          {slopePercent > 0 ? ' under the combined push of wind and slope' : ' due to wind patterns'}
+                        </div>
                       </div>
                     </div>
                     
@@ -810,12 +1042,68 @@ const PossibleAffectedAreasMap: React.FC = () => {
                       <div>
                         <div className="text-sm font-semibold text-yellow-800">Spread Factors</div>
                         <div className="text-xs text-yellow-700">
-                          {weatherData && `Wind: ${weatherData.wind_speed.toFixed(1)} m/s, `}
-                          {sensorData && `Humidity: ${sensorData.humidity}%, Temp: ${sensorData.temp}°C`}
+                          {weatherData && `Wind: ${weatherData.wind_speed.toFixed(1)} m/s, Air: ${formatTemperature(weatherData.temp, units.temperature)}, ${weatherData.humidity}% RH`}
+                          {prediction && `, Fuel moisture: ${(prediction.fuelMoisture * 100).toFixed(1)}%`}
                         </div>
+                        {prediction?.spreads && (
+                          <div className="text-xs text-yellow-700 mt-1">
+                            Head {prediction.headRate.toFixed(1)} m/min, flames ~{prediction.flameLengthM.toFixed(1)} m,{' '}
+                            {Math.round(prediction.firelineIntensity)} kW/m
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
+
+                  <div className="space-y-3 border-t border-orange-100 pt-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="spread-fuel">Fuel type</Label>
+                      <Select value={fuel} onValueChange={value => setFuel(value as FuelModelId)}>
+                        <SelectTrigger id="spread-fuel">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FUEL_MODEL_IDS.map(id => (
+                            <SelectItem key={id} value={id}>
+                              {FUEL_MODELS[id].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="spread-slope">Slope (%)</Label>
+                        <Input
+                          id="spread-slope"
+                          type="number"
+                          min={0}
+                          max={150}
+                          value={slopePercent}
+                          onChange={event => setSlopePercent(Math.min(150, Math.max(0, Number(event.target.value) || 0)))}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="spread-upslope">Uphill toward (°)</Label>
+                        <Input
+                          id="spread-upslope"
+                          type="number"
+                          min={0}
+                          max={359}
+                          value={upslopeDeg}
+                          disabled={slopePercent === 0}
+                          onChange={event => setUpslopeDeg(((Number(event.target.value) || 0) % 360 + 360) % 360)}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {terrain
+                        ? `Elevation tiles: ${formatTerrain(terrain)}`
+                        : terrainLoading
+                          ? 'Reading elevation tiles...'
+                          : `${describeMissingTerrain(demTileUrl, terrainFailed)}; enter the slope by hand`}
+                    </p>
+                  </div>
                 </CardContent>
               </Card>
 
@@ -860,6 +1148,152 @@ const PossibleAffectedAreasMap: React.FC = () => {
                 </CardContent>
               </Card>
             </div>
+
+            {/* Assets at Risk Card */}
+            <Card className="border border-gray-200 shadow-sm">
+              <CardHeader className="bg-white border-b">
+                <CardTitle className="flex items-center gap-3">
+                  <Home className="w-5 h-5 text-red-600" />
+                  <span>Assets at Risk</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="ml-auto"
+                    disabled={!prediction || exposures.length === 0}
+                    onClick={() =>
+                      downloadEvacuationPdf(exposures, {
+                        deviceId: sensorData.deviceId,
+                        latitude: sensorData.latitude,
+                        longitude: sensorData.longitude,
+                        prediction,
+                        assetCount: assets?.length ?? 0,
+                      })
+                    }
+                  >
+                    <Printer className="w-4 h-4 mr-2" />
+                    Evacuation List
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-4">
+                {assetsLoading ? (
+                  <p className="text-sm text-gray-600">Loading the asset map...</p>
+                ) : assetsError ? (
+                  <p className="text-sm text-red-600">Could not load assets: {assetsError.message}</p>
+                ) : !assets ? (
+                  <p className="text-sm text-gray-600">
+                    {assetsUrl ? `No asset file found at ${assetsUrl}.` : 'No asset file is configured.'} Add a GeoJSON of
+                    settlements, roads, schools, water sources and ranger posts in Settings to see what lies in the fire's path.
+                  </p>
+                ) : exposures.length === 0 ? (
+                  <p className="text-sm text-gray-600">
+                    {prediction?.spreads
+                      ? `None of the ${assets.length} mapped assets lies inside the projected perimeters.`
+                      : 'The fire is not spreading, so no mapped assets are in its path.'}
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {SPREAD_HORIZONS_MIN.map((minutes, index) => {
+                      const inZone = exposures.filter(exposure => exposure.zoneMin === minutes);
+                      if (inZone.length === 0) return null;
+                      return (
+                        <div key={minutes}>
+                          <div className={`text-sm font-bold px-3 py-1 rounded ${PERIMETER_STYLES[index].tile}`}>
+                            Reached by {formatHorizon(minutes)}
+                          </div>
+                          <ul className="divide-y divide-gray-100">
+                            {inZone.map(({ asset, priority, distanceM, etaMin }) => (
+                              <li key={asset.id} className="flex items-center gap-3 py-2 text-sm">
+                                <span className="w-6 text-right font-bold text-gray-500">{priority}</span>
+                                <div className="flex-1 min-w-0">
+                                  <div className="font-semibold text-gray-900 truncate">{asset.name}</div>
+                                  <div className="text-xs text-gray-600">
+                                    {ASSET_KIND_LABELS[asset.kind]}
+                                    {asset.population ? ` · ${asset.population} people` : ''} · {ASSET_ACTIONS[asset.kind]}
+                                  </div>
+                                </div>
+                                <div className="text-right">
+                                  <div className="font-bold text-gray-900">{formatEta(etaMin)}</div>
+                                  <div className="text-xs text-gray-600">{formatDistance(distanceM)}</div>
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      );
+                    })}
+                    <p className="text-xs text-gray-500">
+                      {exposures.length} of {assets.length} mapped assets at risk. Times assume the current wind, fuel and slope hold.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Crew Routes Card */}
+            <Card className="border border-gray-200 shadow-sm">
+              <CardHeader className="bg-white border-b">
+                <CardTitle className="flex items-center gap-3">
+                  <Truck className="w-5 h-5 text-blue-600" />
+                  <span>Crew Routes</span>
+                  <span className="ml-auto text-xs font-normal text-gray-500">Offline, around the projected perimeters</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-4">
+                {!sensorData.isFire ? (
+                  <p className="text-sm text-gray-600">Crews are routed once this sensor reports a confirmed fire.</p>
+                ) : roadNetworkLoading || assetsLoading ? (
+                  <p className="text-sm text-gray-600">Loading the road network...</p>
+                ) : roadNetworkError ? (
+                  <p className="text-sm text-red-600">Could not load the road network: {roadNetworkError.message}</p>
+                ) : !roadNetwork ? (
+                  <p className="text-sm text-gray-600">
+                    {roadNetworkUrl ? `No road network found at ${roadNetworkUrl}.` : 'No road network is configured.'} Add a GeoJSON
+                    of roads, tracks and trails in Settings to route crews to the fire.
+                  </p>
+                ) : !crewRouting || crewRouting.routes.length + crewRouting.unreachable.length === 0 ? (
+                  <p className="text-sm text-gray-600">
+                    No ranger posts on the asset map. Add features with kind "ranger_post" to route crews from them.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {crewRouting.routes.length > 0 && (
+                      <ul className="divide-y divide-gray-100">
+                        {crewRouting.routes.map((route, index) => (
+                          <li key={route.station.id} className="flex items-center gap-3 py-2 text-sm">
+                            <span className={`w-3 h-3 rounded-full flex-shrink-0 ${index === 0 ? 'bg-blue-700' : 'bg-blue-300'}`} />
+                            <div className="flex-1 min-w-0">
+                              <div className="font-semibold text-gray-900 truncate">{route.station.name}</div>
+                              <div className="text-xs text-gray-600 truncate">
+                                {route.via.length ? `Via ${route.via.join(' → ')}` : 'On foot'}
+                              </div>
+                              {route.innermostZoneMin && (
+                                <div className="text-xs text-orange-700">
+                                  {formatDistance(route.inZoneM)} inside the {formatHorizon(route.innermostZoneMin)} perimeter
+                                </div>
+                              )}
+                            </div>
+                            <div className="text-right">
+                              <div className="font-bold text-gray-900">{formatEta(route.minutes)}</div>
+                              <div className="text-xs text-gray-600">
+                                {formatDistance(route.distanceM)} · arrive{' '}
+                                {new Date(Date.now() + route.minutes * 60_000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                              </div>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {crewRouting.unreachable.length > 0 && (
+                      <p className="text-xs text-gray-600">
+                        No route from {crewRouting.unreachable.map(station => station.name).join(', ')}: too far from the road
+                        network, or on roads that do not connect to the fire.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </div>
 
           {/* Right Column - Sidebar Cards */}
@@ -878,7 +1312,7 @@ const PossibleAffectedAreasMap: React.FC = () => {
                 </div>
                 <div className="flex justify-between items-center p-3 bg-gray-50 rounded">
                   <span className="text-gray-700 font-medium">Temperature:</span>
-                  <span className="font-bold text-red-600">{sensorData.temp}°C</span>
+                  <span className="font-bold text-red-600">{formatTemperature(sensorData.temp, units.temperature)}</span>
                 </div>
                 <div className="flex justify-between items-center p-3 bg-gray-50 rounded">
                   <span className="text-gray-700 font-medium">Humidity:</span>
@@ -940,6 +1374,10 @@ const PossibleAffectedAreasMap: React.FC = () => {
                       </p>
                     </div>
                   </>
+                ) : weatherMissing ? (
+                  <p className="text-center py-8 text-gray-500">Weather API key not configured</p>
+                ) : weatherFailed ? (
+                  <p className="text-center py-8 text-gray-500">Live weather unavailable</p>
                 ) : (
                   <div className="text-center py-8">
                     <RefreshCw className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-3" />
@@ -959,45 +1397,39 @@ const PossibleAffectedAreasMap: React.FC = () => {
               <CardContent className="space-y-4 pt-4">
                 <div className="space-y-4">
                   <div className="bg-red-50 p-4 rounded border">
-                    <h4 className="font-bold text-red-800 mb-3">Directional Risk Zones</h4>
-                    <div className="grid grid-cols-3 gap-3 text-sm">
-                      <div className="text-center p-2 bg-red-100 rounded">
-                        <div className="text-red-700 font-bold text-lg">
-                          {affectedAreas.filter(a => a.type === 'immediate-fire').length}
-                        </div>
-                        <div className="text-red-600">Active Fire</div>
-                        <div className="text-xs text-gray-600">200m radius</div>
-                      </div>
-                      <div className="text-center p-2 bg-orange-100 rounded">
-                        <div className="text-orange-700 font-bold text-lg">
-                          {affectedAreas.filter(a => a.type === 'high-risk').length}
-                        </div>
-                        <div className="text-orange-600">High Risk</div>
-                        <div className="text-xs text-gray-600">500m radius</div>
+                    <h4 className="font-bold text-red-800 mb-3">Projected Perimeters</h4>
+                    {prediction?.spreads ? (
+                      <div className="grid grid-cols-3 gap-3 text-sm">
+                        {prediction.perimeters.map((perimeter, index) => (
+                          <div key={perimeter.minutes} className={`text-center p-2 rounded ${PERIMETER_STYLES[index].tile}`}>
+                            <div className="font-bold text-lg">{perimeter.areaHa.toFixed(1)} ha</div>
+                            <div>{formatHorizon(perimeter.minutes)}</div>
+                            <div className="text-xs text-gray-600">{Math.round(perimeter.headDistanceM)} m head run</div>
+                          </div>
+                        ))}
                       </div>
-                      <div className="text-center p-2 bg-yellow-100 rounded">
-                        <div className="text-yellow-700 font-bold text-lg">
-                          {affectedAreas.filter(a => a.type === 'medium-risk').length}
-                        </div>
-                        <div className="text-yellow-600">Medium Risk</div>
-                        <div className="text-xs text-gray-600">900m radius</div>
-                      </div>
-                    </div>
+                    ) : (
+                      <p className="text-sm text-gray-600">
+                        {prediction
+                          ? `At ${(prediction.fuelMoisture * 100).toFixed(0)}% moisture the ${prediction.fuel.label.toLowerCase()} fuel is too wet to carry the fire.`
+                          : 'Waiting for weather data...'}
+                      </p>
+                    )}
                   </div>
                   
                   <div className="space-y-3">
                     <div className="flex items-center gap-3 p-3 bg-red-600 rounded text-white">
                       <Flame className="w-4 h-4" />
                       <div>
-                        <span className="text-sm font-bold">Active Fire Zone</span>
-                        <p className="text-xs opacity-90">Immediate burning area - Extreme danger</p>
+                        <span className="text-sm font-bold">Within 30 minutes</span>
+                        <p className="text-xs opacity-90">Expected burnt area - Evacuate immediately</p>
                       </div>
                     </div>
                     
                     <div className="flex items-center gap-3 p-3 bg-orange-500 rounded text-white">
                       <div className="w-3 h-3 bg-white rounded-full"></div>
                       <div>
-                        <span className="text-sm font-bold">High Risk Zone</span>
+                        <span className="text-sm font-bold">Within 1 hour</span>
                         <p className="text-xs opacity-90">Immediate evacuation required</p>
                       </div>
                     </div>
@@ -1005,7 +1437,7 @@ const PossibleAffectedAreasMap: React.FC = () => {
                     <div className="flex items-center gap-3 p-3 bg-yellow-500 rounded text-white">
                       <div className="w-3 h-3 bg-white rounded-full"></div>
                       <div>
-                        <span className="text-sm font-bold">Medium Risk Zone</span>
+                        <span className="text-sm font-bold">Within 3 hours</span>
                         <p className="text-xs opacity-90">Prepare for evacuation</p>
                       </div>
                     </div>
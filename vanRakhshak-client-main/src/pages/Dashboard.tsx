@@ -1,61 +1,30 @@
 // src/pages/Dashboard.tsx
 import React, { useState, useEffect, useRef } from 'react';
-import { useQuery } from '@tanstack/react-query';
 import LeafletMap, { LeafletMapHandle } from '@/components/LeafletMap';
-import { getFireAlerts } from '@/api/fireAlerts';
+import { useFireReports, useSensors } from '@/hooks/use-sensors';
+import { useSettings } from '@/hooks/use-settings';
+import { useAuth } from '@/hooks/use-auth';
+import { playAlertSound, showBrowserNotification } from '@/lib/notifications';
 import { SensorData } from '@/types/sensor';
 import { Button } from '@/components/ui/button';
-import { LogOut } from 'lucide-react';
+import { Flame, LogOut } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 import FireAlertPopup from '@/components/FireAlertPopup';
-
-// Convert API data to SensorData format with proper error handling
-const convertApiToSensorData = (apiDevices: any[]): SensorData[] => {
-  if (!apiDevices || !Array.isArray(apiDevices)) return [];
-
-  return apiDevices.map(device => {
-    // Safely extract device ID with fallbacks
-    const deviceId =
-      device.deviceId ||
-      device.id ||
-      (device._id ? `DEV-${device._id.slice(-4)}` : 'DEV-unknown');
-
-    // Safely extract ID with fallback to deviceId
-    const id = device._id || device.id || deviceId;
-
-    return {
-      id: id,
-      deviceId: deviceId,
-      latitude: device.latitude || 0,
-      longitude: device.longitude || 0,
-      humidity: device.humidity || 0,
-      temp: device.temp || device.temperature || 0,
-      smoke: device.smoke || 0,
-      isFire: device.isfire || device.isFire || false,
-      timestamp:
-        device.lastUpdate || device.timestamp || new Date().toISOString(),
-      name: device.name || `Sensor ${deviceId}`,
-      status: device.isfire || device.isFire ? 'warning' : 'active',
-    };
-  });
-};
+import ReportFireDialog from '@/components/ReportFireDialog';
 
 const Dashboard: React.FC = () => {
   const [selectedSensorId, setSelectedSensorId] = useState<string>('');
   const [fireAlerts, setFireAlerts] = useState<SensorData[]>([]);
   const [showAlertPopup, setShowAlertPopup] = useState(false);
   const [previousFireCount, setPreviousFireCount] = useState(0);
+  const [showReportDialog, setShowReportDialog] = useState(false);
   const mapRef = useRef<LeafletMapHandle>(null);
+  const { notifications } = useSettings();
+  const { can, logout } = useAuth();
 
-  // Query returns AlertData[] (array), not { success, devices }
-  const { data: apiResponse = [], isLoading, error } = useQuery({
-    queryKey: ['fireAlerts'],
-    queryFn: getFireAlerts,
-    refetchInterval: 40000, // Refetch every 40 seconds
-  });
+  const { data: apiSensors = [], isLoading, error } = useSensors();
+  const fireReports = useFireReports();
 
-  // Convert the array into SensorData[]
-  const apiSensors: SensorData[] = convertApiToSensorData(apiResponse);
   const currentFireCount = apiSensors.filter(sensor => sensor.isFire).length;
 
   // Check for new fire alerts
@@ -65,12 +34,19 @@ const Dashboard: React.FC = () => {
     // Only show popup if there are new fires that weren't in the previous state
     if (fireSensors.length > 0 && currentFireCount > previousFireCount) {
       setFireAlerts(fireSensors);
-      setShowAlertPopup(true);
+      if (notifications.popup) setShowAlertPopup(true);
+      if (notifications.sound) playAlertSound();
+      if (notifications.browser) {
+        showBrowserNotification(
+          'Fire detected',
+          `${fireSensors.length} sensor${fireSensors.length === 1 ? '' : 's'} reporting fire: ${fireSensors.map(s => s.id).join(', ')}`
+        );
+      }
     }
     
     // Update the previous fire count
     setPreviousFireCount(currentFireCount);
-  }, [apiSensors, currentFireCount, previousFireCount]);
+  }, [apiSensors, currentFireCount, previousFireCount, notifications]);
 
   const handleViewInMap = (sensorId: string) => {
     setSelectedSensorId(sensorId);
@@ -95,6 +71,12 @@ const Dashboard: React.FC = () => {
 
   return (
     <div className="min-h-screen">
+      <ReportFireDialog
+        open={showReportDialog}
+        onOpenChange={setShowReportDialog}
+        defaultCenter={apiSensors[0] ? [apiSensors[0].latitude, apiSensors[0].longitude] : undefined}
+      />
+
       {/* Fire Alert Popup */}
       {showAlertPopup && fireAlerts.length > 0 && (
         <FireAlertPopup
@@ -119,6 +101,16 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
         <div className="flex items-center gap-4">
+          {can('alerts:create') && (
+            <Button
+              size="sm"
+              className="bg-red-500 hover:bg-red-600 text-white"
+              onClick={() => setShowReportDialog(true)}
+            >
+              <Flame className="w-4 h-4 mr-2" />
+              Report Fire
+            </Button>
+          )}
 <Button
   variant="outline"
   size="sm"
@@ -139,7 +131,7 @@ const Dashboard: React.FC = () => {
   variant="outline"
   size="sm"
   className="border-red-500 text-red-500 hover:bg-red-500 hover:text-white"
-  onClick={() => window.location.href = "https://dimriutkarsh.github.io/Van-updated/login.html"}
+  onClick={logout}
 >
   <LogOut className="w-4 h-4 mr-2" />
   Logout
@@ -165,6 +157,7 @@ const Dashboard: React.FC = () => {
             <LeafletMap
               ref={mapRef}
               sensors={apiSensors}
+              reports={fireReports}
               selectedSensorId={selectedSensorId}
               onSensorClick={(sensor) => {
                 console.log('Sensor clicked:', sensor);
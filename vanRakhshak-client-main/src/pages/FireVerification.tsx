@@ -1,6 +1,13 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { getFireAlerts, getFireAlertByDeviceId } from '@/api/fireAlerts';
+import { toSensorData } from '@/api/sensorRepository';
+import { predictFireWithML } from '@/api/mlApi';
+import { useSensor, useSensors } from '@/hooks/use-sensors';
+import { SensorData } from '@/types/sensor';
+import { UTTARAKHAND_FOREST_BOUNDARIES, checkIfInForest } from '@/lib/forestBoundaries';
+import { formatTemperature } from '@/lib/units';
+import { useSettings } from '@/hooks/use-settings';
+import { useTerrain } from '@/hooks/use-terrain';
+import { describeMissingTerrain, formatAspect, formatTerrain, terrainConfidenceBonus } from '@/lib/terrain';
 import { getWeatherData, type WeatherData as ApiWeatherData } from '@/api/weatherApi';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -33,23 +40,8 @@ import { MapContainer, TileLayer, Polygon, Marker, Popup, useMap } from 'react-l
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
-// Turf.js for spatial analysis
-import * as turf from '@turf/turf';
-
 // Types
-interface SensorReading {
-  id: string;
-  deviceId: string;
-  latitude: number;
-  longitude: number;
-  humidity: number;
-  temp: number;
-  smoke: number;
-  isFire: boolean;
-  timestamp: string;
-  name: string;
-  status: string;
-}
+type SensorReading = SensorData;
 
 interface MLPrediction {
   id: string;
@@ -71,492 +63,6 @@ interface MLPrediction {
   status: 'processing' | 'completed' | 'failed';
 }
 
-interface ForestBoundary {
-  type: 'Feature';
-  geometry: {
-    type: 'Polygon' | 'MultiPolygon';
-    coordinates: number[][][] | number[][][][];
-  };
-  properties: {
-    name: string;
-    type: string;
-    area_km2?: number;
-    district?: string;
-    established?: string;
-  };
-}
-
-// Realistic Uttarakhand Forest Boundaries with actual forest shapes
-const UTTARAKHAND_FOREST_BOUNDARIES: ForestBoundary[] = [
-  // Jim Corbett National Park
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [78.7644, 29.5311],
-        [78.8234, 29.5511],
-        [78.8834, 29.5211],
-        [78.9234, 29.4911],
-        [78.9434, 29.4511],
-        [78.9234, 29.4111],
-        [78.8834, 29.3911],
-        [78.8434, 29.3711],
-        [78.8034, 29.3511],
-        [78.7634, 29.3711],
-        [78.7234, 29.3911],
-        [78.7034, 29.4211],
-        [78.7134, 29.4511],
-        [78.7334, 29.4811],
-        [78.7444, 29.5111],
-        [78.7644, 29.5311]
-      ]]
-    },
-    properties: {
-      name: 'Jim Corbett National Park',
-      type: 'National Park',
-      area_km2: 520.8,
-      district: 'Nainital, Pauri Garhwal',
-      established: '1936'
-    }
-  },
-  // Rajaji National Park
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [77.8441, 30.1122],
-        [78.0441, 30.1422],
-        [78.1241, 30.1122],
-        [78.1541, 30.0822],
-        [78.1741, 30.0422],
-        [78.1541, 30.0022],
-        [78.1141, 29.9722],
-        [78.0741, 29.9522],
-        [78.0341, 29.9322],
-        [77.9941, 29.9422],
-        [77.9541, 29.9622],
-        [77.9241, 29.9922],
-        [77.9041, 30.0222],
-        [77.9141, 30.0522],
-        [77.9341, 30.0822],
-        [77.8441, 30.1122]
-      ]]
-    },
-    properties: {
-      name: 'Rajaji National Park',
-      type: 'National Park',
-      area_km2: 820.4,
-      district: 'Haridwar, Dehradun, Pauri Garhwal',
-      established: '1983'
-    }
-  },
-  // Valley of Flowers National Park
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [79.5822, 30.7233],
-        [79.6022, 30.7333],
-        [79.6222, 30.7233],
-        [79.6322, 30.7133],
-        [79.6422, 30.7033],
-        [79.6322, 30.6933],
-        [79.6222, 30.6833],
-        [79.6122, 30.6733],
-        [79.6022, 30.6633],
-        [79.5922, 30.6733],
-        [79.5822, 30.6833],
-        [79.5722, 30.6933],
-        [79.5622, 30.7033],
-        [79.5722, 30.7133],
-        [79.5822, 30.7233]
-      ]]
-    },
-    properties: {
-      name: 'Valley of Flowers National Park',
-      type: 'National Park',
-      area_km2: 87.5,
-      district: 'Chamoli',
-      established: '1982'
-    }
-  },
-  // Nanda Devi National Park
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [79.7344, 30.4455],
-        [79.8544, 30.4755],
-        [79.9044, 30.4455],
-        [79.9344, 30.4155],
-        [79.9544, 30.3855],
-        [79.9344, 30.3555],
-        [79.9044, 30.3255],
-        [79.8744, 30.2955],
-        [79.8444, 30.2755],
-        [79.8144, 30.2855],
-        [79.7844, 30.3055],
-        [79.7544, 30.3255],
-        [79.7344, 30.3555],
-        [79.7244, 30.3855],
-        [79.7344, 30.4155],
-        [79.7344, 30.4455]
-      ]]
-    },
-    properties: {
-      name: 'Nanda Devi National Park',
-      type: 'National Park',
-      area_km2: 630.3,
-      district: 'Chamoli',
-      established: '1982'
-    }
-  },
-  // Gangotri National Park
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [78.9122, 30.9233],
-        [79.1122, 30.9533],
-        [79.1822, 30.9233],
-        [79.2122, 30.8933],
-        [79.2322, 30.8633],
-        [79.2122, 30.8333],
-        [79.1822, 30.8033],
-        [79.1522, 30.7733],
-        [79.1222, 30.7533],
-        [79.0922, 30.7633],
-        [79.0622, 30.7833],
-        [79.0322, 30.8033],
-        [79.0122, 30.8333],
-        [79.0022, 30.8633],
-        [79.0122, 30.8933],
-        [78.9122, 30.9233]
-      ]]
-    },
-    properties: {
-      name: 'Gangotri National Park',
-      type: 'National Park',
-      area_km2: 2390.0,
-      district: 'Uttarkashi',
-      established: '1989'
-    }
-  },
-  // Govind Pashu Vihar Wildlife Sanctuary
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [78.3422, 31.0833],
-        [78.5422, 31.1133],
-        [78.6222, 31.0833],
-        [78.6522, 31.0533],
-        [78.6722, 31.0233],
-        [78.6522, 30.9933],
-        [78.6222, 30.9633],
-        [78.5922, 30.9333],
-        [78.5622, 30.9133],
-        [78.5322, 30.9233],
-        [78.5022, 30.9433],
-        [78.4722, 30.9633],
-        [78.4422, 30.9933],
-        [78.4322, 31.0233],
-        [78.4422, 31.0533],
-        [78.3422, 31.0833]
-      ]]
-    },
-    properties: {
-      name: 'Govind Pashu Vihar Wildlife Sanctuary',
-      type: 'Wildlife Sanctuary',
-      area_km2: 958.0,
-      district: 'Uttarkashi',
-      established: '1955'
-    }
-  },
-  // Kedarnath Wildlife Sanctuary
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [79.0644, 30.6811],
-        [79.2644, 30.7111],
-        [79.3444, 30.6811],
-        [79.3744, 30.6511],
-        [79.3944, 30.6211],
-        [79.3744, 30.5911],
-        [79.3444, 30.5611],
-        [79.3144, 30.5311],
-        [79.2844, 30.5111],
-        [79.2544, 30.5211],
-        [79.2244, 30.5411],
-        [79.1944, 30.5611],
-        [79.1644, 30.5911],
-        [79.1544, 30.6211],
-        [79.1644, 30.6511],
-        [79.0644, 30.6811]
-      ]]
-    },
-    properties: {
-      name: 'Kedarnath Wildlife Sanctuary',
-      type: 'Wildlife Sanctuary',
-      area_km2: 975.2,
-      district: 'Chamoli, Rudraprayag',
-      established: '1972'
-    }
-  },
-  // Askot Wildlife Sanctuary
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [80.4422, 29.9233],
-        [80.5622, 29.9533],
-        [80.6222, 29.9233],
-        [80.6522, 29.8933],
-        [80.6722, 29.8633],
-        [80.6522, 29.8333],
-        [80.6222, 29.8033],
-        [80.5922, 29.7733],
-        [80.5622, 29.7533],
-        [80.5322, 29.7633],
-        [80.5022, 29.7833],
-        [80.4722, 29.8033],
-        [80.4422, 29.8333],
-        [80.4322, 29.8633],
-        [80.4422, 29.8933],
-        [80.4422, 29.9233]
-      ]]
-    },
-    properties: {
-      name: 'Askot Wildlife Sanctuary',
-      type: 'Wildlife Sanctuary',
-      area_km2: 600.0,
-      district: 'Pithoragarh',
-      established: '1986'
-    }
-  },
-  // Binsar Wildlife Sanctuary
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [79.6844, 29.6911],
-        [79.7244, 29.7111],
-        [79.7444, 29.6911],
-        [79.7544, 29.6711],
-        [79.7644, 29.6511],
-        [79.7544, 29.6311],
-        [79.7444, 29.6111],
-        [79.7244, 29.5911],
-        [79.7044, 29.5811],
-        [79.6844, 29.5911],
-        [79.6644, 29.6111],
-        [79.6544, 29.6311],
-        [79.6444, 29.6511],
-        [79.6544, 29.6711],
-        [79.6644, 29.6911],
-        [79.6844, 29.6911]
-      ]]
-    },
-    properties: {
-      name: 'Binsar Wildlife Sanctuary',
-      type: 'Wildlife Sanctuary',
-      area_km2: 47.04,
-      district: 'Almora',
-      established: '1988'
-    }
-  },
-  // Mussoorie Wildlife Sanctuary
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [78.0322, 30.4633],
-        [78.1322, 30.4833],
-        [78.1722, 30.4633],
-        [78.1922, 30.4333],
-        [78.2022, 30.4033],
-        [78.1922, 30.3733],
-        [78.1722, 30.3433],
-        [78.1522, 30.3233],
-        [78.1322, 30.3133],
-        [78.1122, 30.3233],
-        [78.0922, 30.3433],
-        [78.0722, 30.3733],
-        [78.0622, 30.4033],
-        [78.0722, 30.4333],
-        [78.0922, 30.4633],
-        [78.0322, 30.4633]
-      ]]
-    },
-    properties: {
-      name: 'Mussoorie Wildlife Sanctuary',
-      type: 'Wildlife Sanctuary',
-      area_km2: 10.82,
-      district: 'Dehradun',
-      established: '1993'
-    }
-  },
-  // Sonanadi Wildlife Sanctuary
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [78.8844, 29.6233],
-        [78.9644, 29.6433],
-        [79.0044, 29.6233],
-        [79.0244, 29.5933],
-        [79.0344, 29.5633],
-        [79.0244, 29.5333],
-        [79.0044, 29.5033],
-        [78.9844, 29.4833],
-        [78.9644, 29.4733],
-        [78.9444, 29.4833],
-        [78.9244, 29.5033],
-        [78.9044, 29.5333],
-        [78.8944, 29.5633],
-        [78.9044, 29.5933],
-        [78.9244, 29.6233],
-        [78.8844, 29.6233]
-      ]]
-    },
-    properties: {
-      name: 'Sonanadi Wildlife Sanctuary',
-      type: 'Wildlife Sanctuary',
-      area_km2: 301.18,
-      district: 'Pauri Garhwal',
-      established: '1987'
-    }
-  },
-  // Nandhaur Wildlife Sanctuary
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [79.4022, 29.3833],
-        [79.4822, 29.4033],
-        [79.5222, 29.3833],
-        [79.5422, 29.3533],
-        [79.5522, 29.3233],
-        [79.5422, 29.2933],
-        [79.5222, 29.2633],
-        [79.5022, 29.2433],
-        [79.4822, 29.2333],
-        [79.4622, 29.2433],
-        [79.4422, 29.2633],
-        [79.4222, 29.2933],
-        [79.4122, 29.3233],
-        [79.4222, 29.3533],
-        [79.4422, 29.3833],
-        [79.4022, 29.3833]
-      ]]
-    },
-    properties: {
-      name: 'Nandhaur Wildlife Sanctuary',
-      type: 'Wildlife Sanctuary',
-      area_km2: 269.96,
-      district: 'Nainital, Champawat',
-      established: '2012'
-    }
-  },
-  // Local Forest 1 - Tehri Region
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [78.416878, 30.369623], // 1st point
-        [78.419245, 30.361441], // 2nd point
-        [78.408173, 30.363292], // 3rd point
-        [78.410233, 30.371068], // 4th point
-        [78.416878, 30.369623]  // Close the polygon
-      ]]
-    },
-    properties: {
-      name: 'Tehri Forest Area 1',
-      type: 'Reserved Forest',
-      area_km2: 12.5,
-      district: 'Tehri Garhwal',
-      established: '1985'
-    }
-  },
-  // Local Forest 2 - Tehri Region
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [78.426713, 30.390172], // 1st point
-        [78.430832, 30.384175], // 2nd point
-        [78.421305, 30.371661], // 3rd point
-        [78.413409, 30.376548], // 4th point
-        [78.426713, 30.390172]  // Close the polygon
-      ]]
-    },
-    properties: {
-      name: 'Tehri Forest Area 2',
-      type: 'Reserved Forest',
-      area_km2: 15.2,
-      district: 'Tehri Garhwal',
-      established: '1988'
-    }
-  },
-  // Local Forest 3 - Tehri Region
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [78.386995, 30.349993], // 1st point
-        [78.388884, 30.346780], // 2nd point
-        [78.382854, 30.347706], // 3rd point
-        [78.387189, 30.349428], // 4th point
-        [78.386995, 30.349993]  // Close the polygon
-      ]]
-    },
-    properties: {
-      name: 'Tehri Forest Area 3',
-      type: 'Reserved Forest',
-      area_km2: 8.7,
-      district: 'Tehri Garhwal',
-      established: '1990'
-    }
-  },
-  // Local Forest 4 - Tehri Region
-  {
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [[
-        [78.481396, 30.355406], // 1st point
-        [78.471442, 30.357887], // 2nd point
-        [78.473138, 30.364052], // 3rd point
-        [78.480562, 30.361238], // 4th point
-        [78.481396, 30.355406]  // Close the polygon
-      ]]
-    },
-    properties: {
-      name: 'Tehri Forest Area 4',
-      type: 'Reserved Forest',
-      area_km2: 11.3,
-      district: 'Tehri Garhwal',
-      established: '1987'
-    }
-  }
-];
-
 // Fix for default markers in react-leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
@@ -580,56 +86,6 @@ const sensorIcon = new L.Icon({
   popupAnchor: [1, -34],
 });
 
-// REAL ML Model API Call - ONLY THIS ONE IS USED
-const predictFireWithML = async (data: {
-  temperature: number;
-  humidity: number;
-  smoke: number;
-  temp_max: number;
-  temp_min: number;
-  wind_speed: number;
-  wind_gust: number;
-}): Promise<{
-  prediction: number;
-  level: string;
-  emoji: string;
-  message: string;
-  probabilities?: Record<string, number>;
-}> => {
-  const response = await fetch('https://forest-fire-api2.onrender.com/predict', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(data),
-  });
-
-  if (!response.ok) {
-    throw new Error(`ML API error: ${response.status}`);
-  }
-
-  const result = await response.json();
-  return result;
-};
-
-// Forest checking function using Turf.js
-const checkIfInForest = (lat: number, lng: number, forestBoundaries: ForestBoundary[]): { isInForest: boolean; forestName?: string; forestType?: string } => {
-  const point = turf.point([lng, lat]);
-  
-  for (const forest of forestBoundaries) {
-    const polygon = turf.polygon(forest.geometry.coordinates as number[][][]);
-    if (turf.booleanPointInPolygon(point, polygon)) {
-      return { 
-        isInForest: true, 
-        forestName: forest.properties.name,
-        forestType: forest.properties.type
-      };
-    }
-  }
-  
-  return { isInForest: false };
-};
-
 // Map controller component
 const MapController: React.FC<{ center: [number, number] }> = ({ center }) => {
   const map = useMap();
@@ -713,6 +169,7 @@ const getPredictionDisplayInfo = (prediction: MLPrediction) => {
 };
 
 const FireVerification: React.FC = () => {
+  const { map: mapSettings, units } = useSettings();
   const [selectedSensorId, setSelectedSensorId] = useState<string>('');
   const [sensorReadings, setSensorReadings] = useState<SensorReading[]>([]);
   const [mlPredictions, setMlPredictions] = useState<MLPrediction[]>([]);
@@ -729,36 +186,15 @@ const FireVerification: React.FC = () => {
   const mapRef = useRef<L.Map>(null);
 
   // Fetch all available sensors
-  const { data: allSensorsData, isLoading: isLoadingSensors } = useQuery({
-    queryKey: ['allFireAlerts'],
-    queryFn: getFireAlerts,
-    refetchInterval: 10000,
-  });
+  const { data: allSensorsData, isLoading: isLoadingSensors } = useSensors();
 
   // Fetch selected sensor data
-  const { data: apiResponse, isLoading: isLoadingSensor } = useQuery({
-    queryKey: ['fireAlerts', selectedSensorId],
-    queryFn: () => selectedSensorId ? getFireAlertByDeviceId(selectedSensorId) : null,
-    refetchInterval: 5000,
-    enabled: !!selectedSensorId,
-  });
+  const { data: apiResponse, isLoading: isLoadingSensor } = useSensor(selectedSensorId);
 
   // Process sensor data
   useEffect(() => {
     if (apiResponse && selectedSensorId) {
-      const newReading: SensorReading = {
-        id: apiResponse.id || Date.now().toString(),
-        deviceId: apiResponse.deviceId,
-        latitude: apiResponse.latitude,
-        longitude: apiResponse.longitude,
-        humidity: apiResponse.humidity,
-        temp: apiResponse.temp,
-        smoke: apiResponse.smoke,
-        isFire: apiResponse.isFire,
-        timestamp: apiResponse.timestamp || new Date().toISOString(),
-        name: `Sensor ${apiResponse.deviceId}`,
-        status: apiResponse.isFire ? 'warning' : 'active'
-      };
+      const newReading: SensorReading = toSensorData(apiResponse);
 
       setSensorReadings(prev => [newReading, ...prev.slice(0, 10)]);
     }
@@ -899,18 +335,19 @@ const FireVerification: React.FC = () => {
     }
   }, [sensorReadings, processMlPrediction]);
 
-  const availableSensors = allSensorsData?.map((device: any) => ({
-    id: device._id || device.id,
-    deviceId: device.deviceId || device.id,
-    name: device.name || `Sensor ${device.deviceId}`,
-    isFire: device.isfire || device.isFire || false
-  })) || [];
+  const availableSensors = allSensorsData || [];
 
   const latestReading = sensorReadings[0];
   const latestMlPrediction = mlPredictions[0];
   const forestCheck = latestReading ? 
     checkIfInForest(latestReading.latitude, latestReading.longitude, UTTARAKHAND_FOREST_BOUNDARIES) : 
     { isInForest: false };
+  const { data: terrain, isError: terrainFailed, isLoading: terrainLoading } = useTerrain(latestReading?.latitude, latestReading?.longitude);
+
+  // Terrain can only strengthen a sensor alert; it never turns a clear reading into a fire
+  const terrainBonus =
+    verificationResult?.sensorAlert && verificationResult.finalVerdict !== 'FALSE_ALARM' ? terrainConfidenceBonus(terrain) : 0;
+  const confidence = verificationResult ? Math.min(99, verificationResult.confidence + terrainBonus) : 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-orange-50/20 to-red-50/30 backdrop-blur-sm">
@@ -1002,10 +439,7 @@ const FireVerification: React.FC = () => {
                   style={{ height: '100%', width: '100%' }}
                   ref={mapRef}
                 >
-                  <TileLayer
-                    url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-                    attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-                  />
+                  <TileLayer url={mapSettings.tileUrl} attribution={mapSettings.tileAttribution} />
                   
                   {/* Forest Boundaries */}
                   {UTTARAKHAND_FOREST_BOUNDARIES.map((forest, index) => {
@@ -1045,10 +479,16 @@ const FireVerification: React.FC = () => {
                         <div className="text-sm">
                           <strong>{latestReading.name}</strong><br />
                           Status: {latestReading.isFire ? 'FIRE ALERT' : 'Normal'}<br />
-                          Temp: {latestReading.temp}°C<br />
+                          Temp: {formatTemperature(latestReading.temp, units.temperature)}<br />
                           Smoke: {latestReading.smoke} ppm<br />
                           Location: {forestCheck.isInForest ? `INSIDE ${forestCheck.forestName}` : 'OUTSIDE FOREST'}<br />
-                          {forestCheck.forestType && `Type: ${forestCheck.forestType}`}
+                          {forestCheck.forestType && <>Type: {forestCheck.forestType}<br /></>}
+                          {terrain && (
+                            <>
+                              Slope: {Math.round(terrain.slopePercent)}% ({terrain.slopeDeg.toFixed(0)}°)<br />
+                              Aspect: {formatAspect(terrain.aspectDeg)}
+                            </>
+                          )}
                         </div>
                       </Popup>
                     </Marker>
@@ -1105,7 +545,7 @@ const FireVerification: React.FC = () => {
                   <div className="grid grid-cols-3 gap-4">
                     <div className="text-center p-3 bg-slate-50 rounded-lg border border-slate-200">
                       <Thermometer className="w-8 h-8 text-red-500 mx-auto mb-2" />
-                      <div className="text-lg font-bold text-slate-800">{latestReading.temp}°C</div>
+                      <div className="text-lg font-bold text-slate-800">{formatTemperature(latestReading.temp, units.temperature)}</div>
                       <div className="text-xs text-slate-600">Temperature</div>
                     </div>
                     <div className="text-center p-3 bg-slate-50 rounded-lg border border-slate-200">
@@ -1269,6 +709,25 @@ const FireVerification: React.FC = () => {
                         {verificationResult.inForest ? 'INSIDE FOREST' : 'OUTSIDE FOREST'}
                       </Badge>
                     </div>
+
+                    <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                      <div className="flex items-center gap-3">
+                        <Mountain className={`w-5 h-5 ${terrainBonus > 0 ? 'text-orange-600' : 'text-slate-600'}`} />
+                        <div>
+                          <span className="font-medium">Terrain</span>
+                          <div className="text-xs text-slate-500">
+                            {terrain
+                              ? formatTerrain(terrain)
+                              : terrainLoading
+                                ? 'Reading elevation tiles...'
+                                : describeMissingTerrain(mapSettings.demTileUrl, terrainFailed)}
+                          </div>
+                        </div>
+                      </div>
+                      <Badge variant={terrainBonus > 0 ? 'destructive' : 'secondary'}>
+                        {!terrain ? (terrainLoading ? 'LOADING' : 'UNAVAILABLE') : terrainBonus > 0 ? `+${terrainBonus}% CONFIDENCE` : 'NEUTRAL'}
+                      </Badge>
+                    </div>
                   </div>
 
                   {/* Final Verdict */}
@@ -1298,13 +757,13 @@ const FireVerification: React.FC = () => {
                           }
                         </div>
                         <div className="text-sm text-slate-600">
-                          Combined Confidence: {verificationResult.confidence}%
+                          Combined Confidence: {confidence}%
                         </div>
                       </div>
                     </div>
                     
                     <Progress 
-                      value={verificationResult.confidence} 
+                      value={confidence} 
                       className={`h-3 mt-4 ${
                         verificationResult.finalVerdict === 'CONFIRMED'
                           ? 'bg-red-200'
@@ -0,0 +1,371 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { ClipboardList, LogOut, MapPin, MessageSquarePlus, Radar, Siren, Users } from 'lucide-react';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/use-auth';
+import { INCIDENTS_QUERY_KEY, useIncidents } from '@/hooks/use-incidents';
+import {
+  addIncidentNote,
+  INCIDENT_STATUS_LABELS,
+  INCIDENT_TRANSITIONS,
+  isIncidentOpen,
+  toIncidentActor,
+  transitionIncident,
+} from '@/lib/incidentStore';
+import type { Incident, IncidentEvent, IncidentStatus } from '@/types/incident';
+
+const STATUS_STYLES: Record<IncidentStatus, string> = {
+  new: 'bg-red-500 text-white',
+  acknowledged: 'bg-orange-500 text-white',
+  crew_dispatched: 'bg-blue-600 text-white',
+  contained: 'bg-amber-500 text-white',
+  resolved: 'bg-green-600 text-white',
+  false_alarm: 'bg-slate-400 text-white',
+};
+
+const ACTION_LABELS: Record<IncidentStatus, string> = {
+  new: 'Mark New',
+  acknowledged: 'Acknowledge',
+  crew_dispatched: 'Dispatch Crew',
+  contained: 'Mark Contained',
+  resolved: 'Resolve',
+  false_alarm: 'False Alarm',
+};
+
+type IncidentFilter = 'open' | 'closed' | 'all';
+
+const describeEvent = (event: IncidentEvent) => {
+  switch (event.type) {
+    case 'opened':
+      return `Opened from sensor ${event.sensorId}`;
+    case 'status_changed':
+      return `${INCIDENT_STATUS_LABELS[event.from]} → ${INCIDENT_STATUS_LABELS[event.to]}`;
+    case 'sensor_linked':
+      return `Linked sensor ${event.sensorId}`;
+    case 'session_linked':
+      return `Linked monitoring session ${event.sessionId}`;
+    case 'note':
+      return 'Added a note';
+  }
+};
+
+const Incidents: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user, can, logout } = useAuth();
+  const { data: incidents = [], isLoading } = useIncidents();
+  const [filter, setFilter] = useState<IncidentFilter>('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pendingStatus, setPendingStatus] = useState<IncidentStatus | null>(null);
+  const [note, setNote] = useState('');
+  const [crew, setCrew] = useState('');
+  const [comment, setComment] = useState('');
+
+  const canManage = can('incidents:manage');
+
+  const visibleIncidents = useMemo(
+    () =>
+      incidents.filter(incident =>
+        filter === 'all' ? true : filter === 'open' ? isIncidentOpen(incident) : !isIncidentOpen(incident)
+      ),
+    [incidents, filter]
+  );
+
+  const selected: Incident | undefined =
+    incidents.find(incident => incident.id === selectedId) ?? visibleIncidents[0];
+
+  const onMutationError = (error: unknown) =>
+    toast.error(`Could not update incident: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+  const transition = useMutation({
+    mutationFn: ({ incident, to }: { incident: Incident; to: IncidentStatus }) =>
+      transitionIncident(incident.id, to, toIncidentActor(user), { note, crew, outcome: note }),
+    onSuccess: updated => {
+      queryClient.invalidateQueries({ queryKey: INCIDENTS_QUERY_KEY });
+      toast.success(`${updated.title}: ${INCIDENT_STATUS_LABELS[updated.status]}`);
+      setPendingStatus(null);
+    },
+    onError: onMutationError,
+  });
+
+  const addNote = useMutation({
+    mutationFn: (incident: Incident) => addIncidentNote(incident.id, toIncidentActor(user), comment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: INCIDENTS_QUERY_KEY });
+      setComment('');
+    },
+    onError: onMutationError,
+  });
+
+  const openTransitionDialog = (status: IncidentStatus) => {
+    setNote('');
+    setCrew(selected?.crew ?? '');
+    setPendingStatus(status);
+  };
+
+  const closing = pendingStatus !== null && INCIDENT_TRANSITIONS[pendingStatus].length === 0;
+  const needsCrew = pendingStatus === 'crew_dispatched';
+  const canConfirm = (!needsCrew || crew.trim().length > 0) && (!closing || note.trim().length > 0);
+
+  return (
+    <div className="min-h-screen">
+      <Dialog open={pendingStatus !== null} onOpenChange={open => !open && setPendingStatus(null)}>
+        <DialogContent className="glass-card max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-forest-primary">{pendingStatus && ACTION_LABELS[pendingStatus]}</DialogTitle>
+            <DialogDescription>
+              {selected?.title} moves to {pendingStatus && INCIDENT_STATUS_LABELS[pendingStatus]}. This is recorded in the
+              audit trail under your name.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {needsCrew && (
+              <div className="space-y-1.5">
+                <Label htmlFor="incident-crew">Crew</Label>
+                <Input
+                  id="incident-crew"
+                  placeholder="e.g. Mussoorie Range Crew 2"
+                  value={crew}
+                  onChange={event => setCrew(event.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-1.5">
+              <Label htmlFor="incident-note">{closing ? 'Outcome' : 'Note (optional)'}</Label>
+              <Textarea
+                id="incident-note"
+                placeholder={closing ? 'Area burned, cause, follow-up needed...' : 'Anything the next shift should know'}
+                value={note}
+                onChange={event => setNote(event.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingStatus(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!canConfirm || transition.isPending}
+              onClick={() => selected && pendingStatus && transition.mutate({ incident: selected, to: pendingStatus })}
+              className="bg-forest-primary text-white hover:bg-forest-primary/90"
+            >
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Header */}
+      <header className="h-16 glass border-b border-forest-accent/30 flex items-center justify-between px-6">
+        <div className="flex items-center gap-4">
+          <SidebarTrigger className="text-forest-primary" />
+          <div>
+            <h1 className="text-xl font-bold text-forest-primary">Incidents</h1>
+            <p className="text-sm text-muted-foreground">Track fires from detection to resolution</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90" onClick={logout}>
+            <LogOut className="w-4 h-4 mr-2" />
+            Logout
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6 grid grid-cols-1 lg:grid-cols-[minmax(280px,1fr)_2fr] gap-6">
+        <Card className="glass-card border-forest-accent/30 h-fit">
+          <CardHeader className="space-y-3">
+            <CardTitle className="text-forest-primary flex items-center gap-2">
+              <Siren className="w-5 h-5" />
+              Incidents
+            </CardTitle>
+            <Tabs value={filter} onValueChange={value => setFilter(value as IncidentFilter)}>
+              <TabsList className="grid grid-cols-3">
+                <TabsTrigger value="open">Open</TabsTrigger>
+                <TabsTrigger value="closed">Closed</TabsTrigger>
+                <TabsTrigger value="all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading && <p className="text-sm text-muted-foreground">Loading incidents...</p>}
+            {!isLoading && visibleIncidents.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No {filter === 'all' ? '' : filter} incidents. Incidents open automatically when a sensor detects fire.
+              </p>
+            )}
+            {visibleIncidents.map(incident => (
+              <button
+                key={incident.id}
+                type="button"
+                onClick={() => setSelectedId(incident.id)}
+                className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                  selected?.id === incident.id
+                    ? 'border-forest-primary bg-forest-primary/10'
+                    : 'border-forest-accent/30 hover:bg-forest-accent/20'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="font-medium text-sm">{incident.title}</span>
+                  <Badge className={STATUS_STYLES[incident.status]}>{INCIDENT_STATUS_LABELS[incident.status]}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Opened {formatDistanceToNow(new Date(incident.openedAt), { addSuffix: true })} ·{' '}
+                  {incident.sensorIds.length} sensor{incident.sensorIds.length === 1 ? '' : 's'}
+                  {incident.unsynced && <span className="text-amber-600"> · Not synced yet</span>}
+                </p>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {selected ? (
+          <div className="space-y-6">
+            <Card className="glass-card border-forest-accent/30">
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="text-forest-primary">{selected.title}</CardTitle>
+                  <CardDescription>
+                    Opened {new Date(selected.openedAt).toLocaleString()}
+                    {selected.closedAt && ` · Closed ${new Date(selected.closedAt).toLocaleString()}`}
+                    {selected.unsynced && ' · Saved on this device, will sync when the backend is reachable'}
+                  </CardDescription>
+                </div>
+                <Badge className={STATUS_STYLES[selected.status]}>{INCIDENT_STATUS_LABELS[selected.status]}</Badge>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="flex items-start gap-2">
+                    <MapPin className="w-4 h-4 mt-0.5 text-forest-primary" />
+                    <span>
+                      {selected.latitude.toFixed(5)}, {selected.longitude.toFixed(5)}
+                    </span>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <Users className="w-4 h-4 mt-0.5 text-forest-primary" />
+                    <span>{selected.crew || 'No crew assigned'}</span>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <Radar className="w-4 h-4 mt-0.5 text-forest-primary" />
+                    <div className="flex flex-wrap gap-1">
+                      {selected.sensorIds.map(sensorId => (
+                        <Button
+                          key={sensorId}
+                          variant="outline"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => navigate(`/monitoring/${sensorId}`)}
+                        >
+                          {sensorId}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <ClipboardList className="w-4 h-4 mt-0.5 text-forest-primary" />
+                    {selected.sessionIds.length > 0 ? (
+                      <Button variant="link" className="h-auto p-0 text-sm" onClick={() => navigate('/reports')}>
+                        {selected.sessionIds.length} monitoring session{selected.sessionIds.length === 1 ? '' : 's'}
+                      </Button>
+                    ) : (
+                      <span className="text-muted-foreground">No monitoring sessions yet</span>
+                    )}
+                  </div>
+                </div>
+
+                {selected.outcome && (
+                  <div className="rounded-lg bg-forest-accent/20 p-3">
+                    <span className="font-medium">Outcome:</span> {selected.outcome}
+                  </div>
+                )}
+
+                {canManage && isIncidentOpen(selected) && (
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    {INCIDENT_TRANSITIONS[selected.status].map(status => (
+                      <Button
+                        key={status}
+                        size="sm"
+                        variant={status === 'false_alarm' ? 'outline' : 'default'}
+                        className={status === 'false_alarm' ? '' : 'bg-forest-primary text-white hover:bg-forest-primary/90'}
+                        onClick={() => openTransitionDialog(status)}
+                      >
+                        {ACTION_LABELS[status]}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="glass-card border-forest-accent/30">
+              <CardHeader>
+                <CardTitle className="text-forest-primary">Audit Trail</CardTitle>
+                <CardDescription>Every change to this incident, oldest first.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ol className="relative border-l border-forest-accent/40 ml-2 space-y-4">
+                  {selected.events.map(event => (
+                    <li key={event.id} className="ml-4">
+                      <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-forest-primary" />
+                      <p className="text-sm font-medium">{describeEvent(event)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {event.actor.name} · {new Date(event.at).toLocaleString()}
+                      </p>
+                      {event.note && <p className="text-sm mt-1 whitespace-pre-wrap">{event.note}</p>}
+                    </li>
+                  ))}
+                </ol>
+
+                {canManage && (
+                  <div className="flex gap-2 items-end">
+                    <Textarea
+                      placeholder="Add a note to the audit trail"
+                      value={comment}
+                      onChange={event => setComment(event.target.value)}
+                      className="min-h-[40px]"
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={!comment.trim() || addNote.isPending}
+                      onClick={() => addNote.mutate(selected)}
+                    >
+                      <MessageSquarePlus className="w-4 h-4 mr-2" />
+                      Add
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          !isLoading && (
+            <Card className="glass-card border-forest-accent/30 flex items-center justify-center p-12 text-muted-foreground">
+              Select an incident to see its details.
+            </Card>
+          )
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Incidents;
@@ -1,8 +1,19 @@
 // src/pages/LiveMonitoring.tsx
-import React, { useState, useEffect, useCallback } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { getFireAlerts, getFireAlertByDeviceId } from '@/api/fireAlerts';
-import { getWeatherData, type WeatherData as ApiWeatherData } from '@/api/weatherApi';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { DeviceNotFoundError } from '@/api/fireAlerts';
+import { toSensorData } from '@/api/sensorRepository';
+import { predictFireWithML } from '@/api/mlApi';
+import { getDeviceHistory } from '@/api/history';
+import { useSensor, useSensors } from '@/hooks/use-sensors';
+import { useSettings } from '@/hooks/use-settings';
+import { useAuth } from '@/hooks/use-auth';
+import { INCIDENTS_QUERY_KEY } from '@/hooks/use-incidents';
+import { linkSessionsToIncidents, useFireAlertSessions } from '@/hooks/use-sessions';
+import { recordMlPrediction } from '@/lib/sessionTracker';
+import { formatTemperature } from '@/lib/units';
+import { getWeatherData, WeatherNotConfiguredError, type WeatherData as ApiWeatherData } from '@/api/weatherApi';
+import WeatherNotConfigured from '@/components/WeatherNotConfigured';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -32,34 +43,10 @@ import {
 import { SidebarTrigger } from '@/components/ui/sidebar';
 import { useParams, useNavigate } from 'react-router-dom';
 import { SensorData } from '@/types/sensor';
+import type { MLPrediction, SensorReading } from '@/types/session';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 
-interface SensorReading {
-  id: string;
-  deviceId: string;
-  latitude: number;
-  longitude: number;
-  humidity: number;
-  temp: number;
-  smoke: number;
-  isFire: boolean;
-  timestamp: string;
-  name: string;
-  status: string;
-  weatherData?: {
-    temp_max: number;
-    temp_min: number;
-    wind_speed: number;
-    wind_gust: number;
-    current_temp: number;
-    feels_like: number;
-    humidity: number;
-    pressure: number;
-    description: string;
-  };
-}
-
 interface WeatherData {
   temp: number;
   feels_like: number;
@@ -73,103 +60,6 @@ interface WeatherData {
   icon: string;
 }
 
-interface MLPrediction {
-  id: string;
-  timestamp: string;
-  input_data: {
-    temperature: number;
-    humidity: number;
-    smoke: number;
-    temp_max: number;
-    temp_min: number;
-    wind_speed: number;
-    wind_gust: number;
-  };
-  prediction: number;
-  level: string;
-  emoji: string;
-  message: string;
-  confidence?: number;
-  probabilities?: Record<string, number>;
-  status: 'processing' | 'completed' | 'failed';
-}
-
-interface FireAlertSession {
-  id: string;
-  deviceId: string;
-  startTime: string;
-  endTime: string | null;
-  readings: SensorReading[];
-  mlPredictions: MLPrediction[];
-  maxTemp: number;
-  minTemp: number;
-  avgTemp: number;
-  maxSmoke: number;
-  minSmoke: number;
-  avgSmoke: number;
-  maxHumidity: number;
-  minHumidity: number;
-  avgHumidity: number;
-  status: 'active' | 'completed';
-  mlConfirmed: boolean;
-}
-
-// REAL ML Prediction API Call
-const predictFireWithML = async (data: {
-  temperature: number;
-  humidity: number;
-  smoke: number;
-  temp_max: number;
-  temp_min: number;
-  wind_speed: number;
-  wind_gust: number;
-}): Promise<{
-  prediction: number;
-  level: string;
-  emoji: string;
-  message: string;
-  probabilities?: Record<string, number>;
-}> => {
-  const response = await fetch('https://forest-fire-api2.onrender.com/predict', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(data),
-  });
-
-  if (!response.ok) {
-    throw new Error(`ML API error: ${response.status}`);
-  }
-
-  const result = await response.json();
-  return result;
-};
-
-// Convert API data to SensorData format
-const convertApiToSensorData = (apiDevices: any[]): SensorData[] => {
-  if (!apiDevices || !Array.isArray(apiDevices)) return [];
-
-  return apiDevices.map(device => {
-    const deviceId = device.deviceId || device.id || (device._id ? `DEV-${device._id.slice(-4)}` : 'DEV-unknown');
-    const id = device._id || device.id || deviceId;
-
-    return {
-      id: id,
-      deviceId: deviceId,
-      latitude: device.latitude || 0,
-      longitude: device.longitude || 0,
-      humidity: device.humidity || 0,
-      temp: device.temp || device.temperature || 0,
-      smoke: device.smoke || 0,
-      isFire: device.isfire || device.isFire || false,
-      timestamp: device.lastUpdate || device.timestamp || new Date().toISOString(),
-      name: device.name || `Sensor ${deviceId}`,
-      status: device.isfire || device.isFire ? 'warning' : 'active',
-    };
-  });
-};
-
 // Process weather data
 const processWeatherData = (weatherData: ApiWeatherData): WeatherData => {
   return {
@@ -211,15 +101,18 @@ const LiveMonitoring: React.FC = () => {
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [sensorReadings, setSensorReadings] = useState<SensorReading[]>([]);
   const [isMonitoringFire, setIsMonitoringFire] = useState<boolean>(false);
-  const [activeSessions, setActiveSessions] = useState<FireAlertSession[]>([]);
-  const [completedSessions, setCompletedSessions] = useState<FireAlertSession[]>([]);
-  const [currentSession, setCurrentSession] = useState<FireAlertSession | null>(null);
+  const { active: activeSessions } = useFireAlertSessions();
   const [lastProcessedTimestamp, setLastProcessedTimestamp] = useState<string>('');
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [mlPredictions, setMlPredictions] = useState<MLPrediction[]>([]);
   const [isMlProcessing, setIsMlProcessing] = useState<boolean>(false);
   const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
   const [isLoadingWeather, setIsLoadingWeather] = useState<boolean>(false);
+  const [weatherMissing, setWeatherMissing] = useState(false);
+  const lastWeatherFetchRef = useRef<{ sensorId: string; at: number } | null>(null);
+  const { polling: { weatherIntervalMs }, units } = useSettings();
+  const { logout, can } = useAuth();
+  const queryClient = useQueryClient();
   const [showVerificationButton, setShowVerificationButton] = useState<boolean>(false);
   const { sensorId } = useParams();
   const navigate = useNavigate();
@@ -230,14 +123,9 @@ const LiveMonitoring: React.FC = () => {
     isLoading: isLoadingSensors, 
     refetch: refetchSensors,
     error: sensorsError 
-  } = useQuery({
-    queryKey: ['allFireAlerts'],
-    queryFn: getFireAlerts,
-    refetchInterval: 10000,
-  });
+  } = useSensors();
 
-  // Convert API data to sensor format
-  const availableSensors = convertApiToSensorData(allSensorsData || []);
+  const availableSensors = allSensorsData || [];
 
   // Get sensor ID from URL parameters if available
   useEffect(() => {
@@ -255,12 +143,7 @@ const LiveMonitoring: React.FC = () => {
     isLoading: isLoadingSensor, 
     error: sensorError, 
     refetch: refetchSensor 
-  } = useQuery({
-    queryKey: ['fireAlerts', selectedSensorId],
-    queryFn: () => selectedSensorId ? getFireAlertByDeviceId(selectedSensorId) : null,
-    refetchInterval: 5000,
-    enabled: !!selectedSensorId,
-  });
+  } = useSensor(selectedSensorId);
 
   // Fetch weather data when sensor is selected or readings update
   const fetchWeatherData = useCallback(async (lat: number, lon: number) => {
@@ -271,19 +154,18 @@ const LiveMonitoring: React.FC = () => {
       const apiWeatherData = await getWeatherData(lat, lon);
       const processedData = processWeatherData(apiWeatherData);
       setWeatherData(processedData);
+      setWeatherMissing(false);
     } catch (error) {
-      console.error('Error fetching weather data:', error);
+      if (error instanceof WeatherNotConfiguredError) {
+        setWeatherMissing(true);
+      } else {
+        console.error('Error fetching weather data:', error);
+      }
     } finally {
       setIsLoadingWeather(false);
     }
   }, []);
 
-  // Load saved sessions on component mount
-  useEffect(() => {
-    const savedSessions = JSON.parse(localStorage.getItem('fireAlertSessions') || '[]');
-    setCompletedSessions(savedSessions);
-  }, []);
-
   // Check if reading is a duplicate
   const isDuplicateReading = useCallback((newReading: SensorReading, existingReadings: SensorReading[]) => {
     return existingReadings.some(reading => 
@@ -340,6 +222,16 @@ const LiveMonitoring: React.FC = () => {
         prev.map(p => p.id === predictionId ? completedPrediction : p)
       );
 
+      // Sessions are tracked app-wide; the model can confirm a fire the device missed
+      const started = recordMlPrediction(reading, completedPrediction);
+      if (started && can('incidents:manage')) {
+        linkSessionsToIncidents([started])
+          .then(linked => {
+            if (linked) queryClient.invalidateQueries({ queryKey: INCIDENTS_QUERY_KEY });
+          })
+          .catch(error => console.error('Error linking session to incident:', error));
+      }
+
       return completedPrediction;
     } catch (error) {
       console.error('ML Prediction error:', error);
@@ -359,24 +251,12 @@ const LiveMonitoring: React.FC = () => {
     } finally {
       setIsMlProcessing(false);
     }
-  }, []);
+  }, [queryClient, can]);
 
   // Convert API data to sensor format and store readings history
   useEffect(() => {
     if (apiResponse && selectedSensorId) {
-      const newReading: SensorReading = {
-        id: apiResponse.id || Date.now().toString(),
-        deviceId: apiResponse.deviceId,
-        latitude: apiResponse.latitude,
-        longitude: apiResponse.longitude,
-        humidity: apiResponse.humidity,
-        temp: apiResponse.temp,
-        smoke: apiResponse.smoke,
-        isFire: apiResponse.isFire,
-        timestamp: apiResponse.timestamp || new Date().toISOString(),
-        name: `Sensor ${apiResponse.deviceId}`,
-        status: apiResponse.isFire ? 'warning' : 'active'
-      };
+      const newReading: SensorReading = toSensorData(apiResponse);
 
       setSensorReadings(prev => {
         if (isDuplicateReading(newReading, prev)) {
@@ -401,13 +281,50 @@ const LiveMonitoring: React.FC = () => {
     }
   }, [apiResponse, selectedSensorId, isDuplicateReading, processMlPrediction, weatherData]);
 
-  // Update weather data when sensor readings change
+  // Restore recent readings from the local history store so the list survives reloads
+  useEffect(() => {
+    if (!selectedSensorId) return;
+
+    let cancelled = false;
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    getDeviceHistory(selectedSensorId, since)
+      .then(history => {
+        if (cancelled || history.length === 0) return;
+
+        // Rate each stored reading as of when it was taken, not as stale data
+        const restored = history
+          .slice(-20)
+          .reverse()
+          .map(alert => toSensorData(alert, { now: new Date(alert.timestamp).getTime() }));
+        setSensorReadings(prev => {
+          const seen = new Set(prev.map(reading => new Date(reading.timestamp).getTime()));
+          const merged = [...prev, ...restored.filter(reading => !seen.has(new Date(reading.timestamp).getTime()))];
+          return merged
+            .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+            .slice(0, 20);
+        });
+      })
+      .catch(() => {
+        // History is best-effort; live polling still fills the list
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedSensorId]);
+
+  // Update weather data when sensor readings change, at most once per weather interval per sensor
   useEffect(() => {
     if (selectedSensorId && sensorReadings.length > 0) {
       const latestReading = sensorReadings[0];
+      const lastFetch = lastWeatherFetchRef.current;
+      if (lastFetch?.sensorId === selectedSensorId && Date.now() - lastFetch.at < weatherIntervalMs) return;
+
+      lastWeatherFetchRef.current = { sensorId: selectedSensorId, at: Date.now() };
       fetchWeatherData(latestReading.latitude, latestReading.longitude);
     }
-  }, [selectedSensorId, sensorReadings, fetchWeatherData]);
+  }, [selectedSensorId, sensorReadings, fetchWeatherData, weatherIntervalMs]);
 
   // Show verification button ONLY when API indicates fire or ML confirms
   useEffect(() => {
@@ -439,110 +356,6 @@ const LiveMonitoring: React.FC = () => {
     }
   }, [sensorReadings, mlPredictions]);
 
-  // Handle session tracking with REAL ML integration
-  useEffect(() => {
-    if (sensorReadings.length > 0 && weatherData) {
-      const latestReading = sensorReadings[0];
-      
-      const plainReading = {
-        id: latestReading.id,
-        deviceId: latestReading.deviceId,
-        latitude: latestReading.latitude,
-        longitude: latestReading.longitude,
-        humidity: latestReading.humidity,
-        temp: latestReading.temp,
-        smoke: latestReading.smoke,
-        isFire: latestReading.isFire,
-        timestamp: latestReading.timestamp,
-        name: latestReading.name,
-        status: latestReading.status,
-        weatherData: latestReading.weatherData
-      };
-      
-      // Check ML predictions for this device
-      const recentMlPredictions = mlPredictions.filter(pred => 
-        pred.input_data.temperature === latestReading.temp &&
-        pred.input_data.humidity === latestReading.humidity &&
-        pred.input_data.smoke === latestReading.smoke &&
-        pred.status === 'completed'
-      );
-
-      // ML confirms fire if prediction === 1
-      const mlConfirmed = recentMlPredictions.some(pred => pred.prediction === 1);
-      
-      // Start session only if API indicates fire OR ML confirms fire
-      const shouldStartSession = latestReading.isFire || mlConfirmed;
-      
-      if (shouldStartSession && !currentSession) {
-        const newSession: FireAlertSession = {
-          id: `session-${Date.now()}`,
-          deviceId: plainReading.deviceId,
-          startTime: plainReading.timestamp,
-          endTime: null,
-          readings: [plainReading],
-          mlPredictions: recentMlPredictions,
-          maxTemp: plainReading.temp,
-          minTemp: plainReading.temp,
-          avgTemp: plainReading.temp,
-          maxSmoke: plainReading.smoke,
-          minSmoke: plainReading.smoke,
-          avgSmoke: plainReading.smoke,
-          maxHumidity: plainReading.humidity,
-          minHumidity: plainReading.humidity,
-          avgHumidity: plainReading.humidity,
-          status: 'active',
-          mlConfirmed
-        };
-        
-        setCurrentSession(newSession);
-        setActiveSessions(prev => [...prev, newSession]);
-      }
-      
-      else if (shouldStartSession && currentSession) {
-        const updatedSession = {
-          ...currentSession,
-          readings: [plainReading, ...currentSession.readings.slice(0, 49)],
-          mlPredictions: [...recentMlPredictions, ...currentSession.mlPredictions].slice(0, 20),
-          maxTemp: Math.max(currentSession.maxTemp, plainReading.temp),
-          minTemp: Math.min(currentSession.minTemp, plainReading.temp),
-          maxSmoke: Math.max(currentSession.maxSmoke, plainReading.smoke),
-          minSmoke: Math.min(currentSession.minSmoke, plainReading.smoke),
-          maxHumidity: Math.max(currentSession.maxHumidity, plainReading.humidity),
-          minHumidity: Math.min(currentSession.minHumidity, plainReading.humidity),
-          mlConfirmed: currentSession.mlConfirmed || mlConfirmed
-        };
-        
-        const totalReadings = updatedSession.readings.length;
-        updatedSession.avgTemp = updatedSession.readings.reduce((sum, r) => sum + r.temp, 0) / totalReadings;
-        updatedSession.avgSmoke = updatedSession.readings.reduce((sum, r) => sum + r.smoke, 0) / totalReadings;
-        updatedSession.avgHumidity = updatedSession.readings.reduce((sum, r) => sum + r.humidity, 0) / totalReadings;
-        
-        setCurrentSession(updatedSession);
-        setActiveSessions(prev => 
-          prev.map(session => 
-            session.id === updatedSession.id ? updatedSession : session
-          )
-        );
-      }
-      
-      else if (!shouldStartSession && currentSession) {
-        const completedSession = {
-          ...currentSession,
-          endTime: plainReading.timestamp,
-          status: 'completed' as const
-        };
-        
-        setCurrentSession(null);
-        setActiveSessions(prev => prev.filter(session => session.id !== completedSession.id));
-        
-        setCompletedSessions(prev => [completedSession, ...prev.slice(0, 9)]);
-        
-        const savedSessions = JSON.parse(localStorage.getItem('fireAlertSessions') || '[]');
-        localStorage.setItem('fireAlertSessions', JSON.stringify([completedSession, ...savedSessions.slice(0, 9)]));
-      }
-    }
-  }, [sensorReadings, currentSession, mlPredictions, weatherData]);
-
   const handleManualRefresh = async () => {
     setIsRefreshing(true);
     await refetchSensor();
@@ -588,7 +401,8 @@ const LiveMonitoring: React.FC = () => {
   };
 
   const formatTimestamp = (timestamp: string) => {
-    return new Date(timestamp).toLocaleTimeString();
+    const date = new Date(timestamp);
+    return Number.isNaN(date.getTime()) ? 'Unknown' : date.toLocaleTimeString();
   };
 
   const formatDuration = (startTime: string, endTime: string | null) => {
@@ -632,10 +446,6 @@ const LiveMonitoring: React.FC = () => {
     }
   };
 
-  const handleLogout = () => {
-    window.location.href = "https://dimriutkarsh.github.io/Van-updated/login.html";
-  };
-
   // Calculate metrics for enhanced display
   const currentSensor = availableSensors.find(sensor => sensor.deviceId === selectedSensorId);
   const totalSensors = availableSensors.length;
@@ -735,7 +545,7 @@ const LiveMonitoring: React.FC = () => {
             variant="ghost"
             size="sm"
             className="text-red-600 hover:bg-red-50 transition-all duration-200"
-            onClick={handleLogout}
+            onClick={logout}
           >
             <LogOut className="w-4 h-4 mr-2" />
             Logout
@@ -902,7 +712,8 @@ const LiveMonitoring: React.FC = () => {
                         <SelectItem key={sensor.deviceId} value={sensor.deviceId}>
                           <div className="flex items-center gap-3 py-1">
                             <div className={`w-2 h-2 rounded-full ${
-                              sensor.isFire ? 'bg-red-500 animate-pulse' : 
+                              sensor.isFire ? 'bg-red-500 animate-pulse' :
+                              sensor.status === 'inactive' ? 'bg-slate-400' : 
                               sensor.status === 'warning' ? 'bg-amber-500' : 'bg-emerald-500'
                             }`}></div>
                             <div>
@@ -929,7 +740,7 @@ const LiveMonitoring: React.FC = () => {
                 {sensorError && (
                   <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 px-3 py-2 rounded-lg">
                     <AlertTriangle className="w-4 h-4" />
-                    Sensor connection error
+                    {sensorError instanceof DeviceNotFoundError ? `Sensor ${selectedSensorId} not found` : 'Sensor connection error'}
                   </div>
                 )}
                 {sensorsError && (
@@ -1004,7 +815,7 @@ const LiveMonitoring: React.FC = () => {
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-3xl font-bold text-slate-800">{latestReading.temp}°C</div>
+                    <div className="text-3xl font-bold text-slate-800">{formatTemperature(latestReading.temp, units.temperature)}</div>
                     <Progress 
                       value={Math.min(latestReading.temp, 100)} 
                       className="h-2 mt-3 bg-slate-200"
@@ -1045,6 +856,10 @@ const LiveMonitoring: React.FC = () => {
                 </Card>
               </div>
 
+              {!weatherData && weatherMissing && (
+                <WeatherNotConfigured className="mb-6" impact="ML predictions wait for weather inputs." />
+              )}
+
               {/* Weather Data Display from Real API */}
               {weatherData && (
                 <div className="mb-6">
@@ -1063,12 +878,12 @@ const LiveMonitoring: React.FC = () => {
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <div className="text-center p-4 bg-blue-50 rounded-xl border border-blue-200">
                       <div className="text-sm font-medium text-blue-700 mb-1">Temperature</div>
-                      <div className="text-xl font-bold text-blue-900">{weatherData.temp}°C</div>
+                      <div className="text-xl font-bold text-blue-900">{formatTemperature(weatherData.temp, units.temperature)}</div>
                       <div className="text-xs text-blue-600">Current</div>
                     </div>
                     <div className="text-center p-4 bg-blue-50 rounded-xl border border-blue-200">
                       <div className="text-sm font-medium text-blue-700 mb-1">Feels Like</div>
-                      <div className="text-xl font-bold text-blue-900">{weatherData.feels_like}°C</div>
+                      <div className="text-xl font-bold text-blue-900">{formatTemperature(weatherData.feels_like, units.temperature)}</div>
                       <div className="text-xs text-blue-600">Perceived</div>
                     </div>
                     <div className="text-center p-4 bg-blue-50 rounded-xl border border-blue-200">
@@ -1230,7 +1045,7 @@ const LiveMonitoring: React.FC = () => {
                         Sensor Temp
                       </div>
                       <div className="text-lg font-bold text-slate-800">
-                        {latestMlPrediction.input_data.temperature}°C
+                        {formatTemperature(latestMlPrediction.input_data.temperature, units.temperature)}
                       </div>
                     </div>
                     <div className="text-center p-3 bg-slate-50 rounded-lg border border-slate-200">
@@ -1254,7 +1069,7 @@ const LiveMonitoring: React.FC = () => {
                         Max Temp
                       </div>
                       <div className="text-lg font-bold text-slate-800">
-                        {latestMlPrediction.input_data.temp_max}°C
+                        {formatTemperature(latestMlPrediction.input_data.temp_max, units.temperature)}
                       </div>
                     </div>
                     <div className="text-center p-3 bg-slate-50 rounded-lg border border-slate-200">
@@ -1262,7 +1077,7 @@ const LiveMonitoring: React.FC = () => {
                         Min Temp
                       </div>
                       <div className="text-lg font-bold text-slate-800">
-                        {latestMlPrediction.input_data.temp_min}°C
+                        {formatTemperature(latestMlPrediction.input_data.temp_min, units.temperature)}
                       </div>
                     </div>
                     <div className="text-center p-3 bg-slate-50 rounded-lg border border-slate-200">
@@ -1371,7 +1186,7 @@ const LiveMonitoring: React.FC = () => {
                       <div className="grid grid-cols-3 gap-4 text-sm">
                         <div className="flex items-center gap-2">
                           <Thermometer className="w-4 h-4 text-red-500" />
-                          <span className="font-medium text-slate-800">{reading.temp}°C</span>
+                          <span className="font-medium text-slate-800">{formatTemperature(reading.temp, units.temperature)}</span>
                         </div>
                         <div className="flex items-center gap-2">
                           <Droplets className="w-4 h-4 text-blue-500" />
@@ -1438,7 +1253,7 @@ const LiveMonitoring: React.FC = () => {
                       </div>
                       <div>
                         <span className="text-red-600 font-medium">Max Temp:</span>
-                        <div className="font-semibold text-red-800">{session.maxTemp.toFixed(1)}°C</div>
+                        <div className="font-semibold text-red-800">{formatTemperature(session.maxTemp, units.temperature)}</div>
                       </div>
                       <div>
                         <span className="text-red-600 font-medium">Max Smoke:</span>
@@ -0,0 +1,116 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Navigate, useLocation, type Location } from 'react-router-dom';
+import { Loader2, LogIn } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAuth } from '@/hooks/use-auth';
+import { getIdentityProvider, STUB_ACCOUNTS } from '@/api/auth';
+import { ROLE_LABELS } from '@/lib/auth';
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1, 'Enter your username'),
+  password: z.string().min(1, 'Enter your password'),
+});
+
+type LoginValues = z.infer<typeof loginSchema>;
+
+const Login: React.FC = () => {
+  const { user, login } = useAuth();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
+  const isStub = getIdentityProvider().name === 'stub';
+
+  const form = useForm<LoginValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: '', password: '' },
+  });
+
+  if (user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const onSubmit = async (values: LoginValues) => {
+    try {
+      // Signing in re-renders this page, which then redirects
+      await login({ username: values.username, password: values.password });
+    } catch (error) {
+      form.setError('root', { message: error instanceof Error ? error.message : 'Sign-in failed' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <Card className="glass-card border-forest-accent/30 w-full max-w-sm">
+        <CardHeader className="text-center">
+          <img src="/logo.jpg" alt="VanRakshak Logo" className="w-12 h-12 rounded-lg object-cover mx-auto mb-2" />
+          <CardTitle className="text-forest-primary">VanRakshak</CardTitle>
+          <CardDescription>Sign in to the Forest Department Dashboard</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {form.formState.errors.root && (
+                <Alert variant="destructive">
+                  <AlertDescription>{form.formState.errors.root.message}</AlertDescription>
+                </Alert>
+              )}
+
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" autoFocus {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                disabled={form.formState.isSubmitting}
+                className="w-full bg-forest-primary text-white hover:bg-forest-primary/90"
+              >
+                {form.formState.isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LogIn className="w-4 h-4 mr-2" />}
+                Sign In
+              </Button>
+
+              {isStub && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Stub sign-in: {STUB_ACCOUNTS.map(account => `${account.username} (${ROLE_LABELS[account.role]})`).join(', ')}.
+                  The password is the username.
+                </p>
+              )}
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
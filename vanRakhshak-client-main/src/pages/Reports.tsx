@@ -1,11 +1,30 @@
 // src/pages/Reports.tsx
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
-import { LogOut, Calendar, Clock, Thermometer, Droplets, Wind, MapPin, AlertTriangle, Trash2, BarChart3, Download, Activity } from 'lucide-react';
+import { LogOut, ChevronLeft, ChevronRight, Calendar, Clock, Thermometer, Droplets, Wind, MapPin, AlertTriangle, Trash2, BarChart3, Download, Activity, Upload, GitCompareArrows } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { classifyReading, classifySessionPeak, type AlertLevel } from '@/lib/thresholds';
+import { useSettings } from '@/hooks/use-settings';
+import { useAuth } from '@/hooks/use-auth';
+import { SESSIONS_QUERY_KEY, useSessionPage } from '@/hooks/use-sessions';
+import { deleteArchivedSession, hasSessionFilters, listSessions, type SessionFilters } from '@/lib/sessionArchive';
+import { downloadSessionReport, formatDuration } from '@/lib/sessionReport';
+import { sessionExportDataset } from '@/lib/dataExport';
+import { MAX_COMPARED_SESSIONS } from '@/lib/sessionAnalytics';
+import ExportMenu from '@/components/ExportMenu';
+import ImportDataDialog from '@/components/ImportDataDialog';
+import SessionAnalytics from '@/components/SessionAnalytics';
+import DigestReports from '@/components/DigestReports';
+import SessionComparison from '@/components/SessionComparison';
+import SessionFilterBar from '@/components/SessionFilterBar';
+import type { FireAlertSession, SensorReading } from '@/types/session';
+import { formatTemperature, temperatureSymbol, toDisplayTemperature } from '@/lib/units';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,90 +41,51 @@ import {
 } from 'recharts';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
-interface SensorReading {
-  id: string;
-  deviceId: string;
-  latitude: number;
-  longitude: number;
-  humidity: number;
-  temp: number;
-  smoke: number;
-  isFire: boolean;
-  timestamp: string;
-  name: string;
-  status: string;
-  weatherData?: {
-    temp_max: number;
-    temp_min: number;
-    wind_speed: number;
-    wind_gust: number;
-    current_temp: number;
-    feels_like: number;
-    humidity: number;
-    pressure: number;
-    description: string;
-  };
-}
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
-interface FireAlertSession {
-  id: string;
-  deviceId: string;
-  startTime: string;
-  endTime: string | null;
-  readings: SensorReading[];
-  maxTemp: number;
-  minTemp: number;
-  avgTemp: number;
-  maxSmoke: number;
-  minSmoke: number;
-  avgSmoke: number;
-  maxHumidity: number;
-  minHumidity: number;
-  avgHumidity: number;
-  status: 'active' | 'completed';
-  mlPredictions?: any[];
-  mlConfirmed?: boolean;
-}
+const RISK_LABELS: Record<AlertLevel, string> = { normal: 'Low', warning: 'Medium', fire: 'High' };
+const RISK_TEXT_COLORS: Record<AlertLevel, string> = { normal: 'text-green-600', warning: 'text-amber-600', fire: 'text-red-600' };
+const RISK_BAR_COLORS: Record<AlertLevel, string> = { normal: 'bg-green-500', warning: 'bg-amber-500', fire: 'bg-red-500' };
 
-const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
+const SESSIONS_PAGE_SIZE = 20;
 
 const Reports: React.FC = () => {
-  const [sessions, setSessions] = useState<FireAlertSession[]>([]);
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(0);
+  const { thresholds: thresholdProfiles, units, map } = useSettings();
+  const [filterValues, setFilterValues] = useState<SessionFilters>({});
+  // Peak severity is rated against the live threshold profiles
+  const filters = useMemo(
+    () => ({ ...filterValues, thresholds: filterValues.peakLevel ? thresholdProfiles : undefined }),
+    [filterValues, thresholdProfiles]
+  );
+  const hasFilters = hasSessionFilters(filters);
+  const { data: sessionPage, isLoading: sessionsLoading } = useSessionPage({
+    ...filters,
+    page,
+    pageSize: SESSIONS_PAGE_SIZE,
+  });
+  const sessions = sessionPage?.sessions ?? [];
+  const totalSessions = sessionPage?.total ?? 0;
+  const pageCount = sessionPage?.pageCount ?? 1;
   const [selectedSession, setSelectedSession] = useState<FireAlertSession | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  // Kept across pages and filter changes until removed or compare mode is left
+  const [compareSessions, setCompareSessions] = useState<FireAlertSession[]>([]);
   const [sessionToDelete, setSessionToDelete] = useState<string | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [activeTab, setActiveTab] = useState("overview");
+  // Page-level view; activeTab is the tab inside the selected session
+  const [view, setView] = useState('sessions');
   const navigate = useNavigate();
-
-  useEffect(() => {
-    const savedSessions = JSON.parse(localStorage.getItem('fireAlertSessions') || '[]');
-    setSessions(savedSessions);
-  }, []);
+  const [generatingReport, setGeneratingReport] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const { user, can, logout } = useAuth();
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
 
-  const getDuration = (start: string, end: string | null) => {
-    if (!end) return 'Ongoing';
-    
-    const startTime = new Date(start).getTime();
-    const endTime = new Date(end).getTime();
-    const durationMs = endTime - startTime;
-    
-    const hours = Math.floor(durationMs / (1000 * 60 * 60));
-    const minutes = Math.floor((durationMs % (1000 * 60 * 60)) / (1000 * 60));
-    const seconds = Math.floor((durationMs % (1000 * 60)) / 1000);
-    
-    if (hours > 0) {
-      return `${hours}h ${minutes}m ${seconds}s`;
-    } else if (minutes > 0) {
-      return `${minutes}m ${seconds}s`;
-    } else {
-      return `${seconds}s`;
-    }
-  };
-
   const handleMainSite = () => {
     navigate('/');
   };
@@ -119,14 +99,16 @@ const Reports: React.FC = () => {
   };
 
   const getStatusColor = (reading: SensorReading) => {
-    if (reading.isFire) return 'text-red-600';
-    if (reading.temp > 35 || reading.smoke > 50) return 'text-yellow-600';
+    const level = classifyReading(reading, thresholdProfiles);
+    if (level === 'fire') return 'text-red-600';
+    if (level === 'warning') return 'text-yellow-600';
     return 'text-green-600';
   };
 
   const getStatusText = (reading: SensorReading) => {
-    if (reading.isFire) return 'FIRE_DETECTED';
-    if (reading.temp > 35 || reading.smoke > 50) return 'WARNING';
+    const level = classifyReading(reading, thresholdProfiles);
+    if (level === 'fire') return 'FIRE_DETECTED';
+    if (level === 'warning') return 'WARNING';
     return 'NORMAL';
   };
 
@@ -136,22 +118,58 @@ const Reports: React.FC = () => {
     setShowDeleteDialog(true);
   };
 
-  const confirmDelete = () => {
-    if (sessionToDelete) {
-      const updatedSessions = sessions.filter(session => session.id !== sessionToDelete);
-      setSessions(updatedSessions);
-      localStorage.setItem('fireAlertSessions', JSON.stringify(updatedSessions));
+  const confirmDelete = async () => {
+    if (sessionToDelete && can('sessions:delete')) {
+      try {
+        await deleteArchivedSession(sessionToDelete);
+      } catch (error) {
+        console.error('Error deleting session:', error);
+      }
+      // Step back if that was the only session on the last page
+      if (sessions.length === 1 && page > 0) setPage(page - 1);
+      await queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
       
       // If the deleted session was selected, clear the selection
       if (selectedSession && selectedSession.id === sessionToDelete) {
         setSelectedSession(null);
       }
+      removeFromComparison(sessionToDelete);
       
       setSessionToDelete(null);
       setShowDeleteDialog(false);
     }
   };
 
+  // Any filter change starts again from the first page
+  const handleFiltersChange = (next: SessionFilters) => {
+    setFilterValues(next);
+    setPage(0);
+  };
+
+  const removeFromComparison = (sessionId: string) => {
+    setCompareSessions(current => current.filter(session => session.id !== sessionId));
+  };
+
+  const toggleComparison = (session: FireAlertSession) => {
+    if (compareSessions.some(compared => compared.id === session.id)) {
+      removeFromComparison(session.id);
+    } else if (compareSessions.length >= MAX_COMPARED_SESSIONS) {
+      toast.error(`Compare up to ${MAX_COMPARED_SESSIONS} sessions at a time`);
+    } else {
+      setCompareSessions(current => [...current, session]);
+    }
+  };
+
+  const toggleCompareMode = () => {
+    if (compareMode) {
+      setCompareSessions([]);
+    } else if (selectedSession) {
+      // Start from the session being viewed
+      setCompareSessions([selectedSession]);
+    }
+    setCompareMode(!compareMode);
+  };
+
   const cancelDelete = () => {
     setSessionToDelete(null);
     setShowDeleteDialog(false);
@@ -164,42 +182,49 @@ const Reports: React.FC = () => {
     return selectedSession.readings.map(reading => ({
       time: new Date(reading.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
       timestamp: reading.timestamp,
-      temp: reading.temp,
+      temp: toDisplayTemperature(reading.temp, units.temperature),
       smoke: reading.smoke,
       humidity: reading.humidity,
       isFire: reading.isFire ? 1 : 0,
-      status: reading.isFire ? 'Fire' : (reading.temp > 35 || reading.smoke > 50 ? 'Warning' : 'Normal')
+      status: { fire: 'Fire', warning: 'Warning', normal: 'Normal' }[classifyReading(reading, thresholdProfiles)]
     }));
-  }, [selectedSession]);
+  }, [selectedSession, thresholdProfiles, units.temperature]);
 
   // Prepare severity distribution data
   const severityData = useMemo(() => {
     if (!selectedSession) return [];
     
-    const normal = selectedSession.readings.filter(r => !r.isFire && r.temp <= 35 && r.smoke <= 50).length;
-    const warning = selectedSession.readings.filter(r => !r.isFire && (r.temp > 35 || r.smoke > 50)).length;
-    const fire = selectedSession.readings.filter(r => r.isFire).length;
+    const levels = selectedSession.readings.map(r => classifyReading(r, thresholdProfiles));
+    const normal = levels.filter(level => level === 'normal').length;
+    const warning = levels.filter(level => level === 'warning').length;
+    const fire = levels.filter(level => level === 'fire').length;
     
     return [
       { name: 'Normal', value: normal, color: '#10B981' },
       { name: 'Warning', value: warning, color: '#F59E0B' },
       { name: 'Fire', value: fire, color: '#EF4444' }
     ];
-  }, [selectedSession]);
+  }, [selectedSession, thresholdProfiles]);
+
+  const sessionRisk = useMemo(
+    () => (selectedSession ? classifySessionPeak(selectedSession, thresholdProfiles) : null),
+    [selectedSession, thresholdProfiles]
+  );
 
   // Calculate statistics for the session
   const sessionStats = useMemo(() => {
     if (!selectedSession) return null;
     
-    const fireReadings = selectedSession.readings.filter(r => r.isFire).length;
-    const warningReadings = selectedSession.readings.filter(r => !r.isFire && (r.temp > 35 || r.smoke > 50)).length;
-    const normalReadings = selectedSession.readings.filter(r => !r.isFire && r.temp <= 35 && r.smoke <= 50).length;
+    const levels = selectedSession.readings.map(r => classifyReading(r, thresholdProfiles));
+    const fireReadings = levels.filter(level => level === 'fire').length;
+    const warningReadings = levels.filter(level => level === 'warning').length;
+    const normalReadings = levels.filter(level => level === 'normal').length;
     
     // Find peak fire time
     let peakFireTime = null;
     if (fireReadings > 0) {
       const fireTimestamps = selectedSession.readings
-        .filter(r => r.isFire)
+        .filter((_, index) => levels[index] === 'fire')
         .map(r => new Date(r.timestamp).getTime());
       
       const avgFireTime = fireTimestamps.reduce((a, b) => a + b, 0) / fireTimestamps.length;
@@ -232,115 +257,34 @@ const Reports: React.FC = () => {
       weatherStats,
       hasWeatherData: readingsWithWeather.length > 0
     };
-  }, [selectedSession]);
+  }, [selectedSession, thresholdProfiles]);
 
   // Enhanced CSV export with all 7 required columns and proper formatting
-  const exportSessionData = () => {
-    if (!selectedSession) return;
-    
-    const headers = [
-      'temperature',
-      'humidity', 
-      'smoke',
-      'temp_max',
-      'temp_min',
-      'wind_speed',
-      'wind_gust'
-    ];
-
-    // Prepare data with proper fallbacks for missing weather data
-    const data = selectedSession.readings.map(reading => {
-      const weather = reading.weatherData;
-      
-      // Use actual sensor temperature for temperature column
-      // For weather temp_max and temp_min, use calculated values or fallbacks
-      return [
-        reading.temp,                    // temperature (sensor)
-        reading.humidity,               // humidity (sensor)
-        reading.smoke,                  // smoke (sensor)
-        weather?.temp_max || (reading.temp + 2).toFixed(1),  // temp_max (weather or calculated)
-        weather?.temp_min || (reading.temp - 2).toFixed(1),  // temp_min (weather or calculated)
-        weather?.wind_speed || '0',     // wind_speed (weather)
-        weather?.wind_gust || '0'       // wind_gust (weather)
-      ];
+  const exportSessionDataset = () =>
+    sessionExportDataset([selectedSession], {
+      fileName: `sensor_data_${selectedSession.deviceId}_${Date.now()}`,
+      withIds: false,
     });
 
-    // Create CSV content with proper formatting
-    const csvContent = [
-      headers.join(','),  // Header row
-      ...data.map(row => row.join(','))  // Data rows
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute('href', url);
-    link.setAttribute('download', `sensor_data_${selectedSession.deviceId}_${Date.now()}.csv`);
-    link.style.visibility = 'hidden';
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
-  // Enhanced export all sessions with proper data handling
-  const exportAllSessions = () => {
-    if (sessions.length === 0) return;
+  // Exports every archived session matching the current filters, not just this page
+  const exportAllSessionsDataset = async () =>
+    sessionExportDataset(await listSessions(filters), { fileName: `complete_sensor_dataset_${Date.now()}` });
 
-    const headers = [
-      'temperature',
-      'humidity',
-      'smoke', 
-      'temp_max',
-      'temp_min',
-      'wind_speed',
-      'wind_gust',
-      'device_id',
-      'timestamp',
-      'session_id'
-    ];
-
-    const allData = sessions.flatMap(session => 
-      session.readings.map(reading => {
-        const weather = reading.weatherData;
-        
-        return [
-          reading.temp,                    // temperature
-          reading.humidity,               // humidity
-          reading.smoke,                  // smoke
-          weather?.temp_max || (reading.temp + 2).toFixed(1),  // temp_max
-          weather?.temp_min || (reading.temp - 2).toFixed(1),  // temp_min
-          weather?.wind_speed || '0',     // wind_speed
-          weather?.wind_gust || '0',      // wind_gust
-          reading.deviceId,               // device_id
-          reading.timestamp,              // timestamp
-          session.id                      // session_id
-        ];
-      })
-    );
-
-    const csvContent = [
-      headers.join(','),
-      ...allData.map(row => row.join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute('href', url);
-    link.setAttribute('download', `complete_sensor_dataset_${Date.now()}.csv`);
-    link.style.visibility = 'hidden';
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
-  // Function to generate a PDF report (placeholder)
-  const generatePDFReport = () => {
-    alert("PDF generation functionality would be implemented here. This would typically use a library like jsPDF or browser print functionality.");
+  const generatePDFReport = async () => {
+    if (!selectedSession) return;
+    setGeneratingReport(true);
+    try {
+      await downloadSessionReport(selectedSession, {
+        units: units.temperature,
+        map,
+        preparedBy: user?.name,
+      });
+    } catch (error) {
+      console.error('Error generating PDF report:', error);
+      toast.error('Could not generate the PDF report');
+    } finally {
+      setGeneratingReport(false);
+    }
   };
 
   // Function to preview CSV data
@@ -414,22 +358,31 @@ const Reports: React.FC = () => {
             Live Monitoring
           </Button>
 
-          {sessions.length > 0 && (
-            <Button 
-              variant="outline" 
+          {can('sessions:import') && (
+            <Button
+              variant="outline"
               size="sm"
-              className="border-green-600 text-green-600 hover:bg-green-50 transition-all duration-200"
-              onClick={exportAllSessions}
+              className="border-blue-600 text-blue-600 hover:bg-blue-50 transition-all duration-200"
+              onClick={() => setShowImportDialog(true)}
             >
-              <Download className="w-4 h-4 mr-2" />
-              Export All Data
+              <Upload className="w-4 h-4 mr-2" />
+              Import
             </Button>
           )}
 
+          {totalSessions > 0 && (
+            <ExportMenu
+              label="Export All Data"
+              getDataset={exportAllSessionsDataset}
+              className="border-green-600 text-green-600 hover:bg-green-50 transition-all duration-200"
+            />
+          )}
+
           <Button
             variant="ghost"
             size="sm"
             className="text-red-600 hover:bg-red-50 transition-all duration-200"
+            onClick={logout}
           >
             <LogOut className="w-4 h-4 mr-2" />
             Logout
@@ -439,677 +392,765 @@ const Reports: React.FC = () => {
 
       {/* Main Content */}
       <main className="p-6 max-w-7xl mx-auto">
-        {sessions.length === 0 ? (
-          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl p-8 text-center">
-            <div className="flex flex-col items-center gap-4">
-              <div className="p-4 bg-slate-100 rounded-2xl">
-                <BarChart3 className="w-12 h-12 text-slate-400" />
-              </div>
-              <div>
-                <h2 className="text-2xl font-bold text-slate-800 mb-2">No Fire Alert Sessions Recorded</h2>
-                <p className="text-slate-600 max-w-md">
-                  Fire alert sessions will appear here after they are detected and resolved in the Live Monitoring section.
-                </p>
-              </div>
-            </div>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-            {/* Session List */}
-            <div className="lg:col-span-1">
-              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl">
-                <CardHeader className="pb-4">
-                  <div className="flex items-center justify-between">
-                    <CardTitle className="text-xl font-bold text-slate-800">
-                      Fire Alert Sessions
-                    </CardTitle>
-                    <Badge variant="outline" className="bg-blue-50 text-blue-700">
-                      {sessions.length} total
-                    </Badge>
+        <Tabs value={view} onValueChange={setView}>
+          <TabsList className="mb-6 bg-slate-100 p-1 rounded-lg">
+            <TabsTrigger value="sessions" className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md">
+              Sessions
+            </TabsTrigger>
+            <TabsTrigger value="analytics" className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md">
+              Fleet Analytics
+            </TabsTrigger>
+            <TabsTrigger value="digests" className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md">
+              Digests
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sessions">
+            {(totalSessions > 0 || hasFilters) && (
+              <SessionFilterBar filters={filterValues} onChange={handleFiltersChange} />
+            )}
+            {totalSessions === 0 && !hasFilters && !sessionsLoading ? (
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl p-8 text-center">
+                <div className="flex flex-col items-center gap-4">
+                  <div className="p-4 bg-slate-100 rounded-2xl">
+                    <BarChart3 className="w-12 h-12 text-slate-400" />
+                  </div>
+                  <div>
+                    <h2 className="text-2xl font-bold text-slate-800 mb-2">No Fire Alert Sessions Recorded</h2>
+                    <p className="text-slate-600 max-w-md">
+                      Fire alert sessions will appear here after they are detected and resolved in the Live Monitoring section.
+                    </p>
                   </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4 max-h-[600px] overflow-y-auto">
-                    {sessions.map(session => (
-                      <Card 
-                        key={session.id} 
-                        className={`cursor-pointer p-4 transition-all duration-200 hover:shadow-lg border-2 relative ${
-                          selectedSession?.id === session.id 
-                            ? 'border-blue-500 bg-blue-50/50' 
-                            : 'border-slate-200 hover:border-slate-300'
-                        }`}
-                        onClick={() => setSelectedSession(session)}
-                      >
+                  {can('sessions:import') && (
+                    <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Import Sessions
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Session List */}
+                <div className="lg:col-span-1">
+                  <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl">
+                    <CardHeader className="pb-4">
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-xl font-bold text-slate-800">
+                          Fire Alert Sessions
+                        </CardTitle>
+                        <Badge variant="outline" className="bg-blue-50 text-blue-700">
+                          {totalSessions} {hasFilters ? 'matching' : 'total'}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center justify-between pt-3">
+                        <p className="text-xs text-slate-500">
+                          {compareMode
+                            ? `${compareSessions.length} of up to ${MAX_COMPARED_SESSIONS} selected`
+                            : 'Select a session to view its details'}
+                        </p>
                         <Button
-                          variant="ghost"
-                          size="icon"
-                          className="absolute top-3 right-3 h-6 w-6 text-slate-400 hover:text-red-500"
-                          onClick={(e) => handleDeleteSession(session.id, e)}
+                          variant={compareMode ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={toggleCompareMode}
                         >
-                          <Trash2 className="h-4 w-4" />
+                          <GitCompareArrows className="w-4 h-4 mr-2" />
+                          {compareMode ? 'Done' : 'Compare'}
                         </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-4 max-h-[600px] overflow-y-auto">
+                        {sessions.length === 0 && (
+                          <p className="text-sm text-slate-500 text-center py-6">
+                            {sessionsLoading ? 'Loading sessions...' : 'No sessions match these filters.'}
+                          </p>
+                        )}
+                        {sessions.map(session => {
+                          const compared = compareSessions.some(item => item.id === session.id);
+                          const highlighted = compareMode ? compared : selectedSession?.id === session.id;
+                          return (
+                            <Card 
+                              key={session.id} 
+                              className={`cursor-pointer p-4 transition-all duration-200 hover:shadow-lg border-2 relative ${
+                                highlighted 
+                                  ? 'border-blue-500 bg-blue-50/50' 
+                                  : 'border-slate-200 hover:border-slate-300'
+                              }`}
+                              onClick={() => (compareMode ? toggleComparison(session) : setSelectedSession(session))}
+                            >
+                              {can('sessions:delete') && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="absolute top-3 right-3 h-6 w-6 text-slate-400 hover:text-red-500"
+                                  onClick={(e) => handleDeleteSession(session.id, e)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
                         
-                        <div className="flex justify-between items-start mb-3">
+                              <div className="flex justify-between items-start mb-3">
+                                <div>
+                                  <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+                                    {compareMode && (
+                                      <Checkbox
+                                        checked={compared}
+                                        aria-label={`Compare session ${session.id}`}
+                                        onClick={e => e.stopPropagation()}
+                                        onCheckedChange={() => toggleComparison(session)}
+                                      />
+                                    )}
+                                    Device: {session.deviceId}
+                                  </h3>
+                                  <p className="text-sm text-slate-500 mt-1">
+                                    <Calendar className="w-3 h-3 inline mr-1" />
+                                    {new Date(session.startTime).toLocaleDateString()}
+                                  </p>
+                                </div>
+                                <Badge 
+                                  className={
+                                    session.status === 'completed' 
+                                      ? 'bg-green-100 text-green-800 border-green-200' 
+                                      : 'bg-amber-100 text-amber-800 border-amber-200 animate-pulse'
+                                  }
+                                >
+                                  {session.status === 'completed' ? 'Completed' : 'Active'}
+                                </Badge>
+                              </div>
+                        
+                              <div className="grid grid-cols-2 gap-3 text-sm mb-3">
+                                <div className="flex items-center">
+                                  <Thermometer className="w-3 h-3 mr-2 text-red-500" />
+                                  <div>
+                                    <div className="font-medium text-slate-800">{formatTemperature(session.maxTemp, units.temperature)}</div>
+                                    <div className="text-xs text-slate-500">Max Temp</div>
+                                  </div>
+                                </div>
+                                <div className="flex items-center">
+                                  <Wind className="w-3 h-3 mr-2 text-slate-500" />
+                                  <div>
+                                    <div className="font-medium text-slate-800">{session.maxSmoke}ppm</div>
+                                    <div className="text-xs text-slate-500">Max Smoke</div>
+                                  </div>
+                                </div>
+                              </div>
+                        
+                              <div className="flex items-center justify-between text-sm">
+                                <div className="flex items-center text-slate-600">
+                                  <Clock className="w-3 h-3 mr-1" />
+                                  {formatDuration(session.startTime, session.endTime)}
+                                </div>
+                                <div className="text-slate-500 text-xs">
+                                  {session.readings.length} readings
+                                </div>
+                              </div>
+                        
+                              {session.mlConfirmed && (
+                                <div className="mt-2 text-xs font-medium text-purple-600 bg-purple-50 px-2 py-1 rounded-full inline-flex items-center">
+                                  <span className="w-1.5 h-1.5 bg-purple-600 rounded-full mr-1"></span>
+                                  AI Confirmed
+                                </div>
+                              )}
+                            </Card>
+                          );
+                        })}
+                      </div>
+                      {pageCount > 1 && (
+                        <div className="flex items-center justify-between pt-4 text-sm text-slate-600">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={page === 0}
+                            onClick={() => setPage(current => Math.max(0, current - 1))}
+                          >
+                            <ChevronLeft className="w-4 h-4" />
+                          </Button>
+                          <span>Page {page + 1} of {pageCount}</span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={page + 1 >= pageCount}
+                            onClick={() => setPage(current => current + 1)}
+                          >
+                            <ChevronRight className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
+
+                {/* Session Details */}
+                <div className="lg:col-span-2">
+                  {compareMode ? (
+                    compareSessions.length >= 2 ? (
+                      <SessionComparison
+                        sessions={compareSessions}
+                        onRemove={removeFromComparison}
+                        onClose={toggleCompareMode}
+                      />
+                    ) : (
+                      <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl p-8 text-center">
+                        <div className="flex flex-col items-center gap-4">
+                          <div className="p-4 bg-slate-100 rounded-2xl">
+                            <GitCompareArrows className="w-12 h-12 text-slate-400" />
+                          </div>
                           <div>
-                            <h3 className="font-semibold text-slate-800">Device: {session.deviceId}</h3>
-                            <p className="text-sm text-slate-500 mt-1">
-                              <Calendar className="w-3 h-3 inline mr-1" />
-                              {new Date(session.startTime).toLocaleDateString()}
+                            <h2 className="text-xl font-bold text-slate-800 mb-2">Pick Sessions to Compare</h2>
+                            <p className="text-slate-600">
+                              Tick at least two sessions in the list to overlay their temperature, smoke and humidity
+                              curves. Selections are kept when you change page or filters.
                             </p>
                           </div>
-                          <Badge 
-                            className={
-                              session.status === 'completed' 
-                                ? 'bg-green-100 text-green-800 border-green-200' 
-                                : 'bg-amber-100 text-amber-800 border-amber-200 animate-pulse'
-                            }
-                          >
-                            {session.status === 'completed' ? 'Completed' : 'Active'}
-                          </Badge>
                         </div>
-                        
-                        <div className="grid grid-cols-2 gap-3 text-sm mb-3">
-                          <div className="flex items-center">
-                            <Thermometer className="w-3 h-3 mr-2 text-red-500" />
-                            <div>
-                              <div className="font-medium text-slate-800">{session.maxTemp.toFixed(1)}°C</div>
-                              <div className="text-xs text-slate-500">Max Temp</div>
+                      </Card>
+                    )
+                  ) : selectedSession ? (
+                    <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl">
+                      <CardHeader className="pb-4 border-b border-slate-200">
+                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                          <div className="flex items-center gap-3">
+                            <div className="p-2 bg-blue-100 rounded-lg">
+                              <Activity className="w-5 h-5 text-blue-600" />
                             </div>
-                          </div>
-                          <div className="flex items-center">
-                            <Wind className="w-3 h-3 mr-2 text-slate-500" />
                             <div>
-                              <div className="font-medium text-slate-800">{session.maxSmoke}ppm</div>
-                              <div className="text-xs text-slate-500">Max Smoke</div>
+                              <CardTitle className="text-xl font-bold text-slate-800">
+                                Session Analysis: {selectedSession.deviceId}
+                              </CardTitle>
+                              <p className="text-sm text-slate-600">
+                                Detailed sensor data and analytics for this fire alert session
+                              </p>
                             </div>
                           </div>
-                        </div>
-                        
-                        <div className="flex items-center justify-between text-sm">
-                          <div className="flex items-center text-slate-600">
-                            <Clock className="w-3 h-3 mr-1" />
-                            {getDuration(session.startTime, session.endTime)}
-                          </div>
-                          <div className="text-slate-500 text-xs">
-                            {session.readings.length} readings
+                          <div className="flex items-center gap-2">
+                            {selectedSession.mlConfirmed && (
+                              <Badge className="bg-purple-100 text-purple-700 border-purple-200">
+                                <span className="w-1.5 h-1.5 bg-purple-600 rounded-full mr-1"></span>
+                                AI Confirmed
+                              </Badge>
+                            )}
+                            <Badge className={
+                              selectedSession.status === 'completed' 
+                                ? 'bg-green-100 text-green-700 border-green-200' 
+                                : 'bg-amber-100 text-amber-700 border-amber-200 animate-pulse'
+                            }>
+                              {selectedSession.status === 'completed' ? 'Completed' : 'Active'}
+                            </Badge>
                           </div>
                         </div>
-                        
-                        {session.mlConfirmed && (
-                          <div className="mt-2 text-xs font-medium text-purple-600 bg-purple-50 px-2 py-1 rounded-full inline-flex items-center">
-                            <span className="w-1.5 h-1.5 bg-purple-600 rounded-full mr-1"></span>
-                            AI Confirmed
-                          </div>
-                        )}
-                      </Card>
-                    ))}
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
 
-            {/* Session Details */}
-            <div className="lg:col-span-2">
-              {selectedSession ? (
-                <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl">
-                  <CardHeader className="pb-4 border-b border-slate-200">
-                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-                      <div className="flex items-center gap-3">
-                        <div className="p-2 bg-blue-100 rounded-lg">
-                          <Activity className="w-5 h-5 text-blue-600" />
-                        </div>
-                        <div>
-                          <CardTitle className="text-xl font-bold text-slate-800">
-                            Session Analysis: {selectedSession.deviceId}
-                          </CardTitle>
-                          <p className="text-sm text-slate-600">
-                            Detailed sensor data and analytics for this fire alert session
-                          </p>
+                        {/* Export Buttons */}
+                        <div className="flex flex-wrap gap-3 mt-4">
+                          <ExportMenu
+                            label="Export Session"
+                            variant="default"
+                            getDataset={exportSessionDataset}
+                            className="bg-green-600 hover:bg-green-700 text-white"
+                          />
+                          <Button 
+                            size="sm" 
+                            variant="outline"
+                            onClick={generatePDFReport}
+                            disabled={generatingReport}
+                            className="border-blue-600 text-blue-600 hover:bg-blue-50"
+                          >
+                            <Download className="h-4 w-4 mr-2" />
+                            {generatingReport ? 'Generating...' : 'Generate PDF Report'}
+                          </Button>
                         </div>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        {selectedSession.mlConfirmed && (
-                          <Badge className="bg-purple-100 text-purple-700 border-purple-200">
-                            <span className="w-1.5 h-1.5 bg-purple-600 rounded-full mr-1"></span>
-                            AI Confirmed
-                          </Badge>
-                        )}
-                        <Badge className={
-                          selectedSession.status === 'completed' 
-                            ? 'bg-green-100 text-green-700 border-green-200' 
-                            : 'bg-amber-100 text-amber-700 border-amber-200 animate-pulse'
-                        }>
-                          {selectedSession.status === 'completed' ? 'Completed' : 'Active'}
-                        </Badge>
-                      </div>
-                    </div>
-
-                    {/* Export Buttons */}
-                    <div className="flex flex-wrap gap-3 mt-4">
-                      <Button 
-                        size="sm" 
-                        onClick={exportSessionData}
-                        className="bg-green-600 hover:bg-green-700 text-white"
-                      >
-                        <Download className="h-4 w-4 mr-2" />
-                        Export CSV (7 Columns)
-                      </Button>
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={generatePDFReport}
-                        className="border-blue-600 text-blue-600 hover:bg-blue-50"
-                      >
-                        <Download className="h-4 w-4 mr-2" />
-                        Generate PDF Report
-                      </Button>
-                    </div>
-                  </CardHeader>
-
-                  <CardContent className="p-6">
-                    {/* Session Overview */}
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
-                      <div className="text-center p-4 bg-slate-50 rounded-xl border border-slate-200">
-                        <p className="text-sm font-medium text-slate-600 mb-1">Start Time</p>
-                        <p className="text-lg font-bold text-slate-800">
-                          {new Date(selectedSession.startTime).toLocaleTimeString()}
-                        </p>
-                        <p className="text-xs text-slate-500">
-                          {new Date(selectedSession.startTime).toLocaleDateString()}
-                        </p>
-                      </div>
-                      <div className="text-center p-4 bg-slate-50 rounded-xl border border-slate-200">
-                        <p className="text-sm font-medium text-slate-600 mb-1">Duration</p>
-                        <p className="text-lg font-bold text-slate-800">
-                          {getDuration(selectedSession.startTime, selectedSession.endTime)}
-                        </p>
-                        <p className="text-xs text-slate-500">
-                          {selectedSession.endTime ? 'Completed' : 'In Progress'}
-                        </p>
-                      </div>
-                      <div className="text-center p-4 bg-slate-50 rounded-xl border border-slate-200">
-                        <p className="text-sm font-medium text-slate-600 mb-1">Total Readings</p>
-                        <p className="text-lg font-bold text-slate-800">{selectedSession.readings.length}</p>
-                        <p className="text-xs text-slate-500">Data points</p>
-                      </div>
-                      <div className="text-center p-4 bg-slate-50 rounded-xl border border-slate-200">
-                        <p className="text-sm font-medium text-slate-600 mb-1">Device ID</p>
-                        <p className="text-lg font-bold text-slate-800 font-mono text-sm">
-                          {selectedSession.deviceId}
-                        </p>
-                        <p className="text-xs text-slate-500">Sensor Device</p>
-                      </div>
-                    </div>
-
-                    <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                      <TabsList className="grid grid-cols-4 mb-8 bg-slate-100 p-1 rounded-lg">
-                        <TabsTrigger 
-                          value="overview" 
-                          className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md"
-                        >
-                          Overview
-                        </TabsTrigger>
-                        <TabsTrigger 
-                          value="charts" 
-                          className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md"
-                        >
-                          Charts
-                        </TabsTrigger>
-                        <TabsTrigger 
-                          value="analysis" 
-                          className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md"
-                        >
-                          Analysis
-                        </TabsTrigger>
-                        <TabsTrigger 
-                          value="export" 
-                          className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md"
-                        >
-                          Data Export
-                        </TabsTrigger>
-                      </TabsList>
-
-                      {/* Overview Tab */}
-                      <TabsContent value="overview" className="space-y-6">
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                          <Card className="border-0 shadow-md">
-                            <CardHeader className="pb-3">
-                              <CardTitle className="flex items-center gap-2 text-base">
-                                <Thermometer className="w-5 h-5 text-red-500" />
-                                Temperature Statistics
-                              </CardTitle>
-                            </CardHeader>
-                            <CardContent className="space-y-2">
-                              <div className="flex justify-between">
-                                <span className="text-slate-600">Maximum:</span>
-                                <span className="font-bold text-red-600">{selectedSession.maxTemp.toFixed(1)}°C</span>
-                              </div>
-                              <div className="flex justify-between">
-                                <span className="text-slate-600">Minimum:</span>
-                                <span className="font-bold text-blue-600">{selectedSession.minTemp.toFixed(1)}°C</span>
-                              </div>
-                              <div className="flex justify-between">
-                                <span className="text-slate-600">Average:</span>
-                                <span className="font-bold text-slate-800">{selectedSession.avgTemp.toFixed(1)}°C</span>
-                              </div>
-                            </CardContent>
-                          </Card>
-
-                          <Card className="border-0 shadow-md">
-                            <CardHeader className="pb-3">
-                              <CardTitle className="flex items-center gap-2 text-base">
-                                <Wind className="w-5 h-5 text-slate-500" />
-                                Smoke Statistics
-                              </CardTitle>
-                            </CardHeader>
-                            <CardContent className="space-y-2">
-                              <div className="flex justify-between">
-                                <span className="text-slate-600">Maximum:</span>
-                                <span className="font-bold text-red-600">{selectedSession.maxSmoke} ppm</span>
-                              </div>
-                              <div className="flex justify-between">
-                                <span className="text-slate-600">Minimum:</span>
-                                <span className="font-bold text-blue-600">{selectedSession.minSmoke} ppm</span>
-                              </div>
-                              <div className="flex justify-between">
-                                <span className="text-slate-600">Average:</span>
-                                <span className="font-bold text-slate-800">{selectedSession.avgSmoke.toFixed(1)} ppm</span>
-                              </div>
-                            </CardContent>
-                          </Card>
+                      </CardHeader>
 
-                          <Card className="border-0 shadow-md">
-                            <CardHeader className="pb-3">
-                              <CardTitle className="flex items-center gap-2 text-base">
-                                <Droplets className="w-5 h-5 text-blue-500" />
-                                Humidity Statistics
-                              </CardTitle>
-                            </CardHeader>
-                            <CardContent className="space-y-2">
-                              <div className="flex justify-between">
-                                <span className="text-slate-600">Maximum:</span>
-                                <span className="font-bold text-red-600">{selectedSession.maxHumidity}%</span>
-                              </div>
-                              <div className="flex justify-between">
-                                <span className="text-slate-600">Minimum:</span>
-                                <span className="font-bold text-blue-600">{selectedSession.minHumidity}%</span>
-                              </div>
-                              <div className="flex justify-between">
-                                <span className="text-slate-600">Average:</span>
-                                <span className="font-bold text-slate-800">{selectedSession.avgHumidity.toFixed(1)}%</span>
-                              </div>
-                            </CardContent>
-                          </Card>
+                      <CardContent className="p-6">
+                        {/* Session Overview */}
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                          <div className="text-center p-4 bg-slate-50 rounded-xl border border-slate-200">
+                            <p className="text-sm font-medium text-slate-600 mb-1">Start Time</p>
+                            <p className="text-lg font-bold text-slate-800">
+                              {new Date(selectedSession.startTime).toLocaleTimeString()}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                              {new Date(selectedSession.startTime).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <div className="text-center p-4 bg-slate-50 rounded-xl border border-slate-200">
+                            <p className="text-sm font-medium text-slate-600 mb-1">Duration</p>
+                            <p className="text-lg font-bold text-slate-800">
+                              {formatDuration(selectedSession.startTime, selectedSession.endTime)}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                              {selectedSession.endTime ? 'Completed' : 'In Progress'}
+                            </p>
+                          </div>
+                          <div className="text-center p-4 bg-slate-50 rounded-xl border border-slate-200">
+                            <p className="text-sm font-medium text-slate-600 mb-1">Total Readings</p>
+                            <p className="text-lg font-bold text-slate-800">{selectedSession.readings.length}</p>
+                            <p className="text-xs text-slate-500">Data points</p>
+                          </div>
+                          <div className="text-center p-4 bg-slate-50 rounded-xl border border-slate-200">
+                            <p className="text-sm font-medium text-slate-600 mb-1">Device ID</p>
+                            <p className="text-lg font-bold text-slate-800 font-mono text-sm">
+                              {selectedSession.deviceId}
+                            </p>
+                            <p className="text-xs text-slate-500">Sensor Device</p>
+                          </div>
                         </div>
 
-                        {/* Severity Distribution */}
-                        <Card className="border-0 shadow-md">
-                          <CardHeader>
-                            <CardTitle className="text-lg">Severity Distribution</CardTitle>
-                          </CardHeader>
-                          <CardContent>
-                            <div className="h-64">
-                              <ResponsiveContainer width="100%" height="100%">
-                                <PieChart>
-                                  <Pie
-                                    data={severityData}
-                                    cx="50%"
-                                    cy="50%"
-                                    labelLine={false}
-                                    label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
-                                    outerRadius={80}
-                                    fill="#8884d8"
-                                    dataKey="value"
-                                  >
-                                    {severityData.map((entry, index) => (
-                                      <Cell key={`cell-${index}`} fill={entry.color} />
-                                    ))}
-                                  </Pie>
-                                  <Tooltip />
-                                  <Legend />
-                                </PieChart>
-                              </ResponsiveContainer>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      </TabsContent>
+                        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+                          <TabsList className="grid grid-cols-4 mb-8 bg-slate-100 p-1 rounded-lg">
+                            <TabsTrigger 
+                              value="overview" 
+                              className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md"
+                            >
+                              Overview
+                            </TabsTrigger>
+                            <TabsTrigger 
+                              value="charts" 
+                              className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md"
+                            >
+                              Charts
+                            </TabsTrigger>
+                            <TabsTrigger 
+                              value="analysis" 
+                              className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md"
+                            >
+                              Analysis
+                            </TabsTrigger>
+                            <TabsTrigger 
+                              value="export" 
+                              className="data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md"
+                            >
+                              Data Export
+                            </TabsTrigger>
+                          </TabsList>
 
-                      {/* Charts Tab */}
-                      <TabsContent value="charts" className="space-y-6">
-                        <Card className="border-0 shadow-md">
-                          <CardHeader>
-                            <CardTitle className="text-lg">Temperature Trend Over Time</CardTitle>
-                          </CardHeader>
-                          <CardContent>
-                            <div className="h-64">
-                              <ResponsiveContainer width="100%" height="100%">
-                                <LineChart data={chartData}>
-                                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                                  <XAxis 
-                                    dataKey="time" 
-                                    stroke="#64748b"
-                                    fontSize={12}
-                                  />
-                                  <YAxis 
-                                    stroke="#64748b"
-                                    fontSize={12}
-                                  />
-                                  <Tooltip 
-                                    contentStyle={{ 
-                                      backgroundColor: 'white', 
-                                      border: '1px solid #e2e8f0',
-                                      borderRadius: '8px'
-                                    }}
-                                  />
-                                  <Legend />
-                                  <Line 
-                                    type="monotone" 
-                                    dataKey="temp" 
-                                    stroke="#ef4444" 
-                                    strokeWidth={2}
-                                    dot={{ fill: '#ef4444', strokeWidth: 2, r: 4 }}
-                                    activeDot={{ r: 6, stroke: '#ef4444', strokeWidth: 2 }}
-                                    name="Temperature (°C)" 
-                                  />
-                                </LineChart>
-                              </ResponsiveContainer>
-                            </div>
-                          </CardContent>
-                        </Card>
+                          {/* Overview Tab */}
+                          <TabsContent value="overview" className="space-y-6">
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                              <Card className="border-0 shadow-md">
+                                <CardHeader className="pb-3">
+                                  <CardTitle className="flex items-center gap-2 text-base">
+                                    <Thermometer className="w-5 h-5 text-red-500" />
+                                    Temperature Statistics
+                                  </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                  <div className="flex justify-between">
+                                    <span className="text-slate-600">Maximum:</span>
+                                    <span className="font-bold text-red-600">{formatTemperature(selectedSession.maxTemp, units.temperature)}</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span className="text-slate-600">Minimum:</span>
+                                    <span className="font-bold text-blue-600">{formatTemperature(selectedSession.minTemp, units.temperature)}</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span className="text-slate-600">Average:</span>
+                                    <span className="font-bold text-slate-800">{formatTemperature(selectedSession.avgTemp, units.temperature)}</span>
+                                  </div>
+                                </CardContent>
+                              </Card>
+
+                              <Card className="border-0 shadow-md">
+                                <CardHeader className="pb-3">
+                                  <CardTitle className="flex items-center gap-2 text-base">
+                                    <Wind className="w-5 h-5 text-slate-500" />
+                                    Smoke Statistics
+                                  </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                  <div className="flex justify-between">
+                                    <span className="text-slate-600">Maximum:</span>
+                                    <span className="font-bold text-red-600">{selectedSession.maxSmoke} ppm</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span className="text-slate-600">Minimum:</span>
+                                    <span className="font-bold text-blue-600">{selectedSession.minSmoke} ppm</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span className="text-slate-600">Average:</span>
+                                    <span className="font-bold text-slate-800">{selectedSession.avgSmoke.toFixed(1)} ppm</span>
+                                  </div>
+                                </CardContent>
+                              </Card>
 
-                        <Card className="border-0 shadow-md">
-                          <CardHeader>
-                            <CardTitle className="text-lg">Smoke Level Analysis</CardTitle>
-                          </CardHeader>
-                          <CardContent>
-                            <div className="h-64">
-                              <ResponsiveContainer width="100%" height="100%">
-                                <AreaChart data={chartData}>
-                                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                                  <XAxis 
-                                    dataKey="time" 
-                                    stroke="#64748b"
-                                    fontSize={12}
-                                  />
-                                  <YAxis 
-                                    stroke="#64748b"
-                                    fontSize={12}
-                                  />
-                                  <Tooltip 
-                                    contentStyle={{ 
-                                      backgroundColor: 'white', 
-                                      border: '1px solid #e2e8f0',
-                                      borderRadius: '8px'
-                                    }}
-                                  />
-                                  <Legend />
-                                  <Area 
-                                    type="monotone" 
-                                    dataKey="smoke" 
-                                    stroke="#8884d8" 
-                                    fill="#8884d8" 
-                                    fillOpacity={0.3}
-                                    strokeWidth={2}
-                                    name="Smoke Level (ppm)" 
-                                  />
-                                </AreaChart>
-                              </ResponsiveContainer>
+                              <Card className="border-0 shadow-md">
+                                <CardHeader className="pb-3">
+                                  <CardTitle className="flex items-center gap-2 text-base">
+                                    <Droplets className="w-5 h-5 text-blue-500" />
+                                    Humidity Statistics
+                                  </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                  <div className="flex justify-between">
+                                    <span className="text-slate-600">Maximum:</span>
+                                    <span className="font-bold text-red-600">{selectedSession.maxHumidity}%</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span className="text-slate-600">Minimum:</span>
+                                    <span className="font-bold text-blue-600">{selectedSession.minHumidity}%</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span className="text-slate-600">Average:</span>
+                                    <span className="font-bold text-slate-800">{selectedSession.avgHumidity.toFixed(1)}%</span>
+                                  </div>
+                                </CardContent>
+                              </Card>
                             </div>
-                          </CardContent>
-                        </Card>
-                      </TabsContent>
 
-                      {/* Analysis Tab */}
-                      <TabsContent value="analysis" className="space-y-6">
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                          <Card className="border-0 shadow-md">
-                            <CardHeader>
-                              <CardTitle className="text-lg">Risk Assessment</CardTitle>
-                            </CardHeader>
-                            <CardContent className="space-y-4">
-                              <div>
-                                <div className="flex justify-between mb-2">
-                                  <span className="text-slate-700">Temperature Risk</span>
-                                  <span className={`font-semibold ${
-                                    selectedSession.maxTemp > 60 ? 'text-red-600' : 
-                                    selectedSession.maxTemp > 40 ? 'text-amber-600' : 'text-green-600'
-                                  }`}>
-                                    {selectedSession.maxTemp > 60 ? 'High' : 
-                                     selectedSession.maxTemp > 40 ? 'Medium' : 'Low'}
-                                  </span>
-                                </div>
-                                <div className="w-full bg-slate-200 rounded-full h-2.5">
-                                  <div 
-                                    className={`h-2.5 rounded-full ${
-                                      selectedSession.maxTemp > 60 ? 'bg-red-500' : 
-                                      selectedSession.maxTemp > 40 ? 'bg-amber-500' : 'bg-green-500'
-                                    }`}
-                                    style={{ width: `${Math.min(selectedSession.maxTemp, 100)}%` }}
-                                  ></div>
+                            {/* Severity Distribution */}
+                            <Card className="border-0 shadow-md">
+                              <CardHeader>
+                                <CardTitle className="text-lg">Severity Distribution</CardTitle>
+                              </CardHeader>
+                              <CardContent>
+                                <div className="h-64">
+                                  <ResponsiveContainer width="100%" height="100%">
+                                    <PieChart>
+                                      <Pie
+                                        data={severityData}
+                                        cx="50%"
+                                        cy="50%"
+                                        labelLine={false}
+                                        label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                                        outerRadius={80}
+                                        fill="#8884d8"
+                                        dataKey="value"
+                                      >
+                                        {severityData.map((entry, index) => (
+                                          <Cell key={`cell-${index}`} fill={entry.color} />
+                                        ))}
+                                      </Pie>
+                                      <Tooltip />
+                                      <Legend />
+                                    </PieChart>
+                                  </ResponsiveContainer>
                                 </div>
-                              </div>
+                              </CardContent>
+                            </Card>
+                          </TabsContent>
 
-                              <div>
-                                <div className="flex justify-between mb-2">
-                                  <span className="text-slate-700">Smoke Risk</span>
-                                  <span className={`font-semibold ${
-                                    selectedSession.maxSmoke > 100 ? 'text-red-600' : 
-                                    selectedSession.maxSmoke > 50 ? 'text-amber-600' : 'text-green-600'
-                                  }`}>
-                                    {selectedSession.maxSmoke > 100 ? 'High' : 
-                                     selectedSession.maxSmoke > 50 ? 'Medium' : 'Low'}
-                                  </span>
-                                </div>
-                                <div className="w-full bg-slate-200 rounded-full h-2.5">
-                                  <div 
-                                    className={`h-2.5 rounded-full ${
-                                      selectedSession.maxSmoke > 100 ? 'bg-red-500' : 
-                                      selectedSession.maxSmoke > 50 ? 'bg-amber-500' : 'bg-green-500'
-                                    }`}
-                                    style={{ width: `${Math.min(selectedSession.maxSmoke, 100)}%` }}
-                                  ></div>
+                          {/* Charts Tab */}
+                          <TabsContent value="charts" className="space-y-6">
+                            <Card className="border-0 shadow-md">
+                              <CardHeader>
+                                <CardTitle className="text-lg">Temperature Trend Over Time</CardTitle>
+                              </CardHeader>
+                              <CardContent>
+                                <div className="h-64">
+                                  <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={chartData}>
+                                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                                      <XAxis 
+                                        dataKey="time" 
+                                        stroke="#64748b"
+                                        fontSize={12}
+                                      />
+                                      <YAxis 
+                                        stroke="#64748b"
+                                        fontSize={12}
+                                      />
+                                      <Tooltip 
+                                        contentStyle={{ 
+                                          backgroundColor: 'white', 
+                                          border: '1px solid #e2e8f0',
+                                          borderRadius: '8px'
+                                        }}
+                                      />
+                                      <Legend />
+                                      <Line 
+                                        type="monotone" 
+                                        dataKey="temp" 
+                                        stroke="#ef4444" 
+                                        strokeWidth={2}
+                                        dot={{ fill: '#ef4444', strokeWidth: 2, r: 4 }}
+                                        activeDot={{ r: 6, stroke: '#ef4444', strokeWidth: 2 }}
+                                        name={`Temperature (${temperatureSymbol(units.temperature)})`} 
+                                      />
+                                    </LineChart>
+                                  </ResponsiveContainer>
                                 </div>
-                              </div>
+                              </CardContent>
+                            </Card>
 
-                              <div>
-                                <div className="flex justify-between mb-2">
-                                  <span className="text-slate-700">Overall Fire Risk</span>
-                                  <span className={`font-semibold ${
-                                    selectedSession.maxTemp > 60 || selectedSession.maxSmoke > 100 ? 'text-red-600' : 
-                                    selectedSession.maxTemp > 40 || selectedSession.maxSmoke > 50 ? 'text-amber-600' : 'text-green-600'
-                                  }`}>
-                                    {selectedSession.maxTemp > 60 || selectedSession.maxSmoke > 100 ? 'High' : 
-                                     selectedSession.maxTemp > 40 || selectedSession.maxSmoke > 50 ? 'Medium' : 'Low'}
-                                  </span>
-                                </div>
-                                <div className="w-full bg-slate-200 rounded-full h-2.5">
-                                  <div 
-                                    className={`h-2.5 rounded-full ${
-                                      selectedSession.maxTemp > 60 || selectedSession.maxSmoke > 100 ? 'bg-red-500' : 
-                                      selectedSession.maxTemp > 40 || selectedSession.maxSmoke > 50 ? 'bg-amber-500' : 'bg-green-500'
-                                    }`}
-                                    style={{ width: `${Math.min(
-                                      (selectedSession.maxTemp / 100 * 50) + (selectedSession.maxSmoke / 200 * 50), 
-                                      100
-                                    )}%` }}
-                                  ></div>
+                            <Card className="border-0 shadow-md">
+                              <CardHeader>
+                                <CardTitle className="text-lg">Smoke Level Analysis</CardTitle>
+                              </CardHeader>
+                              <CardContent>
+                                <div className="h-64">
+                                  <ResponsiveContainer width="100%" height="100%">
+                                    <AreaChart data={chartData}>
+                                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                                      <XAxis 
+                                        dataKey="time" 
+                                        stroke="#64748b"
+                                        fontSize={12}
+                                      />
+                                      <YAxis 
+                                        stroke="#64748b"
+                                        fontSize={12}
+                                      />
+                                      <Tooltip 
+                                        contentStyle={{ 
+                                          backgroundColor: 'white', 
+                                          border: '1px solid #e2e8f0',
+                                          borderRadius: '8px'
+                                        }}
+                                      />
+                                      <Legend />
+                                      <Area 
+                                        type="monotone" 
+                                        dataKey="smoke" 
+                                        stroke="#8884d8" 
+                                        fill="#8884d8" 
+                                        fillOpacity={0.3}
+                                        strokeWidth={2}
+                                        name="Smoke Level (ppm)" 
+                                      />
+                                    </AreaChart>
+                                  </ResponsiveContainer>
                                 </div>
-                              </div>
-                            </CardContent>
-                          </Card>
+                              </CardContent>
+                            </Card>
+                          </TabsContent>
 
-                          <Card className="border-0 shadow-md">
-                            <CardHeader>
-                              <CardTitle className="text-lg">Session Insights</CardTitle>
-                            </CardHeader>
-                            <CardContent>
-                              {sessionStats && (
-                                <div className="space-y-3 text-sm">
-                                  <div className="flex justify-between py-2 border-b border-slate-100">
-                                    <span className="text-slate-600">Total Readings Analyzed:</span>
-                                    <span className="font-semibold">{sessionStats.totalReadings}</span>
-                                  </div>
-                                  <div className="flex justify-between py-2 border-b border-slate-100">
-                                    <span className="text-slate-600">Normal Conditions:</span>
-                                    <span className="font-semibold text-green-600">
-                                      {sessionStats.normalReadings} ({sessionStats.normalPercentage}%)
-                                    </span>
-                                  </div>
-                                  <div className="flex justify-between py-2 border-b border-slate-100">
-                                    <span className="text-slate-600">Warning Conditions:</span>
-                                    <span className="font-semibold text-amber-600">
-                                      {sessionStats.warningReadings} ({sessionStats.warningPercentage}%)
-                                    </span>
+                          {/* Analysis Tab */}
+                          <TabsContent value="analysis" className="space-y-6">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                              <Card className="border-0 shadow-md">
+                                <CardHeader>
+                                  <CardTitle className="text-lg">Risk Assessment</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                  <div>
+                                    <div className="flex justify-between mb-2">
+                                      <span className="text-slate-700">Temperature Risk</span>
+                                      <span className={`font-semibold ${RISK_TEXT_COLORS[sessionRisk.temp]}`}>
+                                        {RISK_LABELS[sessionRisk.temp]}
+                                      </span>
+                                    </div>
+                                    <div className="w-full bg-slate-200 rounded-full h-2.5">
+                                      <div 
+                                        className={`h-2.5 rounded-full ${RISK_BAR_COLORS[sessionRisk.temp]}`}
+                                        style={{ width: `${Math.min(selectedSession.maxTemp, 100)}%` }}
+                                      ></div>
+                                    </div>
                                   </div>
-                                  <div className="flex justify-between py-2 border-b border-slate-100">
-                                    <span className="text-slate-600">Fire Detections:</span>
-                                    <span className="font-semibold text-red-600">
-                                      {sessionStats.fireReadings} ({sessionStats.firePercentage}%)
-                                    </span>
+
+                                  <div>
+                                    <div className="flex justify-between mb-2">
+                                      <span className="text-slate-700">Smoke Risk</span>
+                                      <span className={`font-semibold ${RISK_TEXT_COLORS[sessionRisk.smoke]}`}>
+                                        {RISK_LABELS[sessionRisk.smoke]}
+                                      </span>
+                                    </div>
+                                    <div className="w-full bg-slate-200 rounded-full h-2.5">
+                                      <div 
+                                        className={`h-2.5 rounded-full ${RISK_BAR_COLORS[sessionRisk.smoke]}`}
+                                        style={{ width: `${Math.min(selectedSession.maxSmoke, 100)}%` }}
+                                      ></div>
+                                    </div>
                                   </div>
-                                  {selectedSession.mlPredictions && (
-                                    <div className="flex justify-between py-2 border-b border-slate-100">
-                                      <span className="text-slate-600">AI Predictions:</span>
-                                      <span className="font-semibold text-purple-600">
-                                        {selectedSession.mlPredictions.length}
+
+                                  <div>
+                                    <div className="flex justify-between mb-2">
+                                      <span className="text-slate-700">Overall Fire Risk</span>
+                                      <span className={`font-semibold ${RISK_TEXT_COLORS[sessionRisk.overall]}`}>
+                                        {RISK_LABELS[sessionRisk.overall]}
                                       </span>
                                     </div>
-                                  )}
-                                  {sessionStats.peakFireTime && (
-                                    <div className="flex justify-between py-2">
-                                      <span className="text-slate-600">Peak Fire Activity:</span>
-                                      <span className="font-semibold">{sessionStats.peakFireTime}</span>
+                                    <div className="w-full bg-slate-200 rounded-full h-2.5">
+                                      <div 
+                                        className={`h-2.5 rounded-full ${RISK_BAR_COLORS[sessionRisk.overall]}`}
+                                        style={{ width: `${Math.min(
+                                          (selectedSession.maxTemp / 100 * 50) + (selectedSession.maxSmoke / 200 * 50), 
+                                          100
+                                        )}%` }}
+                                      ></div>
+                                    </div>
+                                  </div>
+                                </CardContent>
+                              </Card>
+
+                              <Card className="border-0 shadow-md">
+                                <CardHeader>
+                                  <CardTitle className="text-lg">Session Insights</CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                  {sessionStats && (
+                                    <div className="space-y-3 text-sm">
+                                      <div className="flex justify-between py-2 border-b border-slate-100">
+                                        <span className="text-slate-600">Total Readings Analyzed:</span>
+                                        <span className="font-semibold">{sessionStats.totalReadings}</span>
+                                      </div>
+                                      <div className="flex justify-between py-2 border-b border-slate-100">
+                                        <span className="text-slate-600">Normal Conditions:</span>
+                                        <span className="font-semibold text-green-600">
+                                          {sessionStats.normalReadings} ({sessionStats.normalPercentage}%)
+                                        </span>
+                                      </div>
+                                      <div className="flex justify-between py-2 border-b border-slate-100">
+                                        <span className="text-slate-600">Warning Conditions:</span>
+                                        <span className="font-semibold text-amber-600">
+                                          {sessionStats.warningReadings} ({sessionStats.warningPercentage}%)
+                                        </span>
+                                      </div>
+                                      <div className="flex justify-between py-2 border-b border-slate-100">
+                                        <span className="text-slate-600">Fire Detections:</span>
+                                        <span className="font-semibold text-red-600">
+                                          {sessionStats.fireReadings} ({sessionStats.firePercentage}%)
+                                        </span>
+                                      </div>
+                                      {selectedSession.mlPredictions && (
+                                        <div className="flex justify-between py-2 border-b border-slate-100">
+                                          <span className="text-slate-600">AI Predictions:</span>
+                                          <span className="font-semibold text-purple-600">
+                                            {selectedSession.mlPredictions.length}
+                                          </span>
+                                        </div>
+                                      )}
+                                      {sessionStats.peakFireTime && (
+                                        <div className="flex justify-between py-2">
+                                          <span className="text-slate-600">Peak Fire Activity:</span>
+                                          <span className="font-semibold">{sessionStats.peakFireTime}</span>
+                                        </div>
+                                      )}
                                     </div>
                                   )}
-                                </div>
-                              )}
-                            </CardContent>
-                          </Card>
-                        </div>
-                      </TabsContent>
+                                </CardContent>
+                              </Card>
+                            </div>
+                          </TabsContent>
 
-                      {/* Data Export Tab */}
-                      <TabsContent value="export" className="space-y-6">
-                        <Card className="border-0 shadow-md">
-                          <CardHeader>
-                            <CardTitle className="text-lg">CSV Data Export</CardTitle>
-                            <p className="text-sm text-slate-600">
-                              Export sensor data in CSV format with all 7 required columns for your dataset.
-                            </p>
-                          </CardHeader>
-                          <CardContent>
-                            <div className="space-y-4">
-                              <div className="flex gap-3">
-                                <Button 
-                                  onClick={exportSessionData}
-                                  className="bg-green-600 hover:bg-green-700 text-white"
-                                >
-                                  <Download className="h-4 w-4 mr-2" />
-                                  Export This Session (CSV)
-                                </Button>
-                                <Button 
-                                  onClick={exportAllSessions}
-                                  variant="outline"
-                                  className="border-blue-600 text-blue-600 hover:bg-blue-50"
-                                >
-                                  <Download className="h-4 w-4 mr-2" />
-                                  Export All Sessions
-                                </Button>
-                              </div>
+                          {/* Data Export Tab */}
+                          <TabsContent value="export" className="space-y-6">
+                            <Card className="border-0 shadow-md">
+                              <CardHeader>
+                                <CardTitle className="text-lg">Data Export</CardTitle>
+                                <p className="text-sm text-slate-600">
+                                  CSV and Excel use the 7 dataset columns. JSON keeps every field, and GeoJSON or KML
+                                  map the fire points for QGIS and Google Earth.
+                                </p>
+                              </CardHeader>
+                              <CardContent>
+                                <div className="space-y-4">
+                                  <div className="flex gap-3">
+                                    <ExportMenu
+                                      label="Export This Session"
+                                      variant="default"
+                                      getDataset={exportSessionDataset}
+                                      className="bg-green-600 hover:bg-green-700 text-white"
+                                    />
+                                    <ExportMenu
+                                      label="Export All Sessions"
+                                      getDataset={exportAllSessionsDataset}
+                                      className="border-blue-600 text-blue-600 hover:bg-blue-50"
+                                    />
+                                  </div>
 
-                              {/* CSV Preview */}
-                              {csvPreview && (
-                                <div>
-                                  <h4 className="font-semibold text-slate-800 mb-3">Data Preview (First 5 rows):</h4>
-                                  <div className="border border-slate-200 rounded-lg overflow-hidden">
-                                    <table className="w-full text-sm">
-                                      <thead>
-                                        <tr className="bg-slate-50 border-b border-slate-200">
-                                          {Object.keys(csvPreview[0]).map((header) => (
-                                            <th key={header} className="text-left p-3 font-semibold text-slate-700">
-                                              {header}
-                                            </th>
-                                          ))}
-                                        </tr>
-                                      </thead>
-                                      <tbody>
-                                        {csvPreview.map((row, index) => (
-                                          <tr key={index} className="border-b border-slate-100 last:border-b-0">
-                                            {Object.values(row).map((value: any, cellIndex) => (
-                                              <td key={cellIndex} className="p-3 text-slate-600">
-                                                {value}
-                                              </td>
+                                  {/* CSV Preview */}
+                                  {csvPreview && (
+                                    <div>
+                                      <h4 className="font-semibold text-slate-800 mb-3">Data Preview (First 5 rows):</h4>
+                                      <div className="border border-slate-200 rounded-lg overflow-hidden">
+                                        <table className="w-full text-sm">
+                                          <thead>
+                                            <tr className="bg-slate-50 border-b border-slate-200">
+                                              {Object.keys(csvPreview[0]).map((header) => (
+                                                <th key={header} className="text-left p-3 font-semibold text-slate-700">
+                                                  {header}
+                                                </th>
+                                              ))}
+                                            </tr>
+                                          </thead>
+                                          <tbody>
+                                            {csvPreview.map((row, index) => (
+                                              <tr key={index} className="border-b border-slate-100 last:border-b-0">
+                                                {Object.values(row).map((value: any, cellIndex) => (
+                                                  <td key={cellIndex} className="p-3 text-slate-600">
+                                                    {value}
+                                                  </td>
+                                                ))}
+                                              </tr>
                                             ))}
-                                          </tr>
-                                        ))}
-                                      </tbody>
-                                    </table>
-                                  </div>
-                                  <p className="text-xs text-slate-500 mt-2">
-                                    The exported CSV will include all {selectedSession.readings.length} readings with the 7 required columns.
-                                  </p>
-                                </div>
-                              )}
+                                          </tbody>
+                                        </table>
+                                      </div>
+                                      <p className="text-xs text-slate-500 mt-2">
+                                        The exported CSV will include all {selectedSession.readings.length} readings with the 7 required columns.
+                                      </p>
+                                    </div>
+                                  )}
 
-                              {/* Column Information */}
-                              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                                <h4 className="font-semibold text-blue-800 mb-2">Exported Columns:</h4>
-                                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
-                                  <div className="flex items-center">
-                                    <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
-                                    <span className="text-blue-700">temperature</span>
-                                  </div>
-                                  <div className="flex items-center">
-                                    <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
-                                    <span className="text-blue-700">humidity</span>
-                                  </div>
-                                  <div className="flex items-center">
-                                    <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
-                                    <span className="text-blue-700">smoke</span>
-                                  </div>
-                                  <div className="flex items-center">
-                                    <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
-                                    <span className="text-blue-700">temp_max</span>
-                                  </div>
-                                  <div className="flex items-center">
-                                    <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
-                                    <span className="text-blue-700">temp_min</span>
-                                  </div>
-                                  <div className="flex items-center">
-                                    <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
-                                    <span className="text-blue-700">wind_speed</span>
-                                  </div>
-                                  <div className="flex items-center">
-                                    <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
-                                    <span className="text-blue-700">wind_gust</span>
+                                  {/* Column Information */}
+                                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                                    <h4 className="font-semibold text-blue-800 mb-2">Exported Columns:</h4>
+                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                                      <div className="flex items-center">
+                                        <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
+                                        <span className="text-blue-700">temperature</span>
+                                      </div>
+                                      <div className="flex items-center">
+                                        <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
+                                        <span className="text-blue-700">humidity</span>
+                                      </div>
+                                      <div className="flex items-center">
+                                        <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
+                                        <span className="text-blue-700">smoke</span>
+                                      </div>
+                                      <div className="flex items-center">
+                                        <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
+                                        <span className="text-blue-700">temp_max</span>
+                                      </div>
+                                      <div className="flex items-center">
+                                        <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
+                                        <span className="text-blue-700">temp_min</span>
+                                      </div>
+                                      <div className="flex items-center">
+                                        <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
+                                        <span className="text-blue-700">wind_speed</span>
+                                      </div>
+                                      <div className="flex items-center">
+                                        <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
+                                        <span className="text-blue-700">wind_gust</span>
+                                      </div>
+                                    </div>
                                   </div>
                                 </div>
-                              </div>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      </TabsContent>
-                    </Tabs>
-                  </CardContent>
-                </Card>
-              ) : (
-                <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl p-8 text-center">
-                  <div className="flex flex-col items-center gap-4">
-                    <div className="p-4 bg-slate-100 rounded-2xl">
-                      <AlertTriangle className="w-12 h-12 text-slate-400" />
-                    </div>
-                    <div>
-                      <h2 className="text-xl font-bold text-slate-800 mb-2">Select a Session</h2>
-                      <p className="text-slate-600">
-                        Choose a fire alert session from the list to view detailed analytics and export data.
-                      </p>
-                    </div>
-                  </div>
-                </Card>
-              )}
-            </div>
-          </div>
-        )}
+                              </CardContent>
+                            </Card>
+                          </TabsContent>
+                        </Tabs>
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-xl p-8 text-center">
+                      <div className="flex flex-col items-center gap-4">
+                        <div className="p-4 bg-slate-100 rounded-2xl">
+                          <AlertTriangle className="w-12 h-12 text-slate-400" />
+                        </div>
+                        <div>
+                          <h2 className="text-xl font-bold text-slate-800 mb-2">Select a Session</h2>
+                          <p className="text-slate-600">
+                            Choose a fire alert session from the list to view detailed analytics and export data.
+                          </p>
+                        </div>
+                      </div>
+                    </Card>
+                  )}
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="analytics">
+            <SessionAnalytics />
+          </TabsContent>
+
+          <TabsContent value="digests">
+            <DigestReports />
+          </TabsContent>
+        </Tabs>
 
         {/* Delete Confirmation Dialog */}
         <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
@@ -1137,6 +1178,8 @@ const Reports: React.FC = () => {
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+
+        <ImportDataDialog open={showImportDialog} onOpenChange={setShowImportDialog} />
       </main>
     </div>
   );
@@ -1,60 +1,33 @@
 import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import SensorStats from '@/components/SensorStats';
 import SensorList from '@/components/SensorList';
 import SensorPopup from '@/components/SensorPopup';
-import { getFireAlerts } from '@/api/fireAlerts';
+import ExportMenu from '@/components/ExportMenu';
+import { useSensors } from '@/hooks/use-sensors';
+import { useAuth } from '@/hooks/use-auth';
+import { isSensorOffline } from '@/api/sensorRepository';
+import { sensorExportDataset } from '@/lib/dataExport';
 import { SensorData, SensorStats as SensorStatsType } from '@/types/sensor';
 import { Button } from '@/components/ui/button';
 import { LogOut } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 
-// Convert API data to SensorData format with proper error handling
-const convertApiToSensorData = (apiDevices: any[]): SensorData[] => {
-  if (!apiDevices || !Array.isArray(apiDevices)) return [];
-  
-  return apiDevices.map(device => {
-    // Handle cases where device properties might be missing
-    const deviceId = device.deviceId || device._id || 'unknown';
-    const id = device._id || device.id || `dev-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    return {
-      id: id,
-      deviceId: deviceId,
-      latitude: device.latitude || 0,
-      longitude: device.longitude || 0,
-      humidity: device.humidity || 0,
-      temp: device.temp || 0,
-      smoke: device.smoke || 0,
-      isFire: device.isfire || device.isFire || false,
-      timestamp: device.lastUpdate || device.timestamp || new Date().toISOString(),
-      name: `Sensor ${deviceId}`,
-      status: (device.isfire || device.isFire || device.temp > 35 || device.smoke > 140) ? 'warning' : 'active'
-    };
-  });
-};
-
 const SensorStatus: React.FC = () => {
   const navigate = useNavigate();
+  const { logout } = useAuth();
   const [selectedSensor, setSelectedSensor] = useState<SensorData | null>(null);
   const [isPopupOpen, setIsPopupOpen] = useState(false);
 
-  const { data: apiResponse, isLoading, error } = useQuery({
-    queryKey: ['fireAlerts'],
-    queryFn: getFireAlerts,
-    refetchInterval: 5000,
-  });
-
-  // Extract devices from API response or use empty array
-  const apiDevices = apiResponse && Array.isArray(apiResponse) ? apiResponse : [];
-  const allSensors = convertApiToSensorData(apiDevices);
+  const { data: allSensors = [], isLoading, error } = useSensors();
 
   const stats: SensorStatsType = {
     totalSensors: allSensors.length,
     activeSensors: allSensors.filter(s => s.status === 'active').length,
     fireDetected: allSensors.filter(s => s.isFire).length,
-    warningStatus: allSensors.filter(s => s.status === 'warning').length
+    warningStatus: allSensors.filter(s => s.status === 'warning').length,
+    // Silent fire sensors count too; their status stays on the fire
+    offlineSensors: allSensors.filter(s => isSensorOffline(s.timestamp)).length
   };
 
   const handleSensorClick = (sensor: SensorData) => {
@@ -90,7 +63,13 @@ const SensorStatus: React.FC = () => {
           <Button variant="outline" size="sm" className="border-forest-accent text-forest-primary hover:bg-forest-accent">
             Dashboard
           </Button>
-          <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90">
+          <ExportMenu
+            label="Export Sensors"
+            disabled={allSensors.length === 0}
+            getDataset={() => sensorExportDataset(allSensors)}
+            className="border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white"
+          />
+          <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90" onClick={logout}>
             <LogOut className="w-4 h-4 mr-2" />
             Logout
           </Button>
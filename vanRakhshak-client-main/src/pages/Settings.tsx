@@ -1,9 +1,49 @@
-import React from 'react';
+import React, { useRef } from 'react';
+import { z } from 'zod';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
-import { LogOut } from 'lucide-react';
+import { Download, LogOut, RotateCcw, Upload } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
+import SettingsForm from '@/components/SettingsForm';
+import ThresholdProfilesEditor from '@/components/ThresholdProfilesEditor';
+import { useAuth } from '@/hooks/use-auth';
+import { exportSettingsJson, importSettingsJson, resetSettings } from '@/lib/settings';
 
 const Settings: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { logout } = useAuth();
+
+  const handleExport = () => {
+    const blob = new Blob([exportSettingsJson()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vanrakshak-settings-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      importSettingsJson(await file.text());
+      toast.success(`Settings imported from ${file.name}`);
+    } catch (error) {
+      const issue = error instanceof z.ZodError ? error.issues[0] : null;
+      const message = issue ? `${issue.path.join('.')}: ${issue.message}` : error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Could not import settings: ${message}`);
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Reset all settings, including threshold profiles, to their defaults?')) return;
+    resetSettings();
+    toast.success('Settings reset to defaults');
+  };
+
   return (
     <div className="min-h-screen">
       {/* Header */}
@@ -16,10 +56,23 @@ const Settings: React.FC = () => {
           </div>
         </div>
         <div className="flex items-center gap-4">
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleReset}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
           <Button variant="outline" size="sm" className="border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white">
             Main Site
           </Button>
-          <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90">
+          <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90" onClick={logout}>
             <LogOut className="w-4 h-4 mr-2" />
             Logout
           </Button>
@@ -27,11 +80,9 @@ const Settings: React.FC = () => {
       </header>
 
       {/* Main Content */}
-      <main className="p-6">
-        <div className="glass-card p-6 rounded-lg text-center">
-          <h2 className="text-2xl font-bold text-forest-primary mb-4">Settings Coming Soon</h2>
-          <p className="text-muted-foreground">This feature will be available in the next update.</p>
-        </div>
+      <main className="p-6 space-y-6">
+        <SettingsForm />
+        <ThresholdProfilesEditor />
       </main>
     </div>
   );
@@ -0,0 +1,47 @@
+import type { Role } from '@/lib/auth';
+
+export type IncidentStatus = 'new' | 'acknowledged' | 'crew_dispatched' | 'contained' | 'resolved' | 'false_alarm';
+
+// Who changed an incident; 'system' entries come from automatic detection
+export interface IncidentActor {
+  id: string;
+  name: string;
+  role?: Role;
+}
+
+export type IncidentEventType = 'opened' | 'status_changed' | 'note' | 'sensor_linked' | 'session_linked';
+
+// One audit-trail entry. Incidents are append-only: every change adds an event.
+export interface IncidentEvent {
+  id: string;
+  type: IncidentEventType;
+  at: string;
+  actor: IncidentActor;
+  from?: IncidentStatus;
+  to?: IncidentStatus;
+  note?: string;
+  sensorId?: string;
+  sessionId?: string;
+}
+
+export interface Incident {
+  id: string;
+  title: string;
+  status: IncidentStatus;
+  // Where the first detection came from
+  latitude: number;
+  longitude: number;
+  sensorIds: string[];
+  // FireAlertSession ids recorded by Live Monitoring
+  sessionIds: string[];
+  // Crew assigned when the incident was dispatched
+  crew?: string;
+  // Closing summary for resolved incidents and false alarms
+  outcome?: string;
+  openedAt: string;
+  updatedAt: string;
+  closedAt?: string;
+  events: IncidentEvent[];
+  // Changed on this device and not yet accepted by the backend
+  unsynced?: boolean;
+}
@@ -1,3 +1,14 @@
+// Device telemetry reported alongside readings; every field is optional because
+// older firmware does not send it
+export interface SensorHealth {
+  batteryVoltage?: number;
+  // Signal strength to the mesh hub, dBm
+  rssi?: number;
+  firmwareVersion?: string;
+  lastBoot?: string;
+  faultFlags?: string[];
+}
+
 export interface SensorData {
   id: string;
   deviceId: string;
@@ -10,6 +21,7 @@ export interface SensorData {
   timestamp: string;
   name?: string;
   status?: 'active' | 'inactive' | 'warning';
+  health?: SensorHealth;
 }
 
 export interface SensorStats {
@@ -17,4 +29,19 @@ export interface SensorStats {
   activeSensors: number;
   fireDetected: number;
   warningStatus: number;
-}
\ No newline at end of file
+  offlineSensors: number;
+}
+
+export type FireReportSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// Fire sighting reported manually by a ranger in the field
+export interface FireReport {
+  id: string;
+  latitude: number;
+  longitude: number;
+  severity: FireReportSeverity;
+  note: string;
+  reportedAt: string;
+  // Display name of the signed-in user who filed the report
+  reportedBy?: string;
+}
@@ -0,0 +1,63 @@
+import type { SensorData } from './sensor';
+
+// Weather snapshot attached to a reading when Live Monitoring had one at the time
+export interface ReadingWeather {
+  temp_max: number;
+  temp_min: number;
+  wind_speed: number;
+  wind_gust: number;
+  current_temp: number;
+  feels_like: number;
+  humidity: number;
+  pressure: number;
+  description: string;
+}
+
+export interface SensorReading extends SensorData {
+  weatherData?: ReadingWeather;
+}
+
+export interface MLPrediction {
+  id: string;
+  timestamp: string;
+  input_data: {
+    temperature: number;
+    humidity: number;
+    smoke: number;
+    temp_max: number;
+    temp_min: number;
+    wind_speed: number;
+    wind_gust: number;
+  };
+  prediction: number;
+  level: string;
+  emoji: string;
+  message: string;
+  confidence?: number;
+  probabilities?: Record<string, number>;
+  status: 'processing' | 'completed' | 'failed';
+}
+
+// One continuous period of fire on a device, from the first fire reading to the first clear one
+export interface FireAlertSession {
+  id: string;
+  deviceId: string;
+  startTime: string;
+  endTime: string | null;
+  // Newest first, capped; the min/max stats cover the whole session
+  readings: SensorReading[];
+  mlPredictions: MLPrediction[];
+  maxTemp: number;
+  minTemp: number;
+  avgTemp: number;
+  maxSmoke: number;
+  minSmoke: number;
+  avgSmoke: number;
+  maxHumidity: number;
+  minHumidity: number;
+  avgHumidity: number;
+  // Readings behind the averages, including those capped out of `readings`; absent on older records
+  readingCount?: number;
+  status: 'active' | 'completed';
+  mlConfirmed: boolean;
+}
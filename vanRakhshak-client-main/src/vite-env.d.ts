@@ -1 +1,21 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'http' (default) talks to the services below, 'mock' serves scripted data in-process
+  readonly VITE_BACKEND?: 'http' | 'mock';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_ML_API_URL?: string;
+  readonly VITE_OPENWEATHER_API_URL?: string;
+  readonly VITE_OPENWEATHER_API_KEY?: string;
+  readonly VITE_MOCK_RECORDING_URL?: string;
+  // SSE (http/https) or WebSocket (ws/wss) endpoint pushing device updates
+  readonly VITE_ALERT_STREAM_URL?: string;
+  readonly VITE_SENSOR_HEARTBEAT_TIMEOUT_MS?: string;
+  // 'http' (default) signs in against VITE_AUTH_URL, 'stub' uses built-in test accounts
+  readonly VITE_AUTH_PROVIDER?: 'http' | 'stub';
+  readonly VITE_AUTH_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}